@@ -0,0 +1,36 @@
+-- Durable runner command queue (optional Postgres backend for RunnerCommandQueue)
+CREATE TABLE IF NOT EXISTS "runner_command_queue" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "command_id" text NOT NULL UNIQUE,
+  "runner_id" text NOT NULL,
+  "project_id" uuid REFERENCES "projects"("id") ON DELETE CASCADE,
+  "command_type" text NOT NULL,
+  "command" jsonb NOT NULL,
+  "status" text NOT NULL DEFAULT 'queued', -- 'queued', 'sent', 'expired', 'failed', 'dropped', 'cleared'
+  "attempts" integer NOT NULL DEFAULT 0,
+  "max_attempts" integer NOT NULL,
+  "last_error" text,
+  "expires_at" timestamp NOT NULL,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "updated_at" timestamp NOT NULL DEFAULT now(),
+  "sent_at" timestamp
+);
+
+-- Index for replaying queued commands when a runner reconnects
+CREATE INDEX IF NOT EXISTS "runner_command_queue_runner_status_idx" ON "runner_command_queue" ("runner_id", "status");
+CREATE INDEX IF NOT EXISTS "runner_command_queue_project_id_idx" ON "runner_command_queue" ("project_id");
+CREATE INDEX IF NOT EXISTS "runner_command_queue_created_at_idx" ON "runner_command_queue" ("created_at" DESC);
+
+-- Delivery attempt history
+CREATE TABLE IF NOT EXISTS "runner_command_attempts" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "queue_entry_id" uuid NOT NULL REFERENCES "runner_command_queue"("id") ON DELETE CASCADE,
+  "runner_id" text NOT NULL,
+  "attempt" integer NOT NULL,
+  "outcome" text NOT NULL, -- 'sent', 'runner-offline'
+  "error" text,
+  "created_at" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "runner_command_attempts_queue_entry_id_idx" ON "runner_command_attempts" ("queue_entry_id");
+CREATE INDEX IF NOT EXISTS "runner_command_attempts_created_at_idx" ON "runner_command_attempts" ("created_at" DESC);
@@ -0,0 +1,11 @@
+-- Per-project environment variables (values encrypted at rest by the web app)
+CREATE TABLE IF NOT EXISTS "project_env_vars" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "project_id" uuid NOT NULL REFERENCES "projects"("id") ON DELETE CASCADE,
+  "key" text NOT NULL,
+  "encrypted_value" text NOT NULL,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "updated_at" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "project_env_vars_project_key_unique" ON "project_env_vars" ("project_id", "key");
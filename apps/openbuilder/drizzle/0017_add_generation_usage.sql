@@ -0,0 +1,9 @@
+-- Token and cost usage per build, reported by the runner when the agent finishes
+ALTER TABLE "generation_sessions" ADD COLUMN IF NOT EXISTS "agent_id" text;
+ALTER TABLE "generation_sessions" ADD COLUMN IF NOT EXISTS "model" text;
+ALTER TABLE "generation_sessions" ADD COLUMN IF NOT EXISTS "input_tokens" integer;
+ALTER TABLE "generation_sessions" ADD COLUMN IF NOT EXISTS "output_tokens" integer;
+ALTER TABLE "generation_sessions" ADD COLUMN IF NOT EXISTS "cache_read_tokens" integer;
+ALTER TABLE "generation_sessions" ADD COLUMN IF NOT EXISTS "cache_write_tokens" integer;
+ALTER TABLE "generation_sessions" ADD COLUMN IF NOT EXISTS "cost_usd" double precision;
+ALTER TABLE "generation_sessions" ADD COLUMN IF NOT EXISTS "num_turns" integer;
@@ -0,0 +1,15 @@
+-- Monthly and per-build spending limits ('*' scope_id = default for every user/project)
+CREATE TABLE IF NOT EXISTS "spending_limits" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "scope" text NOT NULL,
+  "scope_id" text NOT NULL,
+  "monthly_cost_usd" double precision,
+  "monthly_tokens" integer,
+  "per_build_cost_usd" double precision,
+  "per_build_tokens" integer,
+  "enforcement" text NOT NULL DEFAULT 'block',
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "updated_at" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "spending_limits_scope_unique" ON "spending_limits" ("scope", "scope_id");
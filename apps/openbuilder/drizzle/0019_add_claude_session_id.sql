@@ -0,0 +1,2 @@
+-- Claude SDK session of the latest build, resumed by follow-up builds
+ALTER TABLE "projects" ADD COLUMN IF NOT EXISTS "claude_session_id" text;
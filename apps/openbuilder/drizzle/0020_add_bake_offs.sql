@@ -0,0 +1,15 @@
+-- Bake-offs: one prompt built by several models as sibling projects
+CREATE TABLE IF NOT EXISTS "bake_offs" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" uuid REFERENCES "users"("id") ON DELETE SET NULL,
+  "name" text NOT NULL,
+  "prompt" text NOT NULL,
+  "status" text NOT NULL DEFAULT 'building',
+  "winner_project_id" uuid,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "updated_at" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "bake_offs_user_id_idx" ON "bake_offs" ("user_id");
+
+ALTER TABLE "projects" ADD COLUMN IF NOT EXISTS "bake_off_id" uuid REFERENCES "bake_offs"("id") ON DELETE SET NULL;
@@ -0,0 +1,20 @@
+-- Screenshots of the running app captured after each build
+CREATE TABLE IF NOT EXISTS "build_screenshots" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "session_id" uuid NOT NULL REFERENCES "generation_sessions"("id") ON DELETE CASCADE,
+  "project_id" uuid NOT NULL REFERENCES "projects"("id") ON DELETE CASCADE,
+  "route" text NOT NULL,
+  "viewport" text NOT NULL,
+  "width" integer NOT NULL,
+  "height" integer NOT NULL,
+  "image" text,
+  "diff_image" text,
+  "blank" boolean NOT NULL DEFAULT false,
+  "overlay" text,
+  "diff_ratio" double precision,
+  "error" text,
+  "created_at" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "build_screenshots_session_id_idx" ON "build_screenshots" ("session_id");
+CREATE INDEX IF NOT EXISTS "build_screenshots_project_id_idx" ON "build_screenshots" ("project_id");
@@ -0,0 +1,16 @@
+-- Personal API tokens for the public REST API
+CREATE TABLE IF NOT EXISTS "api_tokens" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" uuid NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "name" text NOT NULL,
+  "token_hash" text NOT NULL,
+  "token_prefix" text NOT NULL,
+  "scopes" jsonb NOT NULL,
+  "last_used_at" timestamp,
+  "expires_at" timestamp,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "revoked_at" timestamp
+);
+
+CREATE INDEX IF NOT EXISTS "api_tokens_user_id_idx" ON "api_tokens" ("user_id");
+CREATE UNIQUE INDEX IF NOT EXISTS "api_tokens_token_hash_idx" ON "api_tokens" ("token_hash");
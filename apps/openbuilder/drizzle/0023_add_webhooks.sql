@@ -0,0 +1,36 @@
+-- Outbound webhooks for project and build lifecycle events
+CREATE TABLE IF NOT EXISTS "webhooks" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" uuid REFERENCES "users"("id") ON DELETE CASCADE,
+  "project_id" uuid REFERENCES "projects"("id") ON DELETE CASCADE,
+  "url" text NOT NULL,
+  "secret" text NOT NULL,
+  "events" jsonb NOT NULL,
+  "active" boolean NOT NULL DEFAULT true,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "updated_at" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "webhooks_user_id_idx" ON "webhooks" ("user_id");
+CREATE INDEX IF NOT EXISTS "webhooks_project_id_idx" ON "webhooks" ("project_id");
+
+-- Delivery log: one row per event sent to a webhook
+CREATE TABLE IF NOT EXISTS "webhook_deliveries" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "webhook_id" uuid NOT NULL REFERENCES "webhooks"("id") ON DELETE CASCADE,
+  "project_id" uuid REFERENCES "projects"("id") ON DELETE SET NULL,
+  "event" text NOT NULL,
+  "payload" jsonb NOT NULL,
+  "status" text NOT NULL DEFAULT 'pending',
+  "attempts" integer NOT NULL DEFAULT 0,
+  "response_status" integer,
+  "response_body" text,
+  "error" text,
+  "duration_ms" integer,
+  "next_attempt_at" timestamp,
+  "redelivery_of" uuid,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "delivered_at" timestamp
+);
+
+CREATE INDEX IF NOT EXISTS "webhook_deliveries_webhook_created_idx" ON "webhook_deliveries" ("webhook_id", "created_at");
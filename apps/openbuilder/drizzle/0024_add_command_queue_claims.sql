@@ -0,0 +1,4 @@
+-- Let each web-app instance claim the queued runner commands it holds, so
+-- instances starting up don't replay commands another live instance will send
+ALTER TABLE "runner_command_queue" ADD COLUMN IF NOT EXISTS "claimed_by" text;
+ALTER TABLE "runner_command_queue" ADD COLUMN IF NOT EXISTS "claimed_at" timestamp;
@@ -0,0 +1,2 @@
+-- Webhook receivers' response bodies are no longer stored - only the status code
+ALTER TABLE "webhook_deliveries" DROP COLUMN IF EXISTS "response_body";
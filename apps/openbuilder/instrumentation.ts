@@ -33,6 +33,15 @@ export async function register() {
     } catch (error) {
       console.error('[instrumentation] Failed to cleanup abandoned ports:', error);
     }
+
+    // Reschedule webhook retries that were waiting when the server stopped
+    try {
+      const { resumePendingWebhookDeliveries } = await import('./src/lib/webhooks');
+      const count = await resumePendingWebhookDeliveries();
+      console.log(`[instrumentation] ✅ Resumed ${count} pending webhook deliveries`);
+    } catch (error) {
+      console.error('[instrumentation] Failed to resume webhook deliveries:', error);
+    }
   }
 
   if (process.env.NEXT_RUNTIME === 'edge') {
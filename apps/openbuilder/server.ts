@@ -28,6 +28,7 @@ import { projects } from '@openbuilder/agent-core/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import { projectEvents } from './src/lib/project-events';
 import { enrichProjectWithRunnerStatus } from './src/lib/runner-utils';
+import { restoreQueuedCommandEnv } from './src/lib/project-env';
 
 const dev = process.env.NODE_ENV !== 'production';
 const hostname = process.env.HOSTNAME || 'localhost';
@@ -73,7 +74,8 @@ app.prepare().then(() => {
 
   // Initialize WebSocket server on the same HTTP server
   // This sets up both /ws (frontend) and /ws/runner (runner) WebSocket servers
-  buildWebSocketServer.initialize(server, '/ws');
+  // Replayed dev server starts get their env rebuilt - the durable queue never stores it
+  buildWebSocketServer.initialize(server, '/ws', { restoreQueuedCommand: restoreQueuedCommandEnv });
 
   // Register callback for runner status changes to update UI in real-time
   onRunnerStatusChange(async (runnerId, connected, affectedProjectIds) => {
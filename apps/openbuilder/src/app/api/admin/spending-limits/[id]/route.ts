@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin, handleAuthError } from '@/lib/auth-helpers';
+import { deleteSpendingLimit } from '@/lib/spending-limits';
+
+/**
+ * DELETE /api/admin/spending-limits/:id
+ * Remove a limit - the scope falls back to the default limit (admins only)
+ */
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAdmin();
+    const { id } = await params;
+
+    const deleted = await deleteSpendingLimit(id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Limit not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
+    console.error('Failed to delete spending limit:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to delete spending limit',
+    }, { status: 500 });
+  }
+}
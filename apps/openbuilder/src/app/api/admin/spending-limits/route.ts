@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin, handleAuthError } from '@/lib/auth-helpers';
+import {
+  listSpendingLimits,
+  setSpendingLimit,
+  validateSpendingLimit,
+  type SpendingLimitInput,
+} from '@/lib/spending-limits';
+
+/**
+ * GET /api/admin/spending-limits
+ * List all spending limits (admins only)
+ */
+export async function GET() {
+  try {
+    await requireAdmin();
+
+    const limits = await listSpendingLimits();
+    return NextResponse.json({ limits });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
+    console.error('Failed to list spending limits:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to list spending limits',
+    }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/admin/spending-limits
+ * Create or replace the limit of a user or project (admins only)
+ * Body: { scope: 'user' | 'project', scopeId: string | '*', monthlyCostUsd, monthlyTokens,
+ *         perBuildCostUsd, perBuildTokens, enforcement?: 'block' | 'warn' }
+ * Limits left out or null are not enforced.
+ */
+export async function PUT(req: Request) {
+  try {
+    await requireAdmin();
+
+    const body = await req.json().catch(() => null) as Partial<SpendingLimitInput> | null;
+    const validationError = validateSpendingLimit(body);
+    if (validationError || !body) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const limit = await setSpendingLimit({
+      scope: body.scope!,
+      scopeId: body.scopeId!,
+      monthlyCostUsd: body.monthlyCostUsd ?? null,
+      monthlyTokens: body.monthlyTokens ?? null,
+      perBuildCostUsd: body.perBuildCostUsd ?? null,
+      perBuildTokens: body.perBuildTokens ?? null,
+      enforcement: body.enforcement ?? 'block',
+    });
+    return NextResponse.json({ limit });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
+    console.error('Failed to save spending limit:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to save spending limit',
+    }, { status: 500 });
+  }
+}
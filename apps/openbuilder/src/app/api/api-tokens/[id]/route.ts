@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@openbuilder/agent-core";
+import { apiTokens } from "@openbuilder/agent-core/lib/db/schema";
+import { eq, and, isNull } from "drizzle-orm";
+import {
+  requireAuth,
+  isLocalMode,
+  handleAuthError,
+  AuthError,
+} from "@/lib/auth-helpers";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * DELETE /api/api-tokens/[id]
+ * Revoke an API token (soft delete)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    // Local mode doesn't have API tokens
+    if (isLocalMode()) {
+      return NextResponse.json(
+        { error: "API tokens not available in local mode" },
+        { status: 400 }
+      );
+    }
+
+    const session = await requireAuth();
+    const userId = session.user.id;
+    const { id: tokenId } = await params;
+
+    // Find the token and verify ownership
+    const existingToken = await db.query.apiTokens.findFirst({
+      where: and(
+        eq(apiTokens.id, tokenId),
+        eq(apiTokens.userId, userId),
+        isNull(apiTokens.revokedAt)
+      ),
+    });
+
+    if (!existingToken) {
+      throw new AuthError("Token not found", 404);
+    }
+
+    // Soft delete by setting revokedAt
+    await db
+      .update(apiTokens)
+      .set({ revokedAt: new Date() })
+      .where(eq(apiTokens.id, tokenId));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleAuthError(error);
+  }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@openbuilder/agent-core";
+import { apiTokens } from "@openbuilder/agent-core/lib/db/schema";
+import { eq, isNull, and } from "drizzle-orm";
+import {
+  requireAuth,
+  isLocalMode,
+  generateApiToken,
+  hashRunnerKey,
+  getKeyPrefix,
+  handleAuthError,
+  AuthError,
+} from "@/lib/auth-helpers";
+import { isApiTokenScope } from "@/lib/api-token-scopes";
+
+const MAX_EXPIRY_DAYS = 365;
+
+/**
+ * GET /api/api-tokens
+ * List all active API tokens for the authenticated user
+ */
+export async function GET() {
+  try {
+    // Local mode doesn't need API tokens - the API is open
+    if (isLocalMode()) {
+      return NextResponse.json({ tokens: [] });
+    }
+
+    const session = await requireAuth();
+    const userId = session.user.id;
+
+    const tokens = await db
+      .select({
+        id: apiTokens.id,
+        name: apiTokens.name,
+        tokenPrefix: apiTokens.tokenPrefix,
+        scopes: apiTokens.scopes,
+        lastUsedAt: apiTokens.lastUsedAt,
+        expiresAt: apiTokens.expiresAt,
+        createdAt: apiTokens.createdAt,
+      })
+      .from(apiTokens)
+      .where(
+        and(
+          eq(apiTokens.userId, userId),
+          isNull(apiTokens.revokedAt)
+        )
+      )
+      .orderBy(apiTokens.createdAt);
+
+    return NextResponse.json({ tokens });
+  } catch (error) {
+    return handleAuthError(error);
+  }
+}
+
+/**
+ * POST /api/api-tokens
+ * Create a new API token
+ * Body: { name, scopes: string[], expiresInDays?: number }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Local mode doesn't need API tokens - the API is open
+    if (isLocalMode()) {
+      return NextResponse.json(
+        { error: "API tokens not needed in local mode" },
+        { status: 400 }
+      );
+    }
+
+    const session = await requireAuth();
+    const userId = session.user.id;
+
+    const body = await request.json();
+    const name = body.name?.trim();
+    const scopes: unknown = body.scopes;
+    const expiresInDays: unknown = body.expiresInDays;
+
+    if (!name) {
+      throw new AuthError("Token name is required", 400);
+    }
+
+    if (name.length > 100) {
+      throw new AuthError("Token name must be 100 characters or less", 400);
+    }
+
+    if (!Array.isArray(scopes) || scopes.length === 0) {
+      throw new AuthError("Select at least one scope", 400);
+    }
+
+    const invalidScope = scopes.find((scope) => !isApiTokenScope(scope));
+    if (invalidScope !== undefined) {
+      throw new AuthError(`Unknown scope: ${String(invalidScope)}`, 400);
+    }
+
+    if (
+      expiresInDays !== undefined &&
+      expiresInDays !== null &&
+      (typeof expiresInDays !== "number" || !Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_EXPIRY_DAYS)
+    ) {
+      throw new AuthError(`Expiry must be between 1 and ${MAX_EXPIRY_DAYS} days`, 400);
+    }
+
+    // Generate a new token
+    const fullToken = generateApiToken();
+    const tokenHash = hashRunnerKey(fullToken);
+    const tokenPrefix = getKeyPrefix(fullToken);
+    const expiresAt = typeof expiresInDays === "number"
+      ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+      : null;
+
+    // Save to database
+    await db.insert(apiTokens).values({
+      userId,
+      name,
+      tokenHash,
+      tokenPrefix,
+      scopes: Array.from(new Set(scopes as string[])),
+      expiresAt,
+    });
+
+    // Return the full token (only shown once)
+    return NextResponse.json({
+      token: fullToken,
+      tokenPrefix,
+      message: "Token created. Copy it now - it won't be shown again.",
+    });
+  } catch (error) {
+    return handleAuthError(error);
+  }
+}
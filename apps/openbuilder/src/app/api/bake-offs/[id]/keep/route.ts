@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { handleAuthError } from '@/lib/auth-helpers';
+import { keepBakeOffProject, requireBakeOffOwnership } from '@/lib/bake-offs';
+
+/**
+ * POST /api/bake-offs/:id/keep
+ * Promote one sibling to the bake-off's project and delete the others (files included)
+ * Body: { projectId: string }
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { bakeOff } = await requireBakeOffOwnership(id);
+
+    const { projectId } = await req.json().catch(() => ({})) as { projectId?: string };
+    if (!projectId) {
+      return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
+    }
+    if (bakeOff.status === 'decided') {
+      return NextResponse.json({ error: 'A winner was already picked' }, { status: 409 });
+    }
+
+    const result = await keepBakeOffProject(bakeOff, projectId);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ project: result.winner, deletedProjectIds: result.deletedProjectIds });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
+    console.error('Failed to keep bake-off project:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to keep project',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { handleAuthError } from '@/lib/auth-helpers';
+import { getBakeOffComparison, requireBakeOffOwnership } from '@/lib/bake-offs';
+
+/**
+ * GET /api/bake-offs/:id
+ * The bake-off's sibling projects side by side, each with its latest build's
+ * status, duration, cost and todo counts
+ */
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { bakeOff } = await requireBakeOffOwnership(id);
+
+    const comparison = await getBakeOffComparison(bakeOff);
+    return NextResponse.json({ bakeOff: comparison });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
+    console.error('Failed to load bake-off:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to load bake-off',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { findTagDefinition } from '@openbuilder/agent-core/config/tags';
+import { listRunnerConnections } from '@openbuilder/agent-core/lib/runner/broker-state';
+import { getAgentModelOptions } from '@openbuilder/agent-core/lib/tags/model-parser';
+import type { SerializedTag } from '@openbuilder/agent-core/lib/tags/serialization';
+import { requireAuth, isLocalMode, handleAuthError } from '@/lib/auth-helpers';
+import {
+  createBakeOff,
+  MAX_BAKE_OFF_MODELS,
+  MIN_BAKE_OFF_MODELS,
+  type BakeOffAnalysis,
+} from '@/lib/bake-offs';
+
+interface CreateBakeOffRequest {
+  prompt?: string;
+  analysis?: BakeOffAnalysis;
+  models?: string[];
+  tags?: SerializedTag[];
+  runnerId?: string | null;
+}
+
+/**
+ * POST /api/bake-offs
+ * Create a bake-off: one sibling project per model, named from the runner analysis.
+ * Body: { prompt, analysis: { slug, friendlyName, ... }, models: string[] (model tag values), tags?, runnerId? }
+ * The builds are dispatched by the client through /api/projects/:id/build.
+ */
+export async function POST(req: Request) {
+  try {
+    const session = await requireAuth();
+
+    const body = await req.json().catch(() => null) as CreateBakeOffRequest | null;
+    if (!body?.prompt || !body.analysis?.slug || !body.analysis.friendlyName) {
+      return NextResponse.json({ error: 'prompt and analysis (slug, friendlyName) are required' }, { status: 400 });
+    }
+    if (!/^[a-z0-9-]+$/.test(body.analysis.slug)) {
+      return NextResponse.json({ error: 'Invalid slug format' }, { status: 400 });
+    }
+
+    const models = [...new Set(body.models ?? [])];
+    if (models.length < MIN_BAKE_OFF_MODELS || models.length > MAX_BAKE_OFF_MODELS) {
+      return NextResponse.json({
+        error: `Pick between ${MIN_BAKE_OFF_MODELS} and ${MAX_BAKE_OFF_MODELS} different models`,
+      }, { status: 400 });
+    }
+
+    // Built-in models plus the agents runners advertise
+    const connections = await listRunnerConnections();
+    const knownModels = new Set([
+      ...(findTagDefinition('model')?.options ?? []).map((option) => option.value),
+      ...getAgentModelOptions(connections.flatMap((connection) => connection.status?.agents ?? [])).map((option) => option.value),
+    ]);
+    const unknownModel = models.find((model) => !knownModels.has(model));
+    if (unknownModel) {
+      return NextResponse.json({ error: `Unknown model: ${unknownModel}` }, { status: 400 });
+    }
+
+    const result = await createBakeOff({
+      userId: isLocalMode() ? null : session.user.id,
+      prompt: body.prompt,
+      analysis: body.analysis,
+      models,
+      tags: Array.isArray(body.tags) ? body.tags : [],
+      runnerId: body.runnerId ?? null,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
+    console.error('Failed to create bake-off:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to create bake-off',
+    }, { status: 500 });
+  }
+}
@@ -25,6 +25,7 @@ import { eq, and, sql } from 'drizzle-orm';
 import { buildWebSocketServer } from '@openbuilder/agent-core/lib/websocket/server';
 import * as Sentry from '@sentry/nextjs';
 import { authenticateRunnerKey, extractRunnerKey, isLocalMode } from '@/lib/auth-helpers';
+import { dispatchWebhookEvent } from '@/lib/webhooks';
 
 const SHARED_SECRET = process.env.RUNNER_SHARED_SECRET;
 
@@ -354,6 +355,7 @@ export async function POST(request: Request) {
         // WebSocket: Broadcast build started
         console.log(`[build-events] 📡 Broadcasting build-started (projectId=${projectId}, sessionId=${sessionId})`);
         buildWebSocketServer.broadcastBuildStarted(projectId, sessionId, buildId);
+        dispatchWebhookEvent(projectId, 'build-started', { sessionId, buildId, commandId });
         break;
       }
 
@@ -1,7 +1,14 @@
-import { createMcpHandler } from "mcp-handler";
+import { createMcpHandler, withMcpAuth } from "mcp-handler";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
 import { z } from "zod";
 import { readFile } from "fs/promises";
 import { join } from "path";
+import { authenticateApiToken, isLocalMode, LOCAL_USER } from "@/lib/auth-helpers";
+import { API_TOKEN_SCOPES } from "@/lib/api-token-scopes";
+import { registerProjectTools, type McpAuthExtra } from "@/lib/mcp/project-tools";
+
+// Long enough for create-project's analysis and wait-for-build
+export const maxDuration = 300;
 
 // Template interfaces
 interface Template {
@@ -368,14 +375,54 @@ const handler = createMcpHandler(
         };
       }
     );
+
+    // Tools 4+: list, create and build projects, files and dev servers
+    registerProjectTools(server);
   },
   {},
   {
     basePath: "/api/mcp",
     verboseLogs: true,
-    maxDuration: 60,
+    maxDuration,
   }
 );
 
-export { handler as GET, handler as POST };
+/**
+ * Verify the bearer token as a personal API token
+ * Local mode needs no token and gets every scope, like the REST API.
+ */
+async function verifyToken(_req: Request, bearerToken?: string): Promise<AuthInfo | undefined> {
+  if (isLocalMode()) {
+    return {
+      token: "",
+      clientId: "local",
+      scopes: API_TOKEN_SCOPES.map((scope) => scope.id),
+      extra: { userId: LOCAL_USER.id } satisfies McpAuthExtra,
+    };
+  }
+
+  if (!bearerToken) {
+    return undefined;
+  }
+
+  const result = await authenticateApiToken(bearerToken);
+  if (!result) {
+    return undefined;
+  }
+
+  return {
+    token: bearerToken,
+    clientId: result.tokenId,
+    scopes: result.scopes,
+    extra: { userId: result.userId } satisfies McpAuthExtra,
+  };
+}
+
+// Optional so the template and todo helpers keep working without a token;
+// the project tools refuse calls that arrive without authInfo
+const authHandler = withMcpAuth(handler, verifyToken, {
+  required: false,
+});
+
+export { authHandler as GET, authHandler as POST };
 
@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/openapi';
+
+// GET /api/openapi - OpenAPI description of the public REST API
+export async function GET(req: Request) {
+  const { origin } = new URL(req.url);
+  return NextResponse.json(buildOpenApiDocument(origin));
+}
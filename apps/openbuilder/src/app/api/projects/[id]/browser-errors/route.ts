@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { and, eq } from 'drizzle-orm';
+import { db } from '@openbuilder/agent-core/lib/db/client';
+import { generationSessions } from '@openbuilder/agent-core/lib/db/schema';
+import type { BrowserError } from '@openbuilder/agent-core/lib/selection/injector';
+import { requireProjectOwnership, handleAuthError } from '@/lib/auth-helpers';
+import { triggerAutoFix } from '@/lib/auto-fix';
+
+const MAX_ERRORS = 10;
+
+function formatBrowserError(error: BrowserError): string {
+  const location = error.source
+    ? ` (${error.source}${error.line ? `:${error.line}${error.column ? `:${error.column}` : ''}` : ''})`
+    : '';
+  return `[${error.kind}] ${error.message}${location}\n  on ${error.url}`;
+}
+
+/**
+ * POST /api/projects/:id/browser-errors
+ * Hand runtime errors captured in the preview to auto-fix
+ * Body: { errors: BrowserError[] }
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Verify user owns this project
+    const { project } = await requireProjectOwnership(id);
+
+    const body = await req.json().catch(() => ({})) as { errors?: BrowserError[] };
+    const errors = Array.isArray(body.errors)
+      ? body.errors.filter((error) => typeof error?.message === 'string').slice(0, MAX_ERRORS)
+      : [];
+    if (errors.length === 0) {
+      return NextResponse.json({ error: 'errors is required' }, { status: 400 });
+    }
+
+    // The running build may already be fixing it - its changes reload the preview.
+    // Runner builds are tracked by their generation session; auto-fix marks the project before its session starts
+    const [activeBuild] = await db.select({ id: generationSessions.id })
+      .from(generationSessions)
+      .where(and(eq(generationSessions.projectId, id), eq(generationSessions.status, 'active')))
+      .limit(1);
+    if (activeBuild || project.status === 'building') {
+      return NextResponse.json({ triggered: false, reason: 'A build is already running' });
+    }
+
+    await triggerAutoFix(id, undefined, errors.map(formatBrowserError).join('\n\n'), 'browser');
+    return NextResponse.json({ triggered: true });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
+    console.error('Failed to report browser errors:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to report browser errors',
+    }, { status: 500 });
+  }
+}
@@ -1,9 +1,9 @@
 import { randomUUID } from 'crypto';
 import type { BuildRequest } from '@/types/build';
-import { sendCommandToRunner } from '@openbuilder/agent-core/lib/runner/broker-state';
+import { queueCommandToRunner, selectRunner, listRunnerConnections } from '@openbuilder/agent-core/lib/runner/broker-state';
 import { addRunnerEventSubscriber } from '@openbuilder/agent-core/lib/runner/event-stream';
 import { registerBuild, cleanupStuckBuilds } from '@openbuilder/agent-core/lib/runner/persistent-event-processor';
-import type { RunnerEvent } from '@openbuilder/agent-core/shared/runner/messages';
+import type { RunnerEvent, StartBuildCommand } from '@openbuilder/agent-core/shared/runner/messages';
 import { db } from '@openbuilder/agent-core/lib/db/client';
 import { sql } from 'drizzle-orm';
 import {
@@ -12,13 +12,15 @@ import {
   generationSessions,
 } from '@openbuilder/agent-core/lib/db/schema';
 import { eq } from 'drizzle-orm';
-import { DEFAULT_AGENT_ID, DEFAULT_CLAUDE_MODEL_ID } from '@openbuilder/agent-core/types/agent';
+import { DEFAULT_AGENT_ID, DEFAULT_CLAUDE_MODEL_ID, isBuiltInAgentId } from '@openbuilder/agent-core/types/agent';
 import type { ClaudeModelId } from '@openbuilder/agent-core/types/agent';
-import { parseModelTag } from '@openbuilder/agent-core/lib/tags/model-parser';
+import { getAgentModelOptions, parseModelTag } from '@openbuilder/agent-core/lib/tags/model-parser';
 import { TAG_DEFINITIONS } from '@openbuilder/agent-core/config/tags';
 import { projectEvents } from '@/lib/project-events';
+import { getProjectEnvVarNames } from '@/lib/project-env';
+import { checkBuildBudget } from '@/lib/spending-limits';
 import * as Sentry from '@sentry/nextjs';
-import { requireProjectOwnership, AuthError } from '@/lib/auth-helpers';
+import { requireProjectOwnership, AuthError, isLocalMode } from '@/lib/auth-helpers';
 
 /**
  * NOTE: Template analysis and project name generation are now handled by the runner.
@@ -74,7 +76,7 @@ export async function POST(
           scope.setTag('project.id', id);
           
     // Verify user owns this project
-    const { project } = await requireProjectOwnership(id);
+    const { project, session } = await requireProjectOwnership(id, 'builds:write');
     
     const body = (await req.json()) as BuildRequest;
 
@@ -98,15 +100,35 @@ export async function POST(
       console.error('[build-route] Cleanup failed (non-fatal):', cleanupError);
     }
 
+    // Monthly budgets are enforced here, the per-build cap by the runner
+    const budgetCheck = await checkBuildBudget({
+      userId: isLocalMode() ? null : session.user.id,
+      projectId: id,
+    });
+    if (!budgetCheck.allowed) {
+      return new Response(JSON.stringify({ error: budgetCheck.error, reason: 'budget-exceeded' }), {
+        status: 402,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    for (const warning of budgetCheck.warnings) {
+      console.warn(`[build-route] Budget warning for project ${id}: ${warning}`);
+    }
+
     // PRIORITY 1: Extract model from tags if present (tags take precedence)
     let agentId = body.agent ?? DEFAULT_AGENT_ID;
     let claudeModel: ClaudeModelId = DEFAULT_CLAUDE_MODEL_ID;
+    let agentModel: string | undefined; // Model of a third-party agent registered on a runner
 
     if (body.tags && body.tags.length > 0) {
       const modelTag = body.tags.find(t => t.key === 'model');
       if (modelTag) {
-        const parsed = parseModelTag(modelTag.value);
-        agentId = parsed.agent; // 'claude-code' or 'openai-codex'
+        // Runners advertise their registered agents in runner-status heartbeats
+        const connections = await listRunnerConnections();
+        const agentModelOptions = getAgentModelOptions(connections.flatMap((connection) => connection.status?.agents ?? []));
+        const parsed = parseModelTag(modelTag.value, agentModelOptions);
+        agentId = parsed.agent; // 'claude-code', 'openai-codex' or a registered agent
+        agentModel = parsed.model;
         if (agentId === 'claude-code' && parsed.claudeModel) {
           claudeModel = parsed.claudeModel as ClaudeModelId;
         }
@@ -121,15 +143,42 @@ export async function POST(
     }
 
     // PRIORITY 2: Extract runner from tags if present (tags take precedence)
-    let runnerId = body.runnerId || process.env.RUNNER_DEFAULT_ID || 'default';
+    let preferredRunnerId = body.runnerId || process.env.RUNNER_DEFAULT_ID || null;
     if (body.tags && body.tags.length > 0) {
       const runnerTag = body.tags.find(t => t.key === 'runner');
       if (runnerTag) {
-        runnerId = runnerTag.value;
-        console.log('[build-route] ✓ Runner enforced from tags:', runnerId);
+        preferredRunnerId = runnerTag.value;
+        console.log('[build-route] ✓ Runner requested from tags:', preferredRunnerId);
       }
     }
 
+    // Schedule the build: projects that already have files stay on their runner,
+    // new projects go to the requested runner or fail over to the least loaded one
+    const hasWorkspace = project.status !== 'pending';
+    const schedulerUserId = isLocalMode() ? undefined : session.user.id;
+    const selection = await selectRunner({
+      userId: schedulerUserId,
+      projectRunnerId: project.runnerId,
+      hasWorkspace,
+      preferredRunnerId,
+      agentId,
+    });
+
+    if (!selection) {
+      // Registered agents narrow the choice to runners that advertise them
+      const registeredAgent = !isBuiltInAgentId(agentId);
+      const error = hasWorkspace && project.runnerId
+        ? `Runner '${project.runnerId}' that holds this project's files is not connected${registeredAgent ? ` or doesn't have agent '${agentId}'` : ''}`
+        : registeredAgent ? `No connected runner has agent '${agentId}'` : 'No runners connected';
+      return new Response(JSON.stringify({ error }), {
+        status: 503,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const runnerId = selection.runnerId;
+    console.log(`[build-route] ✓ Runner scheduled: ${runnerId} (${selection.reason})`);
+
     console.log('[build-route] Using agent for build:', agentId);
     if (agentId === 'claude-code') {
       console.log('[build-route] Claude model selected:', claudeModel);
@@ -213,8 +262,9 @@ export async function POST(
     // User message already saved by frontend via TanStack DB
     // Skip duplicate save here (hybrid approach - frontend saves user messages)
 
-    // Update project with runnerId if not already set (for existing projects)
-    if (!project.runnerId) {
+    // Update project with runnerId if not already set (for existing projects),
+    // or if a new project failed over to a different runner
+    if (project.runnerId !== runnerId) {
       await db.update(projects)
         .set({ runnerId: runnerId })
         .where(eq(projects.id, id));
@@ -512,13 +562,17 @@ export async function POST(
       console.log('[build-route] 📤 No template metadata - runner will auto-select');
     }
 
-    await sendCommandToRunner(runnerId, {
+    // The agent learns which variables exist so it can reference them, never their values
+    const envVarNames = await getProjectEnvVarNames(id);
+
+    const startBuildCommand: StartBuildCommand = {
       id: commandId,
       type: 'start-build',
       projectId: id,
       timestamp: new Date().toISOString(),
       payload: {
         sessionId, // Pass sessionId to runner for event correlation
+        buildId, // Runner snapshots the workspace under this ID before building
         operationType: body.operationType,
         prompt: body.prompt,
         messageParts: body.messageParts,
@@ -532,11 +586,43 @@ export async function POST(
         tags: body.tags,
         agent: agentId,
         claudeModel: agentId === 'claude-code' ? claudeModel : undefined,
+        agentModel,
         template: templateMetadata,
         codexThreadId: body.codexThreadId,
+        // Follow-ups continue the project's Claude session; initial builds start a new one
+        claudeSessionId:
+          agentId === 'claude-code' && (body.operationType === 'enhancement' || body.operationType === 'focused-edit')
+            ? project.claudeSessionId ?? undefined
+            : undefined,
         conversationHistory: conversationHistory.length > 0 ? conversationHistory : undefined,
+        verifyBuild: body.verifyBuild,
+        envVarNames: envVarNames.length > 0 ? envVarNames : undefined,
+        budget: budgetCheck.budget,
       },
-    });
+    };
+
+    if (hasWorkspace) {
+      // The files live on this runner, so the build waits for it rather than failing over
+      queueCommandToRunner(runnerId, startBuildCommand);
+    } else {
+      // New project - nothing on disk yet, so if the runner drops before the build
+      // is delivered it can move to another runner
+      queueCommandToRunner(runnerId, startBuildCommand, {
+        failover: true,
+        userId: schedulerUserId,
+        onReassigned: (newRunnerId) => {
+          console.log(`[build-route] ↪️ Build ${commandId} failed over to runner ${newRunnerId}`);
+          db.update(projects)
+            .set({ runnerId: newRunnerId })
+            .where(eq(projects.id, id))
+            .returning()
+            .then(([updated]) => {
+              if (updated) projectEvents.emitProjectUpdate(id, updated);
+            })
+            .catch((error) => console.error('[build-route] Failed to record failover runner:', error));
+        },
+      });
+    }
 
     return new Response(stream, {
       headers: {
@@ -544,6 +630,10 @@ export async function POST(
         'Cache-Control': 'no-cache',
         Connection: 'keep-alive',
         'Transfer-Encoding': 'chunked',
+        ...(budgetCheck.warnings.length > 0 && {
+          // Header values must be ASCII - the client decodes this
+          'X-Budget-Warning': encodeURIComponent(budgetCheck.warnings.join(' • ')),
+        }),
       },
     });
         } catch (error) {
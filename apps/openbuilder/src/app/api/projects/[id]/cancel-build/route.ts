@@ -1,9 +1,9 @@
 import { randomUUID } from 'crypto';
-import { sendCommandToRunner } from '@openbuilder/agent-core/lib/runner/broker-state';
+import { queueCommandToRunner } from '@openbuilder/agent-core/lib/runner/broker-state';
 import { db } from '@openbuilder/agent-core/lib/db/client';
 import { generationSessions } from '@openbuilder/agent-core/lib/db/schema';
 import { eq, and } from 'drizzle-orm';
-import { requireProjectOwnership } from '@/lib/auth-helpers';
+import { requireProjectOwnership, handleAuthError } from '@/lib/auth-helpers';
 import { buildWebSocketServer } from '@openbuilder/agent-core/lib/websocket/server';
 import type { RunnerCommand } from '@openbuilder/agent-core/shared/runner/messages';
 
@@ -15,7 +15,7 @@ export async function POST(
     const { id } = await params;
 
     // Verify user owns this project
-    const { project } = await requireProjectOwnership(id);
+    const { project } = await requireProjectOwnership(id, 'builds:write');
 
     const body = await req.json().catch(() => ({}));
     const reason = body.reason || 'User cancelled';
@@ -59,15 +59,13 @@ export async function POST(
       },
     } as RunnerCommand;
     
-    let runnerNotified = false;
-    try {
-      await sendCommandToRunner(runnerId, cancelCommand);
-      runnerNotified = true;
+    // If the runner is offline the cancel is queued, so a build that survives the
+    // disconnect is still stopped when it reconnects. Either way we mark it cancelled in DB.
+    const { sent: runnerNotified } = queueCommandToRunner(runnerId, cancelCommand);
+    if (runnerNotified) {
       console.log(`[cancel-build] Cancel command sent to runner ${runnerId}`);
-    } catch (err) {
-      // Runner not connected - we'll still mark as cancelled in DB
-      // The build process will fail when it tries to report progress
-      console.log('[cancel-build] Runner not connected, marking session as cancelled directly:', err);
+    } else {
+      console.log(`[cancel-build] Runner ${runnerId} not connected, cancel queued and session marked cancelled directly`);
     }
 
     // Update session status in database - only if still active
@@ -113,6 +111,9 @@ export async function POST(
       headers: { 'Content-Type': 'application/json' },
     });
   } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
     console.error('[cancel-build] Error:', error);
     return new Response(JSON.stringify({ 
       error: error instanceof Error ? error.message : 'Failed to cancel build' 
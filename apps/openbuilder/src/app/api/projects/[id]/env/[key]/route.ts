@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { requireProjectOwnership, handleAuthError } from '@/lib/auth-helpers';
+import { deleteProjectEnvVar, setProjectEnvVar, validateProjectEnvVar } from '@/lib/project-env';
+
+/**
+ * PUT /api/projects/:id/env/:key
+ * Set a variable's value (created if it doesn't exist yet)
+ * Body: { value: string }
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ id: string; key: string }> }
+) {
+  try {
+    const { id, key } = await params;
+
+    // Verify user owns this project
+    await requireProjectOwnership(id);
+
+    const body = await req.json().catch(() => ({})) as { value?: unknown };
+    const validationError = validateProjectEnvVar(key, body.value ?? '');
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const variable = await setProjectEnvVar(id, key, (body.value as string | undefined) ?? '');
+    return NextResponse.json({ variable });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
+    console.error('Failed to update environment variable:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to update environment variable',
+    }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/projects/:id/env/:key
+ * Remove a variable
+ */
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ id: string; key: string }> }
+) {
+  try {
+    const { id, key } = await params;
+
+    // Verify user owns this project
+    await requireProjectOwnership(id);
+
+    const deleted = await deleteProjectEnvVar(id, key);
+    if (!deleted) {
+      return NextResponse.json({ error: `Variable ${key} not found` }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
+    console.error('Failed to delete environment variable:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to delete environment variable',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { requireProjectOwnership, handleAuthError } from '@/lib/auth-helpers';
+import { listProjectEnvVars, setProjectEnvVar, validateProjectEnvVar } from '@/lib/project-env';
+
+/**
+ * GET /api/projects/:id/env
+ * List the project's environment variables - names only, values are never returned
+ */
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Verify user owns this project
+    await requireProjectOwnership(id);
+
+    const variables = await listProjectEnvVars(id);
+    return NextResponse.json({ variables });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
+    console.error('Failed to list environment variables:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to list environment variables',
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/projects/:id/env
+ * Create or replace a variable
+ * Body: { key: string, value: string }
+ * Takes effect the next time the dev server starts.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Verify user owns this project
+    await requireProjectOwnership(id);
+
+    const body = await req.json().catch(() => ({})) as { key?: unknown; value?: unknown };
+    const validationError = validateProjectEnvVar(body.key, body.value ?? '');
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const variable = await setProjectEnvVar(id, body.key as string, (body.value as string | undefined) ?? '');
+    return NextResponse.json({ variable }, { status: 201 });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
+    console.error('Failed to save environment variable:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to save environment variable',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,91 @@
+import { NextResponse } from 'next/server';
+import { and, eq } from 'drizzle-orm';
+import { db } from '@openbuilder/agent-core/lib/db/client';
+import { generationSessions } from '@openbuilder/agent-core/lib/db/schema';
+import { getProjectRunnerId, streamBuildExport } from '@/lib/runner-utils';
+import { requireProjectOwnership, handleAuthError } from '@/lib/auth-helpers';
+
+export const maxDuration = 900;
+
+/**
+ * GET /api/projects/:id/export-build
+ * Download a production build of the project
+ * The project's runner runs the template build command and streams back a
+ * .tar.gz with the build output and a generated Dockerfile.
+ * Returns 422 with { error, buildErrors } when the build fails.
+ */
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Verify user owns this project
+    const { project } = await requireProjectOwnership(id);
+
+    if (!project.slug) {
+      return NextResponse.json({ error: 'Project slug not found' }, { status: 400 });
+    }
+
+    if (project.status === 'pending' || !project.runnerId) {
+      return NextResponse.json({ error: 'Project has not been generated yet' }, { status: 400 });
+    }
+
+    // Runner builds are tracked by their generation session; auto-fix marks the project before its session starts
+    const [activeBuild] = await db.select({ id: generationSessions.id })
+      .from(generationSessions)
+      .where(and(eq(generationSessions.projectId, id), eq(generationSessions.status, 'active')))
+      .limit(1);
+    if (activeBuild || project.status === 'building') {
+      return NextResponse.json({ error: 'Cannot export a project while a build is running' }, { status: 409 });
+    }
+
+    const runnerId = await getProjectRunnerId(project.runnerId);
+    if (!runnerId) {
+      return NextResponse.json(
+        { error: `Project runner '${project.runnerId}' is not connected` },
+        { status: 503 }
+      );
+    }
+
+    console.log(`[export-build-route] 📦 Exporting production build of ${project.slug} on ${runnerId}`);
+
+    const result = await streamBuildExport({
+      projectId: id,
+      slug: project.slug,
+      runnerId,
+      framework: project.detectedFramework,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, buildErrors: result.buildErrors ?? [] },
+        { status: 422 }
+      );
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/gzip',
+      'Content-Disposition': `attachment; filename="${project.slug}-build.tar.gz"`,
+      'Cache-Control': 'no-store',
+    };
+    if (result.artifact) {
+      headers['X-Build-Framework'] = result.artifact.framework;
+      headers['X-Build-Runtime'] = result.artifact.runtime;
+      if (result.artifact.outputDir) {
+        headers['X-Build-Output-Dir'] = result.artifact.outputDir;
+      }
+    }
+
+    return new Response(result.stream, { headers });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
+    console.error('Failed to export production build:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to export production build',
+    }, { status: 500 });
+  }
+}
@@ -1,10 +1,8 @@
 import { NextResponse } from 'next/server';
-import { db } from '@openbuilder/agent-core/lib/db/client';
-import { projects } from '@openbuilder/agent-core/lib/db/schema';
-import { eq } from 'drizzle-orm';
 import { sendCommandToRunner } from '@openbuilder/agent-core/lib/runner/broker-state';
 import { addRunnerEventSubscriber } from '@openbuilder/agent-core/lib/runner/event-stream';
 import { getProjectRunnerId } from '@/lib/runner-utils';
+import { requireProjectOwnership, handleAuthError } from '@/lib/auth-helpers';
 import type { ReadFileCommand, WriteFileCommand, RunnerEvent } from '@/shared/runner/messages';
 import { randomUUID } from 'crypto';
 
@@ -25,13 +23,8 @@ export async function GET(
       return NextResponse.json({ error: 'Missing file path' }, { status: 400 });
     }
 
-    // Get project from database
-    const projectRows = await db.select().from(projects).where(eq(projects.id, id)).limit(1);
-    if (!projectRows.length) {
-      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
-    }
-
-    const project = projectRows[0];
+    // Verify user owns this project
+    const { project } = await requireProjectOwnership(id, 'files:read');
     if (!project.slug) {
       return NextResponse.json({ error: 'Project slug not found' }, { status: 400 });
     }
@@ -89,6 +82,9 @@ export async function GET(
       size: result.size,
     });
   } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
     console.error('Failed to read file:', error);
     return NextResponse.json({
       error: error instanceof Error ? error.message : 'Failed to read file',
@@ -118,13 +114,8 @@ export async function PUT(
       return NextResponse.json({ error: 'File too large' }, { status: 413 });
     }
 
-    // Get project from database
-    const projectRows = await db.select().from(projects).where(eq(projects.id, id)).limit(1);
-    if (!projectRows.length) {
-      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
-    }
-
-    const project = projectRows[0];
+    // Verify user owns this project
+    const { project } = await requireProjectOwnership(id, 'files:write');
     if (!project.slug) {
       return NextResponse.json({ error: 'Project slug not found' }, { status: 400 });
     }
@@ -180,6 +171,9 @@ export async function PUT(
 
     return NextResponse.json({ success: true });
   } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
     console.error('Failed to write file:', error);
     return NextResponse.json({
       error: error instanceof Error ? error.message : 'Failed to write file',
@@ -1,9 +1,11 @@
 import { NextResponse } from 'next/server';
-import { db } from '@openbuilder/agent-core/lib/db/client';
-import { projects } from '@openbuilder/agent-core/lib/db/schema';
-import { eq } from 'drizzle-orm';
 import { readdir, stat } from 'fs/promises';
 import { join } from 'path';
+import { subscribeToFileWatchEvents } from '@openbuilder/agent-core/lib/runner/file-events';
+import { requireProjectOwnership, handleAuthError } from '@/lib/auth-helpers';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
 
 interface FileNode {
   name: string;
@@ -63,6 +65,7 @@ async function buildFileTree(dirPath: string, relativePath: string = ''): Promis
 }
 
 // GET /api/projects/:id/files - Get file tree for project
+// ?stream=true: SSE stream of file-changed / file-deleted events from the runner's watcher
 export async function GET(
   req: Request,
   { params }: { params: Promise<{ id: string }> }
@@ -70,15 +73,13 @@ export async function GET(
   try {
     const { id } = await params;
 
-    // Get project from DB
-    const project = await db.select().from(projects).where(eq(projects.id, id)).limit(1);
+    // Verify user owns this project
+    const { project: proj } = await requireProjectOwnership(id, 'files:read');
 
-    if (project.length === 0) {
-      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    if (new URL(req.url).searchParams.get('stream') === 'true') {
+      return streamFileEvents(req, id);
     }
 
-    const proj = project[0];
-
     if (!proj.path) {
       return NextResponse.json({ files: [] });
     }
@@ -93,7 +94,73 @@ export async function GET(
     const files = await buildFileTree(proj.path);
     return NextResponse.json({ files });
   } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
     console.error('Error fetching files:', error);
     return NextResponse.json({ error: 'Failed to fetch files' }, { status: 500 });
   }
 }
+
+/**
+ * SSE stream of live file changes for the editor
+ */
+function streamFileEvents(req: Request, projectId: string) {
+  const encoder = new TextEncoder();
+  let keepaliveInterval: NodeJS.Timeout | null = null;
+  let unsubscribe: (() => void) | null = null;
+  let isClosed = false;
+
+  const cleanup = () => {
+    isClosed = true;
+    if (keepaliveInterval) {
+      clearInterval(keepaliveInterval);
+      keepaliveInterval = null;
+    }
+    unsubscribe?.();
+    unsubscribe = null;
+  };
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (data: string) => {
+        if (isClosed) return;
+        try {
+          controller.enqueue(encoder.encode(data));
+        } catch {
+          cleanup();
+        }
+      };
+
+      send(`data: ${JSON.stringify({ type: 'connected' })}\n\n`);
+
+      unsubscribe = subscribeToFileWatchEvents(projectId, (event) => {
+        send(`data: ${JSON.stringify(event)}\n\n`);
+      });
+
+      keepaliveInterval = setInterval(() => {
+        send(':keepalive\n\n');
+      }, 15000);
+
+      req.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
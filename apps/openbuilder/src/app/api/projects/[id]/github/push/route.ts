@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { requireProjectOwnership, handleAuthError } from '@/lib/auth-helpers';
+import { sendCommandToRunner } from '@openbuilder/agent-core/lib/runner/broker-state';
+import { getProjectRunnerId } from '@/lib/runner-utils';
+import { randomUUID } from 'crypto';
+
+/**
+ * POST /api/projects/:id/github/push
+ * Commit the project workspace and push it to the connected GitHub repository
+ * The runner creates the repository if it does not exist yet and reports back
+ * with a github-pushed event
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    
+    // Verify user owns this project
+    const { project } = await requireProjectOwnership(id);
+
+    // Check if GitHub is connected
+    if (!project.githubRepo) {
+      return NextResponse.json({ 
+        error: 'GitHub is not connected to this project. Set up GitHub first.' 
+      }, { status: 400 });
+    }
+
+    const body = await req.json().catch(() => ({})) as { commitMessage?: string };
+    const commitMessage = typeof body.commitMessage === 'string' && body.commitMessage.trim()
+      ? body.commitMessage.trim()
+      : 'Update from OpenBuilder';
+
+    // Get runner for this project
+    const runnerId = await getProjectRunnerId(project.runnerId);
+    
+    if (!runnerId) {
+      return NextResponse.json({ 
+        error: 'No runner available. Please ensure a runner is connected.' 
+      }, { status: 503 });
+    }
+
+    // Send push command to runner
+    const commandId = randomUUID();
+    
+    try {
+      await sendCommandToRunner(runnerId, {
+        id: commandId,
+        type: 'github-push',
+        projectId: id,
+        timestamp: new Date().toISOString(),
+        payload: {
+          slug: project.slug,
+          repo: project.githubRepo,
+          branch: project.githubBranch || 'main',
+          commitMessage,
+        },
+      });
+
+      return NextResponse.json({ 
+        success: true,
+        message: 'Push command sent to runner',
+        commandId,
+      });
+    } catch (sendError) {
+      console.error('Failed to send push command to runner:', sendError);
+      return NextResponse.json({ 
+        error: 'Failed to communicate with runner' 
+      }, { status: 503 });
+    }
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    
+    console.error('Error initiating GitHub push:', error);
+    return NextResponse.json({ error: 'Failed to initiate push' }, { status: 500 });
+  }
+}
@@ -0,0 +1,196 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { requireProjectOwnership, handleAuthError } from '@/lib/auth-helpers';
+import { getRunnerLogs, subscribeToRunnerLogs } from '@openbuilder/agent-core/lib/runner/log-store';
+import { getProjectRunnerId, requestFromRunner } from '@/lib/runner-utils';
+import type { FetchLogsCommand, LogPageEntry } from '@/shared/runner/messages';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const TIMEOUT_MS = 10000; // 10 seconds timeout
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 1000;
+
+/**
+ * GET /api/projects/:id/logs
+ * Dev server output for a project
+ *
+ * - ?stream=true: SSE stream of live output ({ type: 'log' | 'exit' | 'connected' })
+ * - otherwise: a page of buffered output from the runner (fetch-logs)
+ *   ?cursor=<cursor> returns entries older than the cursor, ?limit=<n> caps the page size
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Verify user owns this project
+    const { project } = await requireProjectOwnership(id);
+
+    const url = new URL(req.url);
+    if (url.searchParams.get('stream') === 'true') {
+      return streamLogs(req, id);
+    }
+
+    const cursor = url.searchParams.get('cursor') || undefined;
+    const limitParam = Number.parseInt(url.searchParams.get('limit') || '', 10);
+    const limit = Number.isFinite(limitParam) && limitParam > 0 ? Math.min(limitParam, MAX_LIMIT) : DEFAULT_LIMIT;
+    const running = project.devServerStatus === 'running' || project.devServerStatus === 'starting';
+
+    const runnerId = await getProjectRunnerId(project.runnerId);
+
+    let page: { entries: LogPageEntry[]; nextCursor: string | null };
+    if (runnerId) {
+      try {
+        page = await fetchLogPage(runnerId, id, cursor, limit);
+      } catch (error) {
+        console.warn(`[logs] Falling back to web log buffer for ${id}:`, error instanceof Error ? error.message : error);
+        page = getWebLogPage(id, cursor, limit);
+      }
+    } else {
+      // No runner connected - serve whatever this web instance has seen
+      page = getWebLogPage(id, cursor, limit);
+    }
+
+    return NextResponse.json({
+      running,
+      entries: page.entries,
+      logs: page.entries.map((entry) => entry.data),
+      nextCursor: page.nextCursor,
+      hasMore: page.nextCursor !== null,
+    });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
+    console.error('Error fetching project logs:', error);
+    return NextResponse.json({ error: 'Failed to fetch logs' }, { status: 500 });
+  }
+}
+
+/**
+ * Ask the runner for a page of its log ring buffer and wait for the log-page reply
+ */
+async function fetchLogPage(
+  runnerId: string,
+  projectId: string,
+  cursor: string | undefined,
+  limit: number
+): Promise<{ entries: LogPageEntry[]; nextCursor: string | null }> {
+  const command: FetchLogsCommand = {
+    id: randomUUID(),
+    type: 'fetch-logs',
+    projectId,
+    timestamp: new Date().toISOString(),
+    payload: { cursor, limit },
+  };
+
+  const page = await requestFromRunner(runnerId, command, 'log-page', TIMEOUT_MS);
+  return { entries: page.entries, nextCursor: page.nextCursor };
+}
+
+/**
+ * Page over the web-side log buffer (used when the runner can't answer)
+ */
+function getWebLogPage(
+  projectId: string,
+  cursor: string | undefined,
+  limit: number
+): { entries: LogPageEntry[]; nextCursor: string | null } {
+  const all = getRunnerLogs(projectId);
+  const before = cursor ? Number.parseInt(cursor, 10) : Number.POSITIVE_INFINITY;
+
+  let end = all.length;
+  if (Number.isFinite(before)) {
+    const index = all.findIndex((entry) => entry.cursor !== undefined && Number(entry.cursor) >= before);
+    if (index !== -1) end = index;
+  }
+
+  const start = Math.max(0, end - limit);
+  const entries = all.slice(start, end).map((entry, i) => ({
+    cursor: entry.cursor ?? String(start + i),
+    stream: entry.type,
+    data: entry.data,
+    timestamp: entry.timestamp.toISOString(),
+  }));
+
+  return {
+    entries,
+    nextCursor: start > 0 && entries.length > 0 ? entries[0].cursor : null,
+  };
+}
+
+/**
+ * SSE stream of live dev server output from the web-side log store
+ */
+function streamLogs(req: NextRequest, projectId: string) {
+  const encoder = new TextEncoder();
+  let keepaliveInterval: NodeJS.Timeout | null = null;
+  let unsubscribe: (() => void) | null = null;
+  let isClosed = false;
+
+  const cleanup = () => {
+    isClosed = true;
+    if (keepaliveInterval) {
+      clearInterval(keepaliveInterval);
+      keepaliveInterval = null;
+    }
+    unsubscribe?.();
+    unsubscribe = null;
+  };
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (data: string) => {
+        if (isClosed) return;
+        try {
+          controller.enqueue(encoder.encode(data));
+        } catch {
+          cleanup();
+        }
+      };
+
+      send(`data: ${JSON.stringify({ type: 'connected' })}\n\n`);
+
+      unsubscribe = subscribeToRunnerLogs(projectId, (event) => {
+        if (event.type === 'log') {
+          send(`data: ${JSON.stringify({
+            type: 'log',
+            stream: event.entry.type,
+            data: event.entry.data,
+            cursor: event.entry.cursor,
+          })}\n\n`);
+        } else if (event.type === 'exit') {
+          send(`data: ${JSON.stringify({ type: 'exit', ...event.payload })}\n\n`);
+        }
+      });
+
+      keepaliveInterval = setInterval(() => {
+        send(':keepalive\n\n');
+      }, 15000);
+
+      req.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
@@ -10,6 +10,7 @@ import { eq, desc, inArray, and, sql } from 'drizzle-orm';
 import { deserializeGenerationState } from '@openbuilder/agent-core/lib/generation-persistence';
 import { cleanupStuckBuilds } from '@openbuilder/agent-core/lib/runner/persistent-event-processor';
 import type { GenerationState, ToolCall, TodoItem, TextMessage } from '@/types/generation';
+import { requireProjectOwnership, handleAuthError } from '@/lib/auth-helpers';
 
 function serializeContent(content: unknown): string {
   if (typeof content === 'string') {
@@ -64,6 +65,9 @@ export async function GET(
   try {
     const { id } = await params;
 
+    // Verify user owns this project
+    await requireProjectOwnership(id, 'messages:read');
+
     // CLEANUP: On reconnection, check for and finalize stuck builds
     // This runs every time a user reconnects/refreshes, providing natural cleanup
     // without requiring external cronjobs or scheduled tasks
@@ -206,6 +210,9 @@ export async function GET(
           codex: rawStateObj?.codex as GenerationState['codex'] | undefined,
           // Load build plan from rawState if available
           buildPlan: rawStateObj?.buildPlan as string | undefined,
+          verification: rawStateObj?.verification as GenerationState['verification'],
+          usage: rawStateObj?.usage as GenerationState['usage'],
+          screenshots: rawStateObj?.screenshots as GenerationState['screenshots'],
           // Load build summary from session if available
           buildSummary: session.summary ?? undefined,
           // Auto-fix tracking
@@ -270,6 +277,9 @@ export async function GET(
       sessions: sessionsWithRelations,
     });
   } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
     console.error('Error fetching messages:', error);
     return NextResponse.json({ error: 'Failed to fetch messages' }, { status: 500 });
   }
@@ -282,6 +292,10 @@ export async function POST(
 ) {
   try {
     const { id } = await params;
+
+    // Verify user owns this project
+    await requireProjectOwnership(id, 'messages:write');
+
     const { role, content, parts } = await req.json();
 
     if (!role) {
@@ -323,6 +337,9 @@ export async function POST(
 
     return NextResponse.json({ message: formatted });
   } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
     console.error('Error saving message:', error);
     return NextResponse.json({ error: 'Failed to save message' }, { status: 500 });
   }
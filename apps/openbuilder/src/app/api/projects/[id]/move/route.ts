@@ -0,0 +1,147 @@
+import { NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { and, eq } from 'drizzle-orm';
+import { db } from '@openbuilder/agent-core/lib/db/client';
+import { generationSessions, projects, runningProcesses } from '@openbuilder/agent-core/lib/db/schema';
+import { releasePortForProject } from '@openbuilder/agent-core/lib/port-allocator';
+import { listRunnerConnections, sendCommandToRunner } from '@openbuilder/agent-core/lib/runner/broker-state';
+import { transferProjectWorkspace } from '@/lib/runner-utils';
+import { projectEvents } from '@/lib/project-events';
+import type { StopDevServerCommand } from '@/shared/runner/messages';
+import { requireProjectOwnership, handleAuthError, isLocalMode } from '@/lib/auth-helpers';
+
+export const maxDuration = 900;
+
+/**
+ * POST /api/projects/:id/move
+ * Move a project's workspace to another runner
+ * Body: { targetRunnerId: string }
+ * The files are streamed from the project's current runner to the target, then
+ * the project is rebound to the target runner. The source keeps its copy.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Verify user owns this project
+    const { project, session } = await requireProjectOwnership(id);
+
+    const body = await req.json().catch(() => ({})) as { targetRunnerId?: string };
+    const targetRunnerId = body.targetRunnerId;
+    if (typeof targetRunnerId !== 'string' || !targetRunnerId) {
+      return NextResponse.json({ error: 'targetRunnerId is required' }, { status: 400 });
+    }
+
+    if (targetRunnerId === project.runnerId) {
+      return NextResponse.json({ error: 'Project is already on this runner' }, { status: 400 });
+    }
+
+    // Runner builds are tracked by their generation session; auto-fix marks the project before its session starts
+    const [activeBuild] = await db.select({ id: generationSessions.id })
+      .from(generationSessions)
+      .where(and(eq(generationSessions.projectId, id), eq(generationSessions.status, 'active')))
+      .limit(1);
+    if (activeBuild || project.status === 'building') {
+      return NextResponse.json({ error: 'Cannot move a project while a build is running' }, { status: 409 });
+    }
+
+    const connections = await listRunnerConnections(isLocalMode() ? undefined : session.user.id);
+    const connectedRunnerIds = new Set(connections.map((conn) => conn.runnerId));
+
+    if (!connectedRunnerIds.has(targetRunnerId)) {
+      return NextResponse.json({ error: `Runner '${targetRunnerId}' is not connected` }, { status: 503 });
+    }
+
+    // Nothing has been generated yet - just rebind the project
+    const hasWorkspace = project.status !== 'pending' && !!project.runnerId;
+    let path = project.path;
+
+    if (hasWorkspace) {
+      if (!project.slug) {
+        return NextResponse.json({ error: 'Project slug not found' }, { status: 400 });
+      }
+
+      const sourceRunnerId = project.runnerId!;
+      if (!connectedRunnerIds.has(sourceRunnerId)) {
+        return NextResponse.json(
+          { error: `Runner '${sourceRunnerId}' that holds this project's files is not connected` },
+          { status: 503 }
+        );
+      }
+
+      console.log(`[move-route] 🚚 Moving ${project.slug} from ${sourceRunnerId} to ${targetRunnerId}`);
+
+      const imported = await transferProjectWorkspace({
+        projectId: id,
+        slug: project.slug,
+        sourceRunnerId,
+        targetRunnerId,
+      });
+
+      if (!imported.success) {
+        return NextResponse.json({ error: imported.error || 'Failed to import project' }, { status: 500 });
+      }
+
+      path = imported.path ?? path;
+      console.log(`[move-route] ✅ Imported ${imported.bytes ?? 0} bytes to ${targetRunnerId}:${path}`);
+
+      // The project now runs from the target - stop the old dev server (and its tunnel)
+      if (project.devServerStatus === 'running' || project.devServerStatus === 'starting') {
+        const stopCommand: StopDevServerCommand = {
+          id: randomUUID(),
+          type: 'stop-dev-server',
+          projectId: id,
+          timestamp: new Date().toISOString(),
+        };
+
+        try {
+          await sendCommandToRunner(sourceRunnerId, stopCommand);
+        } catch (error) {
+          console.warn(`[move-route] Failed to stop dev server on ${sourceRunnerId}:`, error);
+        }
+      }
+    }
+
+    // Port reservations belong to the old runner's dev server; a fresh one is
+    // reserved when the dev server starts on the target
+    await releasePortForProject(id);
+    await db.delete(runningProcesses).where(eq(runningProcesses.projectId, id));
+
+    const now = new Date();
+    const [updated] = await db.update(projects)
+      .set({
+        runnerId: targetRunnerId,
+        path,
+        devServerStatus: 'stopped',
+        devServerStatusUpdatedAt: now,
+        devServerPid: null,
+        devServerPort: null,
+        tunnelUrl: null,
+        lastActivityAt: now,
+      })
+      .where(eq(projects.id, id))
+      .returning();
+
+    if (updated) {
+      projectEvents.emitProjectUpdate(id, updated);
+    }
+
+    return NextResponse.json({
+      success: true,
+      runnerId: targetRunnerId,
+      path,
+      transferred: hasWorkspace,
+    });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
+    console.error('Failed to move project:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to move project',
+    }, { status: 500 });
+  }
+}
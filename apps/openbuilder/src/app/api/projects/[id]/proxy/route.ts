@@ -2,7 +2,7 @@ import { NextResponse } from 'next/server';
 import { db } from '@openbuilder/agent-core/lib/db/client';
 import { projects } from '@openbuilder/agent-core/lib/db/schema';
 import { eq } from 'drizzle-orm';
-import { SELECTION_SCRIPT } from '@openbuilder/agent-core/lib/selection/injector';
+import { BROWSER_ERROR_SCRIPT, SELECTION_SCRIPT } from '@openbuilder/agent-core/lib/selection/injector';
 import { httpProxyManager, buildWebSocketServer } from '@openbuilder/agent-core/lib/websocket';
 
 // Feature flag for WebSocket proxy (can be controlled via env var)
@@ -392,12 +392,19 @@ export async function GET(
         }
       );
 
+      // Error capture goes first in <head> so it sees errors thrown while the page boots
+      const errorScriptTag = `<script>${BROWSER_ERROR_SCRIPT}</script>`;
+      const hasHead = /<head(\s[^>]*)?>/i.test(html);
+      if (hasHead) {
+        html = html.replace(/<head(\s[^>]*)?>/i, (headTag) => `${headTag}${errorScriptTag}`);
+      }
+
       // Inject selection script before closing body
-      const scriptTag = `<script>${SELECTION_SCRIPT}</script></body>`;
+      const scriptTag = `${hasHead ? '' : errorScriptTag}<script>${SELECTION_SCRIPT}</script></body>`;
       if (/<\/body>/i.test(html)) {
         html = html.replace(/<\/body>/i, scriptTag);
       } else {
-        html += `<script>${SELECTION_SCRIPT}</script>`;
+        html += `${hasHead ? '' : errorScriptTag}<script>${SELECTION_SCRIPT}</script>`;
       }
 
       return new NextResponse(html, {
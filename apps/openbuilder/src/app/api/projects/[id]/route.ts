@@ -17,7 +17,7 @@ export async function GET(
     const { id } = await params;
     
     // Verify user owns this project
-    const { project } = await requireProjectOwnership(id);
+    const { project } = await requireProjectOwnership(id, 'projects:read');
     
     // Enrich project with runner connection status
     const enrichedProject = await enrichProjectWithRunnerStatus(project);
@@ -42,7 +42,7 @@ export async function PATCH(
     const { id } = await params;
     
     // Verify user owns this project
-    await requireProjectOwnership(id);
+    await requireProjectOwnership(id, 'projects:write');
     
     const updates = await req.json();
 
@@ -112,7 +112,7 @@ export async function DELETE(
     const { deleteFiles = false } = await req.json().catch(() => ({ deleteFiles: false }));
 
     // Verify user owns this project (also returns project details)
-    const { project } = await requireProjectOwnership(id);
+    const { project } = await requireProjectOwnership(id, 'projects:write');
 
     // Kill dev server if running
     if (project.devServerPid) {
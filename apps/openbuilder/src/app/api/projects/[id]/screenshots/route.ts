@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { requireProjectOwnership, handleAuthError } from '@/lib/auth-helpers';
+import { getBuildScreenshots } from '@/lib/build-screenshots';
+
+/**
+ * GET /api/projects/:id/screenshots?buildId=...
+ * Screenshots captured after a build, with the previous build's captures to compare against
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Verify user owns this project
+    await requireProjectOwnership(id);
+
+    const buildId = new URL(req.url).searchParams.get('buildId');
+    if (!buildId) {
+      return NextResponse.json({ error: 'buildId is required' }, { status: 400 });
+    }
+
+    const screenshots = await getBuildScreenshots(id, buildId);
+    if (!screenshots) {
+      return NextResponse.json({ error: 'Build not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(screenshots);
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
+    console.error('Failed to load build screenshots:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to load build screenshots',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { requireProjectOwnership, handleAuthError } from '@/lib/auth-helpers';
+import { getProjectRunnerId, requestFromRunner } from '@/lib/runner-utils';
+import type { DiffSnapshotsCommand } from '@/shared/runner/messages';
+
+const TIMEOUT_MS = 30000;
+
+/**
+ * GET /api/projects/:id/snapshots/diff?from=<buildId>&to=<buildId>&patch=true
+ * Files changed between two snapshots. Omit `to` to diff against the current
+ * workspace; pass patch=true to include a unified diff
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Verify user owns this project
+    const { project } = await requireProjectOwnership(id);
+
+    const url = new URL(req.url);
+    const from = url.searchParams.get('from');
+    const to = url.searchParams.get('to') || undefined;
+    if (!from) {
+      return NextResponse.json({ error: 'Missing from snapshot' }, { status: 400 });
+    }
+
+    if (!project.slug) {
+      return NextResponse.json({ error: 'Project slug not found' }, { status: 400 });
+    }
+
+    const runnerId = await getProjectRunnerId(project.runnerId);
+    if (!runnerId) {
+      return NextResponse.json({ error: 'No runners connected' }, { status: 503 });
+    }
+
+    const command: DiffSnapshotsCommand = {
+      id: randomUUID(),
+      type: 'diff-snapshots',
+      projectId: id,
+      timestamp: new Date().toISOString(),
+      payload: {
+        slug: project.slug,
+        from,
+        to,
+        includePatch: url.searchParams.get('patch') === 'true',
+      },
+    };
+
+    const result = await requestFromRunner(runnerId, command, 'snapshot-diff', TIMEOUT_MS);
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      from: result.from,
+      to: result.to,
+      files: result.files,
+      patch: result.patch,
+      patchTruncated: result.patchTruncated ?? false,
+    });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
+    console.error('Failed to diff snapshots:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to diff snapshots',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { requireProjectOwnership, handleAuthError } from '@/lib/auth-helpers';
+import { getProjectRunnerId, requestFromRunner } from '@/lib/runner-utils';
+import type { RestoreSnapshotCommand } from '@/shared/runner/messages';
+
+const TIMEOUT_MS = 60000; // Restoring touches every changed file in the workspace
+
+/**
+ * POST /api/projects/:id/snapshots/restore
+ * Roll the project workspace back to its state before a build
+ * Body: { buildId: string }
+ * The runner snapshots the current state first and returns it as backupBuildId,
+ * so a restore can itself be undone
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Verify user owns this project
+    const { project } = await requireProjectOwnership(id);
+
+    const body = await req.json().catch(() => ({})) as { buildId?: string };
+    if (typeof body.buildId !== 'string' || !body.buildId) {
+      return NextResponse.json({ error: 'buildId is required' }, { status: 400 });
+    }
+
+    if (!project.slug) {
+      return NextResponse.json({ error: 'Project slug not found' }, { status: 400 });
+    }
+
+    const runnerId = await getProjectRunnerId(project.runnerId);
+    if (!runnerId) {
+      return NextResponse.json({ error: 'No runners connected' }, { status: 503 });
+    }
+
+    const command: RestoreSnapshotCommand = {
+      id: randomUUID(),
+      type: 'restore-snapshot',
+      projectId: id,
+      timestamp: new Date().toISOString(),
+      payload: { slug: project.slug, buildId: body.buildId },
+    };
+
+    const result = await requestFromRunner(runnerId, command, 'snapshot-restored', TIMEOUT_MS);
+    if (!result.payload.success) {
+      return NextResponse.json({ error: result.payload.error || 'Failed to restore snapshot' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      buildId: result.payload.buildId,
+      backupBuildId: result.payload.backupBuildId,
+      filesChanged: result.payload.filesChanged ?? 0,
+    });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
+    console.error('Failed to restore snapshot:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to restore snapshot',
+    }, { status: 500 });
+  }
+}
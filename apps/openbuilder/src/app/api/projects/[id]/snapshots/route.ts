@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { and, eq, inArray } from 'drizzle-orm';
+import { db } from '@openbuilder/agent-core/lib/db/client';
+import { generationSessions } from '@openbuilder/agent-core/lib/db/schema';
+import { requireProjectOwnership, handleAuthError } from '@/lib/auth-helpers';
+import { getProjectRunnerId, requestFromRunner } from '@/lib/runner-utils';
+import type { ListSnapshotsCommand } from '@/shared/runner/messages';
+
+/**
+ * GET /api/projects/:id/snapshots
+ * Workspace snapshots taken before each build (newest first), joined with the
+ * generation session they belong to
+ */
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Verify user owns this project
+    const { project } = await requireProjectOwnership(id);
+
+    if (!project.slug) {
+      return NextResponse.json({ error: 'Project slug not found' }, { status: 400 });
+    }
+
+    const runnerId = await getProjectRunnerId(project.runnerId);
+    if (!runnerId) {
+      return NextResponse.json({ error: 'No runners connected' }, { status: 503 });
+    }
+
+    const command: ListSnapshotsCommand = {
+      id: randomUUID(),
+      type: 'list-snapshots',
+      projectId: id,
+      timestamp: new Date().toISOString(),
+      payload: { slug: project.slug },
+    };
+
+    const result = await requestFromRunner(runnerId, command, 'snapshot-list');
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: 500 });
+    }
+
+    const buildIds = result.snapshots.map((snapshot) => snapshot.buildId);
+    const sessions = buildIds.length > 0
+      ? await db
+          .select({
+            buildId: generationSessions.buildId,
+            operationType: generationSessions.operationType,
+            status: generationSessions.status,
+            isAutoFix: generationSessions.isAutoFix,
+            startedAt: generationSessions.startedAt,
+            endedAt: generationSessions.endedAt,
+          })
+          .from(generationSessions)
+          .where(and(eq(generationSessions.projectId, id), inArray(generationSessions.buildId, buildIds)))
+      : [];
+
+    const sessionsByBuildId = new Map(sessions.map((session) => [session.buildId, session]));
+
+    return NextResponse.json({
+      snapshots: result.snapshots.map((snapshot) => ({
+        ...snapshot,
+        session: sessionsByBuildId.get(snapshot.buildId) ?? null,
+      })),
+    });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
+    console.error('Failed to list snapshots:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to list snapshots',
+    }, { status: 500 });
+  }
+}
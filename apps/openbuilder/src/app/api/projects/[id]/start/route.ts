@@ -8,8 +8,9 @@ import {
   reserveOrReallocatePort,
   buildEnvForFramework
 } from '@openbuilder/agent-core/lib/port-allocator';
-import { sendCommandToRunner } from '@openbuilder/agent-core/lib/runner/broker-state';
+import { queueCommandToRunner } from '@openbuilder/agent-core/lib/runner/broker-state';
 import { getProjectRunnerId } from '@/lib/runner-utils';
+import { getProjectEnv } from '@/lib/project-env';
 import type { StartDevServerCommand } from '@/shared/runner/messages';
 import { requireProjectOwnership, handleAuthError } from '@/lib/auth-helpers';
 
@@ -22,7 +23,7 @@ export async function POST(
     const { id } = await params;
 
     // Verify user owns this project
-    const { project: proj } = await requireProjectOwnership(id);
+    const { project: proj } = await requireProjectOwnership(id, 'servers:write');
 
     // Get the project's runner - no fallback to other runners
     const runnerId = await getProjectRunnerId(proj.runnerId);
@@ -114,8 +115,14 @@ export async function POST(
       const portEnv = buildEnvForFramework(portInfo.framework, portInfo.port);
       const runCommand = getRunCommand(proj.runCommand);
 
+      // Project variables first so the allocated port always wins
+      const projectEnv = await getProjectEnv(id);
+
       console.log(`📝 Run command: ${runCommand}`);
       console.log(`🔧 Port environment: ${JSON.stringify(portEnv)}`);
+      if (Object.keys(projectEnv).length > 0) {
+        console.log(`🔐 Project environment: ${Object.keys(projectEnv).join(', ')}`);
+      }
 
       // Step 5: Send command to runner with pre-allocated port
       const runnerCommand: StartDevServerCommand = {
@@ -126,23 +133,41 @@ export async function POST(
         payload: {
           runCommand,
           workingDirectory: proj.path,
-          env: portEnv,
+          env: { ...projectEnv, ...portEnv },
           preferredPort: portInfo.port,
+          framework: portInfo.framework,
         },
       };
 
-      await sendCommandToRunner(runnerId, runnerCommand);
-
-      // Step 6: Mark operation as sent
-      await db.update(serverOperations)
-        .set({
-          status: 'sent',
-          sentAt: new Date(),
-        })
-        .where(eq(serverOperations.id, operationId));
+      // Held in the command queue while the runner is offline
+      const startOperationId = operationId;
+      const { sent } = queueCommandToRunner(runnerId, runnerCommand, {
+        // Step 6: Mark operation as sent once the runner has the command
+        onSuccess: () => {
+          db.update(serverOperations)
+            .set({
+              status: 'sent',
+              sentAt: new Date(),
+            })
+            .where(eq(serverOperations.id, startOperationId))
+            .catch((error) => console.error('Failed to mark start operation as sent:', error));
+        },
+        onFailure: (reason) => {
+          const failedAt = new Date();
+          const errorMessage = `Runner did not receive the start command: ${reason}`;
+          Promise.all([
+            db.update(serverOperations)
+              .set({ status: 'failed', error: errorMessage, failureReason: 'runner_offline', completedAt: failedAt })
+              .where(eq(serverOperations.id, startOperationId)),
+            db.update(projects)
+              .set({ devServerStatus: 'failed', devServerStatusUpdatedAt: failedAt, devServerPort: null, errorMessage })
+              .where(eq(projects.id, id)),
+          ]).catch((error) => console.error('Failed to record undelivered start command:', error));
+        },
+      });
 
       return NextResponse.json({
-        message: 'Dev server start requested',
+        message: sent ? 'Dev server start requested' : 'Runner is offline - start will be sent when it reconnects',
         port: portInfo.port,
         operationId, // Return operation ID for tracking
       }, { status: 202 });
@@ -20,7 +20,7 @@ export async function POST(
     console.log(`[stop-route] ⛔ Received stop request for project ${id}`);
 
     // Verify user owns this project
-    const { project } = await requireProjectOwnership(id);
+    const { project } = await requireProjectOwnership(id, 'servers:write');
 
     // Try to use project's saved runner, fallback to any available runner
     const runnerId = await getProjectRunnerId(project.runnerId);
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { requireProjectOwnership, handleAuthError } from '@/lib/auth-helpers';
+import { getProjectUsage } from '@/lib/usage';
+
+/**
+ * GET /api/projects/:id/usage
+ * Token and cost totals for the project and its most recent builds
+ */
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Verify user owns this project
+    await requireProjectOwnership(id);
+
+    const usage = await getProjectUsage(id);
+    return NextResponse.json(usage);
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
+    console.error('Failed to load project usage:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to load project usage',
+    }, { status: 500 });
+  }
+}
@@ -2,9 +2,9 @@
  * Project Analysis API Endpoint
  * 
  * This endpoint handles the analyze-project flow:
- * 1. Sends analyze-project command to the runner
+ * 1. Schedules a runner and sends it the analyze-project command
  * 2. Waits for project-metadata event with AI-generated analysis
- * 3. Returns the analysis result to the frontend
+ * 3. Returns the analysis result (and the scheduled runner) to the frontend
  * 
  * This allows the frontend to get AI-generated project names, icons,
  * descriptions, and template selection BEFORE creating the project.
@@ -12,10 +12,10 @@
 
 import { NextResponse } from 'next/server';
 import { randomUUID } from 'crypto';
-import { sendCommandToRunner } from '@openbuilder/agent-core/lib/runner/broker-state';
+import { sendCommandToRunner, selectRunner } from '@openbuilder/agent-core/lib/runner/broker-state';
 import { addRunnerEventSubscriber, removeRunnerEventSubscriber } from '@openbuilder/agent-core/lib/runner/event-stream';
 import type { RunnerEvent, AnalyzeProjectCommand, ProjectMetadataEvent } from '@openbuilder/agent-core/shared/runner/messages';
-import { isLocalMode, getSession } from '@/lib/auth-helpers';
+import { isLocalMode, getSession, handleAuthError } from '@/lib/auth-helpers';
 import type { AppliedTag } from '@openbuilder/agent-core/types/tags';
 import type { AgentId, ClaudeModelId } from '@openbuilder/agent-core/types/agent';
 
@@ -48,11 +48,13 @@ const ANALYSIS_TIMEOUT_MS = 60000; // 60 seconds
 export async function POST(request: Request) {
   try {
     // Require authentication (but not project ownership since project doesn't exist yet)
+    let userId: string | undefined;
     if (!isLocalMode()) {
-      const session = await getSession();
+      const session = await getSession('projects:write');
       if (!session?.user?.id) {
         return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
       }
+      userId = session.user.id;
     }
 
     const body = (await request.json()) as AnalyzeRequestBody;
@@ -62,12 +64,22 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Missing required fields: prompt, agent' }, { status: 400 });
     }
 
-    const effectiveRunnerId = runnerId ?? process.env.RUNNER_DEFAULT_ID ?? 'default';
+    // The runner that analyzes the project also builds it, so schedule it now
+    const runnerTag = tags?.find((tag) => tag.key === 'runner');
+    const selection = await selectRunner({
+      userId,
+      preferredRunnerId: runnerTag?.value ?? runnerId ?? process.env.RUNNER_DEFAULT_ID ?? null,
+    });
+    if (!selection) {
+      return NextResponse.json({ error: 'No runners connected' }, { status: 503 });
+    }
+
+    const effectiveRunnerId = selection.runnerId;
     const commandId = randomUUID();
 
     console.log(`[analyze] Starting analysis for prompt: "${prompt.substring(0, 50)}..."`);
     console.log(`[analyze] Command ID: ${commandId}`);
-    console.log(`[analyze] Runner: ${effectiveRunnerId}`);
+    console.log(`[analyze] Runner: ${effectiveRunnerId} (${selection.reason})`);
 
     // Create a promise that resolves when we receive project-metadata
     const analysisPromise = new Promise<AnalysisResult>((resolve, reject) => {
@@ -132,8 +144,11 @@ export async function POST(request: Request) {
     // Wait for the analysis result
     const result = await analysisPromise;
 
-    return NextResponse.json({ analysis: result });
+    return NextResponse.json({ analysis: result, runnerId: effectiveRunnerId });
   } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
     console.error('[analyze] Analysis failed:', error);
     
     if (error instanceof Error) {
@@ -3,7 +3,7 @@ import * as Sentry from '@sentry/nextjs';
 import { db } from '@openbuilder/agent-core/lib/db/client';
 import { projects, messages } from '@openbuilder/agent-core/lib/db/schema';
 import { eq } from 'drizzle-orm';
-import { getSession, isLocalMode } from '@/lib/auth-helpers';
+import { getSession, isLocalMode, handleAuthError } from '@/lib/auth-helpers';
 import { enrichProjectWithRunnerStatus } from '@/lib/runner-utils';
 
 /**
@@ -15,7 +15,7 @@ import { enrichProjectWithRunnerStatus } from '@/lib/runner-utils';
 export async function POST(request: Request) {
   try {
     // Check authentication
-    const session = await getSession();
+    const session = await getSession('projects:write');
     const userId = isLocalMode() ? null : (session?.user?.id ?? null);
     
     // In hosted mode, require authentication
@@ -118,6 +118,9 @@ export async function POST(request: Request) {
       template,
     });
   } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
     console.error('[create-from-analysis] Failed to create project:', error);
     Sentry.captureException(error);
     return NextResponse.json(
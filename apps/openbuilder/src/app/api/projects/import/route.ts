@@ -0,0 +1,140 @@
+import { NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import * as Sentry from '@sentry/nextjs';
+import { db } from '@openbuilder/agent-core/lib/db/client';
+import { projects } from '@openbuilder/agent-core/lib/db/schema';
+import { selectRunner } from '@openbuilder/agent-core/lib/runner/broker-state';
+import type { ImportSource } from '@openbuilder/agent-core/shared/runner/messages';
+import { eq } from 'drizzle-orm';
+import { getSession, isLocalMode } from '@/lib/auth-helpers';
+import { enrichProjectWithRunnerStatus, importSourceOnRunner } from '@/lib/runner-utils';
+
+interface ImportRequestBody {
+  source?: ImportSource;
+  name?: string;
+  runnerId?: string;
+}
+
+function toSlug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 80);
+}
+
+// Last path segment of a git URL or directory, without a trailing .git
+function sourceBaseName(source: ImportSource): string {
+  const location = source.type === 'git' ? source.url : source.path;
+  const segment = location.replace(/[\\/]+$/, '').split(/[\\/:]/).pop() ?? '';
+  return segment.replace(/\.git$/, '');
+}
+
+/**
+ * Import an existing codebase as a project
+ *
+ * The runner clones the git repository (or adopts the local directory) into its
+ * workspace, installs dependencies and detects the framework and run command.
+ * The project row is only created once that succeeded, already completed, so
+ * preview, tunnels and follow-up builds work like on a generated project.
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getSession();
+    const userId = isLocalMode() ? null : (session?.user?.id ?? null);
+
+    if (!isLocalMode() && !userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { source, name, runnerId } = (await request.json()) as ImportRequestBody;
+
+    if (source?.type === 'git') {
+      if (!source.url?.trim()) {
+        return NextResponse.json({ error: 'Git URL is required' }, { status: 400 });
+      }
+    } else if (source?.type === 'directory') {
+      if (!source.path?.trim()) {
+        return NextResponse.json({ error: 'Directory path is required' }, { status: 400 });
+      }
+      // A hosted runner's filesystem isn't the user's to browse
+      if (!isLocalMode()) {
+        return NextResponse.json({ error: 'Directory imports are only available in local mode' }, { status: 403 });
+      }
+    } else {
+      return NextResponse.json({ error: 'source must be a git repository or a directory' }, { status: 400 });
+    }
+
+    const selection = await selectRunner({
+      userId: userId ?? undefined,
+      preferredRunnerId: runnerId ?? process.env.RUNNER_DEFAULT_ID ?? null,
+    });
+    if (!selection) {
+      return NextResponse.json({ error: 'No runners connected' }, { status: 503 });
+    }
+
+    const baseSlug = toSlug(name?.trim() || sourceBaseName(source));
+    let slug = baseSlug.length >= 2 ? baseSlug : 'imported-project';
+    const existing = await db.select({ id: projects.id }).from(projects).where(eq(projects.slug, slug));
+    if (existing.length > 0) {
+      slug = `${slug}-${Date.now()}`;
+    }
+
+    const projectId = randomUUID();
+    console.log(`[import] Importing ${source.type === 'git' ? source.url : source.path} as ${slug} on ${selection.runnerId}`);
+
+    const result = await importSourceOnRunner({
+      projectId,
+      slug,
+      runnerId: selection.runnerId,
+      source,
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error || 'Import failed' }, { status: 422 });
+    }
+
+    // A directory already in the workspace keeps its folder name as the slug
+    if (result.slug !== slug) {
+      const adopted = await db.select({ id: projects.id }).from(projects).where(eq(projects.slug, result.slug));
+      if (adopted.length > 0) {
+        return NextResponse.json({ error: `${result.slug} is already a project` }, { status: 409 });
+      }
+    }
+
+    const [project] = await db.insert(projects).values({
+      id: projectId,
+      name: name?.trim() || result.name || result.slug,
+      slug: result.slug,
+      description: result.description || (source.type === 'git' ? `Imported from ${source.url}` : `Imported from ${source.path}`),
+      status: 'completed',
+      projectType: result.projectType ?? null,
+      detectedFramework: result.detectedFramework ?? null,
+      runCommand: result.runCommand ?? null,
+      port: result.port ?? null,
+      userId,
+      runnerId: selection.runnerId,
+    }).returning();
+
+    console.log(`[import] Project created: ${project.id} (${result.detectedFramework || 'unknown framework'})`);
+
+    Sentry.metrics.count('project.imported', 1, {
+      attributes: {
+        project_id: project.id,
+        source_type: source.type,
+        framework: result.detectedFramework || 'unknown',
+        dependencies_installed: String(!!result.dependenciesInstalled),
+      },
+    });
+
+    const enrichedProject = await enrichProjectWithRunnerStatus(project);
+
+    return NextResponse.json({ project: enrichedProject });
+  } catch (error) {
+    console.error('[import] Failed to import project:', error);
+    Sentry.captureException(error);
+    return NextResponse.json(
+      {
+        error: 'Failed to import project',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
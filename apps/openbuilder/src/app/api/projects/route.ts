@@ -4,7 +4,7 @@ import { db } from '@openbuilder/agent-core/lib/db/client';
 import { projects, messages } from '@openbuilder/agent-core/lib/db/schema';
 import { eq, or, isNull } from 'drizzle-orm';
 import type { AgentId } from '@openbuilder/agent-core/types/agent';
-import { getSession, isLocalMode, getUserId } from '@/lib/auth-helpers';
+import { getSession, isLocalMode, getUserId, handleAuthError } from '@/lib/auth-helpers';
 import { enrichProjectsWithRunnerStatus } from '@/lib/runner-utils';
 
 /**
@@ -32,7 +32,7 @@ export async function GET() {
     }
 
     // In hosted mode, filter by user
-    const userId = await getUserId();
+    const userId = await getUserId('projects:read');
     
     if (!userId) {
       // Not authenticated - return empty list
@@ -55,6 +55,9 @@ export async function GET() {
     const enrichedProjects = await enrichProjectsWithRunnerStatus(userProjects);
     return NextResponse.json({ projects: enrichedProjects });
   } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
     console.error('Error fetching projects:', error);
     return NextResponse.json({ error: 'Failed to fetch projects' }, { status: 500 });
   }
@@ -108,7 +111,7 @@ export async function POST(request: Request) {
     // Check authentication (required for creating projects in hosted mode)
     // In local mode, we don't associate projects with users (userId = null)
     // This avoids foreign key violations since LOCAL_USER doesn't exist in the DB
-    const session = await getSession();
+    const session = await getSession('projects:write');
     const userId = isLocalMode() ? null : (session?.user?.id ?? null);
     
     // In hosted mode, require authentication
@@ -223,6 +226,9 @@ export async function POST(request: Request) {
       project,
     });
   } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
     console.error('Failed to create project:', error);
     return NextResponse.json(
       {
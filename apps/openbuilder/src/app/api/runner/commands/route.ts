@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { sendCommandToRunner } from '@openbuilder/agent-core/lib/runner/broker-state';
+import { getRunnerCommandHistory } from '@openbuilder/agent-core/lib/runner/command-queue-store';
 import type { RunnerCommand } from '@openbuilder/agent-core/shared/runner/messages';
 import { requireProjectOwnership, handleAuthError, isLocalMode, getSession } from '@/lib/auth-helpers';
 
@@ -42,3 +43,32 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: 'Failed to dispatch command' }, { status: 500 });
   }
 }
+
+/**
+ * GET /api/runner/commands?projectId=<id>&limit=<n>
+ * History of queued runner commands for a project, including every delivery attempt
+ */
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url);
+    const projectId = url.searchParams.get('projectId');
+    if (!projectId) {
+      return NextResponse.json({ error: 'projectId required' }, { status: 400 });
+    }
+    await requireProjectOwnership(projectId);
+
+    const limit = Number.parseInt(url.searchParams.get('limit') || '', 10);
+    const commands = await getRunnerCommandHistory({
+      projectId,
+      limit: Number.isFinite(limit) && limit > 0 ? limit : undefined,
+    });
+
+    return NextResponse.json({ commands });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
+    console.error('Failed to load runner command history:', error);
+    return NextResponse.json({ error: 'Failed to load command history' }, { status: 500 });
+  }
+}
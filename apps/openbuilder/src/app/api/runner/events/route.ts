@@ -7,9 +7,13 @@ import { eq, desc, and, inArray, or, isNull } from 'drizzle-orm';
 import { publishRunnerEvent } from '@openbuilder/agent-core/lib/runner/event-stream';
 import { buildWebSocketServer } from '@openbuilder/agent-core/lib/websocket/server';
 import { appendRunnerLog, markRunnerLogExit } from '@openbuilder/agent-core/lib/runner/log-store';
-import { sendCommandToRunner } from '@openbuilder/agent-core/lib/runner/broker-state';
+import { sendCommandToRunner, queueCommandToRunner } from '@openbuilder/agent-core/lib/runner/broker-state';
 import { getProjectRunnerId } from '@/lib/runner-utils';
+import { getProjectEnv, getProjectEnvVarNames } from '@/lib/project-env';
+import { describeScreenshotFailures, saveBuildScreenshots, summarizeBuildScreenshots } from '@/lib/build-screenshots';
+import { autoFixAttempts, AUTO_FIX_COOLDOWN_MS, checkAutoFixBudget, MAX_AUTO_FIX_ATTEMPTS, triggerAutoFix } from '@/lib/auto-fix';
 import { projectEvents } from '@/lib/project-events';
+import { dispatchWebhookEvent } from '@/lib/webhooks';
 import * as Sentry from '@sentry/nextjs';
 // import { metrics } from '@sentry/core';
 import {
@@ -18,14 +22,11 @@ import {
   buildEnvForFramework,
   getRunCommand,
 } from '@openbuilder/agent-core/lib/port-allocator';
-import type { StartDevServerCommand } from '@/shared/runner/messages';
+import type { StartDevServerCommand, GithubPushCommand } from '@/shared/runner/messages';
+import type { GitHubMeta } from '@openbuilder/agent-core';
+import type { BuildScreenshots } from '@openbuilder/agent-core/types/generation';
 import { authenticateRunnerKey, extractRunnerKey, isLocalMode } from '@/lib/auth-helpers';
 
-// Track auto-fix attempts per project to prevent infinite loops
-const autoFixAttempts = new Map<string, { count: number; lastAttempt: number }>();
-const MAX_AUTO_FIX_ATTEMPTS = 3;
-const AUTO_FIX_COOLDOWN_MS = 60000; // 1 minute cooldown between auto-fix attempts
-
 // Track port conflict retry attempts per project
 const portRetryAttempts = new Map<string, number>();
 const MAX_PORT_RETRY_ATTEMPTS = 3;
@@ -151,6 +152,7 @@ export async function POST(request: Request) {
             type: event.stream === 'stderr' ? 'stderr' : 'stdout',
             data: event.data,
             timestamp: new Date(event.timestamp ?? Date.now()),
+            cursor: event.cursor,
           });
         } else if (event.type === 'process-exited') {
           markRunnerLogExit(projectId, {
@@ -171,6 +173,7 @@ export async function POST(request: Request) {
               .where(eq(projects.id, projectId))
               .returning();
             if (updated) emitProjectUpdateFromData(projectId, updated);
+            dispatchWebhookEvent(projectId, 'tunnel-created', { port: event.port, tunnelUrl: event.tunnelUrl });
             break;
           }
           case 'tunnel-closed': {
@@ -244,6 +247,7 @@ export async function POST(request: Request) {
                       // Build port environment variables
                       const portEnv = buildEnvForFramework(portInfo.framework, portInfo.port);
                       const runCommand = getRunCommand(project.runCommand);
+                      const projectEnv = await getProjectEnv(projectId);
 
                       // Send retry command to runner
                       const retryCommand: StartDevServerCommand = {
@@ -254,8 +258,9 @@ export async function POST(request: Request) {
                         payload: {
                           runCommand,
                           workingDirectory: project.path,
-                          env: portEnv,
+                          env: { ...projectEnv, ...portEnv },
                           preferredPort: portInfo.port,
+                          framework: portInfo.framework,
                         },
                       };
 
@@ -463,6 +468,14 @@ export async function POST(request: Request) {
             // No port reservation cleanup needed
             if (updated) emitProjectUpdateFromData(projectId, updated);
 
+            dispatchWebhookEvent(projectId, 'process-exited', {
+              exitCode: event.exitCode,
+              signal: event.signal,
+              durationMs: event.durationMs,
+              status: finalStatus,
+              failureReason: exitEvent.failureReason ?? null,
+            });
+
             // Trigger auto-fix for immediate crashes with stderr output
             if (wasImmediateCrash && exitEvent.stderr && currentProject) {
               console.log(`[events] 🔧 Immediate crash detected for project ${projectId}, triggering auto-fix`);
@@ -494,7 +507,10 @@ export async function POST(request: Request) {
                 }
               }
 
-              if (currentProject.slug) {
+              const budgetCheck = currentProject.slug
+                ? await checkAutoFixBudget(currentProject, exitEvent.stderr)
+                : null;
+              if (currentProject.slug && budgetCheck) {
                 // Update auto-fix tracking
                 autoFixAttempts.set(projectId, {
                   count: (attempts?.count || 0) + 1,
@@ -563,6 +579,8 @@ IMPORTANT:
                       projectName: currentProject.name || currentProject.slug,
                       isAutoFix: true,
                       autoFixError: exitEvent.stderr.substring(0, 500),
+                      envVarNames: await getProjectEnvVarNames(projectId),
+                      budget: budgetCheck.budget,
                     },
                   };
 
@@ -663,6 +681,12 @@ IMPORTANT:
               .where(eq(projects.id, projectId))
               .returning();
 
+            dispatchWebhookEvent(projectId, 'build-completed', {
+              commandId: event.commandId ?? null,
+              summary: buildSummary,
+              detectedFramework,
+            });
+
             if (updated) {
               emitProjectUpdateFromData(projectId, updated);
 
@@ -741,6 +765,7 @@ IMPORTANT:
                     // Build port environment variables
                     const portEnv = buildEnvForFramework(portInfo.framework, portInfo.port);
                     const runCommand = getRunCommand(updated.runCommand);
+                    const projectEnv = await getProjectEnv(updated.id);
 
                     // Send start command to runner
                     const startCommand: StartDevServerCommand = {
@@ -751,13 +776,15 @@ IMPORTANT:
                       payload: {
                         runCommand,
                         workingDirectory: updated.path,
-                        env: portEnv,
+                        env: { ...projectEnv, ...portEnv },
                         preferredPort: portInfo.port,
+                        framework: portInfo.framework,
                       },
                     };
 
-                    await sendCommandToRunner(runnerId, startCommand);
-                    console.log(`[events] ✅ Auto-start command sent for project ${updated.id} on port ${portInfo.port}`);
+                    // Queued so the auto-start isn't lost if the runner blips right after the build
+                    const { sent } = queueCommandToRunner(runnerId, startCommand);
+                    console.log(`[events] ✅ Auto-start command ${sent ? 'sent' : 'queued'} for project ${updated.id} on port ${portInfo.port}`);
 
                     Sentry.metrics.count('dev_server_auto_start', 1, {
                       attributes: {
@@ -775,6 +802,39 @@ IMPORTANT:
               } else if (serverAlreadyRunning) {
                 console.log(`[events] ⏭️ Skipping auto-start - server already running (HMR will handle file changes)`);
               }
+
+              // ============================================================
+              // AUTO-PUSH TO GITHUB AFTER BUILD COMPLETION
+              // ============================================================
+              if (updated.githubAutoPush && updated.githubRepo && updated.slug) {
+                try {
+                  const runnerId = await getProjectRunnerId(updated.runnerId);
+
+                  if (runnerId) {
+                    const pushCommand: GithubPushCommand = {
+                      id: randomUUID(),
+                      type: 'github-push',
+                      projectId: updated.id,
+                      timestamp: new Date().toISOString(),
+                      payload: {
+                        slug: updated.slug,
+                        repo: updated.githubRepo,
+                        branch: updated.githubBranch || 'main',
+                        commitMessage: buildSummary
+                          ? `OpenBuilder: ${buildSummary.split('\n')[0].slice(0, 72)}`
+                          : 'OpenBuilder: update from latest build',
+                      },
+                    };
+
+                    const { sent } = queueCommandToRunner(runnerId, pushCommand);
+                    console.log(`[events] ⬆️ Auto-push command ${sent ? 'sent' : 'queued'} for project ${updated.id} to ${updated.githubRepo}`);
+                  } else {
+                    console.log(`[events] ⚠️ No runner available for GitHub auto-push`);
+                  }
+                } catch (autoPushError) {
+                  console.error(`[events] ❌ GitHub auto-push failed:`, autoPushError);
+                }
+              }
             }
             break;
           }
@@ -816,7 +876,164 @@ IMPORTANT:
 
             break;
           }
+          case 'build-verification': {
+            const verification = event.payload;
+            const targetSessionId = event.sessionId;
+
+            console.log(`[events] 🔎 Build verification ${verification.status} for project ${projectId} (attempt ${verification.attempt}/${verification.maxRepairAttempts})`);
+
+            if (!targetSessionId) {
+              buildWebSocketServer.broadcastBuildVerification(projectId, '', verification);
+              break;
+            }
+
+            try {
+              // Keep the latest result on the session so it survives a reload
+              const [session] = await db.select({ rawState: generationSessions.rawState })
+                .from(generationSessions)
+                .where(eq(generationSessions.id, targetSessionId))
+                .limit(1);
+
+              if (session) {
+                const existingState = typeof session.rawState === 'string'
+                  ? JSON.parse(session.rawState)
+                  : (session.rawState ?? {});
+
+                await db.update(generationSessions)
+                  .set({
+                    rawState: JSON.stringify({ ...existingState, verification }),
+                    updatedAt: new Date(),
+                  })
+                  .where(eq(generationSessions.id, targetSessionId));
+              }
+            } catch (err) {
+              console.error(`[events] ❌ Failed to save build verification:`, err);
+            }
+
+            buildWebSocketServer.broadcastBuildVerification(projectId, targetSessionId, verification);
+            break;
+          }
+          case 'build-screenshots': {
+            const targetSessionId = event.sessionId;
+            console.log(`[events] 📸 Screenshots ${event.payload.status} for project ${projectId} (${event.payload.shots.length} captured)`);
+
+            if (!targetSessionId) {
+              // Images are only kept per session - without one the UI just gets the summary
+              buildWebSocketServer.broadcastBuildScreenshots(projectId, '', summarizeBuildScreenshots(event.payload));
+              break;
+            }
+
+            let screenshots: BuildScreenshots | null = null;
+            try {
+              screenshots = await saveBuildScreenshots(targetSessionId, projectId, event.payload);
+              buildWebSocketServer.broadcastBuildScreenshots(projectId, targetSessionId, screenshots);
+            } catch (err) {
+              console.error(`[events] ❌ Failed to save build screenshots:`, err);
+            }
+
+            // A blank page or an error overlay means the app doesn't render - let the agent fix it
+            if (screenshots?.status === 'failed') {
+              await triggerAutoFix(projectId, event.commandId, describeScreenshotFailures(screenshots));
+            }
+            break;
+          }
+          case 'build-usage': {
+            const usage = event.payload;
+
+            console.log(`[events] 🪙 Build usage for project ${projectId}: ${usage.inputTokens + usage.outputTokens} tokens${usage.costUsd !== null ? `, $${usage.costUsd.toFixed(4)}` : ''}`);
+
+            let targetSessionId = event.sessionId;
+            try {
+              // Usage is what the build is billed on - fall back to the latest session when the
+              // runner didn't know the session id
+              const [session] = await db.select({ id: generationSessions.id, rawState: generationSessions.rawState })
+                .from(generationSessions)
+                .where(targetSessionId
+                  ? eq(generationSessions.id, targetSessionId)
+                  : eq(generationSessions.projectId, projectId))
+                .orderBy(desc(generationSessions.createdAt))
+                .limit(1);
+
+              if (session) {
+                targetSessionId = session.id;
+                const existingState = typeof session.rawState === 'string'
+                  ? JSON.parse(session.rawState)
+                  : (session.rawState ?? {});
+
+                await db.update(generationSessions)
+                  .set({
+                    agentId: usage.agent,
+                    model: usage.model,
+                    inputTokens: usage.inputTokens,
+                    outputTokens: usage.outputTokens,
+                    cacheReadTokens: usage.cacheReadTokens,
+                    cacheWriteTokens: usage.cacheWriteTokens,
+                    costUsd: usage.costUsd,
+                    numTurns: usage.turns,
+                    rawState: JSON.stringify({ ...existingState, usage }),
+                    updatedAt: new Date(),
+                  })
+                  .where(eq(generationSessions.id, session.id));
+              }
+            } catch (err) {
+              console.error(`[events] ❌ Failed to save build usage:`, err);
+            }
+
+            buildWebSocketServer.broadcastBuildUsage(projectId, targetSessionId ?? '', usage);
+            break;
+          }
+          case 'claude-session': {
+            // Internal to the runner - no need to notify the UI
+            await db.update(projects)
+              .set({ claudeSessionId: event.payload.claudeSessionId })
+              .where(eq(projects.id, projectId));
+            break;
+          }
+          case 'github-pushed':
+          case 'github-synced': {
+            const { success, meta } = event.payload;
+
+            // Merge with stored meta so a failed sync keeps the last known counts/commits
+            const [existing] = await db.select({ githubMeta: projects.githubMeta })
+              .from(projects)
+              .where(eq(projects.id, projectId))
+              .limit(1);
+            const previousMeta = (existing?.githubMeta as GitHubMeta | null) ?? {};
+            const githubMeta: GitHubMeta = success
+              ? { ...previousMeta, ...meta, lastSyncError: meta.lastSyncError }
+              : { ...previousMeta, lastSyncError: event.payload.error ?? meta.lastSyncError };
+
+            const now = new Date();
+            const updates: Partial<typeof projects.$inferInsert> = {
+              githubMeta,
+              githubLastSyncAt: now,
+              lastActivityAt: now,
+            };
+
+            if (event.type === 'github-pushed' && success) {
+              updates.githubLastPushedAt = now;
+              updates.githubBranch = event.payload.branch;
+              updates.githubRepo = event.payload.repo;
+              if (event.payload.url) updates.githubUrl = event.payload.url;
+              console.log(`[events] ✅ GitHub push for project ${projectId}: ${event.payload.commitSha?.slice(0, 7)} (${event.payload.filesChanged ?? 0} files)`);
+            } else if (!success) {
+              console.warn(`[events] ⚠️ GitHub ${event.type === 'github-pushed' ? 'push' : 'sync'} failed for project ${projectId}: ${githubMeta.lastSyncError}`);
+            }
+
+            const [updated] = await db.update(projects)
+              .set(updates)
+              .where(eq(projects.id, projectId))
+              .returning();
+            if (updated) emitProjectUpdateFromData(projectId, updated);
+            break;
+          }
           case 'build-failed':
+            dispatchWebhookEvent(projectId, 'build-failed', {
+              commandId: event.commandId ?? null,
+              error: event.error,
+              failureReason: event.failureReason ?? null,
+            });
+            break;
           case 'build-stream':
             break;
           case 'error': {
@@ -837,126 +1054,9 @@ IMPORTANT:
             console.log(`[events] 🔧 Dev server error detected for project ${projectId}`);
             console.log(`[events]    Error: ${errorMessage.substring(0, 200)}...`);
 
-            // Check auto-fix attempt limits to prevent infinite loops
-            const attempts = autoFixAttempts.get(projectId);
-            const now = Date.now();
-
-            if (attempts) {
-              // Reset count if cooldown period has passed
-              if (now - attempts.lastAttempt > AUTO_FIX_COOLDOWN_MS) {
-                attempts.count = 0;
-              }
-
-              if (attempts.count >= MAX_AUTO_FIX_ATTEMPTS) {
-                console.log(`[events] ⚠️ Max auto-fix attempts (${MAX_AUTO_FIX_ATTEMPTS}) reached for project ${projectId}, skipping auto-fix`);
-
-                // Update project status to show manual intervention needed
-                const [updated] = await db.update(projects)
-                  .set({
-                    status: 'failed',
-                    errorMessage: `Auto-fix failed after ${MAX_AUTO_FIX_ATTEMPTS} attempts. Error: ${errorMessage.substring(0, 300)}`,
-                    lastActivityAt: new Date(),
-                  })
-                  .where(eq(projects.id, projectId))
-                  .returning();
-                if (updated) emitProjectUpdateFromData(projectId, updated);
-                break;
-              }
-            }
-
-            // Get project details for the fix request
-            const [project] = await db.select()
-              .from(projects)
-              .where(eq(projects.id, projectId))
-              .limit(1);
-
-            if (project && project.slug) {
-              // Update auto-fix tracking
-              const attemptNumber = (attempts?.count || 0) + 1;
-              autoFixAttempts.set(projectId, {
-                count: attemptNumber,
-                lastAttempt: now,
-              });
-
-              console.log(`[events] 🔧 Triggering auto-fix build (attempt ${attemptNumber}/${MAX_AUTO_FIX_ATTEMPTS})...`);
-
-              // Emit autofix-started event to notify UI
-              const autoFixEvent: AutoFixStartedEvent = {
-                type: 'autofix-started',
-                projectId: projectId,
-                commandId: event.commandId,
-                timestamp: new Date().toISOString(),
-                errorType: 'runtime',
-                errorMessage: errorMessage.substring(0, 500),
-                attempt: attemptNumber,
-                maxAttempts: MAX_AUTO_FIX_ATTEMPTS,
-              };
-              publishRunnerEvent(autoFixEvent);
-              console.log(`[events] 📡 Emitted autofix-started event for project ${projectId}`);
-
-              // Update project status to indicate error fixing in progress
-              const [updated] = await db.update(projects)
-                .set({
-                  status: 'building',
-                  errorMessage: errorMessage.substring(0, 500),
-                  lastActivityAt: new Date(),
-                })
-                .where(eq(projects.id, projectId))
-                .returning();
-              if (updated) emitProjectUpdateFromData(projectId, updated);
-
-              // Get the runner for this project
-              const runnerId = await getProjectRunnerId(project.runnerId);
-
-              if (runnerId) {
-                // Create a fix build command
-                const fixPrompt = `## Dev Server Error - Please Fix
-
-The dev server encountered the following error after the build completed:
-
-\`\`\`
-${errorMessage.substring(0, 2000)}
-\`\`\`
-
-Please analyze this error, identify the root cause, fix it, and verify the fix works by running the dev server.
-
-IMPORTANT:
-- Run \`npm run build\` or \`npm run dev\` to verify your fix
-- Keep iterating until the error is resolved
-- Do not declare success until verification shows no errors`;
-
-                const buildCommand: StartBuildCommand = {
-                  id: randomUUID(),
-                  type: 'start-build',
-                  projectId: projectId,
-                  timestamp: new Date().toISOString(),
-                  payload: {
-                    prompt: fixPrompt,
-                    operationType: 'autofix', // Use 'autofix' operation type for clarity
-                    projectSlug: project.slug,
-                    projectName: project.name || project.slug,
-                    isAutoFix: true,
-                    autoFixError: errorMessage.substring(0, 500),
-                  },
-                };
-
-                try {
-                  await sendCommandToRunner(runnerId, buildCommand);
-                  console.log(`[events] ✅ Auto-fix build triggered for project ${projectId}`);
+            dispatchWebhookEvent(projectId, 'dev-server-error', { error: errorMessage });
 
-                  Sentry.metrics.count('dev_server_error_autofix_triggered', 1, {
-                    attributes: {
-                      project_id: projectId,
-                      attempt: String((attempts?.count || 0) + 1),
-                    },
-                  });
-                } catch (sendError) {
-                  console.error(`[events] ❌ Failed to send auto-fix command to runner:`, sendError);
-                }
-              } else {
-                console.log(`[events] ⚠️ No runner available for auto-fix, project ${projectId}`);
-              }
-            }
+            await triggerAutoFix(projectId, event.commandId, errorMessage);
             break;
           }
           default:
@@ -19,6 +19,7 @@ export async function GET() {
     runnerId: connection.runnerId,
     lastHeartbeat: connection.lastHeartbeat,
     lastHeartbeatAge: connection.lastHeartbeatAge,
+    status: connection.status, // Load / active builds from the latest heartbeat
   }));
 
   return NextResponse.json({
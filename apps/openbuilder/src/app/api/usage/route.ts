@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { requireAuth, isLocalMode, isAdminUser, handleAuthError } from '@/lib/auth-helpers';
+import { getUserUsage } from '@/lib/usage';
+
+/**
+ * GET /api/usage
+ * Token and cost usage across the current user's projects,
+ * broken down by project and model, plus the most recent builds.
+ * canManageLimits tells the UI whether to link to the spending limits page.
+ */
+export async function GET() {
+  try {
+    const session = await requireAuth();
+
+    // Local mode has a single user that owns every project
+    const usage = await getUserUsage(isLocalMode() ? null : session.user.id);
+    return NextResponse.json({ ...usage, canManageLimits: isAdminUser(session.user) });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
+    console.error('Failed to load usage:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to load usage',
+    }, { status: 500 });
+  }
+}
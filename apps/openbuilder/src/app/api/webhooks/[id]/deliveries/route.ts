@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@openbuilder/agent-core";
+import { webhookDeliveries } from "@openbuilder/agent-core/lib/db/schema";
+import { desc, eq } from "drizzle-orm";
+import {
+  requireAuth,
+  isLocalMode,
+  handleAuthError,
+  AuthError,
+} from "@/lib/auth-helpers";
+import { findOwnedWebhook } from "@/lib/webhooks";
+
+const DELIVERY_LIMIT = 50;
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/webhooks/[id]/deliveries
+ * Most recent deliveries for a webhook, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const session = await requireAuth();
+    const { id: webhookId } = await params;
+
+    const webhook = await findOwnedWebhook(webhookId, isLocalMode() ? null : session.user.id);
+    if (!webhook) {
+      throw new AuthError("Webhook not found", 404);
+    }
+
+    const deliveries = await db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.webhookId, webhookId))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(DELIVERY_LIMIT);
+
+    return NextResponse.json({ deliveries });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
+    console.error("Failed to list webhook deliveries:", error);
+    return NextResponse.json({ error: "Failed to list webhook deliveries" }, { status: 500 });
+  }
+}
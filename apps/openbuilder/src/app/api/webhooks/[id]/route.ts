@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@openbuilder/agent-core";
+import { webhooks } from "@openbuilder/agent-core/lib/db/schema";
+import { eq } from "drizzle-orm";
+import {
+  requireAuth,
+  isLocalMode,
+  handleAuthError,
+  AuthError,
+} from "@/lib/auth-helpers";
+import { isWebhookEvent } from "@/lib/webhook-events";
+import { findOwnedWebhook, generateWebhookSecret, validateWebhookUrl } from "@/lib/webhooks";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/webhooks/[id]
+ * Update a webhook
+ * Body: { url?, events?: string[], active?: boolean, rotateSecret?: boolean }
+ * Returns the new secret when rotateSecret is set
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const session = await requireAuth();
+    const { id: webhookId } = await params;
+
+    const existing = await findOwnedWebhook(webhookId, isLocalMode() ? null : session.user.id);
+    if (!existing) {
+      throw new AuthError("Webhook not found", 404);
+    }
+
+    const body = await request.json();
+    const updates: Partial<typeof webhooks.$inferInsert> = { updatedAt: new Date() };
+
+    if (body.url !== undefined) {
+      const urlError = await validateWebhookUrl(body.url);
+      if (urlError) {
+        throw new AuthError(urlError, 400);
+      }
+      updates.url = (body.url as string).trim();
+    }
+
+    if (body.events !== undefined) {
+      const events: unknown = body.events;
+      if (!Array.isArray(events) || events.length === 0) {
+        throw new AuthError("Select at least one event", 400);
+      }
+      const invalidEvent = events.find((event) => !isWebhookEvent(event));
+      if (invalidEvent !== undefined) {
+        throw new AuthError(`Unknown event: ${String(invalidEvent)}`, 400);
+      }
+      updates.events = Array.from(new Set(events as string[]));
+    }
+
+    if (body.active !== undefined) {
+      if (typeof body.active !== "boolean") {
+        throw new AuthError("active must be a boolean", 400);
+      }
+      updates.active = body.active;
+    }
+
+    const secret = body.rotateSecret === true ? generateWebhookSecret() : undefined;
+    if (secret) {
+      updates.secret = secret;
+    }
+
+    const [webhook] = await db
+      .update(webhooks)
+      .set(updates)
+      .where(eq(webhooks.id, webhookId))
+      .returning({
+        id: webhooks.id,
+        url: webhooks.url,
+        events: webhooks.events,
+        active: webhooks.active,
+        projectId: webhooks.projectId,
+        createdAt: webhooks.createdAt,
+        updatedAt: webhooks.updatedAt,
+      });
+
+    return NextResponse.json({ webhook, ...(secret ? { secret } : {}) });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
+    console.error("Failed to update webhook:", error);
+    return NextResponse.json({ error: "Failed to update webhook" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/webhooks/[id]
+ * Delete a webhook and its delivery log
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const session = await requireAuth();
+    const { id: webhookId } = await params;
+
+    const existing = await findOwnedWebhook(webhookId, isLocalMode() ? null : session.user.id);
+    if (!existing) {
+      throw new AuthError("Webhook not found", 404);
+    }
+
+    await db.delete(webhooks).where(eq(webhooks.id, webhookId));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
+    console.error("Failed to delete webhook:", error);
+    return NextResponse.json({ error: "Failed to delete webhook" }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@openbuilder/agent-core";
+import { webhookDeliveries } from "@openbuilder/agent-core/lib/db/schema";
+import { eq } from "drizzle-orm";
+import {
+  requireAuth,
+  isLocalMode,
+  handleAuthError,
+  AuthError,
+} from "@/lib/auth-helpers";
+import { findOwnedWebhook, redeliverWebhookDelivery } from "@/lib/webhooks";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/webhooks/deliveries/[id]/redeliver
+ * Send a delivery's payload again. Creates a new delivery with its own retries.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const session = await requireAuth();
+    const { id: deliveryId } = await params;
+
+    const delivery = await db.query.webhookDeliveries.findFirst({
+      where: eq(webhookDeliveries.id, deliveryId),
+    });
+
+    const webhook = delivery
+      ? await findOwnedWebhook(delivery.webhookId, isLocalMode() ? null : session.user.id)
+      : undefined;
+
+    if (!delivery || !webhook) {
+      throw new AuthError("Delivery not found", 404);
+    }
+
+    if (!webhook.active) {
+      throw new AuthError("Enable the webhook before redelivering", 400);
+    }
+
+    const redelivery = await redeliverWebhookDelivery(delivery);
+
+    return NextResponse.json({ delivery: redelivery });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
+    console.error("Failed to redeliver webhook:", error);
+    return NextResponse.json({ error: "Failed to redeliver webhook" }, { status: 500 });
+  }
+}
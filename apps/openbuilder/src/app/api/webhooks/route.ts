@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@openbuilder/agent-core";
+import { projects, webhooks } from "@openbuilder/agent-core/lib/db/schema";
+import { desc, eq, isNull } from "drizzle-orm";
+import {
+  requireAuth,
+  requireProjectOwnership,
+  isLocalMode,
+  handleAuthError,
+  AuthError,
+} from "@/lib/auth-helpers";
+import { isWebhookEvent } from "@/lib/webhook-events";
+import { generateWebhookSecret, validateWebhookUrl } from "@/lib/webhooks";
+
+/**
+ * GET /api/webhooks
+ * List the authenticated user's webhooks (secrets are never returned)
+ */
+export async function GET() {
+  try {
+    const session = await requireAuth();
+    const ownerId = isLocalMode() ? null : session.user.id;
+
+    const rows = await db
+      .select({
+        id: webhooks.id,
+        url: webhooks.url,
+        events: webhooks.events,
+        active: webhooks.active,
+        projectId: webhooks.projectId,
+        projectName: projects.name,
+        createdAt: webhooks.createdAt,
+        updatedAt: webhooks.updatedAt,
+      })
+      .from(webhooks)
+      .leftJoin(projects, eq(webhooks.projectId, projects.id))
+      .where(ownerId ? eq(webhooks.userId, ownerId) : isNull(webhooks.userId))
+      .orderBy(desc(webhooks.createdAt));
+
+    return NextResponse.json({ webhooks: rows });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
+    console.error("Failed to list webhooks:", error);
+    return NextResponse.json({ error: "Failed to list webhooks" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/webhooks
+ * Create a webhook for one project, or for all projects when projectId is omitted
+ * Body: { url, events: string[], projectId?: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireAuth();
+    const ownerId = isLocalMode() ? null : session.user.id;
+
+    const body = await request.json();
+    const events: unknown = body.events;
+    const projectId: unknown = body.projectId;
+
+    const urlError = await validateWebhookUrl(body.url);
+    if (urlError) {
+      throw new AuthError(urlError, 400);
+    }
+
+    if (!Array.isArray(events) || events.length === 0) {
+      throw new AuthError("Select at least one event", 400);
+    }
+
+    const invalidEvent = events.find((event) => !isWebhookEvent(event));
+    if (invalidEvent !== undefined) {
+      throw new AuthError(`Unknown event: ${String(invalidEvent)}`, 400);
+    }
+
+    if (projectId !== undefined && projectId !== null) {
+      if (typeof projectId !== "string") {
+        throw new AuthError("projectId must be a string", 400);
+      }
+      await requireProjectOwnership(projectId);
+    }
+
+    const secret = generateWebhookSecret();
+
+    const [webhook] = await db
+      .insert(webhooks)
+      .values({
+        userId: ownerId,
+        projectId: typeof projectId === "string" ? projectId : null,
+        url: (body.url as string).trim(),
+        secret,
+        events: Array.from(new Set(events as string[])),
+      })
+      .returning();
+
+    // Return the secret (only shown once)
+    return NextResponse.json({
+      webhook: {
+        id: webhook.id,
+        url: webhook.url,
+        events: webhook.events,
+        active: webhook.active,
+        projectId: webhook.projectId,
+        createdAt: webhook.createdAt,
+      },
+      secret,
+      message: "Webhook created. Copy the signing secret now - it won't be shown again.",
+    });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+
+    console.error("Failed to create webhook:", error);
+    return NextResponse.json({ error: "Failed to create webhook" }, { status: 500 });
+  }
+}
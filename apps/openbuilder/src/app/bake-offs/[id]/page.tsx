@@ -0,0 +1,242 @@
+'use client';
+
+import { Suspense } from "react"
+import { useParams, useRouter } from "next/navigation"
+import { ExternalLink, Loader2, Trophy } from "lucide-react"
+import { AppSidebar } from "@/components/app-sidebar"
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb"
+import { Separator } from "@/components/ui/separator"
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from "@/components/ui/sidebar"
+import { useToast } from "@/components/ui/toast"
+import { formatCostUsd, formatTokenCount } from "@/lib/utils"
+import { useBakeOff, type BakeOffEntry } from "@/queries/bake-offs"
+import { useKeepBakeOffProject } from "@/mutations/bake-offs"
+
+function formatDuration(ms: number) {
+  const seconds = Math.round(ms / 1000)
+  const minutes = Math.floor(seconds / 60)
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`
+}
+
+function buildStatusLabel(entry: BakeOffEntry) {
+  if (!entry.build) return 'Queued'
+  if (entry.build.status === 'active') return 'Building'
+  if (entry.build.status === 'failed') return 'Failed'
+  return 'Done'
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <p className="text-[10px] uppercase tracking-wide text-muted-foreground">{label}</p>
+      <p className="text-sm tabular-nums text-foreground">{value}</p>
+    </div>
+  )
+}
+
+function EntryColumn({
+  entry,
+  isWinner,
+  canKeep,
+  isKeeping,
+  onKeep,
+  onOpen,
+}: {
+  entry: BakeOffEntry
+  isWinner: boolean
+  canKeep: boolean
+  isKeeping: boolean
+  onKeep: () => void
+  onOpen: () => void
+}) {
+  const { build } = entry
+  const status = buildStatusLabel(entry)
+
+  return (
+    <section className={`flex min-w-[320px] flex-1 flex-col rounded-xl border ${isWinner ? 'border-primary' : 'border-border'}`}>
+      <div className="flex items-center justify-between border-b border-border px-4 py-3">
+        <div className="min-w-0">
+          <h2 className="truncate text-sm font-medium text-foreground">{entry.modelLabel}</h2>
+          <p className="truncate text-xs text-muted-foreground">{entry.slug}</p>
+        </div>
+        <span className={`flex items-center gap-1 text-xs ${status === 'Failed' ? 'text-red-400' : 'text-muted-foreground'}`}>
+          {status === 'Building' && <Loader2 className="h-3 w-3 animate-spin" />}
+          {isWinner && <Trophy className="h-3 w-3 text-primary" />}
+          {isWinner ? 'Kept' : status}
+        </span>
+      </div>
+
+      <div className="aspect-video border-b border-border bg-muted/30">
+        {entry.devServerStatus === 'running' ? (
+          <iframe
+            src={`/api/projects/${entry.projectId}/proxy?path=/`}
+            title={`${entry.modelLabel} preview`}
+            className="h-full w-full bg-white"
+          />
+        ) : (
+          <div className="flex h-full items-center justify-center text-xs text-muted-foreground">
+            {entry.devServerStatus === 'starting' ? 'Starting preview...' : 'No preview yet'}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 px-4 py-3">
+        <Stat label="Duration" value={build?.durationMs != null ? formatDuration(build.durationMs) : '-'} />
+        <Stat label="Cost" value={build?.costUsd != null ? formatCostUsd(build.costUsd) : '-'} />
+        <Stat label="Todos" value={build ? `${build.completedTodos} / ${build.todos}` : '-'} />
+        <Stat
+          label="Tokens"
+          value={build?.inputTokens != null ? formatTokenCount(build.inputTokens + (build.outputTokens ?? 0)) : '-'}
+        />
+      </div>
+
+      <div className="mt-auto flex items-center justify-end gap-2 border-t border-border px-4 py-3">
+        <button
+          type="button"
+          onClick={onOpen}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-muted-foreground hover:text-foreground"
+        >
+          <ExternalLink className="h-3 w-3" />
+          Open
+        </button>
+        {canKeep && (
+          <button
+            type="button"
+            onClick={onKeep}
+            disabled={isKeeping}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs bg-primary text-primary-foreground rounded disabled:opacity-50"
+          >
+            {isKeeping && <Loader2 className="h-3 w-3 animate-spin" />}
+            Keep this one
+          </button>
+        )}
+      </div>
+    </section>
+  )
+}
+
+function BakeOffContent({ bakeOffId }: { bakeOffId: string }) {
+  const router = useRouter()
+  const { addToast } = useToast()
+  const { data: bakeOff, isLoading, error } = useBakeOff(bakeOffId)
+  const keepMutation = useKeepBakeOffProject()
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 px-4 py-8 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        <span>Loading bake-off...</span>
+      </div>
+    )
+  }
+
+  if (error || !bakeOff) {
+    return (
+      <p className="px-4 py-8 text-sm text-red-400">
+        {error instanceof Error ? error.message : 'Failed to load bake-off'}
+      </p>
+    )
+  }
+
+  const isDecided = bakeOff.status === 'decided'
+  const isBuilding = bakeOff.entries.some((entry) => entry.build?.status === 'active')
+
+  const handleKeep = async (entry: BakeOffEntry) => {
+    const others = bakeOff.entries.length - 1
+    if (!window.confirm(`Keep the ${entry.modelLabel} build and delete the other ${others} project${others === 1 ? '' : 's'}?`)) {
+      return
+    }
+
+    try {
+      const { project } = await keepMutation.mutateAsync({ bakeOffId, projectId: entry.projectId })
+      addToast('success', `Kept the ${entry.modelLabel} build`)
+      router.push(`/?project=${project.slug}`)
+    } catch (err) {
+      addToast('error', err instanceof Error ? err.message : 'Failed to keep project')
+    }
+  }
+
+  return (
+    <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
+      <p className="text-xs text-muted-foreground">
+        {isDecided
+          ? 'A winner was kept - the other builds were deleted.'
+          : isBuilding
+            ? 'Builds are running in parallel. Previews appear once each dev server is up.'
+            : 'All builds are done. Keep the best one - the others are deleted along with their files.'}
+      </p>
+      <p className="rounded-xl border border-border bg-muted/30 px-4 py-3 text-sm text-foreground whitespace-pre-wrap">
+        {bakeOff.prompt}
+      </p>
+
+      <div className="flex gap-4 overflow-x-auto pb-2">
+        {bakeOff.entries.map((entry) => (
+          <EntryColumn
+            key={entry.projectId}
+            entry={entry}
+            isWinner={bakeOff.winnerProjectId === entry.projectId}
+            canKeep={!isDecided && !isBuilding}
+            isKeeping={keepMutation.isPending && keepMutation.variables?.projectId === entry.projectId}
+            onKeep={() => handleKeep(entry)}
+            onOpen={() => router.push(`/?project=${entry.slug}`)}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default function BakeOffPage() {
+  const params = useParams<{ id: string }>()
+
+  return (
+    <SidebarProvider>
+      <Suspense
+        fallback={
+          <div className="flex h-full items-center justify-center px-4 text-muted-foreground">
+            Loading sidebar…
+          </div>
+        }
+      >
+        <AppSidebar
+          onRenameProject={() => {}}
+          onDeleteProject={() => {}}
+        />
+      </Suspense>
+      <SidebarInset>
+        <header className="flex h-16 shrink-0 items-center gap-2 transition-[width,height] ease-linear group-has-data-[collapsible=icon]/sidebar-wrapper:h-12">
+          <div className="flex items-center gap-2 px-4">
+            <SidebarTrigger className="-ml-1" />
+            <Separator
+              orientation="vertical"
+              className="mr-2 data-[orientation=vertical]:h-4"
+            />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/">OpenBuilder</BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem>
+                  <BreadcrumbPage>Bake-off</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </div>
+        </header>
+        <BakeOffContent bakeOffId={params.id} />
+      </SidebarInset>
+    </SidebarProvider>
+  )
+}
@@ -9,7 +9,8 @@ import rehypeHighlight from "rehype-highlight";
 import "highlight.js/styles/github-dark.css";
 import { motion, AnimatePresence } from "framer-motion";
 import { Sparkles } from "lucide-react";
-import TabbedPreview from "@/components/TabbedPreview";
+import TabbedPreview, { type PreviewTab } from "@/components/TabbedPreview";
+import type { SelectionEditRequest } from "@/hooks/useElementEdits";
 import { ResizablePanel } from "@/components/ui/resizable-panel";
 import { getModelLogo } from "@/lib/model-logos";
 import { getFrameworkLogo } from "@/lib/framework-logos";
@@ -21,6 +22,7 @@ import { TodoList } from "@/components/BuildProgress/TodoList";
 import { CompletedTodosSummary } from "@/components/CompletedTodosSummary";
 import { ErrorDetectedSection } from "@/components/ErrorDetectedSection";
 import { PlanningPhase } from "@/components/BuildProgress/PlanningPhase";
+import { BuildSnapshotActions } from "@/components/BuildProgress/BuildSnapshotActions";
 import { AgentNotesSection, ActiveAgentNote } from "@/components/AgentNotesSection";
 import ProjectMetadataCard from "@/components/ProjectMetadataCard";
 import ImageAttachment from "@/components/ImageAttachment";
@@ -32,8 +34,10 @@ import { useProjects, type Project } from "@/contexts/ProjectContext";
 import { useRunner } from "@/contexts/RunnerContext";
 import { useAgent } from "@/contexts/AgentContext";
 import { useProjectMessages, useProject } from "@/queries/projects";
-import { useGitHubStatus } from "@/queries/github";
+import { useProjectSnapshots } from "@/queries/snapshots";
+import { AUTO_RUNNER_ID } from "@openbuilder/agent-core/lib/runner/scheduler";
 import { useSaveMessage } from "@/mutations/messages";
+import { useStartBakeOff } from "@/mutations/bake-offs";
 import { useQueryClient } from "@tanstack/react-query";
 import { useBrowserMetrics } from "@/hooks/useBrowserMetrics";
 import type {
@@ -54,8 +58,11 @@ import {
 import { processCodexEvent } from "@openbuilder/agent-core/lib/agents/codex/events";
 
 import { TagInput } from "@/components/tags/TagInput";
+import { BakeOffPicker } from "@/components/tags/BakeOffPicker";
 import type { AppliedTag } from "@openbuilder/agent-core/types/tags";
-import { parseModelTag } from "@openbuilder/agent-core/lib/tags/model-parser";
+import type { AgentId, ClaudeModelId } from "@openbuilder/agent-core/types/agent";
+import type { BuildRequest, FocusedEditElement } from "@openbuilder/agent-core/types/build";
+import { getAgentModelOptions, parseModelTag } from "@openbuilder/agent-core/lib/tags/model-parser";
 import { getClaudeModelLabel } from "@openbuilder/agent-core/client";
 import { deserializeTags, serializeTags } from "@openbuilder/agent-core/lib/tags/serialization";
 import { useBuildWebSocket } from "@/hooks/useBuildWebSocket";
@@ -67,8 +74,9 @@ import { useAuth } from "@/contexts/AuthContext";
 import { OnboardingModal, LocalModeOnboarding } from "@/components/onboarding";
 import { LoginModal as LoginModalComponent } from "@/components/auth/LoginModal";
 import { Button } from "@/components/ui/button";
-import { GitHubButton, getGitHubSetupMessage, getGitHubPushMessage, type RepoVisibility } from "@/components/github";
+import { GitHubButton, getGitHubSetupMessage, type RepoVisibility } from "@/components/github";
 import { NeonDBButton, getNeonDBSetupMessage } from "@/components/neondb";
+import { EnvVarsButton } from "@/components/env-vars";
 
 import { Monitor, Code, Terminal, MousePointer2, RefreshCw, Copy, Check, Smartphone, Tablet, Cloud, Play, Square, ExternalLink, Loader2, User } from "lucide-react";
 import {
@@ -237,6 +245,7 @@ function HomeContent() {
   const [renamingProject, setRenamingProject] = useState<{ id: string; name: string } | null>(null);
   const [deletingProject, setDeletingProject] = useState<{ id: string; name: string; slug: string } | null>(null);
   const [appliedTags, setAppliedTags] = useState<AppliedTag[]>([]);
+  const [bakeOffModels, setBakeOffModels] = useState<string[]>([]);
   const [generationState, setGenerationState] =
     useState<GenerationState | null>(null);
   const [isStartingServer, setIsStartingServer] = useState(false);
@@ -245,7 +254,7 @@ function HomeContent() {
   const [isStoppingTunnel, setIsStoppingTunnel] = useState(false);
   const [devicePreset, setDevicePreset] = useState<'desktop' | 'tablet' | 'mobile'>('desktop');
   const [chatPanelWidth, setChatPanelWidth] = useState(450);
-  const [activeTab, setActiveTab] = useState<'preview' | 'editor' | 'terminal'>('preview');
+  const [activeTab, setActiveTab] = useState<PreviewTab>('preview');
   const [isSelectionMode, setIsSelectionMode] = useState(false);
   const generationStateRef = useRef<GenerationState | null>(generationState);
   const lastRefetchedBuildIdRef = useRef<string | null>(null);
@@ -350,9 +359,6 @@ function HomeContent() {
   // Subscribe to single project query for SSE updates
   const { data: projectFromQuery } = useProject(currentProject?.id);
   
-  // GitHub status for auto-push feature
-  const { data: githubStatus } = useGitHubStatus(currentProject?.id || '');
-
   // Use ref to track current project state without causing effect re-runs
   const currentProjectRef = useRef(currentProject);
   useEffect(() => {
@@ -401,6 +407,13 @@ function HomeContent() {
     refetch: refetchProjectMessages,
   } = useProjectMessages(currentProject?.id);
 
+  // Workspace snapshots taken before each build - enables per-build rollback
+  const { data: snapshots } = useProjectSnapshots(currentProject?.id);
+  const snapshotBuildIds = useMemo(
+    () => new Set((snapshots ?? []).map((snapshot) => snapshot.buildId)),
+    [snapshots]
+  );
+
   // Derive conversation messages from TanStack Query (single source of truth)
   const conversationMessages = useMemo(() => {
     const dbMessages = messagesFromDB?.messages ?? [];
@@ -549,11 +562,6 @@ function HomeContent() {
     return buildHistory.length > 0 ? buildHistory[0] : null;
   }, [generationState, buildHistory]);
 
-  // Track which builds we've already triggered auto-push for
-  const autoPushedBuildIdsRef = useRef<Set<string>>(new Set());
-  // Track pending auto-push to trigger after startGeneration is available
-  const pendingAutoPushRef = useRef<{ projectId: string; buildId: string } | null>(null);
-  
   // Force refetch when build completes to ensure fresh data from database
   // This eliminates duplicate "Build complete!" messages
   useEffect(() => {
@@ -576,19 +584,11 @@ function HomeContent() {
     
     // Also trigger explicit refetch
     refetchProjectMessages?.();
+
+    // The build's snapshot was taken when it started - refresh so rollback becomes available
+    queryClient.invalidateQueries({ queryKey: ['projects', currentProject.id, 'snapshots'] });
     
-    // Check if we should auto-push to GitHub
-    // Don't auto-push if the build was a GitHub push itself (avoid infinite loop)
-    const isGitHubPushBuild = generationState.buildPlan?.toLowerCase().includes('push') && 
-                              generationState.buildPlan?.toLowerCase().includes('git');
-    if (githubStatus?.isConnected && 
-        githubStatus?.autoPush && 
-        !isGitHubPushBuild &&
-        !autoPushedBuildIdsRef.current.has(generationState.id)) {
-      console.log('🐙 [Auto-Push] Scheduling auto-push after build completion');
-      autoPushedBuildIdsRef.current.add(generationState.id);
-      pendingAutoPushRef.current = { projectId: currentProject.id, buildId: generationState.id };
-    }
+    // NOTE: GitHub auto-push is handled server-side on build-completed (runner github-push)
     
     // NOTE: We intentionally do NOT clear generationState here anymore.
     // The completed build state (with todos and summary) should remain visible
@@ -597,7 +597,7 @@ function HomeContent() {
     // before the DB data arrived. The buildHistory useMemo already handles
     // deduplication to prevent the same build appearing twice.
     console.log('✅ [State Preserved] Keeping completed build in state until server data arrives:', generationState.id);
-  }, [generationState, currentProject?.id, refetchProjectMessages, queryClient, serverBuilds, githubStatus]);
+  }, [generationState, currentProject?.id, refetchProjectMessages, queryClient, serverBuilds]);
 
   const updateGenerationState = useCallback(
     (
@@ -641,8 +641,14 @@ function HomeContent() {
   const selectedProjectSlug = searchParams?.get("project") ?? null;
   const { projects, refetch, runnerOnline, setActiveProjectId } = useProjects();
   const { selectedRunnerId, availableRunners } = useRunner();
+  // Model tag options for third-party agents registered on connected runners
+  const agentModelOptions = useMemo(
+    () => getAgentModelOptions(availableRunners.flatMap((runner) => runner.status?.agents ?? [])),
+    [availableRunners]
+  );
   const { selectedAgentId, selectedClaudeModelId, claudeModels } = useAgent();
   const { addToast } = useToast();
+  const startBakeOffMutation = useStartBakeOff();
   const selectedClaudeModel = claudeModels.find(
     (model) => model.id === selectedClaudeModelId,
   );
@@ -707,7 +713,10 @@ function HomeContent() {
     } else if (!selectedProjectSlug && availableRunners.length > 0 && appliedTags.length === 0) {
       // Set default tags ONLY if no tags are currently applied
       // This prevents overwriting user's tag selections when availableRunners updates
-      const defaultRunnerId = availableRunners[0]?.runnerId || selectedRunnerId;
+      // With several runners, let the scheduler pick the least busy one
+      const defaultRunnerId = availableRunners.length > 1
+        ? AUTO_RUNNER_ID
+        : availableRunners[0]?.runnerId || selectedRunnerId;
       const defaultTags: AppliedTag[] = [
         {
           key: 'runner',
@@ -962,7 +971,7 @@ function HomeContent() {
   const projectsRef = useRef(projects);
   projectsRef.current = projects;
 
-  const isLoading = isCreatingProject || isGenerating;
+  const isLoading = isCreatingProject || isGenerating || startBakeOffMutation.isPending;
 
   const scrollToBottom = useCallback(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -998,34 +1007,57 @@ function HomeContent() {
     return () => window.removeEventListener("keydown", handleKeyDown);
   }, [switchTab]);
 
-  // Listen for selection change requests from SelectionMode
+  // Listen for selection change requests from the preview - one batch of pinned element comments
   useEffect(() => {
     const handleSelectionChange = (e: CustomEvent) => {
-      const { element, prompt } = e.detail;
-      if (DEBUG_PAGE) console.log("🎯 Selection change received:", { element, prompt });
+      const { edits } = e.detail as { edits: SelectionEditRequest[] };
+      if (DEBUG_PAGE) console.log("🎯 Selection change received:", edits);
 
       if (!currentProject) {
         if (DEBUG_PAGE) console.warn("⚠️ No current project for element change");
         return;
       }
+      if (!edits?.length) return;
 
       // Switch to Build tab to show build progress
       switchTab("build");
 
-      // Build enhanced prompt with element context using code formatting for selectors/classes
-      const elementContext = element ? `
-
-[Element Context]
-- Selector: \`${element.selector || 'unknown'}\`
-- Tag: \`${element.tagName || 'unknown'}\`
-- Class: \`${element.className || 'none'}\`
-- Text: ${element.textContent?.substring(0, 100) || 'none'}` : '';
-      const enhancedPrompt = `${prompt}${elementContext}`;
+      // One numbered entry per element - selector, DOM path and styles locate it in the source
+      const elementSections = edits.map(({ element, prompt }, index) => {
+        const styles = Object.entries(element.computedStyles ?? {})
+          .filter(([, value]) => value)
+          .map(([property, value]) => `${property}: ${value}`)
+          .join("; ");
+        return [
+          `${index + 1}. ${prompt}`,
+          `   - Selector: \`${element.selector || 'unknown'}\``,
+          `   - Tag: \`${element.tagName || 'unknown'}\``,
+          element.fullPath && `   - DOM path: \`${element.fullPath}\``,
+          element.pagePath && `   - Page: \`${element.pagePath}\``,
+          `   - Class: \`${element.className || 'none'}\``,
+          `   - Text: ${element.textContent?.substring(0, 100) || 'none'}`,
+          styles && `   - Computed styles: ${styles}`,
+        ].filter(Boolean).join("\n");
+      });
+      const enhancedPrompt = edits.length === 1
+        ? `Change this element selected in the preview:\n\n${elementSections[0]}`
+        : `Make these ${edits.length} changes to elements selected in the preview:\n\n${elementSections.join("\n\n")}`;
+
+      const elements: FocusedEditElement[] = edits.map(({ element, prompt }) => ({
+        selector: element.selector,
+        fullPath: element.fullPath || element.selector,
+        tagName: element.tagName,
+        prompt,
+        boundingRect: element.boundingRect,
+        viewport: element.viewport,
+        pagePath: element.pagePath,
+      }));
 
       // Use the standard generation flow with isElementChange flag
       startGeneration(currentProject.id, enhancedPrompt, {
         addUserMessage: true,
         isElementChange: true,
+        elementContext: { elementSelector: elements[0].selector, elements },
       });
     };
 
@@ -1261,6 +1293,7 @@ function HomeContent() {
       isElementChange?: boolean;
       isRetry?: boolean;
       messageParts?: MessagePart[];
+      elementContext?: BuildRequest['context'];
     } = {}
   ) => {
     const {
@@ -1268,6 +1301,7 @@ function HomeContent() {
       isElementChange = false,
       isRetry = false,
       messageParts,
+      elementContext,
     } = options;
 
     // Lock FIRST
@@ -1391,7 +1425,7 @@ function HomeContent() {
     let effectiveClaudeModel = selectedAgentId === "claude-code" ? selectedClaudeModelId : undefined;
 
     if (modelTag?.value) {
-      const parsed = parseModelTag(modelTag.value);
+      const parsed = parseModelTag(modelTag.value, agentModelOptions);
       effectiveAgent = parsed.agent;
       effectiveClaudeModel = parsed.claudeModel;
     }
@@ -1441,30 +1475,12 @@ function HomeContent() {
       operationType,
       isElementChange,
       undefined, // messageParts
-      freshState.id // Pass buildId directly
+      freshState.id, // Pass buildId directly
+      undefined, // template
+      elementContext
     );
   };
 
-  // Effect to trigger pending auto-push (after startGeneration is defined)
-  useEffect(() => {
-    const pending = pendingAutoPushRef.current;
-    if (!pending) return;
-    
-    // Clear the pending ref immediately to prevent double-triggering
-    pendingAutoPushRef.current = null;
-    
-    console.log('🐙 [Auto-Push] Triggering auto-push for build:', pending.buildId);
-    
-    // Small delay to let the UI settle before starting new generation
-    const timer = setTimeout(() => {
-      startGeneration(pending.projectId, getGitHubPushMessage(), {
-        addUserMessage: false, // Don't show as user message, it's automatic
-      });
-    }, 1500);
-    
-    return () => clearTimeout(timer);
-  });
-
   const startGenerationStream = async (
     projectId: string,
     prompt: string,
@@ -1480,7 +1496,8 @@ function HomeContent() {
       runCommand: string;
       repository: string;
       branch: string;
-    }
+    },
+    elementContext?: BuildRequest['context']
   ) => {
     // CRITICAL: Use the buildId passed from startGeneration() or fall back to ref
     // This ensures client and server use the SAME build ID for proper deduplication
@@ -1509,7 +1526,7 @@ function HomeContent() {
       let effectiveClaudeModel = selectedAgentId === "claude-code" ? selectedClaudeModelId : undefined;
 
       if (modelTag?.value) {
-        const parsed = parseModelTag(modelTag.value);
+        const parsed = parseModelTag(modelTag.value, agentModelOptions);
         effectiveAgent = parsed.agent;
         effectiveClaudeModel = parsed.claudeModel;
       }
@@ -1533,8 +1550,8 @@ function HomeContent() {
           tags: appliedTags.length > 0 ? appliedTags : undefined, // Tag-based configuration
           template, // Pass template from runner analysis (for initial builds)
           context: isElementChange
-            ? {
-                elementSelector: "unknown", // Will be enhanced later
+            ? elementContext ?? {
+                elementSelector: "unknown",
                 elementInfo: {},
               }
             : undefined,
@@ -1542,9 +1559,20 @@ function HomeContent() {
       });
 
       if (!res.ok) {
+        if (res.status === 402) {
+          const body = await res.json().catch(() => null) as { error?: string } | null;
+          const message = body?.error ?? "Spending limit reached";
+          addToast('error', message, 8000);
+          throw new Error(message);
+        }
         throw new Error("Generation failed");
       }
 
+      const budgetWarning = res.headers.get("X-Budget-Warning");
+      if (budgetWarning) {
+        addToast('warning', decodeURIComponent(budgetWarning), 8000);
+      }
+
       const reader = res.body?.getReader();
       if (!reader) throw new Error("No reader available");
 
@@ -2177,6 +2205,74 @@ function HomeContent() {
     requireAuth(() => performSubmit());
   };
   
+  // Ask the runner for a friendly name, icon and template for a new project
+  const analyzePrompt = async (
+    userPrompt: string,
+    agent: AgentId,
+    claudeModel?: ClaudeModelId
+  ) => {
+    if (DEBUG_PAGE) console.log("🔍 Analyzing project...");
+    const analyzeRes = await fetch("/api/projects/analyze", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        prompt: userPrompt,
+        agent,
+        claudeModel,
+        tags: serializeTags(appliedTags),
+        runnerId: appliedTags.find(t => t.key === 'runner')?.value || selectedRunnerId,
+      }),
+    });
+
+    if (!analyzeRes.ok) {
+      const errorData = await analyzeRes.json().catch(() => ({}));
+      console.error("Analysis failed:", errorData);
+      // Fall back to old flow if analysis fails
+      throw new Error(errorData.error || "Analysis failed");
+    }
+
+    const analyzeData = await analyzeRes.json();
+    // Runner the scheduler picked for analysis - the project lives there from now on
+    return {
+      analysis: analyzeData.analysis,
+      runnerId: (analyzeData.runnerId || selectedRunnerId) as string,
+    };
+  };
+
+  // Bake-off: every picked model builds the prompt in its own sibling project
+  const performBakeOff = async (userPrompt: string, userImages: MessagePart[]) => {
+    const messageParts: MessagePart[] = [...userImages];
+    if (userPrompt.trim()) {
+      messageParts.push({ type: 'text', text: userPrompt.trim() });
+    }
+
+    try {
+      const firstModel = parseModelTag(bakeOffModels[0], agentModelOptions);
+      const { analysis, runnerId } = await analyzePrompt(userPrompt, firstModel.agent, firstModel.claudeModel);
+
+      const { bakeOffId, failedBuilds } = await startBakeOffMutation.mutateAsync({
+        prompt: userPrompt,
+        analysis,
+        models: bakeOffModels,
+        tags: serializeTags(appliedTags),
+        runnerId,
+        messageParts: messageParts.length > 0 ? messageParts : undefined,
+      });
+
+      for (const failed of failedBuilds) {
+        addToast('error', `${failed.projectName}: ${failed.error}`, 8000);
+      }
+
+      setBakeOffModels([]);
+      await refetch();
+      router.push(`/bake-offs/${bakeOffId}`);
+    } catch (error) {
+      console.error("Error starting bake-off:", error);
+      addToast('error', error instanceof Error ? error.message : 'Failed to start bake-off');
+      setInput(userPrompt);
+    }
+  };
+
   // The actual submission logic, called after auth is confirmed
   const performSubmit = async () => {
     const userPrompt = input;
@@ -2184,6 +2280,12 @@ function HomeContent() {
     setInput("");
     setImageAttachments([]);
 
+    // Two or more bake-off models build the prompt in parallel instead
+    if (!currentProject && bakeOffModels.length >= 2) {
+      await performBakeOff(userPrompt, userImages);
+      return;
+    }
+
     // If no project selected, create new project
     if (!currentProject) {
       setIsCreatingProject(true);
@@ -2196,34 +2298,13 @@ function HomeContent() {
         let effectiveClaudeModel = selectedAgentId === "claude-code" ? selectedClaudeModelId : undefined;
 
         if (modelTag?.value) {
-          const parsed = parseModelTag(modelTag.value);
+          const parsed = parseModelTag(modelTag.value, agentModelOptions);
           effectiveAgent = parsed.agent;
           effectiveClaudeModel = parsed.claudeModel;
         }
 
         // Step 1: Analyze project with AI to get friendly name, icon, template
-        if (DEBUG_PAGE) console.log("🔍 Analyzing project...");
-        const analyzeRes = await fetch("/api/projects/analyze", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            prompt: userPrompt,
-            agent: effectiveAgent,
-            claudeModel: effectiveClaudeModel,
-            tags: serializeTags(appliedTags),
-            runnerId: selectedRunnerId,
-          }),
-        });
-
-        if (!analyzeRes.ok) {
-          const errorData = await analyzeRes.json().catch(() => ({}));
-          console.error("Analysis failed:", errorData);
-          // Fall back to old flow if analysis fails
-          throw new Error(errorData.error || "Analysis failed");
-        }
-
-        const analyzeData = await analyzeRes.json();
-        const analysis = analyzeData.analysis;
+        const { analysis, runnerId: scheduledRunnerId } = await analyzePrompt(userPrompt, effectiveAgent, effectiveClaudeModel);
 
         if (DEBUG_PAGE) console.log("✅ Analysis complete:", analysis.friendlyName, `(${analysis.slug})`);
 
@@ -2235,7 +2316,7 @@ function HomeContent() {
             prompt: userPrompt,
             analysis,
             agent: effectiveAgent,
-            runnerId: selectedRunnerId,
+            runnerId: scheduledRunnerId,
             claudeModel: effectiveClaudeModel,
             tags: serializeTags(appliedTags),
           }),
@@ -2742,7 +2823,9 @@ function HomeContent() {
                 router.push('/');
                 // Reset tags to default state for fresh start
                 if (availableRunners.length > 0) {
-                  const defaultRunnerId = availableRunners[0]?.runnerId || selectedRunnerId;
+                  const defaultRunnerId = availableRunners.length > 1
+                    ? AUTO_RUNNER_ID
+                    : availableRunners[0]?.runnerId || selectedRunnerId;
                   const defaultTags: AppliedTag[] = [
                     {
                       key: 'runner',
@@ -2786,6 +2869,15 @@ function HomeContent() {
                 <span className="text-sm font-medium text-foreground truncate max-w-[200px]">
                   {currentProject.name}
                 </span>
+                {currentProject.bakeOffId && (
+                  <button
+                    type="button"
+                    onClick={() => router.push(`/bake-offs/${currentProject.bakeOffId}`)}
+                    className="text-xs text-muted-foreground hover:text-foreground"
+                  >
+                    Bake-off
+                  </button>
+                )}
               </div>
             )}
           </div>
@@ -2804,6 +2896,7 @@ function HomeContent() {
                   }}
                   variant="default"
                 />
+                <EnvVarsButton projectId={currentProject.id} variant="default" />
                 <GitHubButton
                   projectId={currentProject.id}
                   projectSlug={currentProject.slug}
@@ -2816,14 +2909,6 @@ function HomeContent() {
                       addUserMessage: true,
                     });
                   }}
-                  onPushClick={() => {
-                    // Switch to Build tab to show the push progress
-                    switchTab("build");
-                    // Send the GitHub push message via the chat flow
-                    startGeneration(currentProject.id, getGitHubPushMessage(), {
-                      addUserMessage: true,
-                    });
-                  }}
                   variant="default"
                 />
               </>
@@ -2988,13 +3073,26 @@ function HomeContent() {
                           <TagInput
                             tags={appliedTags}
                             onTagsChange={setAppliedTags}
-                            runnerOptions={availableRunners.filter(r => r != null).map(r => ({
-                              value: r.runnerId,
-                              label: r.runnerId,
-                              description: `Runner: ${r.runnerId}`
-                            }))}
+                            runnerOptions={[
+                              {
+                                value: AUTO_RUNNER_ID,
+                                label: 'Auto',
+                                description: 'Pick the least busy runner'
+                              },
+                              ...availableRunners.filter(r => r != null).map(r => ({
+                                value: r.runnerId,
+                                label: r.runnerId,
+                                description: `Runner: ${r.runnerId}`
+                              }))
+                            ]}
+                            modelOptions={agentModelOptions}
                             hasConnectedRunners={availableRunners.length > 0}
                           />
+                          <BakeOffPicker
+                            selected={bakeOffModels}
+                            onChange={setBakeOffModels}
+                            modelOptions={agentModelOptions}
+                          />
                         </div>
                       )}
                       </form>
@@ -3283,6 +3381,20 @@ function HomeContent() {
                                                 <CompletedTodosSummary todos={correspondingBuild.todos} />
                                               </div>
                                             )}
+
+                                            {/* Rollback - only for builds that have a pre-build snapshot */}
+                                            {currentProject && snapshotBuildIds.has(correspondingBuild.id) && (
+                                              <BuildSnapshotActions
+                                                projectId={currentProject.id}
+                                                buildId={correspondingBuild.id}
+                                                nextBuildId={
+                                                  sortedBuildHistory
+                                                    .slice(idx + 1)
+                                                    .find((build) => snapshotBuildIds.has(build.id))?.id
+                                                }
+                                                disabled={!!generationState?.isActive}
+                                              />
+                                            )}
                                             
                                             {/* Build summary section - show even without todos */}
                                             {correspondingBuild.buildSummary && (
@@ -0,0 +1,367 @@
+'use client';
+
+import { Suspense, useState } from "react"
+import { Loader2, Pencil, ShieldAlert, Trash2 } from "lucide-react"
+import { AppSidebar } from "@/components/app-sidebar"
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb"
+import { Separator } from "@/components/ui/separator"
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from "@/components/ui/sidebar"
+import { useToast } from "@/components/ui/toast"
+import { formatCostUsd, formatTokenCount } from "@/lib/utils"
+import {
+  SpendingLimitsError,
+  useSpendingLimits,
+  type SpendingLimit,
+  type SpendingLimitEnforcement,
+  type SpendingLimitScope,
+} from "@/queries/spending-limits"
+import { useDeleteSpendingLimit, useSaveSpendingLimit } from "@/mutations/spending-limits"
+
+const inputClassName =
+  'w-full px-2 py-1.5 text-xs rounded border border-border bg-background text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-ring'
+
+interface LimitForm {
+  scope: SpendingLimitScope
+  scopeId: string
+  monthlyCostUsd: string
+  monthlyTokens: string
+  perBuildCostUsd: string
+  perBuildTokens: string
+  enforcement: SpendingLimitEnforcement
+}
+
+const EMPTY_FORM: LimitForm = {
+  scope: 'user',
+  scopeId: '*',
+  monthlyCostUsd: '',
+  monthlyTokens: '',
+  perBuildCostUsd: '',
+  perBuildTokens: '',
+  enforcement: 'block',
+}
+
+function toFormValue(value: number | null) {
+  return value === null ? '' : String(value)
+}
+
+// Empty fields mean "no limit"
+function parseLimit(value: string) {
+  return value.trim() ? Number(value) : null
+}
+
+function describeScope(limit: Pick<SpendingLimit, 'scope' | 'scopeId'>) {
+  const noun = limit.scope === 'user' ? 'user' : 'project'
+  return limit.scopeId === '*' ? `Every ${noun} (default)` : `${noun === 'user' ? 'User' : 'Project'} ${limit.scopeId}`
+}
+
+function LimitField({ label, value, onChange, placeholder, step }: {
+  label: string
+  value: string
+  onChange: (value: string) => void
+  placeholder: string
+  step: string
+}) {
+  return (
+    <label className="space-y-1">
+      <span className="text-xs text-muted-foreground">{label}</span>
+      <input
+        type="number"
+        min="0"
+        step={step}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        className={inputClassName}
+      />
+    </label>
+  )
+}
+
+function LimitsContent() {
+  const { addToast } = useToast()
+  const { data: limits = [], isLoading, error } = useSpendingLimits()
+  const saveMutation = useSaveSpendingLimit()
+  const deleteMutation = useDeleteSpendingLimit()
+  const [form, setForm] = useState<LimitForm>(EMPTY_FORM)
+
+  const updateForm = (changes: Partial<LimitForm>) => setForm((prev) => ({ ...prev, ...changes }))
+
+  const handleEdit = (limit: SpendingLimit) => {
+    setForm({
+      scope: limit.scope,
+      scopeId: limit.scopeId,
+      monthlyCostUsd: toFormValue(limit.monthlyCostUsd),
+      monthlyTokens: toFormValue(limit.monthlyTokens),
+      perBuildCostUsd: toFormValue(limit.perBuildCostUsd),
+      perBuildTokens: toFormValue(limit.perBuildTokens),
+      enforcement: limit.enforcement,
+    })
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      await saveMutation.mutateAsync({
+        scope: form.scope,
+        scopeId: form.scopeId.trim() || '*',
+        monthlyCostUsd: parseLimit(form.monthlyCostUsd),
+        monthlyTokens: parseLimit(form.monthlyTokens),
+        perBuildCostUsd: parseLimit(form.perBuildCostUsd),
+        perBuildTokens: parseLimit(form.perBuildTokens),
+        enforcement: form.enforcement,
+      })
+      addToast('success', 'Spending limit saved')
+      setForm(EMPTY_FORM)
+    } catch (err) {
+      addToast('error', err instanceof Error ? err.message : 'Failed to save spending limit')
+    }
+  }
+
+  const handleDelete = async (limit: SpendingLimit) => {
+    try {
+      await deleteMutation.mutateAsync(limit.id)
+      addToast('success', 'Spending limit removed')
+    } catch (err) {
+      addToast('error', err instanceof Error ? err.message : 'Failed to delete spending limit')
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 px-4 py-8 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        <span>Loading spending limits...</span>
+      </div>
+    )
+  }
+
+  if (error instanceof SpendingLimitsError && error.status === 403) {
+    return (
+      <div className="flex items-center gap-2 px-4 py-8 text-sm text-muted-foreground">
+        <ShieldAlert className="h-4 w-4" />
+        <span>Only admins can manage spending limits</span>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <p className="px-4 py-8 text-sm text-red-400">
+        {error instanceof Error ? error.message : 'Failed to load spending limits'}
+      </p>
+    )
+  }
+
+  return (
+    <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
+      <p className="text-xs text-muted-foreground">
+        Monthly budgets are checked before a build starts; the per-build cap stops a running build.
+        A limit for a specific user or project replaces the default for its scope. Tokens count input and output.
+      </p>
+
+      <section className="rounded-xl border border-border">
+        <h2 className="border-b border-border px-4 py-3 text-sm font-medium text-foreground">Limits</h2>
+        {limits.length === 0 ? (
+          <p className="px-4 py-6 text-center text-xs text-muted-foreground">No limits - builds are not capped</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="px-4 py-2 font-medium">Applies to</th>
+                  <th className="px-4 py-2 font-medium text-right">Monthly cost</th>
+                  <th className="px-4 py-2 font-medium text-right">Monthly tokens</th>
+                  <th className="px-4 py-2 font-medium text-right">Per-build cost</th>
+                  <th className="px-4 py-2 font-medium text-right">Per-build tokens</th>
+                  <th className="px-4 py-2 font-medium text-right">When exceeded</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {limits.map((limit) => (
+                  <tr key={limit.id} className="group border-t border-border">
+                    <td className="px-4 py-2 text-foreground">{describeScope(limit)}</td>
+                    <td className="px-4 py-2 text-right tabular-nums text-muted-foreground">
+                      {limit.monthlyCostUsd !== null ? formatCostUsd(limit.monthlyCostUsd) : '-'}
+                    </td>
+                    <td className="px-4 py-2 text-right tabular-nums text-muted-foreground">
+                      {limit.monthlyTokens !== null ? formatTokenCount(limit.monthlyTokens) : '-'}
+                    </td>
+                    <td className="px-4 py-2 text-right tabular-nums text-muted-foreground">
+                      {limit.perBuildCostUsd !== null ? formatCostUsd(limit.perBuildCostUsd) : '-'}
+                    </td>
+                    <td className="px-4 py-2 text-right tabular-nums text-muted-foreground">
+                      {limit.perBuildTokens !== null ? formatTokenCount(limit.perBuildTokens) : '-'}
+                    </td>
+                    <td className="px-4 py-2 text-right text-muted-foreground">
+                      {limit.enforcement === 'warn' ? 'Warn' : 'Block'}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      <div className="flex justify-end gap-1">
+                        <button
+                          type="button"
+                          onClick={() => handleEdit(limit)}
+                          className="p-1 text-muted-foreground hover:text-foreground"
+                          title="Edit"
+                        >
+                          <Pencil className="h-3 w-3" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDelete(limit)}
+                          disabled={deleteMutation.isPending}
+                          className="p-1 text-muted-foreground hover:text-red-400 disabled:opacity-50"
+                          title="Delete"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <form onSubmit={handleSave} className="rounded-xl border border-border">
+        <h2 className="border-b border-border px-4 py-3 text-sm font-medium text-foreground">Set a limit</h2>
+        <div className="grid gap-3 p-4 md:grid-cols-3">
+          <label className="space-y-1">
+            <span className="text-xs text-muted-foreground">Scope</span>
+            <select
+              value={form.scope}
+              onChange={(e) => updateForm({ scope: e.target.value as SpendingLimitScope })}
+              className={inputClassName}
+            >
+              <option value="user">User (all of their projects)</option>
+              <option value="project">Project</option>
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-xs text-muted-foreground">{form.scope === 'user' ? 'User ID' : 'Project ID'}</span>
+            <input
+              value={form.scopeId}
+              onChange={(e) => updateForm({ scopeId: e.target.value })}
+              placeholder="* for the default"
+              spellCheck={false}
+              autoComplete="off"
+              className={`${inputClassName} font-mono`}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="text-xs text-muted-foreground">When a monthly budget is used up</span>
+            <select
+              value={form.enforcement}
+              onChange={(e) => updateForm({ enforcement: e.target.value as SpendingLimitEnforcement })}
+              className={inputClassName}
+            >
+              <option value="block">Block new builds</option>
+              <option value="warn">Warn only</option>
+            </select>
+          </label>
+          <LimitField
+            label="Monthly cost (USD)"
+            value={form.monthlyCostUsd}
+            onChange={(monthlyCostUsd) => updateForm({ monthlyCostUsd })}
+            placeholder="No limit"
+            step="0.01"
+          />
+          <LimitField
+            label="Monthly tokens"
+            value={form.monthlyTokens}
+            onChange={(monthlyTokens) => updateForm({ monthlyTokens })}
+            placeholder="No limit"
+            step="1"
+          />
+          <div className="hidden md:block" />
+          <LimitField
+            label="Per-build cost (USD)"
+            value={form.perBuildCostUsd}
+            onChange={(perBuildCostUsd) => updateForm({ perBuildCostUsd })}
+            placeholder="No limit"
+            step="0.01"
+          />
+          <LimitField
+            label="Per-build tokens"
+            value={form.perBuildTokens}
+            onChange={(perBuildTokens) => updateForm({ perBuildTokens })}
+            placeholder="No limit"
+            step="1"
+          />
+        </div>
+        <div className="flex justify-end gap-2 border-t border-border px-4 py-3">
+          <button
+            type="button"
+            onClick={() => setForm(EMPTY_FORM)}
+            className="px-3 py-1.5 text-xs text-muted-foreground hover:text-foreground"
+          >
+            Reset
+          </button>
+          <button
+            type="submit"
+            disabled={saveMutation.isPending}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs bg-primary text-primary-foreground rounded disabled:opacity-50"
+          >
+            {saveMutation.isPending && <Loader2 className="h-3 w-3 animate-spin" />}
+            Save limit
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
+
+export default function SpendingLimitsPage() {
+  return (
+    <SidebarProvider>
+      <Suspense
+        fallback={
+          <div className="flex h-full items-center justify-center px-4 text-muted-foreground">
+            Loading sidebar…
+          </div>
+        }
+      >
+        <AppSidebar
+          onRenameProject={() => {}}
+          onDeleteProject={() => {}}
+        />
+      </Suspense>
+      <SidebarInset>
+        <header className="flex h-16 shrink-0 items-center gap-2 transition-[width,height] ease-linear group-has-data-[collapsible=icon]/sidebar-wrapper:h-12">
+          <div className="flex items-center gap-2 px-4">
+            <SidebarTrigger className="-ml-1" />
+            <Separator
+              orientation="vertical"
+              className="mr-2 data-[orientation=vertical]:h-4"
+            />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/">OpenBuilder</BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem>
+                  <BreadcrumbPage>Spending limits</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </div>
+        </header>
+        <LimitsContent />
+      </SidebarInset>
+    </SidebarProvider>
+  )
+}
@@ -0,0 +1,197 @@
+'use client';
+
+import { Suspense } from "react"
+import { useRouter } from "next/navigation"
+import { Loader2, SlidersHorizontal } from "lucide-react"
+import { AppSidebar } from "@/components/app-sidebar"
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb"
+import { Separator } from "@/components/ui/separator"
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from "@/components/ui/sidebar"
+import { formatCostUsd, formatTokenCount } from "@/lib/utils"
+import { useUsage, type UsageTotals } from "@/queries/usage"
+
+function totalTokens(usage: Pick<UsageTotals, 'inputTokens' | 'outputTokens' | 'cacheReadTokens' | 'cacheWriteTokens'>) {
+  return usage.inputTokens + usage.outputTokens + usage.cacheReadTokens + usage.cacheWriteTokens
+}
+
+function StatCard({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className="rounded-xl border border-border bg-muted/30 p-4">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="mt-1 text-2xl font-semibold text-foreground">{value}</p>
+      {detail && <p className="mt-1 text-xs text-muted-foreground">{detail}</p>}
+    </div>
+  )
+}
+
+function UsageTable({ title, headers, rows }: { title: string; headers: string[]; rows: React.ReactNode[][] }) {
+  return (
+    <section className="rounded-xl border border-border">
+      <h2 className="border-b border-border px-4 py-3 text-sm font-medium text-foreground">{title}</h2>
+      {rows.length === 0 ? (
+        <p className="px-4 py-6 text-center text-xs text-muted-foreground">No usage recorded yet</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                {headers.map((header, index) => (
+                  <th key={header} className={`px-4 py-2 font-medium ${index > 0 ? 'text-right' : ''}`}>{header}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((cells, rowIndex) => (
+                <tr key={rowIndex} className="border-t border-border">
+                  {cells.map((cell, index) => (
+                    <td key={index} className={`px-4 py-2 ${index > 0 ? 'text-right tabular-nums text-muted-foreground' : 'text-foreground'}`}>
+                      {cell}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  )
+}
+
+function UsageContent() {
+  const router = useRouter()
+  const { data: usage, isLoading, error } = useUsage()
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 px-4 py-8 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        <span>Loading usage...</span>
+      </div>
+    )
+  }
+
+  if (error || !usage) {
+    return (
+      <p className="px-4 py-8 text-sm text-red-400">
+        {error instanceof Error ? error.message : 'Failed to load usage'}
+      </p>
+    )
+  }
+
+  const { totals } = usage
+
+  return (
+    <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
+      {usage.canManageLimits && (
+        <button
+          type="button"
+          onClick={() => router.push('/settings/limits')}
+          className="flex items-center gap-1.5 self-end text-xs text-muted-foreground hover:text-foreground"
+        >
+          <SlidersHorizontal className="h-3.5 w-3.5" />
+          Spending limits
+        </button>
+      )}
+      <div className="grid auto-rows-min gap-4 md:grid-cols-4">
+        <StatCard label="Cost" value={formatCostUsd(totals.costUsd)} detail="Codex builds report tokens only" />
+        <StatCard
+          label="Tokens"
+          value={formatTokenCount(totalTokens(totals))}
+          detail={`${formatTokenCount(totals.inputTokens)} in • ${formatTokenCount(totals.outputTokens)} out • ${formatTokenCount(totals.cacheReadTokens)} cached`}
+        />
+        <StatCard label="Builds" value={totals.builds.toLocaleString()} />
+        <StatCard label="Agent turns" value={totals.turns.toLocaleString()} />
+      </div>
+
+      <UsageTable
+        title="By project"
+        headers={['Project', 'Builds', 'Tokens', 'Cost', 'Last build']}
+        rows={usage.projects.map((project) => [
+          project.projectName,
+          project.builds.toLocaleString(),
+          formatTokenCount(totalTokens(project)),
+          formatCostUsd(project.costUsd),
+          project.lastBuildAt ? new Date(project.lastBuildAt).toLocaleDateString() : '-',
+        ])}
+      />
+
+      <UsageTable
+        title="By model"
+        headers={['Model', 'Builds', 'Tokens', 'Cost']}
+        rows={usage.models.map((model) => [
+          model.model,
+          model.builds.toLocaleString(),
+          formatTokenCount(totalTokens(model)),
+          formatCostUsd(model.costUsd),
+        ])}
+      />
+
+      <UsageTable
+        title="Recent builds"
+        headers={['Project', 'Model', 'Turns', 'Tokens', 'Cost', 'Started']}
+        rows={usage.builds.map((build) => [
+          build.projectName,
+          build.model ?? build.agentId ?? '-',
+          build.turns.toLocaleString(),
+          formatTokenCount(totalTokens(build)),
+          build.costUsd !== null ? formatCostUsd(build.costUsd) : '-',
+          new Date(build.startedAt).toLocaleString(),
+        ])}
+      />
+    </div>
+  )
+}
+
+export default function UsagePage() {
+  return (
+    <SidebarProvider>
+      <Suspense
+        fallback={
+          <div className="flex h-full items-center justify-center px-4 text-muted-foreground">
+            Loading sidebar…
+          </div>
+        }
+      >
+        <AppSidebar
+          onRenameProject={() => {}}
+          onDeleteProject={() => {}}
+        />
+      </Suspense>
+      <SidebarInset>
+        <header className="flex h-16 shrink-0 items-center gap-2 transition-[width,height] ease-linear group-has-data-[collapsible=icon]/sidebar-wrapper:h-12">
+          <div className="flex items-center gap-2 px-4">
+            <SidebarTrigger className="-ml-1" />
+            <Separator
+              orientation="vertical"
+              className="mr-2 data-[orientation=vertical]:h-4"
+            />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/">OpenBuilder</BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem>
+                  <BreadcrumbPage>Usage</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </div>
+        </header>
+        <UsageContent />
+      </SidebarInset>
+    </SidebarProvider>
+  )
+}
@@ -0,0 +1,154 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { X, Wrench, Loader2 } from 'lucide-react';
+import type { BrowserErrorKind } from '@openbuilder/agent-core/lib/selection/injector';
+import { isRuntimeError, type BrowserConsoleEntry } from '@/hooks/useBrowserErrors';
+import { cn } from '@/lib/utils';
+
+interface BrowserConsoleProps {
+  entries: BrowserConsoleEntry[];
+  onClear: () => void;
+  onFix: (entries: BrowserConsoleEntry[]) => void;
+  isFixing?: boolean;
+  autoFix: boolean;
+  onAutoFixChange: (enabled: boolean) => void;
+  isBuildActive?: boolean;
+}
+
+type ConsoleFilter = 'all' | 'runtime' | 'console' | 'network';
+
+const KIND_LABELS: Record<BrowserErrorKind, string> = {
+  error: 'Error',
+  unhandledrejection: 'Rejection',
+  console: 'console.error',
+  network: 'Network',
+};
+
+const KIND_STYLES: Record<BrowserErrorKind, string> = {
+  error: 'bg-red-500/20 text-red-300',
+  unhandledrejection: 'bg-red-500/20 text-red-300',
+  console: 'bg-amber-500/20 text-amber-300',
+  network: 'bg-blue-500/20 text-blue-300',
+};
+
+function matchesFilter(entry: BrowserConsoleEntry, filter: ConsoleFilter): boolean {
+  if (filter === 'all') return true;
+  if (filter === 'runtime') return isRuntimeError(entry);
+  return entry.kind === filter;
+}
+
+/**
+ * Browser Console tab - errors, failed requests and console.error output from the preview
+ */
+export default function BrowserConsole({
+  entries,
+  onClear,
+  onFix,
+  isFixing = false,
+  autoFix,
+  onAutoFixChange,
+  isBuildActive = false,
+}: BrowserConsoleProps) {
+  const [filter, setFilter] = useState<ConsoleFilter>('all');
+  const endRef = useRef<HTMLDivElement>(null);
+
+  const visible = entries.filter((entry) => matchesFilter(entry, filter));
+  const runtimeErrors = entries.filter(isRuntimeError);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [visible.length]);
+
+  return (
+    <div className="h-full flex flex-col overflow-hidden">
+      {/* Header */}
+      <div className="border-b border-white/10 px-4 py-2 flex items-center justify-between gap-2 bg-black/20">
+        <div className="flex items-center gap-1">
+          {(['all', 'runtime', 'console', 'network'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setFilter(option)}
+              className={cn(
+                'px-2 py-1 text-xs rounded capitalize transition-colors',
+                filter === option ? 'bg-white/10 text-white' : 'text-gray-400 hover:text-white'
+              )}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-1.5 text-xs text-gray-400 cursor-pointer" title="Start a fix build when the app throws an uncaught error">
+            <input
+              type="checkbox"
+              checked={autoFix}
+              onChange={(e) => onAutoFixChange(e.target.checked)}
+              className="accent-theme-primary"
+            />
+            Auto-fix
+          </label>
+          <button
+            onClick={() => onFix(runtimeErrors)}
+            disabled={runtimeErrors.length === 0 || isFixing || isBuildActive}
+            className="flex items-center gap-1 px-2 py-1 text-xs text-gray-400 hover:text-white hover:bg-white/10 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title={isBuildActive ? 'A build is running' : 'Start a fix build for the runtime errors'}
+          >
+            {isFixing ? <Loader2 className="w-3 h-3 animate-spin" /> : <Wrench className="w-3 h-3" />}
+            Fix errors
+          </button>
+          <button
+            onClick={onClear}
+            disabled={entries.length === 0}
+            className="flex items-center gap-1 px-2 py-1 text-xs text-gray-400 hover:text-white hover:bg-white/10 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Clear console"
+          >
+            <X className="w-3 h-3" />
+            Clear
+          </button>
+        </div>
+      </div>
+
+      {/* Entries */}
+      <div className="flex-1 overflow-y-auto p-4 terminal-theme font-mono text-sm">
+        {visible.length === 0 ? (
+          <div className="text-gray-500 flex items-center justify-center h-full">
+            {entries.length === 0 ? 'No browser errors. Errors from the preview show up here.' : 'No entries match this filter'}
+          </div>
+        ) : (
+          <div className="space-y-1">
+            {visible.map((entry) => (
+              <div key={entry.id} className="flex items-start gap-2 border-b border-white/5 pb-1">
+                <span className={cn('shrink-0 px-1.5 py-0.5 rounded text-[10px] uppercase', KIND_STYLES[entry.kind])}>
+                  {KIND_LABELS[entry.kind]}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <div className="text-gray-300 whitespace-pre-wrap break-words">{entry.message}</div>
+                  <div className="text-[11px] text-gray-500 truncate">
+                    {new Date(entry.timestamp).toLocaleTimeString()}
+                    {entry.source && ` · ${entry.source}${entry.line ? `:${entry.line}` : ''}`}
+                    {` · ${entry.url}`}
+                  </div>
+                </div>
+                {entry.count > 1 && (
+                  <span className="shrink-0 px-1.5 rounded-full bg-white/10 text-[11px] text-gray-300">{entry.count}</span>
+                )}
+                {isRuntimeError(entry) && (
+                  <button
+                    onClick={() => onFix([entry])}
+                    disabled={isFixing || isBuildActive}
+                    className="shrink-0 p-1 text-gray-400 hover:text-white hover:bg-white/10 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Fix this error"
+                  >
+                    <Wrench className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+            ))}
+            <div ref={endRef} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,8 @@
 
 import { motion } from 'framer-motion';
 import { CheckCircle2, Sparkles, ChevronDown, ChevronUp, X } from 'lucide-react';
+import { formatCostUsd, formatTokenCount } from '@/lib/utils';
+import type { BuildUsage } from '@/types/generation';
 import {
   getClaudeModelLabel,
   DEFAULT_CLAUDE_MODEL_ID,
@@ -26,6 +28,7 @@ interface BuildHeaderProps {
     framework: string;
     analyzedBy?: string;
   } | null;
+  usage?: BuildUsage;
 }
 
 export function BuildHeader({
@@ -41,6 +44,7 @@ export function BuildHeader({
   onToggleExpand,
   onClose,
   templateInfo,
+  usage,
 }: BuildHeaderProps) {
   // Agent values validated
 
@@ -49,6 +53,20 @@ export function BuildHeader({
       ? 'OpenAI GPT-5 Codex'
       : `Claude Code • ${getClaudeModelLabel(claudeModelId ?? DEFAULT_CLAUDE_MODEL_ID)}`;
 
+  const totalTokens = usage
+    ? usage.inputTokens + usage.outputTokens + usage.cacheReadTokens + usage.cacheWriteTokens
+    : 0;
+  const usageTitle = usage
+    ? [
+        `${usage.inputTokens.toLocaleString()} input`,
+        `${usage.outputTokens.toLocaleString()} output`,
+        `${usage.cacheReadTokens.toLocaleString()} cache read`,
+        `${usage.cacheWriteTokens.toLocaleString()} cache write`,
+        `${usage.turns} turns`,
+        usage.model,
+      ].filter(Boolean).join(' • ')
+    : undefined;
+
   return (
     <>
       {/* Header - Always clickable when there are todos */}
@@ -103,6 +121,19 @@ export function BuildHeader({
             </div>
           </div>
           <div className="flex items-center gap-2">
+            {/* Usage badges - sent by the runner once the agent finishes */}
+            {usage && (
+              <div className="flex items-center gap-1" title={usageTitle}>
+                <span className="px-1.5 py-0.5 text-[10px] font-medium rounded bg-muted text-muted-foreground">
+                  {formatTokenCount(totalTokens)} tokens
+                </span>
+                {usage.costUsd !== null && (
+                  <span className="px-1.5 py-0.5 text-[10px] font-medium rounded bg-muted text-muted-foreground">
+                    {formatCostUsd(usage.costUsd)}
+                  </span>
+                )}
+              </div>
+            )}
             <div className="text-right">
               <div className={`text-xl font-bold ${isComplete ? 'text-green-600 dark:text-green-400' : 'text-theme-primary'}`}>
                 {Math.round(progress)}%
@@ -0,0 +1,143 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ChevronDown, ChevronUp, Camera, ImageOff, Loader2 } from 'lucide-react';
+import type { BuildScreenshots } from '@/types/generation';
+import { useBuildScreenshots } from '@/queries/screenshots';
+
+interface BuildScreenshotsStatusProps {
+  screenshots: BuildScreenshots;
+  projectId: string;
+  buildId: string;
+}
+
+type ShotView = 'current' | 'previous' | 'diff';
+
+function formatDiff(diffRatio: number | null): string {
+  if (diffRatio === null) return 'no baseline';
+  if (diffRatio === 0) return 'unchanged';
+  return `${Math.max(0.1, diffRatio * 100).toFixed(1)}% changed`;
+}
+
+/**
+ * Screenshots of the running app captured after the build, diffed against the
+ * previous build. Blank pages and error overlays are flagged (and auto-fixed).
+ */
+export function BuildScreenshotsStatus({ screenshots, projectId, buildId }: BuildScreenshotsStatusProps) {
+  const [isExpanded, setIsExpanded] = useState(screenshots.status === 'failed');
+  const [views, setViews] = useState<Record<string, ShotView>>({});
+  const { data, isLoading, error } = useBuildScreenshots(
+    isExpanded ? projectId : null,
+    buildId,
+    screenshots.capturedAt
+  );
+
+  const flagged = screenshots.shots.filter((shot) => shot.blank || shot.overlay).length;
+  const changed = screenshots.shots.filter((shot) => (shot.diffRatio ?? 0) > 0).length;
+
+  let label = `${screenshots.shots.length} screenshot${screenshots.shots.length !== 1 ? 's' : ''} captured`;
+  if (flagged > 0) {
+    label = `${flagged} screenshot${flagged !== 1 ? 's' : ''} show a blank page or error overlay`;
+  } else if (changed > 0) {
+    label += ` - ${changed} changed since the previous build`;
+  }
+
+  return (
+    <div className="border-t border-theme-primary/20 px-4 py-3">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        disabled={screenshots.shots.length === 0}
+        className="w-full flex items-center gap-2 text-left text-sm disabled:cursor-default"
+      >
+        {flagged > 0 ? (
+          <ImageOff className="w-4 h-4 text-red-500" />
+        ) : (
+          <Camera className="w-4 h-4 text-green-600 dark:text-green-400" />
+        )}
+        <span className="font-medium flex-1">{label}</span>
+        {screenshots.shots.length > 0 && (
+          isExpanded ? <ChevronUp className="w-3 h-3 text-muted-foreground" /> : <ChevronDown className="w-3 h-3 text-muted-foreground" />
+        )}
+      </button>
+
+      <AnimatePresence>
+        {isExpanded && screenshots.shots.length > 0 && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="overflow-hidden"
+          >
+            {isLoading ? (
+              <div className="mt-2 flex items-center gap-2 text-xs text-muted-foreground">
+                <Loader2 className="w-3 h-3 animate-spin" />
+                Loading screenshots...
+              </div>
+            ) : error ? (
+              <p className="mt-2 text-xs text-red-400">{error.message}</p>
+            ) : (
+              <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {data?.shots.map((shot) => {
+                  const key = `${shot.viewport}:${shot.route}`;
+                  const view = views[key] ?? 'current';
+                  const image = view === 'previous' ? shot.previousImage : view === 'diff' ? shot.diffImage : shot.image;
+                  const availableViews: ShotView[] = ['current'];
+                  if (shot.previousImage) availableViews.push('previous');
+                  if (shot.diffImage) availableViews.push('diff');
+
+                  return (
+                    <div key={key} className="text-xs border border-border rounded overflow-hidden">
+                      <div className="flex items-center gap-2 px-2 py-1 bg-muted/50">
+                        <code className="font-mono truncate">{shot.route}</code>
+                        <span className="text-muted-foreground">{shot.viewport}</span>
+                        <span className="flex-1" />
+                        {shot.overlay ? (
+                          <span className="text-red-400">{shot.overlay} error overlay</span>
+                        ) : shot.blank ? (
+                          <span className="text-red-400">blank</span>
+                        ) : (
+                          <span className="text-muted-foreground">{formatDiff(shot.diffRatio)}</span>
+                        )}
+                      </div>
+                      {image ? (
+                        <Image
+                          src={`data:image/jpeg;base64,${image}`}
+                          alt={`${shot.route} at ${shot.width}x${shot.height} (${view})`}
+                          width={shot.width}
+                          height={shot.height}
+                          unoptimized
+                          className="w-full h-auto max-h-64 object-cover object-top bg-black/20"
+                        />
+                      ) : (
+                        <div className="px-2 py-6 text-center text-muted-foreground">
+                          {shot.error ?? 'No image'}
+                        </div>
+                      )}
+                      {availableViews.length > 1 && (
+                        <div className="flex gap-1 px-2 py-1">
+                          {availableViews.map((option) => (
+                            <button
+                              key={option}
+                              onClick={() => setViews((prev) => ({ ...prev, [key]: option }))}
+                              className={`px-2 py-0.5 rounded capitalize ${
+                                view === option ? 'bg-theme-primary/20 text-foreground' : 'text-muted-foreground hover:text-foreground'
+                              }`}
+                            >
+                              {option}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
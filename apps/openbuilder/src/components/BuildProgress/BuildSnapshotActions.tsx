@@ -0,0 +1,199 @@
+'use client';
+
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ChevronDown, ChevronUp, FileDiff, Loader2, RotateCcw } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/components/ui/toast';
+import { useSnapshotDiff } from '@/queries/snapshots';
+import { useRestoreSnapshot } from '@/mutations/snapshots';
+import type { SnapshotDiffFile } from '@openbuilder/agent-core';
+
+interface BuildSnapshotActionsProps {
+  projectId: string;
+  buildId: string;
+  /** Snapshot taken before the following build - omit to compare against the current workspace */
+  nextBuildId?: string;
+  /** Disable rollback while another build is running */
+  disabled?: boolean;
+}
+
+const STATUS_STYLES: Record<SnapshotDiffFile['status'], { label: string; className: string }> = {
+  added: { label: 'A', className: 'text-green-400' },
+  modified: { label: 'M', className: 'text-amber-400' },
+  deleted: { label: 'D', className: 'text-red-400' },
+  renamed: { label: 'R', className: 'text-sky-400' },
+};
+
+/**
+ * Rollback controls for a completed build.
+ * Shows the files the build changed (its snapshot vs. the next one) and restores
+ * the workspace to the snapshot taken before the build started.
+ */
+export function BuildSnapshotActions({ projectId, buildId, nextBuildId, disabled = false }: BuildSnapshotActionsProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [showPatch, setShowPatch] = useState(false);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const { addToast } = useToast();
+
+  const { data: diff, isLoading, error } = useSnapshotDiff(projectId, buildId, nextBuildId, { enabled: isExpanded });
+  const restoreMutation = useRestoreSnapshot(projectId);
+
+  const handleRestore = async () => {
+    try {
+      const result = await restoreMutation.mutateAsync(buildId);
+      addToast(
+        'success',
+        `Restored ${result.filesChanged} file${result.filesChanged !== 1 ? 's' : ''} to before this build.`
+      );
+    } catch (err) {
+      addToast('error', err instanceof Error ? err.message : 'Failed to restore snapshot');
+    } finally {
+      setConfirmOpen(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors py-1"
+        >
+          <FileDiff className="w-3.5 h-3.5" />
+          <span className="font-medium">View changes</span>
+          {isExpanded ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+        </button>
+        <button
+          onClick={() => setConfirmOpen(true)}
+          disabled={disabled || restoreMutation.isPending}
+          className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors py-1 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {restoreMutation.isPending ? (
+            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+          ) : (
+            <RotateCcw className="w-3.5 h-3.5" />
+          )}
+          <span className="font-medium">Restore to before this build</span>
+        </button>
+      </div>
+
+      <AnimatePresence>
+        {isExpanded && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="overflow-hidden"
+          >
+            <div className="mt-2 space-y-1 pl-2 border-l border-border">
+              {isLoading && (
+                <div className="flex items-center gap-2 text-xs text-muted-foreground py-0.5">
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                  <span>Loading changes...</span>
+                </div>
+              )}
+              {error && (
+                <p className="text-xs text-red-400 py-0.5">
+                  {error instanceof Error ? error.message : 'Failed to load changes'}
+                </p>
+              )}
+              {diff && diff.files.length === 0 && (
+                <p className="text-xs text-muted-foreground py-0.5">No file changes</p>
+              )}
+              {diff?.files.map((file) => (
+                <div key={file.path} className="flex items-center gap-2 text-xs py-0.5 font-mono">
+                  <span className={`w-3 flex-shrink-0 ${STATUS_STYLES[file.status].className}`}>
+                    {STATUS_STYLES[file.status].label}
+                  </span>
+                  <span className="text-muted-foreground truncate">
+                    {file.previousPath ? `${file.previousPath} → ${file.path}` : file.path}
+                  </span>
+                  {file.additions !== null && file.deletions !== null && (
+                    <span className="ml-auto flex-shrink-0">
+                      <span className="text-green-400">+{file.additions}</span>{' '}
+                      <span className="text-red-400">-{file.deletions}</span>
+                    </span>
+                  )}
+                </div>
+              ))}
+              {diff?.patch && (
+                <>
+                  <button
+                    onClick={() => setShowPatch(!showPatch)}
+                    className="text-xs text-muted-foreground hover:text-foreground transition-colors py-0.5"
+                  >
+                    {showPatch ? 'Hide diff' : 'Show diff'}
+                  </button>
+                  {showPatch && (
+                    <pre className="max-h-96 overflow-auto rounded bg-black/40 p-2 text-[11px] leading-relaxed">
+                      {diff.patch.split('\n').map((line, idx) => (
+                        <div
+                          key={idx}
+                          className={
+                            line.startsWith('+') && !line.startsWith('+++')
+                              ? 'text-green-400'
+                              : line.startsWith('-') && !line.startsWith('---')
+                                ? 'text-red-400'
+                                : line.startsWith('@@')
+                                  ? 'text-sky-400'
+                                  : 'text-gray-400'
+                          }
+                        >
+                          {line || ' '}
+                        </div>
+                      ))}
+                      {diff.patchTruncated && (
+                        <div className="text-gray-500 italic">Diff truncated</div>
+                      )}
+                    </pre>
+                  )}
+                </>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent className="bg-zinc-950 border-zinc-800">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-white">Restore project files?</AlertDialogTitle>
+            <AlertDialogDescription className="text-zinc-400">
+              This rolls the project back to how it was before this build, undoing this build and every build after it.
+              The current files are snapshotted first, so the restore can be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel
+              disabled={restoreMutation.isPending}
+              className="bg-zinc-800 border-zinc-700 text-white hover:bg-zinc-700 hover:text-white disabled:opacity-50"
+            >
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleRestore();
+              }}
+              disabled={restoreMutation.isPending}
+              className="bg-theme-primary text-white border-0 hover:opacity-90 disabled:opacity-50"
+            >
+              {restoreMutation.isPending ? 'Restoring...' : 'Restore'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
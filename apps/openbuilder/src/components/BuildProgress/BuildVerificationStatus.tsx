@@ -0,0 +1,91 @@
+'use client';
+
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ChevronDown, ChevronUp, CheckCircle2, XCircle, Loader2, ShieldCheck, ShieldAlert, ShieldOff } from 'lucide-react';
+import type { BuildVerification } from '@/types/generation';
+
+interface BuildVerificationStatusProps {
+  verification: BuildVerification;
+  /** The build is still running - a failed check is being repaired */
+  isActive?: boolean;
+}
+
+function formatDuration(durationMs: number): string {
+  return durationMs < 1000 ? `${durationMs}ms` : `${(durationMs / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Result of the post-build verification (template build command + type-check).
+ * While the build is still active a failed result means the agent is repairing it.
+ */
+export function BuildVerificationStatus({ verification, isActive = false }: BuildVerificationStatusProps) {
+  const [isExpanded, setIsExpanded] = useState(verification.status === 'failed');
+
+  const isRepairing =
+    isActive && verification.status === 'failed' && verification.attempt < verification.maxRepairAttempts;
+  const repairs = verification.attempt > 0
+    ? ` after ${verification.attempt} repair${verification.attempt !== 1 ? 's' : ''}`
+    : '';
+
+  let icon = <ShieldCheck className="w-4 h-4 text-green-600 dark:text-green-400" />;
+  let label = `Build verified${repairs}`;
+  if (isRepairing) {
+    icon = <Loader2 className="w-4 h-4 text-amber-500 animate-spin" />;
+    label = `Verification failed - repairing (${verification.attempt + 1}/${verification.maxRepairAttempts})`;
+  } else if (verification.status === 'failed') {
+    icon = <ShieldAlert className="w-4 h-4 text-red-500" />;
+    label = `Build verification failed${repairs}`;
+  } else if (verification.status === 'skipped') {
+    icon = <ShieldOff className="w-4 h-4 text-muted-foreground" />;
+    label = `Verification skipped${verification.reason ? `: ${verification.reason}` : ''}`;
+  }
+
+  return (
+    <div className="border-t border-theme-primary/20 px-4 py-3">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        disabled={verification.steps.length === 0}
+        className="w-full flex items-center gap-2 text-left text-sm disabled:cursor-default"
+      >
+        {icon}
+        <span className="font-medium flex-1">{label}</span>
+        {verification.steps.length > 0 && (
+          isExpanded ? <ChevronUp className="w-3 h-3 text-muted-foreground" /> : <ChevronDown className="w-3 h-3 text-muted-foreground" />
+        )}
+      </button>
+
+      <AnimatePresence>
+        {isExpanded && verification.steps.length > 0 && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="overflow-hidden"
+          >
+            <div className="mt-2 space-y-2 pl-2 border-l border-border">
+              {verification.steps.map((step) => (
+                <div key={step.name} className="text-xs">
+                  <div className="flex items-center gap-2">
+                    {step.success ? (
+                      <CheckCircle2 className="w-3 h-3 text-green-600/70 dark:text-green-400/60" />
+                    ) : (
+                      <XCircle className="w-3 h-3 text-red-500" />
+                    )}
+                    <code className="font-mono text-muted-foreground">{step.command}</code>
+                    <span className="text-muted-foreground/70">{formatDuration(step.durationMs)}</span>
+                  </div>
+                  {!step.success && step.errors.length > 0 && (
+                    <pre className="mt-1 max-h-48 overflow-auto rounded bg-black/30 p-2 font-mono text-[11px] leading-relaxed text-red-300 whitespace-pre-wrap">
+                      {step.errors.join('\n')}
+                    </pre>
+                  )}
+                </div>
+              ))}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
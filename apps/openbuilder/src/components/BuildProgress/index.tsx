@@ -8,6 +8,8 @@ import { BuildHeader } from './BuildHeader';
 import { TodoList } from './TodoList';
 import { PlanningPhase } from './PlanningPhase';
 import { PhaseSection } from './PhaseSection';
+import { BuildVerificationStatus } from './BuildVerificationStatus';
+import { BuildScreenshotsStatus } from './BuildScreenshotsStatus';
 
 interface BuildProgressProps {
   state: GenerationState;
@@ -224,6 +226,7 @@ export default function BuildProgress({
         projectName={state.projectName}
         agentId={state.agentId}
         claudeModelId={state.claudeModelId}
+        usage={state.usage}
         completed={completed}
         total={total}
         progress={progress}
@@ -308,6 +311,16 @@ export default function BuildProgress({
         </>
       )}
 
+      {/* Post-build verification (build + type-check) and repair progress */}
+      {state.verification && (
+        <BuildVerificationStatus verification={state.verification} isActive={state.isActive} />
+      )}
+
+      {/* Screenshots of the running app, diffed against the previous build */}
+      {state.screenshots && (
+        <BuildScreenshotsStatus screenshots={state.screenshots} projectId={state.projectId} buildId={state.id} />
+      )}
+
       {/* Build Complete Summary - show collapsed todos when build is done */}
       {isComplete && !isCardExpanded && (
         <BuildCompleteSummary
@@ -25,6 +25,9 @@ import {
   Clock,
   Zap,
   Bug,
+  Server,
+  Truck,
+  Package,
   type LucideIcon,
 } from 'lucide-react';
 import { getIconComponent } from '@openbuilder/agent-core/lib/icon-mapper';
@@ -53,12 +56,13 @@ interface CommandItem {
 export function CommandPalette({ open, onOpenChange, onRenameProject, onDeleteProject }: CommandPaletteProps) {
   const router = useRouter();
   const { projects, refetch } = useProjects();
-  const { selectedRunnerId } = useRunner();
+  const { selectedRunnerId, availableRunners } = useRunner();
   const { addToast } = useToast();
   const [bulkMode, setBulkMode] = useState(false);
   const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set());
   const [loadingAction, setLoadingAction] = useState<string | null>(null);
   const [selectedProject, setSelectedProject] = useState<string | null>(null);
+  const [showRunnerPicker, setShowRunnerPicker] = useState(false);
   const [expandedProjects, setExpandedProjects] = useState<Set<string>>(new Set());
   const [recentCommands, setRecentCommands] = useState<string[]>([]);
 
@@ -90,6 +94,7 @@ export function CommandPalette({ open, onOpenChange, onRenameProject, onDeletePr
       setSelectedItems(new Set());
       setLoadingAction(null);
       setSelectedProject(null);
+      setShowRunnerPicker(false);
     }
   }, [open]);
 
@@ -99,7 +104,11 @@ export function CommandPalette({ open, onOpenChange, onRenameProject, onDeletePr
 
     const handleEscape = (e: KeyboardEvent) => {
       if (e.key === 'Escape') {
-        if (selectedProject) {
+        if (showRunnerPicker) {
+          e.preventDefault();
+          e.stopPropagation();
+          setShowRunnerPicker(false);
+        } else if (selectedProject) {
           e.preventDefault();
           e.stopPropagation();
           setSelectedProject(null);
@@ -110,7 +119,7 @@ export function CommandPalette({ open, onOpenChange, onRenameProject, onDeletePr
 
     document.addEventListener('keydown', handleEscape, { capture: true });
     return () => document.removeEventListener('keydown', handleEscape, { capture: true });
-  }, [open, selectedProject]);
+  }, [open, selectedProject, showRunnerPicker]);
 
   // Build command list
   const commands = useMemo<CommandItem[]>(() => {
@@ -124,6 +133,50 @@ export function CommandPalette({ open, onOpenChange, onRenameProject, onDeletePr
       const isRunning = project.devServerStatus === 'running';
       const isBuilding = project.status === 'in_progress';
 
+      // Runner picker for "Move to runner…"
+      if (showRunnerPicker) {
+        availableRunners
+          .filter((runner) => runner.runnerId !== project.runnerId)
+          .forEach((runner) => {
+            const actionId = `move-to-${runner.runnerId}`;
+            items.push({
+              id: actionId,
+              label: runner.runnerId,
+              description: loadingAction === actionId ? 'Moving project files...' : `Move "${project.name}" to this runner`,
+              icon: Server,
+              action: {
+                type: 'action',
+                fn: async () => {
+                  setLoadingAction(actionId);
+                  try {
+                    const response = await fetch(`/api/projects/${project.id}/move`, {
+                      method: 'POST',
+                      headers: { 'Content-Type': 'application/json' },
+                      body: JSON.stringify({ targetRunnerId: runner.runnerId }),
+                    });
+                    const data = await response.json();
+
+                    if (response.ok) {
+                      await refetch();
+                      addToast('success', `Moved "${project.name}" to ${runner.runnerId}`);
+                    } else {
+                      addToast('error', data.error || 'Failed to move project');
+                    }
+                  } catch {
+                    addToast('error', 'Failed to move project');
+                  }
+                  setLoadingAction(null);
+                  setShowRunnerPicker(false);
+                  onOpenChange(false);
+                },
+              },
+              group: 'Move to runner',
+            });
+          });
+
+        return items;
+      }
+
       // View/Navigate to project
       items.push({
         id: 'view-project',
@@ -232,6 +285,65 @@ export function CommandPalette({ open, onOpenChange, onRenameProject, onDeletePr
         });
       }
 
+      if (!isBuilding && project.status !== 'pending' && project.runnerConnected) {
+        items.push({
+          id: 'export-build',
+          label: 'Download production build',
+          description: loadingAction === 'export-build'
+            ? 'Building for production...'
+            : 'Build the project and download it with a Dockerfile',
+          icon: Package,
+          action: {
+            type: 'action',
+            fn: async () => {
+              setLoadingAction('export-build');
+              try {
+                const response = await fetch(`/api/projects/${project.id}/export-build`);
+
+                if (response.ok) {
+                  const blob = await response.blob();
+                  const url = URL.createObjectURL(blob);
+                  const link = document.createElement('a');
+                  link.href = url;
+                  link.download = `${project.slug}-build.tar.gz`;
+                  link.click();
+                  URL.revokeObjectURL(url);
+                  addToast('success', `Downloaded production build of "${project.name}"`);
+                } else {
+                  const data = await response.json().catch(() => ({}));
+                  const firstError = data.buildErrors?.[0];
+                  addToast('error', firstError ? `${data.error}: ${firstError}` : data.error || 'Failed to export production build');
+                }
+              } catch {
+                addToast('error', 'Failed to export production build');
+              }
+              setLoadingAction(null);
+              onOpenChange(false);
+            },
+          },
+          group: 'Manage',
+        });
+      }
+
+      const hasOtherRunner = availableRunners.some((runner) => runner.runnerId !== project.runnerId);
+      if (!isBuilding && hasOtherRunner) {
+        items.push({
+          id: 'move-project',
+          label: 'Move to runner…',
+          description: !project.runnerId
+            ? 'Assign this project to another runner'
+            : project.runnerConnected
+              ? `Copy project files from ${project.runnerId} to another runner`
+              : `${project.runnerId} is offline - it must reconnect to export the files`,
+          icon: Truck,
+          action: {
+            type: 'action',
+            fn: () => setShowRunnerPicker(true),
+          },
+          group: 'Manage',
+        });
+      }
+
       // Debug actions
       items.push({
         id: 'force-reset',
@@ -347,7 +459,7 @@ export function CommandPalette({ open, onOpenChange, onRenameProject, onDeletePr
     });
 
     return items;
-  }, [projects, selectedRunnerId, onRenameProject, onDeleteProject, onOpenChange, refetch, router, bulkMode, selectedItems, loadingAction, selectedProject, addToast]);
+  }, [projects, selectedRunnerId, availableRunners, onRenameProject, onDeleteProject, onOpenChange, refetch, router, bulkMode, selectedItems, loadingAction, selectedProject, showRunnerPicker, addToast]);
 
   // Filter recent commands that still exist
   const recentCommandItems = useMemo(() => {
@@ -493,11 +605,11 @@ export function CommandPalette({ open, onOpenChange, onRenameProject, onDeletePr
           return (
             <div className="flex items-center justify-between px-4 py-3 border-b border-white/10 theme-card-header">
               <button
-                onClick={() => setSelectedProject(null)}
+                onClick={() => (showRunnerPicker ? setShowRunnerPicker(false) : setSelectedProject(null))}
                 className="flex items-center gap-2 text-sm text-gray-300 hover:text-white transition-colors group"
               >
                 <ArrowLeft className="h-4 w-4 group-hover:-translate-x-0.5 transition-transform" />
-                <span>All Projects</span>
+                <span>{showRunnerPicker ? 'Project Actions' : 'All Projects'}</span>
               </button>
               <div className="flex items-center gap-2">
                 {isRunning && <div className="w-2 h-2 bg-green-400 rounded-full animate-pulse" />}
@@ -513,7 +625,9 @@ export function CommandPalette({ open, onOpenChange, onRenameProject, onDeletePr
           <Search className="mr-2 h-4 w-4 shrink-0 text-gray-500" />
           <Command.Input
             placeholder={
-              selectedProject
+              showRunnerPicker
+                ? 'Search runners...'
+                : selectedProject
                 ? 'Search actions...'
                 : selectedItems.size > 0
                 ? 'Multi-select mode (Cmd+Click to toggle)...'
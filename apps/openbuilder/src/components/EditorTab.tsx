@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import Editor, { OnMount } from '@monaco-editor/react';
-import { Folder, File, ChevronRight, ChevronDown, FileText } from 'lucide-react';
+import { Folder, File, ChevronRight, ChevronDown, FileText, AlertTriangle } from 'lucide-react';
 
 interface FileNode {
   name: string;
@@ -15,13 +15,35 @@ interface EditorTabProps {
   projectId?: string | null;
 }
 
+type FileWatchMessage =
+  | { type: 'connected' }
+  | { type: 'file-changed'; path: string; isDirectory: boolean }
+  | { type: 'file-deleted'; path: string };
+
+// Shown when the open file changes on disk underneath unsaved edits, or is deleted
+type FileNotice =
+  | { type: 'conflict'; path: string; remoteContent: string }
+  | { type: 'deleted'; path: string };
+
 export default function EditorTab({ projectId }: EditorTabProps) {
   const [files, setFiles] = useState<FileNode[]>([]);
   const [selectedFile, setSelectedFile] = useState<string | null>(null);
   const [fileContent, setFileContent] = useState<string>('');
   const [isLoading, setIsLoading] = useState(false);
   const [collapsedFolders, setCollapsedFolders] = useState<Set<string>>(new Set());
+  const [fileNotice, setFileNotice] = useState<FileNotice | null>(null);
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const treeRefreshTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Latest values for the file watch stream handler
+  const selectedFileRef = useRef<string | null>(null);
+  const fileContentRef = useRef('');
+  const savedContentRef = useRef(''); // Content of the open file as last read from / written to disk
+  const savingContentRef = useRef<string | null>(null); // Content of an in-flight save
+
+  useEffect(() => {
+    selectedFileRef.current = selectedFile;
+    fileContentRef.current = fileContent;
+  }, [selectedFile, fileContent]);
 
   const handleEditorMount: OnMount = (editor, monaco) => {
     // Disable ALL TypeScript/JavaScript validation and diagnostics
@@ -76,8 +98,10 @@ export default function EditorTab({ projectId }: EditorTabProps) {
       const data = await res.json();
 
       if (res.ok) {
+        savedContentRef.current = data.content || '';
         setFileContent(data.content || '');
         setSelectedFile(path);
+        setFileNotice(null);
       } else {
         console.error('Failed to load file:', data.error);
         setFileContent(`// Error: ${data.error}\n// ${data.message || ''}`);
@@ -93,6 +117,7 @@ export default function EditorTab({ projectId }: EditorTabProps) {
   const saveFileContent = useCallback(async (path: string, content: string) => {
     if (!projectId) return;
 
+    savingContentRef.current = content;
     try {
       const res = await fetch(`/api/projects/${projectId}/files/content`, {
         method: 'PUT',
@@ -102,17 +127,131 @@ export default function EditorTab({ projectId }: EditorTabProps) {
 
       if (!res.ok) {
         console.error('Failed to save file');
+      } else if (selectedFileRef.current === path) {
+        savedContentRef.current = content;
       }
     } catch (error) {
       console.error('Failed to save file:', error);
+    } finally {
+      savingContentRef.current = null;
     }
   }, [projectId]);
 
+  const cancelPendingSave = useCallback(() => {
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+      saveTimeoutRef.current = null;
+    }
+  }, []);
+
+  /**
+   * The open file changed on disk - reload it, or ask first if the user has unsaved edits
+   */
+  const handleRemoteChange = useCallback(async (path: string) => {
+    if (!projectId) return;
+
+    try {
+      const res = await fetch(`/api/projects/${projectId}/files/content?path=${encodeURIComponent(path)}`);
+      if (!res.ok || selectedFileRef.current !== path) return;
+
+      const data = await res.json();
+      const remoteContent: string = data.content || '';
+
+      // Echo of our own save, or nothing actually changed
+      if (remoteContent === savedContentRef.current || remoteContent === savingContentRef.current) return;
+
+      if (remoteContent === fileContentRef.current) {
+        savedContentRef.current = remoteContent;
+        return;
+      }
+
+      const hasUnsavedEdits = fileContentRef.current !== savedContentRef.current;
+      if (hasUnsavedEdits) {
+        // Hold the auto-save so it doesn't overwrite the agent's version before the user decides
+        cancelPendingSave();
+        setFileNotice({ type: 'conflict', path, remoteContent });
+        return;
+      }
+
+      savedContentRef.current = remoteContent;
+      setFileContent(remoteContent);
+      setFileNotice(null);
+    } catch (error) {
+      console.error('Failed to reload changed file:', error);
+    }
+  }, [projectId, cancelPendingSave]);
+
+  // Follow file changes made by the agent (or anything else) on the runner
+  useEffect(() => {
+    if (!projectId || typeof window === 'undefined') return;
+
+    const eventSource = new EventSource(`/api/projects/${projectId}/files?stream=true`);
+
+    eventSource.onmessage = (event) => {
+      let message: FileWatchMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+      if (message.type === 'connected') return;
+
+      // Refresh the tree once a burst of changes settles
+      if (treeRefreshTimeoutRef.current) {
+        clearTimeout(treeRefreshTimeoutRef.current);
+      }
+      treeRefreshTimeoutRef.current = setTimeout(() => {
+        fetchFileTree();
+      }, 500);
+
+      if (message.path !== selectedFileRef.current) return;
+
+      if (message.type === 'file-deleted') {
+        cancelPendingSave();
+        setFileNotice({ type: 'deleted', path: message.path });
+      } else if (!message.isDirectory) {
+        handleRemoteChange(message.path);
+      }
+    };
+
+    return () => {
+      eventSource.close();
+      if (treeRefreshTimeoutRef.current) {
+        clearTimeout(treeRefreshTimeoutRef.current);
+        treeRefreshTimeoutRef.current = null;
+      }
+    };
+  }, [projectId, fetchFileTree, handleRemoteChange, cancelPendingSave]);
+
+  const loadRemoteVersion = (remoteContent: string) => {
+    cancelPendingSave();
+    savedContentRef.current = remoteContent;
+    setFileContent(remoteContent);
+    setFileNotice(null);
+  };
+
+  const keepLocalVersion = () => {
+    setFileNotice(null);
+    if (selectedFile) {
+      saveFileContent(selectedFile, fileContent);
+    }
+  };
+
+  const closeDeletedFile = () => {
+    cancelPendingSave();
+    setFileNotice(null);
+    setSelectedFile(null);
+    setFileContent('');
+  };
+
   const handleEditorChange = (value: string | undefined) => {
     if (value === undefined || !selectedFile) return;
 
     setFileContent(value);
 
+    // Don't auto-save over a file the agent just rewrote or deleted until the user picks a version
+    if (fileNotice) return;
+
     // Debounced auto-save (2 seconds)
     if (saveTimeoutRef.current) {
       clearTimeout(saveTimeoutRef.current);
@@ -234,6 +373,49 @@ export default function EditorTab({ projectId }: EditorTabProps) {
               )}
             </div>
 
+            {/* External change prompt */}
+            {fileNotice && fileNotice.path === selectedFile && (
+              <div className="px-4 py-2 border-b border-amber-500/30 bg-amber-500/10 flex items-center gap-3 text-xs">
+                <AlertTriangle className="w-4 h-4 text-amber-400 flex-shrink-0" />
+                <span className="text-amber-200 flex-1">
+                  {fileNotice.type === 'conflict'
+                    ? 'This file was changed on disk while you had unsaved edits.'
+                    : 'This file was deleted on disk.'}
+                </span>
+                {fileNotice.type === 'conflict' ? (
+                  <>
+                    <button
+                      onClick={() => loadRemoteVersion(fileNotice.remoteContent)}
+                      className="px-2 py-1 rounded bg-white/10 text-white hover:bg-white/20 transition-colors"
+                    >
+                      Load new version
+                    </button>
+                    <button
+                      onClick={keepLocalVersion}
+                      className="px-2 py-1 rounded text-gray-300 hover:text-white hover:bg-white/10 transition-colors"
+                    >
+                      Keep my changes
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      onClick={keepLocalVersion}
+                      className="px-2 py-1 rounded bg-white/10 text-white hover:bg-white/20 transition-colors"
+                    >
+                      Restore my version
+                    </button>
+                    <button
+                      onClick={closeDeletedFile}
+                      className="px-2 py-1 rounded text-gray-300 hover:text-white hover:bg-white/10 transition-colors"
+                    >
+                      Close file
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+
             {/* Monaco Editor */}
             <div className="flex-1">
               <Editor
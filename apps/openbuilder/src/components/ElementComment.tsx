@@ -3,38 +3,44 @@
 import { useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Send, Settings2, X, Loader2, CheckCircle2 } from 'lucide-react';
+import { Pin, Settings2, X, Loader2, CheckCircle2, AlertCircle } from 'lucide-react';
 import { Button } from './ui/button';
+import type { SelectedElement } from '@/hooks/useElementEdits';
+import { cn } from '@/lib/utils';
 
 interface ElementCommentProps {
-  element: {
-    selector: string;
-    tagName: string;
-    className: string;
-    textContent: string;
-    boundingRect: {
-      top: number;
-      left: number;
-      width: number;
-      height: number;
-    };
-  };
+  element: SelectedElement;
   position: { x: number; y: number };
   containerBounds?: { top: number; left: number; right: number; bottom: number };
+  index: number; // 1-based number shown on the pin and in the edits list
+  initialPrompt?: string;
+  isPinned?: boolean;
   onSubmit: (prompt: string) => void;
   onClose: () => void;
+  onReopen?: () => void;
   status?: 'pending' | 'processing' | 'completed' | 'failed';
 }
 
+const PIN_STYLES: Record<NonNullable<ElementCommentProps['status']>, string> = {
+  pending: 'bg-theme-primary-muted border-theme-primary text-theme-primary',
+  processing: 'bg-blue-500/20 border-blue-400 text-blue-300',
+  completed: 'bg-green-500/20 border-green-400 text-green-300',
+  failed: 'bg-red-500/20 border-red-400 text-red-300',
+};
+
 export default function ElementComment({
   element,
   position,
   containerBounds,
+  index,
+  initialPrompt = '',
+  isPinned = false,
   onSubmit,
   onClose,
+  onReopen,
   status = 'pending',
 }: ElementCommentProps) {
-  const [prompt, setPrompt] = useState('');
+  const [prompt, setPrompt] = useState(initialPrompt);
   const [showDetails, setShowDetails] = useState(false);
   const [mounted, setMounted] = useState(false);
 
@@ -45,9 +51,8 @@ export default function ElementComment({
 
   const handleSubmit = () => {
     if (prompt.trim()) {
-      onSubmit(prompt);
-      setPrompt('');
-      // Window will auto-minimize when status changes to 'processing'
+      // Pins the comment - the window collapses into a numbered marker
+      onSubmit(prompt.trim());
     }
   };
 
@@ -110,8 +115,37 @@ export default function ElementComment({
 
   const content = (
     <>
-      {/* Only show comment window for pending status - no status orbs */}
-      {status === 'pending' && (
+      {/* Pinned comments collapse into a numbered marker showing their status */}
+      {isPinned && (
+        <motion.button
+          initial={{ scale: 0, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          exit={{ scale: 0, opacity: 0 }}
+          onClick={status === 'pending' || status === 'failed' ? onReopen : undefined}
+          className={cn(
+            'fixed z-[100] w-8 h-8 rounded-full flex items-center justify-center shadow-lg border-2 text-xs font-semibold',
+            PIN_STYLES[status]
+          )}
+          style={{
+            left: `${circleLeft}px`,
+            top: `${circleTop}px`,
+          }}
+          title={prompt}
+        >
+          {status === 'processing' ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : status === 'completed' ? (
+            <CheckCircle2 className="w-4 h-4" />
+          ) : status === 'failed' ? (
+            <AlertCircle className="w-4 h-4" />
+          ) : (
+            index
+          )}
+        </motion.button>
+      )}
+
+      {/* Comment window while the comment is being written */}
+      {!isPinned && (
         <>
           {/* Anchor circle at click position */}
           <motion.div
@@ -124,8 +158,8 @@ export default function ElementComment({
               top: `${circleTop}px`,
             }}
           >
-            <div className="w-8 h-8 rounded-full flex items-center justify-center shadow-lg border-2 bg-theme-primary-muted border-theme-primary">
-              <div className="w-2 h-2 rounded-full bg-theme-primary"></div>
+            <div className="w-8 h-8 rounded-full flex items-center justify-center shadow-lg border-2 bg-theme-primary-muted border-theme-primary text-xs font-semibold text-theme-primary">
+              {index}
             </div>
           </motion.div>
 
@@ -181,6 +215,12 @@ export default function ElementComment({
                     <span className="text-gray-500">Selector:</span>
                     <code className="ml-2 text-theme-primary font-mono">{element.selector}</code>
                   </div>
+                  {element.fullPath && element.fullPath !== element.selector && (
+                    <div>
+                      <span className="text-gray-500">Path:</span>
+                      <code className="ml-2 text-gray-300 font-mono break-all">{element.fullPath}</code>
+                    </div>
+                  )}
                   {element.className && (
                     <div>
                       <span className="text-gray-500">Classes:</span>
@@ -216,14 +256,15 @@ export default function ElementComment({
               autoFocus
             />
             <div className="flex items-center justify-between">
-              <div className="text-xs text-gray-500">⌘↵</div>
+              <div className="text-xs text-gray-500">⌘↵ to pin</div>
               <Button
                 onClick={handleSubmit}
                 disabled={!prompt.trim()}
                 size="sm"
                 className="h-6 px-2 text-xs bg-theme-primary-muted border-theme-primary/30 hover:bg-theme-primary-muted text-theme-primary"
+                title="Pin comment - submit all pinned comments from the list"
               >
-                <Send className="w-3 h-3" />
+                <Pin className="w-3 h-3" />
               </Button>
             </div>
           </div>
@@ -0,0 +1,126 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { Send, X, Loader2, CheckCircle2, AlertCircle } from 'lucide-react';
+import { Button } from './ui/button';
+import type { ElementEdit } from '@/hooks/useElementEdits';
+
+interface ElementEditsListProps {
+  edits: ElementEdit[]; // Pinned comments, in pin order
+  onSubmit: () => void;
+  onRemove: (id: string) => void;
+  onSelect: (id: string) => void;
+  onClearCompleted: () => void;
+  isBuildActive?: boolean;
+}
+
+function StatusIcon({ status }: { status: ElementEdit['status'] }) {
+  switch (status) {
+    case 'processing':
+      return <Loader2 className="w-3.5 h-3.5 text-blue-400 animate-spin" />;
+    case 'completed':
+      return <CheckCircle2 className="w-3.5 h-3.5 text-green-400" />;
+    case 'failed':
+      return <AlertCircle className="w-3.5 h-3.5 text-red-400" />;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Pinned element comments waiting to go out as one focused-edit build
+ */
+export default function ElementEditsList({
+  edits,
+  onSubmit,
+  onRemove,
+  onSelect,
+  onClearCompleted,
+  isBuildActive = false,
+}: ElementEditsListProps) {
+  const submittable = edits.filter((edit) => edit.status === 'pending' || edit.status === 'failed');
+  const hasCompleted = edits.some((edit) => edit.status === 'completed');
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 10 }}
+      className="absolute bottom-3 right-3 z-20 w-80 max-h-[60%] flex flex-col bg-gradient-to-br from-gray-900 to-gray-800 border border-theme-primary/30 rounded-lg shadow-2xl"
+    >
+      {/* Header */}
+      <div className="border-b border-theme-primary/20 px-3 py-2 flex items-center justify-between">
+        <span className="text-xs font-medium text-gray-300">
+          Element comments ({edits.length})
+        </span>
+        {hasCompleted && (
+          <button
+            onClick={onClearCompleted}
+            className="text-xs text-gray-500 hover:text-gray-300 transition-colors"
+          >
+            Clear done
+          </button>
+        )}
+      </div>
+
+      {/* Comments */}
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {edits.map((edit, index) => (
+          <div
+            key={edit.id}
+            role="button"
+            tabIndex={0}
+            className="group flex items-start gap-2 px-2 py-1.5 rounded hover:bg-white/5 cursor-pointer"
+            onClick={() => onSelect(edit.id)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ' ') {
+                e.preventDefault();
+                onSelect(edit.id);
+              }
+            }}
+          >
+            <span className="shrink-0 w-5 h-5 rounded-full bg-theme-primary-muted text-theme-primary text-[10px] font-semibold flex items-center justify-center">
+              {index + 1}
+            </span>
+            <div className="flex-1 min-w-0">
+              <div className="text-xs text-gray-200 line-clamp-2">{edit.prompt}</div>
+              <code className="block text-[10px] text-gray-500 font-mono truncate">
+                &lt;{edit.element.tagName}&gt; {edit.element.selector}
+              </code>
+              {edit.status === 'failed' && edit.error && (
+                <div className="text-[10px] text-red-400 truncate">{edit.error}</div>
+              )}
+            </div>
+            <StatusIcon status={edit.status} />
+            {edit.status !== 'processing' && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onRemove(edit.id);
+                }}
+                className="p-0.5 opacity-0 group-hover:opacity-100 hover:bg-white/10 rounded transition-all"
+                title="Remove"
+              >
+                <X className="w-3 h-3 text-gray-500" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Submit */}
+      <div className="border-t border-theme-primary/20 p-2">
+        <Button
+          onClick={onSubmit}
+          disabled={submittable.length === 0 || isBuildActive}
+          size="sm"
+          className="w-full h-7 text-xs bg-theme-primary-muted border-theme-primary/30 hover:bg-theme-primary-muted text-theme-primary"
+          title={isBuildActive ? 'Wait for the current build to finish' : undefined}
+        >
+          <Send className="w-3 h-3 mr-1.5" />
+          {submittable.length === 1 ? 'Apply 1 change' : `Apply ${submittable.length} changes`}
+        </Button>
+      </div>
+    </motion.div>
+  );
+}
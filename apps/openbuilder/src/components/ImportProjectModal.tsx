@@ -0,0 +1,212 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { X, FolderInput, GitBranch, Folder, Loader2 } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useImportProject } from '@/mutations/projects';
+import { cn } from '@/lib/utils';
+
+interface ImportProjectModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  runnerId?: string;
+  allowDirectory?: boolean; // Local mode only - the runner shares the user's filesystem
+  onImported: (project: { id: string; slug: string }) => void;
+}
+
+export default function ImportProjectModal({
+  isOpen,
+  onClose,
+  runnerId,
+  allowDirectory = false,
+  onImported,
+}: ImportProjectModalProps) {
+  const [sourceType, setSourceType] = useState<'git' | 'directory'>('git');
+  const [url, setUrl] = useState('');
+  const [branch, setBranch] = useState('');
+  const [path, setPath] = useState('');
+  const [name, setName] = useState('');
+  const importProject = useImportProject();
+  const locationInputRef = useRef<HTMLInputElement>(null);
+
+  const location = sourceType === 'git' ? url.trim() : path.trim();
+
+  const handleImport = () => {
+    if (!location || importProject.isPending) return;
+
+    importProject.mutate(
+      {
+        source: sourceType === 'git'
+          ? { type: 'git', url: location, branch: branch.trim() || undefined }
+          : { type: 'directory', path: location },
+        name: name.trim() || undefined,
+        runnerId,
+      },
+      {
+        onSuccess: (project) => {
+          onImported(project);
+          onClose();
+        },
+      }
+    );
+  };
+
+  // Focus the URL / path field when the modal opens or the source changes
+  useEffect(() => {
+    if (isOpen) {
+      locationInputRef.current?.focus();
+    }
+  }, [isOpen, sourceType]);
+
+  if (!isOpen) return null;
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+            onClick={importProject.isPending ? undefined : onClose}
+          />
+
+          {/* Modal */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="relative w-full max-w-md bg-gradient-to-br from-gray-900 to-gray-800 border border-white/10 rounded-xl shadow-2xl"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between p-6 border-b border-white/10">
+              <div className="flex items-center gap-3">
+                <FolderInput className="w-6 h-6 text-theme-primary" />
+                <h2 className="text-xl font-semibold text-white">Import Project</h2>
+              </div>
+              <button
+                onClick={onClose}
+                disabled={importProject.isPending}
+                className="p-2 text-gray-400 hover:text-white transition-colors rounded-lg hover:bg-white/10 disabled:opacity-50"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {/* Content */}
+            <div className="p-6 space-y-4">
+              {allowDirectory && (
+                <div className="flex gap-2">
+                  {([
+                    { type: 'git', label: 'Git repository', Icon: GitBranch },
+                    { type: 'directory', label: 'Local folder', Icon: Folder },
+                  ] as const).map(({ type, label, Icon }) => (
+                    <button
+                      key={type}
+                      onClick={() => setSourceType(type)}
+                      className={cn(
+                        'flex-1 flex items-center justify-center gap-2 px-3 py-2 text-sm rounded-lg border transition-colors',
+                        sourceType === type
+                          ? 'border-theme-primary/50 bg-theme-primary-muted text-white'
+                          : 'border-white/10 text-gray-400 hover:text-white hover:bg-white/5'
+                      )}
+                    >
+                      <Icon className="w-4 h-4" />
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {sourceType === 'git' ? (
+                <>
+                  <div>
+                    <label htmlFor="import-url" className="block mb-2 text-sm text-gray-400">Repository URL</label>
+                    <input
+                      id="import-url"
+                      ref={locationInputRef}
+                      type="text"
+                      value={url}
+                      onChange={(e) => setUrl(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleImport()}
+                      className="w-full px-4 py-2 input-theme border rounded-lg focus:outline-none transition-colors font-mono text-sm"
+                      placeholder="https://github.com/owner/repo.git"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="import-branch" className="block mb-2 text-sm text-gray-400">Branch (optional)</label>
+                    <input
+                      id="import-branch"
+                      type="text"
+                      value={branch}
+                      onChange={(e) => setBranch(e.target.value)}
+                      className="w-full px-4 py-2 input-theme border rounded-lg focus:outline-none transition-colors font-mono text-sm"
+                      placeholder="Default branch"
+                    />
+                    <p className="mt-1.5 text-xs text-gray-500">
+                      Dependencies are installed without running the repository&apos;s install scripts.
+                    </p>
+                  </div>
+                </>
+              ) : (
+                <div>
+                  <label htmlFor="import-path" className="block mb-2 text-sm text-gray-400">Folder path</label>
+                  <input
+                    id="import-path"
+                    ref={locationInputRef}
+                    type="text"
+                    value={path}
+                    onChange={(e) => setPath(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleImport()}
+                    className="w-full px-4 py-2 input-theme border rounded-lg focus:outline-none transition-colors font-mono text-sm"
+                    placeholder="/Users/me/code/my-app"
+                  />
+                  <p className="mt-1.5 text-xs text-gray-500">
+                    The folder is copied into the workspace. Folders already in the workspace are used in place.
+                  </p>
+                </div>
+              )}
+
+              <div>
+                <label htmlFor="import-name" className="block mb-2 text-sm text-gray-400">Project name (optional)</label>
+                <input
+                  id="import-name"
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="w-full px-4 py-2 input-theme border rounded-lg focus:outline-none transition-colors"
+                  placeholder="Taken from package.json or the folder name"
+                />
+              </div>
+
+              {importProject.isError && (
+                <p className="text-sm text-red-400">{importProject.error.message}</p>
+              )}
+            </div>
+
+            {/* Footer */}
+            <div className="flex items-center justify-end gap-3 p-6 border-t border-white/10">
+              <button
+                onClick={onClose}
+                disabled={importProject.isPending}
+                className="px-4 py-2 text-sm text-white bg-white/10 hover:bg-white/20 rounded-lg transition-colors disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={!location || importProject.isPending}
+                className="flex items-center gap-2 px-4 py-2 text-sm text-white bg-purple-600 hover:bg-purple-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {importProject.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+                {importProject.isPending ? 'Importing...' : 'Import'}
+              </button>
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
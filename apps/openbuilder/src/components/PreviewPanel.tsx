@@ -6,8 +6,9 @@ import { ExternalLink, RefreshCw, Play, Square, Copy, Check, Monitor, Smartphone
 import { useProjects } from '@/contexts/ProjectContext';
 import SelectionMode from './SelectionMode';
 import ElementComment from './ElementComment';
+import ElementEditsList from './ElementEditsList';
 import { toggleSelectionMode } from '@openbuilder/agent-core/lib/selection/injector';
-import { useElementEdits } from '@/hooks/useElementEdits';
+import { useElementEdits, type SelectedElement, type SelectionEditRequest } from '@/hooks/useElementEdits';
 import { useHmrProxy } from '@/hooks/useHmrProxy';
 import BuildingAppSkeleton from './BuildingAppSkeleton';
 import { ServerRestartProgress } from './ServerRestartProgress';
@@ -75,7 +76,8 @@ export default function PreviewPanel({
   const [dnsVerificationAttempt, setDnsVerificationAttempt] = useState<number>(0);
   const [dnsTroubleshooting, setDnsTroubleshooting] = useState(false);
   const iframeRef = useRef<HTMLIFrameElement>(null);
-  const { edits, addEdit, removeEdit } = useElementEdits();
+  const { edits, addEdit, updateEdit, updateEditStatus, removeEdit, clearCompleted } = useElementEdits();
+  const [openEditId, setOpenEditId] = useState<string | null>(null); // Pinned comment reopened for editing
   const lastTunnelUrlRef = useRef<string | null>(null);
   const [verifiedTunnelUrl, setVerifiedTunnelUrl] = useState<string | null>(null);
   const lastPreviewUrlRef = useRef<string>(''); // Track last working preview URL to keep iframe visible during follow-up builds
@@ -418,7 +420,7 @@ export default function PreviewPanel({
 
   // Handle element selection - create comment indicator at click position
   // Defined before the message listener effect so it can be used as a dependency
-  const handleElementSelected = useCallback((element: any, prompt: string) => {
+  const handleElementSelected = useCallback((element: SelectedElement, prompt: string) => {
     if (!element.clickPosition) {
       console.error('❌ No click position!');
       return;
@@ -448,26 +450,65 @@ export default function PreviewPanel({
     if (DEBUG_PREVIEW) console.log('✅ Created edit:', editId);
   }, [addEdit]);
 
-  // Handle comment submission - send to chat as regular generation
+  // Handle comment submission - pin it to the list until the batch is sent
   const handleCommentSubmit = useCallback((editId: string, prompt: string) => {
-    if (DEBUG_PREVIEW) console.log('🚀 Submitting element change:', editId, prompt);
+    if (DEBUG_PREVIEW) console.log('📌 Pinning element comment:', editId, prompt);
 
+    updateEdit(editId, { prompt, isPinned: true });
+    setOpenEditId(null);
+  }, [updateEdit]);
+
+  // Closing a pinned comment only collapses it; an unpinned one is discarded
+  const handleCommentClose = useCallback((editId: string) => {
     const edit = edits.find(e => e.id === editId);
-    if (!edit) return;
+    if (edit && !edit.isPinned) {
+      removeEdit(editId);
+    }
+    setOpenEditId(null);
+  }, [edits, removeEdit]);
+
+  // Send every pinned comment as one focused-edit build
+  const submittedEditIdsRef = useRef<string[]>([]);
+  const handleSubmitEdits = useCallback(() => {
+    const batch = edits.filter(e => e.isPinned && (e.status === 'pending' || e.status === 'failed'));
+    if (batch.length === 0) return;
 
-    // Remove the edit (comment window will close)
-    removeEdit(editId);
+    if (DEBUG_PREVIEW) console.log('🚀 Submitting element changes:', batch.map(e => e.id));
 
-    // Format prompt with element context using code formatting for selector
-    const formattedPrompt = `Change the element with selector \`${edit.element.selector}\` (\`${edit.element.tagName}\`): ${prompt}`;
+    const ids = batch.map(e => e.id);
+    submittedEditIdsRef.current = ids;
+    updateEditStatus(ids, 'processing');
+    setOpenEditId(null);
 
     // Send to regular chat flow - will create todo automatically
+    const requests: SelectionEditRequest[] = batch.map(e => ({ element: e.element, prompt: e.prompt }));
     window.dispatchEvent(new CustomEvent('selection-change-requested', {
-      detail: { element: edit.element, prompt: formattedPrompt },
+      detail: { edits: requests },
     }));
 
     if (DEBUG_PREVIEW) console.log('✅ Sent to chat system');
-  }, [edits, removeEdit]);
+  }, [edits, updateEditStatus]);
+
+  // Resolve the submitted comments when their build finishes
+  const sawBatchBuildRef = useRef(false);
+  useEffect(() => {
+    if (submittedEditIdsRef.current.length === 0) return;
+
+    if (isBuildActive) {
+      sawBatchBuildRef.current = true;
+      return;
+    }
+    if (!sawBatchBuildRef.current) return;
+
+    const failed = currentProject?.status === 'failed';
+    updateEditStatus(
+      submittedEditIdsRef.current,
+      failed ? 'failed' : 'completed',
+      failed ? currentProject?.errorMessage || 'Build failed' : undefined
+    );
+    submittedEditIdsRef.current = [];
+    sawBatchBuildRef.current = false;
+  }, [isBuildActive, currentProject?.status, currentProject?.errorMessage, updateEditStatus]);
 
   // Listen for element selection messages from iframe
   // This runs independently of the SelectionMode button component
@@ -869,7 +910,7 @@ export default function PreviewPanel({
 
             {/* Floating comment indicators */}
             <AnimatePresence>
-              {edits.map((edit) => {
+              {edits.map((edit, index) => {
                 // Get container bounds from iframe for boundary clamping
                 const iframeRect = iframeRef.current?.getBoundingClientRect();
                 const containerBounds = iframeRect ? {
@@ -885,13 +926,34 @@ export default function PreviewPanel({
                     element={edit.element}
                     position={edit.position}
                     containerBounds={containerBounds}
+                    index={index + 1}
+                    initialPrompt={edit.prompt}
+                    isPinned={edit.isPinned && edit.id !== openEditId}
                     status={edit.status}
                     onSubmit={(prompt) => handleCommentSubmit(edit.id, prompt)}
-                    onClose={() => removeEdit(edit.id)}
+                    onClose={() => handleCommentClose(edit.id)}
+                    onReopen={() => setOpenEditId(edit.id)}
                   />
                 );
               })}
             </AnimatePresence>
+
+            {/* Pinned comments - submitted together as one build */}
+            <AnimatePresence>
+              {edits.some(edit => edit.isPinned) && (
+                <ElementEditsList
+                  edits={edits.filter(edit => edit.isPinned)}
+                  onSubmit={handleSubmitEdits}
+                  onRemove={removeEdit}
+                  onSelect={(id) => {
+                    const edit = edits.find(e => e.id === id);
+                    if (edit?.status === 'pending' || edit?.status === 'failed') setOpenEditId(id);
+                  }}
+                  onClearCompleted={clearCompleted}
+                  isBuildActive={isBuildActive}
+                />
+              )}
+            </AnimatePresence>
           </>
         ) : (
           <div className="w-full h-full flex items-center justify-center text-muted-foreground">
@@ -2,12 +2,14 @@
 
 import { useEffect, forwardRef, useState, useCallback } from 'react';
 import { motion } from 'framer-motion';
-import { Monitor, Code, Terminal, MousePointer2, RefreshCw, Copy, Check, Smartphone, Tablet, Cloud, ExternalLink, Play, Square } from 'lucide-react';
+import { Monitor, Code, Terminal, MousePointer2, RefreshCw, Copy, Check, Smartphone, Tablet, Cloud, ExternalLink, Play, Square, Bug } from 'lucide-react';
 import PreviewPanel from './PreviewPanel';
 import EditorTab from './EditorTab';
 import TerminalOutput from './TerminalOutput';
+import BrowserConsole from './BrowserConsole';
 import { cn } from '@/lib/utils';
 import { useProjects } from '@/contexts/ProjectContext';
+import { useBrowserErrors } from '@/hooks/useBrowserErrors';
 import {
   Tooltip,
   TooltipContent,
@@ -20,6 +22,8 @@ import {
   HoverCardTrigger,
 } from '@/components/ui/hover-card';
 
+export type PreviewTab = 'preview' | 'editor' | 'terminal' | 'console';
+
 interface TabbedPreviewProps {
   selectedProject?: string | null;
   projectId?: string | null;
@@ -35,8 +39,8 @@ interface TabbedPreviewProps {
   onPortDetected?: (port: number) => void;
   devicePreset?: 'desktop' | 'tablet' | 'mobile';
   onDevicePresetChange?: (preset: 'desktop' | 'tablet' | 'mobile') => void;
-  activeTab?: 'preview' | 'editor' | 'terminal';
-  onTabChange?: (tab: 'preview' | 'editor' | 'terminal') => void;
+  activeTab?: PreviewTab;
+  onTabChange?: (tab: PreviewTab) => void;
   isSelectionModeEnabled?: boolean;
   onSelectionModeChange?: (enabled: boolean) => void;
 }
@@ -62,11 +66,12 @@ const TabbedPreview = forwardRef<HTMLDivElement, TabbedPreviewProps>(({
   onSelectionModeChange,
 }, ref) => {
   // Internal state fallbacks
-  const [internalActiveTab, setInternalActiveTab] = useState<'preview' | 'editor' | 'terminal'>('preview');
+  const [internalActiveTab, setInternalActiveTab] = useState<PreviewTab>('preview');
   const [internalDevicePreset, setInternalDevicePreset] = useState<'desktop' | 'tablet' | 'mobile'>('desktop');
   const [internalSelectionMode, setInternalSelectionMode] = useState(false);
   const [copied, setCopied] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [autoFixBrowserErrors, setAutoFixBrowserErrors] = useState(true);
 
   // Use external or internal state
   const activeTab = externalActiveTab ?? internalActiveTab;
@@ -82,20 +87,29 @@ const TabbedPreview = forwardRef<HTMLDivElement, TabbedPreviewProps>(({
   const previewUrl = currentProject?.tunnelUrl || (actualPort ? `http://localhost:${actualPort}` : null);
   const isServerRunning = currentProject?.devServerStatus === 'running';
 
+  // Collected here so errors survive switching away from the console tab
+  const browserErrors = useBrowserErrors(projectId, {
+    autoFix: autoFixBrowserErrors,
+    isBuildActive: !!isBuildActive,
+  });
+
   // Listen for global events to switch tabs
   useEffect(() => {
     const handleSwitchToEditor = () => setActiveTab('editor');
     const handleSwitchToPreview = () => setActiveTab('preview');
     const handleSwitchToTerminal = () => setActiveTab('terminal');
+    const handleSwitchToConsole = () => setActiveTab('console');
 
     window.addEventListener('switch-to-editor', handleSwitchToEditor);
     window.addEventListener('switch-to-preview', handleSwitchToPreview);
     window.addEventListener('switch-to-terminal', handleSwitchToTerminal);
+    window.addEventListener('switch-to-console', handleSwitchToConsole);
 
     return () => {
       window.removeEventListener('switch-to-editor', handleSwitchToEditor);
       window.removeEventListener('switch-to-preview', handleSwitchToPreview);
       window.removeEventListener('switch-to-terminal', handleSwitchToTerminal);
+      window.removeEventListener('switch-to-console', handleSwitchToConsole);
     };
   }, [setActiveTab]);
 
@@ -173,6 +187,27 @@ const TabbedPreview = forwardRef<HTMLDivElement, TabbedPreviewProps>(({
               </TooltipTrigger>
               <TooltipContent side="bottom">Terminal</TooltipContent>
             </Tooltip>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <button
+                  onClick={() => setActiveTab('console')}
+                  className={cn(
+                    'relative p-1.5 rounded transition-all',
+                    activeTab === 'console'
+                      ? 'bg-theme-primary-muted text-theme-primary'
+                      : 'text-muted-foreground hover:text-foreground hover:bg-accent'
+                  )}
+                >
+                  <Bug className="w-4 h-4" />
+                  {browserErrors.entries.length > 0 && (
+                    <span className="absolute -top-0.5 -right-0.5 min-w-[14px] h-[14px] px-0.5 rounded-full bg-red-500 text-[9px] leading-[14px] text-white text-center">
+                      {browserErrors.entries.length > 99 ? '99+' : browserErrors.entries.length}
+                    </span>
+                  )}
+                </button>
+              </TooltipTrigger>
+              <TooltipContent side="bottom">Browser Console</TooltipContent>
+            </Tooltip>
           </div>
 
           {/* Divider + Selection Tool - Only when server running and preview active */}
@@ -438,6 +473,17 @@ const TabbedPreview = forwardRef<HTMLDivElement, TabbedPreviewProps>(({
               />
             </div>
           )}
+          {activeTab === 'console' && (
+            <BrowserConsole
+              entries={browserErrors.entries}
+              onClear={browserErrors.clear}
+              onFix={browserErrors.fixErrors}
+              isFixing={browserErrors.isFixing}
+              autoFix={autoFixBrowserErrors}
+              onAutoFixChange={setAutoFixBrowserErrors}
+              isBuildActive={isBuildActive}
+            />
+          )}
         </div>
       </motion.div>
     </TooltipProvider>
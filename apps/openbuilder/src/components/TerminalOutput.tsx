@@ -1,7 +1,7 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
-import { X } from 'lucide-react';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { X, History, Loader2 } from 'lucide-react';
 import Convert from 'ansi-to-html';
 import { useProjects } from '@/contexts/ProjectContext';
 
@@ -11,6 +11,7 @@ interface ParsedLogEntry {
 }
 
 const MAX_LOG_ENTRIES = 1000;
+const BACKFILL_PAGE_SIZE = 500;
 const DEBUG_TERMINAL = false; // Set to true to enable verbose terminal logging
 
 function parseLogChunk(chunk: string): ParsedLogEntry[] {
@@ -53,6 +54,27 @@ function parseLogChunk(chunk: string): ParsedLogEntry[] {
   return entries;
 }
 
+/**
+ * Collapse parsed entries into display lines, applying carriage-return overwrites
+ */
+function applyLogEntries(lines: string[], entries: ParsedLogEntry[]): string[] {
+  const next = [...lines];
+  for (const entry of entries) {
+    if (!entry.text) continue;
+    if (entry.replaceLast && next.length > 0) {
+      next[next.length - 1] = entry.text;
+    } else {
+      next.push(entry.text);
+    }
+  }
+  return next;
+}
+
+interface LogPageResponse {
+  entries: Array<{ cursor: string; data: string }>;
+  nextCursor: string | null;
+}
+
 interface TerminalOutputProps {
   projectId?: string | null;
   onPortDetected?: (port: number | null) => void;
@@ -62,6 +84,8 @@ export default function TerminalOutput({ projectId, onPortDetected }: TerminalOu
   const { projects } = useProjects();
   const [logs, setLogs] = useState<string[]>([]);
   const [isStreaming, setIsStreaming] = useState(false);
+  const [olderCursor, setOlderCursor] = useState<string | null>(null);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
   const [detectedPort, setDetectedPort] = useState<number | null>(null);
   const detectedPortRef = useRef<number | null>(null);
   const lastNotifiedPortRef = useRef<number | null>(null);
@@ -70,6 +94,10 @@ export default function TerminalOutput({ projectId, onPortDetected }: TerminalOu
   const pendingLogsRef = useRef<ParsedLogEntry[]>([]);
   const flushScheduledRef = useRef(false);
   const rafIdRef = useRef<number | null>(null);
+  // Cursor bookkeeping to de-duplicate backfilled history against live output
+  const firstLiveCursorRef = useRef<number | null>(null);
+  const lastHistoryCursorRef = useRef<number | null>(null);
+  const activeProjectIdRef = useRef<string | null | undefined>(projectId);
   const converter = useRef(new Convert({
     fg: '#d4d4d4',
     bg: '#181225',
@@ -86,20 +114,98 @@ export default function TerminalOutput({ projectId, onPortDetected }: TerminalOu
     if (DEBUG_TERMINAL) console.log('🖥️  TerminalOutput mounted, projectId:', projectId);
   }, []);
 
+  const detectPort = useCallback((logText: string) => {
+    if (detectedPortRef.current != null) return;
+
+    // Skip lines mentioning ports that are "in use" or "busy"
+    if (logText.match(/in use|busy|unavailable|already/i)) {
+      if (DEBUG_TERMINAL) console.log('⏭️  Skipping "in use" port message:', logText.trim());
+      return;
+    }
+
+    const portMatch =
+      logText.match(/(?:localhost|127\.0\.0\.1|0\.0\.0\.0):(\d{4,5})/i) ||        // URL with port
+      logText.match(/Local:.*?:(\d{4,5})/i) ||                                    // Vite/Next: "Local: http://localhost:5173/"
+      logText.match(/port[:\s]+(\d{4,5})/i) ||                                    // Generic "Port 3000"
+      logText.match(/ready.*?(\d{4,5})/i) ||                                      // "ready - started server on 3000"
+      logText.match(/ready.*?:(\d{4,5})/i) ||                                     // "ready on http://localhost:3000"
+      logText.match(/http:\/\/.*?:(\d{4,5})/i) ||                                 // Any HTTP URL
+      logText.match(/https:\/\/.*?:(\d{4,5})/i) ||                                // Any HTTPS URL
+      logText.match(/Network:.*?:(\d{4,5})/i) ||                                  // Vite Network URL
+      logText.match(/started server on.*?:(\d{4,5})/i) ||                         // Next.js format
+      logText.match(/listening on.*?:(\d{4,5})/i);                                // Generic "listening on"
+
+    if (portMatch) {
+      const port = parseInt(portMatch[1], 10);
+      if (port >= 3000 && port <= 65535) {
+        if (detectedPortRef.current !== port) {
+          if (DEBUG_TERMINAL) console.log(`🔍 Port detected from terminal: ${port}`);
+          detectedPortRef.current = port;
+          setDetectedPort(port);
+        }
+      }
+    }
+  }, []);
+
+  const fetchLogPage = useCallback(async (cursor?: string): Promise<LogPageResponse | null> => {
+    if (!projectId) return null;
+
+    const params = new URLSearchParams({ limit: String(BACKFILL_PAGE_SIZE) });
+    if (cursor) params.set('cursor', cursor);
+
+    const res = await fetch(`/api/projects/${projectId}/logs?${params.toString()}`);
+    if (!res.ok) return null;
+    return res.json();
+  }, [projectId]);
+
+  const backfillHistory = useCallback(async () => {
+    const requestedProjectId = projectId;
+    try {
+      const page = await fetchLogPage();
+      // Ignore results for a project we've since navigated away from
+      if (!page || activeProjectIdRef.current !== requestedProjectId) return;
+
+      // Drop anything the live stream already delivered
+      const firstLive = firstLiveCursorRef.current;
+      const entries = firstLive === null
+        ? page.entries
+        : page.entries.filter((entry) => Number(entry.cursor) < firstLive);
+      if (entries.length === 0) return;
+
+      lastHistoryCursorRef.current = Number(entries[entries.length - 1].cursor);
+      setOlderCursor(page.nextCursor);
+
+      const historyLines = applyLogEntries([], parseLogChunk(entries.map((entry) => entry.data).join('')));
+      historyLines.forEach((line) => detectPort(line));
+      setLogs((prev) => {
+        const next = [...historyLines, ...prev];
+        return next.length > MAX_LOG_ENTRIES ? next.slice(next.length - MAX_LOG_ENTRIES) : next;
+      });
+    } catch (error) {
+      if (DEBUG_TERMINAL) console.log('Failed to backfill terminal history:', error);
+    }
+  }, [projectId, fetchLogPage, detectPort]);
+
   useEffect(() => {
     if (DEBUG_TERMINAL) console.log('🔄 TerminalOutput projectId changed:', projectId);
+    activeProjectIdRef.current = projectId;
+    firstLiveCursorRef.current = null;
+    lastHistoryCursorRef.current = null;
+    setOlderCursor(null);
     if (projectId) {
       detectedPortRef.current = null;
       lastNotifiedPortRef.current = null;
       setDetectedPort(null);
       startStreaming();
+      // Backfill output produced before this mount (e.g. after a page refresh)
+      backfillHistory();
     } else {
       stopStreaming();
       setLogs([]);
     }
 
     return () => stopStreaming();
-  }, [projectId]);
+  }, [projectId, backfillHistory]);
 
   const lastStatusRef = useRef<string | null>(null);
 
@@ -124,6 +230,7 @@ export default function TerminalOutput({ projectId, onPortDetected }: TerminalOu
       if (prevStatus !== 'starting') {
         stopStreaming();
         setLogs([]);
+        setOlderCursor(null);
         if (DEBUG_TERMINAL) console.log('🔌 Dev server starting, attaching terminal stream...');
         startStreaming();
       } else if (!eventSourceRef.current) {
@@ -184,6 +291,12 @@ export default function TerminalOutput({ projectId, onPortDetected }: TerminalOu
 
           if (data.type === 'log' && data.data) {
             if (DEBUG_TERMINAL) console.log('   Log data length:', data.data.length);
+            if (data.cursor) {
+              const cursor = Number(data.cursor);
+              // Already rendered via backfill
+              if (lastHistoryCursorRef.current !== null && cursor <= lastHistoryCursorRef.current) return;
+              if (firstLiveCursorRef.current === null) firstLiveCursorRef.current = cursor;
+            }
             enqueueLogs(data.data);
           } else if (data.type === 'connected') {
             if (DEBUG_TERMINAL) console.log('   ✅ Connection established');
@@ -296,8 +409,31 @@ export default function TerminalOutput({ projectId, onPortDetected }: TerminalOu
     }
   };
 
+  const loadEarlierLogs = async () => {
+    if (!olderCursor || isLoadingHistory) return;
+
+    setIsLoadingHistory(true);
+    try {
+      const page = await fetchLogPage(olderCursor);
+      if (!page) return;
+
+      const olderLines = applyLogEntries([], parseLogChunk(page.entries.map((entry) => entry.data).join('')));
+      const room = Math.max(0, MAX_LOG_ENTRIES - logs.length);
+      const trimmed = olderLines.length > room;
+
+      // Stop offering more history once the terminal buffer is full
+      setOlderCursor(trimmed ? null : page.nextCursor);
+      setLogs((prev) => [...olderLines.slice(olderLines.length - room), ...prev]);
+    } catch (error) {
+      console.error('Failed to load earlier logs:', error);
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  };
+
   const clearLogs = () => {
     setLogs([]);
+    setOlderCursor(null);
   };
 
   const enqueueLogs = (chunk: string) => {
@@ -371,39 +507,6 @@ export default function TerminalOutput({ projectId, onPortDetected }: TerminalOu
     }
   };
 
-  const detectPort = (logText: string) => {
-    if (detectedPortRef.current != null) return;
-
-    // Skip lines mentioning ports that are "in use" or "busy"
-    if (logText.match(/in use|busy|unavailable|already/i)) {
-      if (DEBUG_TERMINAL) console.log('⏭️  Skipping "in use" port message:', logText.trim());
-      return;
-    }
-
-    const portMatch =
-      logText.match(/(?:localhost|127\.0\.0\.1|0\.0\.0\.0):(\d{4,5})/i) ||        // URL with port
-      logText.match(/Local:.*?:(\d{4,5})/i) ||                                    // Vite/Next: "Local: http://localhost:5173/"
-      logText.match(/port[:\s]+(\d{4,5})/i) ||                                    // Generic "Port 3000"
-      logText.match(/ready.*?(\d{4,5})/i) ||                                      // "ready - started server on 3000"
-      logText.match(/ready.*?:(\d{4,5})/i) ||                                     // "ready on http://localhost:3000"
-      logText.match(/http:\/\/.*?:(\d{4,5})/i) ||                                 // Any HTTP URL
-      logText.match(/https:\/\/.*?:(\d{4,5})/i) ||                                // Any HTTPS URL
-      logText.match(/Network:.*?:(\d{4,5})/i) ||                                  // Vite Network URL
-      logText.match(/started server on.*?:(\d{4,5})/i) ||                         // Next.js format
-      logText.match(/listening on.*?:(\d{4,5})/i);                                // Generic "listening on"
-
-    if (portMatch) {
-      const port = parseInt(portMatch[1], 10);
-      if (port >= 3000 && port <= 65535) {
-        if (detectedPortRef.current !== port) {
-          if (DEBUG_TERMINAL) console.log(`🔍 Port detected from terminal: ${port}`);
-          detectedPortRef.current = port;
-          setDetectedPort(port);
-        }
-      }
-    }
-  };
-
   // Auto-scroll to bottom
   useEffect(() => {
     logsEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -437,6 +540,21 @@ export default function TerminalOutput({ projectId, onPortDetected }: TerminalOu
               Live
             </span>
           )}
+          {olderCursor && (
+            <button
+              onClick={loadEarlierLogs}
+              disabled={isLoadingHistory}
+              className="flex items-center gap-1 px-2 py-1 text-xs text-gray-400 hover:text-white hover:bg-white/10 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Load earlier output"
+            >
+              {isLoadingHistory ? (
+                <Loader2 className="w-3 h-3 animate-spin" />
+              ) : (
+                <History className="w-3 h-3" />
+              )}
+              Load earlier
+            </button>
+          )}
         </div>
         <button
           onClick={clearLogs}
@@ -2,7 +2,7 @@
 
 import * as React from "react"
 import { useState } from "react"
-import { Plus, Server, ChevronDown, CheckCircle2, Circle, Lock, BookOpen, ChevronLeft, ChevronRight, User, LogOut, Key, Loader2 } from "lucide-react"
+import { Plus, Server, ChevronDown, CheckCircle2, Circle, Lock, BookOpen, ChevronLeft, ChevronRight, User, LogOut, Key, KeySquare, Loader2, Coins, FolderInput, Webhook } from "lucide-react"
 import { useProjects } from "@/contexts/ProjectContext"
 import { useRunner } from "@/contexts/RunnerContext"
 import { useAuth } from "@/contexts/AuthContext"
@@ -33,6 +33,9 @@ import { useQueryClient } from "@tanstack/react-query"
 import { ThemeSwitcher } from "@/components/ThemeSwitcher"
 import { LoginModal } from "@/components/auth/LoginModal"
 import { RunnerKeyManager } from "@/components/auth/RunnerKeyManager"
+import { ApiTokenManager } from "@/components/auth/ApiTokenManager"
+import { WebhookManager } from "@/components/webhooks"
+import ImportProjectModal from "@/components/ImportProjectModal"
 import { signOut } from "@/lib/auth-client"
 
 interface AppSidebarProps extends React.ComponentProps<typeof Sidebar> {
@@ -55,7 +58,10 @@ export function AppSidebar({ onRenameProject, onDeleteProject, onOpenOnboarding,
   // Auth state
   const [showLoginModal, setShowLoginModal] = useState(false);
   const [showRunnerKeys, setShowRunnerKeys] = useState(false);
+  const [showApiTokens, setShowApiTokens] = useState(false);
+  const [showWebhooks, setShowWebhooks] = useState(false);
   const [isSigningOut, setIsSigningOut] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
   
   // Show projects only when authenticated or in local mode
   const canViewProjects = isAuthenticated || isLocalMode;
@@ -249,6 +255,15 @@ export function AppSidebar({ onRenameProject, onDeleteProject, onOpenOnboarding,
                   <span>New Project</span>
                 </a>
               )}
+              {!isCollapsed && (
+                <button
+                  onClick={() => setShowImportModal(true)}
+                  className="flex items-center justify-center gap-2 w-full mt-2 px-4 py-1.5 text-xs text-muted-foreground hover:text-foreground rounded-lg hover:bg-white/5 transition-colors"
+                >
+                  <FolderInput className="w-3.5 h-3.5" />
+                  <span>Import existing code</span>
+                </button>
+              )}
             </div>
             <SidebarSeparator className="bg-border" />
           </>
@@ -511,6 +526,20 @@ export function AppSidebar({ onRenameProject, onDeleteProject, onOpenOnboarding,
                   <p className="text-xs text-muted-foreground truncate">{user?.email}</p>
                 </div>
                 <DropdownMenuSeparator className="bg-border" />
+                <DropdownMenuItem
+                  onClick={() => router.push('/usage')}
+                  className="cursor-pointer text-popover-foreground focus:text-popover-foreground focus:bg-accent"
+                >
+                  <Coins className="w-4 h-4 mr-2" />
+                  Usage
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onClick={() => setShowWebhooks(true)}
+                  className="cursor-pointer text-popover-foreground focus:text-popover-foreground focus:bg-accent"
+                >
+                  <Webhook className="w-4 h-4 mr-2" />
+                  Webhooks
+                </DropdownMenuItem>
                 {!isLocalMode && (
                   <>
                     <DropdownMenuItem
@@ -520,6 +549,13 @@ export function AppSidebar({ onRenameProject, onDeleteProject, onOpenOnboarding,
                       <Key className="w-4 h-4 mr-2" />
                       Runner Keys
                     </DropdownMenuItem>
+                    <DropdownMenuItem
+                      onClick={() => setShowApiTokens(true)}
+                      className="cursor-pointer text-popover-foreground focus:text-popover-foreground focus:bg-accent"
+                    >
+                      <KeySquare className="w-4 h-4 mr-2" />
+                      API Tokens
+                    </DropdownMenuItem>
                     <DropdownMenuSeparator className="bg-border" />
                     <DropdownMenuItem
                       onClick={handleSignOut}
@@ -572,6 +608,20 @@ export function AppSidebar({ onRenameProject, onDeleteProject, onOpenOnboarding,
                   <p className="text-xs text-muted-foreground truncate">{user?.email}</p>
                 </div>
                 <DropdownMenuSeparator className="bg-border" />
+                <DropdownMenuItem
+                  onClick={() => router.push('/usage')}
+                  className="cursor-pointer text-popover-foreground focus:text-popover-foreground focus:bg-accent"
+                >
+                  <Coins className="w-4 h-4 mr-2" />
+                  Usage
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onClick={() => setShowWebhooks(true)}
+                  className="cursor-pointer text-popover-foreground focus:text-popover-foreground focus:bg-accent"
+                >
+                  <Webhook className="w-4 h-4 mr-2" />
+                  Webhooks
+                </DropdownMenuItem>
                 {!isLocalMode && (
                   <>
                     <DropdownMenuItem
@@ -581,6 +631,13 @@ export function AppSidebar({ onRenameProject, onDeleteProject, onOpenOnboarding,
                       <Key className="w-4 h-4 mr-2" />
                       Runner Keys
                     </DropdownMenuItem>
+                    <DropdownMenuItem
+                      onClick={() => setShowApiTokens(true)}
+                      className="cursor-pointer text-popover-foreground focus:text-popover-foreground focus:bg-accent"
+                    >
+                      <KeySquare className="w-4 h-4 mr-2" />
+                      API Tokens
+                    </DropdownMenuItem>
                     <DropdownMenuSeparator className="bg-border" />
                     <DropdownMenuItem
                       onClick={handleSignOut}
@@ -629,6 +686,21 @@ export function AppSidebar({ onRenameProject, onDeleteProject, onOpenOnboarding,
         open={showRunnerKeys}
         onOpenChange={setShowRunnerKeys}
       />
+      <ApiTokenManager
+        open={showApiTokens}
+        onOpenChange={setShowApiTokens}
+      />
+      <WebhookManager
+        open={showWebhooks}
+        onOpenChange={setShowWebhooks}
+      />
+      <ImportProjectModal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        runnerId={selectedRunnerId}
+        allowDirectory={isLocalMode}
+        onImported={(project) => router.push(`/?project=${project.slug}`)}
+      />
 
       <SidebarRail />
     </Sidebar>
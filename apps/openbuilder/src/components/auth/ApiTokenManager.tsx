@@ -0,0 +1,381 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { API_TOKEN_SCOPES, type ApiTokenScope } from "@/lib/api-token-scopes";
+import {
+  KeySquare,
+  Plus,
+  Trash2,
+  Copy,
+  Check,
+  Loader2,
+  AlertCircle,
+  Clock,
+} from "lucide-react";
+
+interface ApiToken {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: string[];
+  lastUsedAt: string | null;
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+interface ApiTokenManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EXPIRY_OPTIONS = [
+  { label: "30 days", days: 30 },
+  { label: "90 days", days: 90 },
+  { label: "1 year", days: 365 },
+  { label: "No expiry", days: null },
+] as const;
+
+const DEFAULT_SCOPES: ApiTokenScope[] = ["projects:read", "builds:write", "messages:read"];
+
+export function ApiTokenManager({ open, onOpenChange }: ApiTokenManagerProps) {
+  const { isAuthenticated, isLocalMode } = useAuth();
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newTokenName, setNewTokenName] = useState("");
+  const [newTokenScopes, setNewTokenScopes] = useState<ApiTokenScope[]>(DEFAULT_SCOPES);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(90);
+  const [isCreating, setIsCreating] = useState(false);
+  const [newlyCreatedToken, setNewlyCreatedToken] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [deletingTokenId, setDeletingTokenId] = useState<string | null>(null);
+
+  // Fetch tokens on open
+  useEffect(() => {
+    if (open && isAuthenticated && !isLocalMode) {
+      fetchTokens();
+    }
+  }, [open, isAuthenticated, isLocalMode]);
+
+  const fetchTokens = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/api-tokens");
+      if (!res.ok) {
+        throw new Error("Failed to fetch API tokens");
+      }
+      const data = await res.json();
+      setTokens(data.tokens || []);
+    } catch (err) {
+      console.error("Error fetching tokens:", err);
+      setError("Failed to load API tokens");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setNewTokenScopes((current) =>
+      checked ? [...current, scope] : current.filter((s) => s !== scope)
+    );
+  };
+
+  const handleCreateToken = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newTokenName.trim() || newTokenScopes.length === 0) return;
+
+    setIsCreating(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/api-tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: newTokenName.trim(),
+          scopes: newTokenScopes,
+          expiresInDays,
+        }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to create token");
+      }
+
+      const data = await res.json();
+      setNewlyCreatedToken(data.token); // Full token shown only once
+      setNewTokenName("");
+      setNewTokenScopes(DEFAULT_SCOPES);
+      await fetchTokens(); // Refresh list
+    } catch (err) {
+      console.error("Error creating token:", err);
+      setError(err instanceof Error ? err.message : "Failed to create token");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleDeleteToken = async (tokenId: string) => {
+    setDeletingTokenId(tokenId);
+    setError(null);
+    try {
+      const res = await fetch(`/api/api-tokens/${tokenId}`, {
+        method: "DELETE",
+      });
+
+      if (!res.ok) {
+        throw new Error("Failed to revoke token");
+      }
+
+      await fetchTokens(); // Refresh list
+    } catch (err) {
+      console.error("Error deleting token:", err);
+      setError("Failed to revoke token");
+    } finally {
+      setDeletingTokenId(null);
+    }
+  };
+
+  const handleCopyToken = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(token);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy:", err);
+    }
+  };
+
+  const formatDate = (dateStr: string | null) => {
+    if (!dateStr) return "Never";
+    const date = new Date(dateStr);
+    return date.toLocaleDateString(undefined, {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    });
+  };
+
+  // Local mode - show info message
+  if (isLocalMode) {
+    return (
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-xl">API Tokens</DialogTitle>
+          </DialogHeader>
+          <div className="py-6 text-center">
+            <KeySquare className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+            <p className="text-muted-foreground">
+              API tokens are not needed in local mode.
+            </p>
+            <p className="text-sm text-muted-foreground/70 mt-2">
+              When running locally, the REST API accepts requests without authentication.
+            </p>
+          </div>
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-xl">API Tokens</DialogTitle>
+          <DialogDescription>
+            Create tokens for scripts and tools that call the OpenBuilder API. Each token is shown only once when created.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* New token display */}
+        {newlyCreatedToken && (
+          <div className="p-4 bg-green-500/10 border border-green-500/20 rounded-lg">
+            <div className="flex items-center gap-2 mb-2">
+              <Check className="w-4 h-4 text-green-600 dark:text-green-400" />
+              <span className="text-sm font-medium text-green-600 dark:text-green-400">
+                Token created! Copy it now - it won&apos;t be shown again.
+              </span>
+            </div>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 px-3 py-2 bg-muted rounded font-mono text-sm text-foreground overflow-x-auto">
+                {newlyCreatedToken}
+              </code>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleCopyToken(newlyCreatedToken)}
+                className="shrink-0"
+              >
+                {copied ? (
+                  <Check className="w-4 h-4" />
+                ) : (
+                  <Copy className="w-4 h-4" />
+                )}
+              </Button>
+            </div>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => setNewlyCreatedToken(null)}
+              className="mt-2 text-muted-foreground hover:text-foreground"
+            >
+              I&apos;ve copied the token
+            </Button>
+          </div>
+        )}
+
+        {/* Create new token form */}
+        <form onSubmit={handleCreateToken} className="space-y-3">
+          <div className="flex gap-2">
+            <Input
+              placeholder="Token name (e.g., CI pipeline)"
+              value={newTokenName}
+              onChange={(e) => setNewTokenName(e.target.value)}
+              className="flex-1"
+            />
+            <select
+              aria-label="Token expiry"
+              value={expiresInDays ?? ""}
+              onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+              className="h-9 rounded-md border border-input bg-transparent px-2 text-sm text-foreground"
+            >
+              {EXPIRY_OPTIONS.map((option) => (
+                <option key={option.label} value={option.days ?? ""}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <Button
+              type="submit"
+              disabled={isCreating || !newTokenName.trim() || newTokenScopes.length === 0}
+              className="shrink-0 bg-theme-gradient hover:opacity-90"
+            >
+              {isCreating ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Plus className="w-4 h-4" />
+              )}
+            </Button>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {API_TOKEN_SCOPES.map((scope) => (
+              <label
+                key={scope.id}
+                htmlFor={`api-token-scope-${scope.id}`}
+                title={scope.description}
+                className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer"
+              >
+                <Checkbox
+                  id={`api-token-scope-${scope.id}`}
+                  checked={newTokenScopes.includes(scope.id)}
+                  onCheckedChange={(checked) => toggleScope(scope.id, checked === true)}
+                />
+                <code className="font-mono">{scope.id}</code>
+              </label>
+            ))}
+          </div>
+        </form>
+
+        {/* Error message */}
+        {error && (
+          <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+            <AlertCircle className="w-4 h-4 text-red-600 dark:text-red-400 shrink-0" />
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          </div>
+        )}
+
+        {/* Tokens list */}
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : tokens.length === 0 ? (
+            <div className="py-8 text-center">
+              <KeySquare className="w-10 h-10 mx-auto mb-3 text-muted-foreground/50" />
+              <p className="text-sm text-muted-foreground">No API tokens yet</p>
+              <p className="text-xs text-muted-foreground/70 mt-1">
+                Create a token to call the API from scripts
+              </p>
+            </div>
+          ) : (
+            tokens.map((token) => (
+              <div
+                key={token.id}
+                className="flex items-center justify-between p-3 bg-muted/50 border border-border rounded-lg"
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <KeySquare className="w-4 h-4 text-theme-primary" />
+                    <span className="text-sm font-medium text-foreground truncate">
+                      {token.name}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-3 mt-1">
+                    <code className="text-xs text-muted-foreground font-mono bg-muted px-1.5 py-0.5 rounded">
+                      {token.tokenPrefix}
+                    </code>
+                    <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <Clock className="w-3 h-3" />
+                      {token.lastUsedAt ? `Used ${formatDate(token.lastUsedAt)}` : "Never used"}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {token.expiresAt ? `Expires ${formatDate(token.expiresAt)}` : "No expiry"}
+                    </span>
+                  </div>
+                  <p className="mt-1 text-[11px] text-muted-foreground/70 font-mono truncate">
+                    {token.scopes.join(" ")}
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => handleDeleteToken(token.id)}
+                  disabled={deletingTokenId === token.id}
+                  className="text-theme-primary hover:text-red-600 dark:hover:text-red-400 hover:bg-red-500/10"
+                >
+                  {deletingTokenId === token.id ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Trash2 className="w-4 h-4" />
+                  )}
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Usage instructions */}
+        <div className="pt-4 border-t border-border">
+          <p className="text-xs text-muted-foreground">
+            Send the token as a bearer token. The full API is described at{" "}
+            <a href="/api/openapi" target="_blank" rel="noreferrer" className="underline hover:text-foreground">
+              /api/openapi
+            </a>
+            :
+          </p>
+          <code className="block mt-1 px-2 py-1 bg-muted rounded text-xs text-muted-foreground font-mono">
+            curl -H &quot;Authorization: Bearer ob_xxx&quot; {typeof window !== "undefined" ? window.location.origin : ""}/api/projects
+          </code>
+          <p className="text-xs text-muted-foreground mt-2">
+            MCP clients (IDEs, desktop apps) can connect to{" "}
+            <code className="font-mono">/api/mcp/mcp</code> with the same token as a bearer header.
+          </p>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
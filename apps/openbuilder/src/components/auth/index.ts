@@ -2,4 +2,5 @@ export { LoginModal } from "./LoginModal";
 export { AuthGate, useAuthGate } from "./AuthGate";
 export { UserMenu } from "./UserMenu";
 export { RunnerKeyManager } from "./RunnerKeyManager";
+export { ApiTokenManager } from "./ApiTokenManager";
 export { AuthHeader } from "./AuthHeader";
@@ -0,0 +1,211 @@
+'use client';
+
+import { useState } from 'react';
+import { KeyRound, Loader2, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useToast } from '@/components/ui/toast';
+import { useProjectEnvVars } from '@/queries/env-vars';
+import { useDeleteProjectEnvVar, useSaveProjectEnvVar } from '@/mutations/env-vars';
+
+interface EnvVarsButtonProps {
+  projectId: string;
+  className?: string;
+  variant?: 'default' | 'compact';
+}
+
+const ENV_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Project environment variables panel.
+ * Values are write-only: they are encrypted on the server, injected into the dev
+ * server, and never shown again - the agent only sees the names.
+ */
+export function EnvVarsButton({ projectId, className, variant = 'default' }: EnvVarsButtonProps) {
+  const { addToast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [newKey, setNewKey] = useState('');
+  const [newValue, setNewValue] = useState('');
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [editingValue, setEditingValue] = useState('');
+
+  const { data: variables = [], isLoading } = useProjectEnvVars(projectId);
+  const saveMutation = useSaveProjectEnvVar(projectId);
+  const deleteMutation = useDeleteProjectEnvVar(projectId);
+
+  const trimmedKey = newKey.trim();
+  const keyError = trimmedKey && !ENV_KEY_PATTERN.test(trimmedKey)
+    ? 'Use letters, digits and underscores'
+    : null;
+
+  const save = async (key: string, value: string) => {
+    try {
+      await saveMutation.mutateAsync({ key, value });
+      addToast('success', `Saved ${key}. Restart the dev server to apply it.`);
+      return true;
+    } catch (err) {
+      addToast('error', err instanceof Error ? err.message : 'Failed to save environment variable');
+      return false;
+    }
+  };
+
+  const handleAdd = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!trimmedKey || keyError) return;
+
+    if (await save(trimmedKey, newValue)) {
+      setNewKey('');
+      setNewValue('');
+    }
+  };
+
+  const handleUpdate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!editingKey) return;
+
+    if (await save(editingKey, editingValue)) {
+      setEditingKey(null);
+      setEditingValue('');
+    }
+  };
+
+  const handleDelete = async (key: string) => {
+    try {
+      await deleteMutation.mutateAsync(key);
+      addToast('success', `Removed ${key}`);
+    } catch (err) {
+      addToast('error', err instanceof Error ? err.message : 'Failed to delete environment variable');
+    }
+  };
+
+  const inputClassName =
+    'w-full px-2 py-1 text-xs rounded border border-border bg-background text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-ring';
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <button
+          className={cn(
+            'flex items-center gap-2 px-3 py-1.5 text-xs rounded-md transition-all',
+            'bg-gray-800 hover:bg-gray-700 border border-gray-700 hover:border-gray-600 text-gray-300 hover:text-white',
+            className
+          )}
+        >
+          <KeyRound className="w-3.5 h-3.5" />
+          {variant === 'default' && (
+            <span>Env{variables.length > 0 ? ` (${variables.length})` : ''}</span>
+          )}
+        </button>
+      </PopoverTrigger>
+
+      <PopoverContent className="w-80 p-0 bg-popover border-border" align="end" sideOffset={8}>
+        {/* Header */}
+        <div className="px-3 py-2 border-b border-border">
+          <div className="flex items-center gap-2">
+            <KeyRound className="w-4 h-4 text-muted-foreground" />
+            <span className="text-sm font-medium text-foreground">Environment Variables</span>
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">
+            Encrypted and injected into the dev server. The agent only sees the names.
+          </p>
+        </div>
+
+        {/* Variables */}
+        <div className="max-h-64 overflow-y-auto py-1 border-b border-border">
+          {isLoading ? (
+            <div className="flex items-center gap-2 px-3 py-2 text-xs text-muted-foreground">
+              <Loader2 className="w-3 h-3 animate-spin" />
+              <span>Loading...</span>
+            </div>
+          ) : variables.length === 0 ? (
+            <p className="px-3 py-2 text-xs text-muted-foreground">No variables yet</p>
+          ) : (
+            variables.map((variable) =>
+              editingKey === variable.key ? (
+                <form key={variable.key} onSubmit={handleUpdate} className="px-3 py-1.5 space-y-1.5">
+                  <div className="text-xs font-mono text-foreground">{variable.key}</div>
+                  <div className="flex items-center gap-1.5">
+                    <input
+                      type="password"
+                      value={editingValue}
+                      onChange={(e) => setEditingValue(e.target.value)}
+                      placeholder="New value"
+                      className={inputClassName}
+                    />
+                    <button
+                      type="submit"
+                      disabled={saveMutation.isPending}
+                      className="px-2 py-1 text-xs bg-primary text-primary-foreground rounded disabled:opacity-50"
+                    >
+                      {saveMutation.isPending ? <Loader2 className="w-3 h-3 animate-spin" /> : 'Save'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setEditingKey(null)}
+                      className="p-1 text-muted-foreground hover:text-foreground"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                </form>
+              ) : (
+                <div key={variable.key} className="group flex items-center gap-2 px-3 py-1.5 hover:bg-accent/50">
+                  <span className="flex-1 text-xs font-mono text-foreground truncate">{variable.key}</span>
+                  <span className="text-xs text-muted-foreground">••••••</span>
+                  <button
+                    onClick={() => {
+                      setEditingKey(variable.key);
+                      setEditingValue('');
+                    }}
+                    title="Replace value"
+                    className="p-1 text-muted-foreground hover:text-foreground opacity-0 group-hover:opacity-100 transition-opacity"
+                  >
+                    <Pencil className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(variable.key)}
+                    disabled={deleteMutation.isPending}
+                    title="Delete"
+                    className="p-1 text-muted-foreground hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity disabled:opacity-50"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              )
+            )
+          )}
+        </div>
+
+        {/* Add */}
+        <form onSubmit={handleAdd} className="px-3 py-2 space-y-1.5">
+          <input
+            value={newKey}
+            onChange={(e) => setNewKey(e.target.value)}
+            placeholder="NAME"
+            spellCheck={false}
+            autoComplete="off"
+            className={cn(inputClassName, 'font-mono')}
+          />
+          {keyError && <p className="text-xs text-red-400">{keyError}</p>}
+          <input
+            type="password"
+            value={newValue}
+            onChange={(e) => setNewValue(e.target.value)}
+            placeholder="Value"
+            autoComplete="new-password"
+            className={inputClassName}
+          />
+          <button
+            type="submit"
+            disabled={!trimmedKey || !!keyError || saveMutation.isPending}
+            className="w-full flex items-center justify-center gap-1.5 px-2 py-1.5 text-xs bg-muted hover:bg-accent text-foreground rounded disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saveMutation.isPending ? <Loader2 className="w-3 h-3 animate-spin" /> : <Plus className="w-3 h-3" />}
+            <span>Add variable</span>
+          </button>
+          <p className="text-[11px] text-muted-foreground">Restart the dev server to apply changes.</p>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+}
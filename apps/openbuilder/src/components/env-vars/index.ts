@@ -0,0 +1 @@
+export { EnvVarsButton } from './EnvVarsButton';
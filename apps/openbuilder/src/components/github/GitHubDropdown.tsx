@@ -14,6 +14,8 @@ import {
   Unlink,
   Loader2,
   Check,
+  GitPullRequest,
+  TriangleAlert,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import type { GitHubStatus } from '@openbuilder/agent-core';
@@ -26,7 +28,7 @@ import {
   DropdownMenuLabel,
   DropdownMenuCheckboxItem,
 } from '@/components/ui/dropdown-menu';
-import { useSyncGitHub, useUpdateGitHubSettings, useDisconnectGitHub } from '@/mutations/github';
+import { useSyncGitHub, usePushGitHub, useUpdateGitHubSettings, useDisconnectGitHub } from '@/mutations/github';
 import { useToast } from '@/components/ui/toast';
 
 interface GitHubDropdownProps {
@@ -34,7 +36,7 @@ interface GitHubDropdownProps {
   status: GitHubStatus;
   className?: string;
   variant?: 'default' | 'compact';
-  /** Callback to trigger a push via agent (sends chat message) */
+  /** Optional override to trigger a push via agent (sends chat message) instead of the runner push */
   onPushClick?: () => void;
   /** Whether a generation/build is currently running */
   isGenerating?: boolean;
@@ -55,14 +57,21 @@ export function GitHubDropdown({
   const [showDisconnectConfirm, setShowDisconnectConfirm] = useState(false);
   
   const syncMutation = useSyncGitHub(projectId);
+  const pushMutation = usePushGitHub(projectId);
   const settingsMutation = useUpdateGitHubSettings(projectId);
   const disconnectMutation = useDisconnectGitHub(projectId);
 
-  const handlePush = () => {
+  const handlePush = async () => {
     if (onPushClick) {
       onPushClick();
-    } else {
-      addToast('info', 'Push handler not configured');
+      return;
+    }
+
+    try {
+      await pushMutation.mutateAsync(undefined);
+      addToast('success', 'Pushing latest changes to GitHub.');
+    } catch (error) {
+      addToast('error', error instanceof Error ? error.message : 'Failed to push');
     }
   };
 
@@ -116,7 +125,8 @@ export function GitHubDropdown({
   };
 
   const repoName = status.repo?.split('/')[1] || status.repo || 'Unknown';
-  const isLoading = isGenerating || syncMutation.isPending || 
+  const isPushing = isGenerating || pushMutation.isPending;
+  const isLoading = isGenerating || syncMutation.isPending || pushMutation.isPending ||
                     settingsMutation.isPending || disconnectMutation.isPending;
 
   return (
@@ -179,6 +189,18 @@ export function GitHubDropdown({
               <span>Open issues: <span className="text-foreground">{status.meta.openIssuesCount}</span></span>
             </div>
           )}
+          {status.meta?.openPrsCount !== undefined && (
+            <div className="flex items-center gap-2 text-muted-foreground">
+              <GitPullRequest className="w-3 h-3" />
+              <span>Open PRs: <span className="text-foreground">{status.meta.openPrsCount}</span></span>
+            </div>
+          )}
+          {status.meta?.lastSyncError && (
+            <div className="flex items-start gap-2 text-red-400">
+              <TriangleAlert className="w-3 h-3 mt-0.5 shrink-0" />
+              <span className="break-words line-clamp-3">{status.meta.lastSyncError}</span>
+            </div>
+          )}
         </div>
 
         {/* Recent Commits */}
@@ -205,12 +227,12 @@ export function GitHubDropdown({
             disabled={isLoading}
             className="text-foreground hover:bg-accent cursor-pointer"
           >
-            {isGenerating ? (
+            {isPushing ? (
               <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
             ) : (
               <Upload className="w-4 h-4 text-muted-foreground" />
             )}
-            <span>{isGenerating ? 'Pushing...' : 'Push Changes'}</span>
+            <span>{isPushing ? 'Pushing...' : 'Push Changes'}</span>
           </DropdownMenuItem>
 
           <DropdownMenuItem
@@ -0,0 +1,90 @@
+'use client';
+
+import React from 'react';
+import Image from 'next/image';
+import { Check, Swords } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { TagOption, findTagDefinition } from '@openbuilder/agent-core/config/tags';
+import { getModelLogo } from '@/lib/model-logos';
+
+interface BakeOffPickerProps {
+  selected: string[];
+  onChange: (models: string[]) => void;
+  /** Models of third-party agents advertised by runners */
+  modelOptions?: TagOption[];
+}
+
+// Same limit POST /api/bake-offs enforces
+const MAX_BAKE_OFF_MODELS = 4;
+
+/**
+ * Pick the models of a bake-off - two or more turn the next prompt into
+ * parallel builds, one sibling project per model
+ */
+export function BakeOffPicker({ selected, onChange, modelOptions = [] }: BakeOffPickerProps) {
+  const [open, setOpen] = React.useState(selected.length > 0);
+  const options = [...(findTagDefinition('model')?.options ?? []), ...modelOptions];
+
+  const toggleModel = (value: string) => {
+    if (selected.includes(value)) {
+      onChange(selected.filter((model) => model !== value));
+    } else if (selected.length < MAX_BAKE_OFF_MODELS) {
+      onChange([...selected, value]);
+    }
+  };
+
+  const handleToggleOpen = () => {
+    if (open) onChange([]);
+    setOpen(!open);
+  };
+
+  return (
+    <div className="mt-3 px-2">
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={handleToggleOpen}
+        className="h-7 px-3 font-mono text-xs border-2 border-border bg-muted/50 hover:bg-muted hover:border-border text-foreground"
+      >
+        <Swords className="w-3 h-3 mr-1" />
+        {open ? 'Cancel bake-off' : 'Bake-off'}
+      </Button>
+
+      {open && (
+        <div className="mt-2 space-y-2">
+          <div className="flex items-center gap-2 flex-wrap">
+            {options.map((option) => {
+              const isSelected = selected.includes(option.value);
+              const logo = getModelLogo(option.value);
+              return (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => toggleModel(option.value)}
+                  disabled={!isSelected && selected.length >= MAX_BAKE_OFF_MODELS}
+                  title={option.description}
+                  className={`inline-flex items-center gap-1 px-2 py-1 border rounded text-sm font-mono disabled:opacity-50 ${
+                    isSelected ? 'tag-badge-theme' : 'border-border text-muted-foreground hover:text-foreground'
+                  }`}
+                >
+                  {isSelected ? (
+                    <Check className="w-3.5 h-3.5" />
+                  ) : logo ? (
+                    <Image src={logo} alt="" width={14} height={14} className="w-3.5 h-3.5 object-contain" />
+                  ) : null}
+                  {option.label}
+                </button>
+              );
+            })}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {selected.length < 2
+              ? `Pick 2-${MAX_BAKE_OFF_MODELS} models - each builds the prompt in its own project, side by side`
+              : `${selected.length} models will build this prompt in parallel`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
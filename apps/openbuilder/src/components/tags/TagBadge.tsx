@@ -16,9 +16,10 @@ interface TagBadgeProps {
   onRemove: () => void;
   onReplace?: (key: string, newValue: string, expandedValues?: Record<string, string>) => void;
   runnerOptions?: TagOption[];
+  modelOptions?: TagOption[];
 }
 
-export function TagBadge({ tag, onRemove, onReplace, runnerOptions = [] }: TagBadgeProps) {
+export function TagBadge({ tag, onRemove, onReplace, runnerOptions = [], modelOptions = [] }: TagBadgeProps) {
   const { theme } = useTheme();
   const [dropdownOpen, setDropdownOpen] = useState(false);
   const def = findTagDefinition(tag.key);
@@ -109,6 +110,7 @@ export function TagBadge({ tag, onRemove, onReplace, runnerOptions = [] }: TagBa
       onOpenChange={setDropdownOpen}
       onSelectTag={handleReplace}
       runnerOptions={runnerOptions}
+      modelOptions={modelOptions}
       existingTagKey={tag.key}
     >
       {badge}
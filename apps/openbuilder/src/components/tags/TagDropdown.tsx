@@ -17,6 +17,8 @@ interface TagDropdownProps {
   onSelectTag: (key: string, value: string, expandedValues?: Record<string, string>) => void;
   // Runner options populated dynamically
   runnerOptions?: TagOption[];
+  // Models of third-party agents registered on runners, added to the model tag
+  modelOptions?: TagOption[];
   children: React.ReactNode;
   // If provided, opens directly to the options for this tag key (for replacement)
   existingTagKey?: string;
@@ -33,12 +35,13 @@ export function TagDropdown({
   onOpenChange,
   onSelectTag,
   runnerOptions = [],
+  modelOptions = [],
   children,
   existingTagKey
 }: TagDropdownProps) {
   const { isLocalMode } = useAuth();
   
-  // Get tag definitions with runner options injected
+  // Get tag definitions with runner and runner agent options injected
   // In local mode, hide the runner tag since it's fixed to 'local'
   // MUST be defined before getInitialView() to avoid TDZ error
   const getTagDefinitions = () => {
@@ -48,6 +51,9 @@ export function TagDropdown({
         if (def.key === 'runner') {
           return { ...def, options: runnerOptions };
         }
+        if (def.key === 'model' && modelOptions.length > 0) {
+          return { ...def, options: [...(def.options ?? []), ...modelOptions] };
+        }
         return def;
       });
   };
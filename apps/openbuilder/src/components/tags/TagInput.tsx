@@ -28,6 +28,7 @@ interface TagInputProps {
   tags: AppliedTag[];
   onTagsChange: (tags: AppliedTag[]) => void;
   runnerOptions?: TagOption[];
+  modelOptions?: TagOption[];
   className?: string;
   /** Whether any runners are currently connected */
   hasConnectedRunners?: boolean;
@@ -37,6 +38,7 @@ export function TagInput({
   tags,
   onTagsChange,
   runnerOptions,
+  modelOptions,
   className = '',
   hasConnectedRunners = true,
 }: TagInputProps) {
@@ -123,6 +125,7 @@ export function TagInput({
             onRemove={() => handleRemoveTag(tag.key, tag.value)}
             onReplace={(key, value, expandedValues) => handleReplaceTag(tag, key, value, expandedValues)}
             runnerOptions={runnerOptions}
+            modelOptions={modelOptions}
           />
         ))}
 
@@ -144,6 +147,7 @@ export function TagInput({
             onOpenChange={setDropdownOpen}
             onSelectTag={handleAddTag}
             runnerOptions={runnerOptions}
+            modelOptions={modelOptions}
           >
             <Button
               variant="outline"
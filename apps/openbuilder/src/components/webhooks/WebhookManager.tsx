@@ -0,0 +1,468 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { useProjects } from "@/contexts/ProjectContext";
+import { useWebhookDeliveries, useWebhooks, type Webhook, type WebhookDelivery } from "@/queries/webhooks";
+import { useCreateWebhook, useDeleteWebhook, useRedeliverWebhook, useUpdateWebhook } from "@/mutations/webhooks";
+import { WEBHOOK_EVENTS, type WebhookEvent } from "@/lib/webhook-events";
+import {
+  Webhook as WebhookIcon,
+  Plus,
+  Trash2,
+  Copy,
+  Check,
+  Loader2,
+  AlertCircle,
+  ArrowLeft,
+  RotateCw,
+  KeyRound,
+  CheckCircle2,
+  XCircle,
+  Clock,
+  ChevronDown,
+  ChevronRight,
+} from "lucide-react";
+
+interface WebhookManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const DEFAULT_EVENTS: WebhookEvent[] = ["build-completed", "build-failed"];
+
+const formatDateTime = (dateStr: string) =>
+  new Date(dateStr).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+/**
+ * Outbound webhooks for build and dev server events.
+ * Lists the user's webhooks and, for a selected webhook, its delivery log with redelivery.
+ */
+export function WebhookManager({ open, onOpenChange }: WebhookManagerProps) {
+  const { projects } = useProjects();
+  const { data: webhooks = [], isLoading } = useWebhooks({ enabled: open });
+  const createMutation = useCreateWebhook();
+  const updateMutation = useUpdateWebhook();
+  const deleteMutation = useDeleteWebhook();
+
+  const [url, setUrl] = useState("");
+  const [projectId, setProjectId] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>(DEFAULT_EVENTS);
+  const [error, setError] = useState<string | null>(null);
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [selectedWebhook, setSelectedWebhook] = useState<Webhook | null>(null);
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setEvents((current) =>
+      checked ? [...current, event] : current.filter((e) => e !== event)
+    );
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!url.trim() || events.length === 0) return;
+
+    setError(null);
+    try {
+      const data = await createMutation.mutateAsync({
+        url: url.trim(),
+        events,
+        projectId: projectId || null,
+      });
+      setRevealedSecret(data.secret); // Secret shown only once
+      setUrl("");
+      setEvents(DEFAULT_EVENTS);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create webhook");
+    }
+  };
+
+  const handleToggleActive = async (webhook: Webhook, active: boolean) => {
+    setError(null);
+    try {
+      await updateMutation.mutateAsync({ id: webhook.id, active });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update webhook");
+    }
+  };
+
+  const handleRotateSecret = async (webhook: Webhook) => {
+    setError(null);
+    try {
+      const data = await updateMutation.mutateAsync({ id: webhook.id, rotateSecret: true });
+      if (data.secret) setRevealedSecret(data.secret);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to rotate secret");
+    }
+  };
+
+  const handleDelete = async (webhook: Webhook) => {
+    setError(null);
+    try {
+      await deleteMutation.mutateAsync(webhook.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete webhook");
+    }
+  };
+
+  const handleCopySecret = async (secret: string) => {
+    try {
+      await navigator.clipboard.writeText(secret);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy:", err);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        if (!nextOpen) setSelectedWebhook(null);
+        onOpenChange(nextOpen);
+      }}
+    >
+      <DialogContent className="sm:max-w-2xl">
+        {selectedWebhook ? (
+          <WebhookDeliveryLog webhook={selectedWebhook} onBack={() => setSelectedWebhook(null)} />
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle className="text-xl">Webhooks</DialogTitle>
+              <DialogDescription>
+                POST build and dev server events to your own endpoints. Failed deliveries are retried with backoff.
+              </DialogDescription>
+            </DialogHeader>
+
+            {/* New secret display */}
+            {revealedSecret && (
+              <div className="p-4 bg-green-500/10 border border-green-500/20 rounded-lg">
+                <div className="flex items-center gap-2 mb-2">
+                  <Check className="w-4 h-4 text-green-600 dark:text-green-400" />
+                  <span className="text-sm font-medium text-green-600 dark:text-green-400">
+                    Signing secret - copy it now, it won&apos;t be shown again.
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <code className="flex-1 px-3 py-2 bg-muted rounded font-mono text-sm text-foreground overflow-x-auto">
+                    {revealedSecret}
+                  </code>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleCopySecret(revealedSecret)}
+                    className="shrink-0"
+                  >
+                    {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                  </Button>
+                </div>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setRevealedSecret(null)}
+                  className="mt-2 text-muted-foreground hover:text-foreground"
+                >
+                  I&apos;ve copied the secret
+                </Button>
+              </div>
+            )}
+
+            {/* Create webhook form */}
+            <form onSubmit={handleCreate} className="space-y-3">
+              <div className="flex gap-2">
+                <Input
+                  type="url"
+                  placeholder="https://example.com/hooks/openbuilder"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  className="flex-1"
+                />
+                <select
+                  aria-label="Webhook project"
+                  value={projectId}
+                  onChange={(e) => setProjectId(e.target.value)}
+                  className="h-9 max-w-40 rounded-md border border-input bg-transparent px-2 text-sm text-foreground"
+                >
+                  <option value="">All projects</option>
+                  {projects.map((project) => (
+                    <option key={project.id} value={project.id}>
+                      {project.name}
+                    </option>
+                  ))}
+                </select>
+                <Button
+                  type="submit"
+                  disabled={createMutation.isPending || !url.trim() || events.length === 0}
+                  className="shrink-0 bg-theme-gradient hover:opacity-90"
+                >
+                  {createMutation.isPending ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Plus className="w-4 h-4" />
+                  )}
+                </Button>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {WEBHOOK_EVENTS.map((event) => (
+                  <label
+                    key={event.id}
+                    htmlFor={`webhook-event-${event.id}`}
+                    title={event.description}
+                    className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer"
+                  >
+                    <Checkbox
+                      id={`webhook-event-${event.id}`}
+                      checked={events.includes(event.id)}
+                      onCheckedChange={(checked) => toggleEvent(event.id, checked === true)}
+                    />
+                    <code className="font-mono">{event.id}</code>
+                  </label>
+                ))}
+              </div>
+            </form>
+
+            {/* Error message */}
+            {error && (
+              <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+                <AlertCircle className="w-4 h-4 text-red-600 dark:text-red-400 shrink-0" />
+                <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+              </div>
+            )}
+
+            {/* Webhooks list */}
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {isLoading ? (
+                <div className="flex items-center justify-center py-8">
+                  <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : webhooks.length === 0 ? (
+                <div className="py-8 text-center">
+                  <WebhookIcon className="w-10 h-10 mx-auto mb-3 text-muted-foreground/50" />
+                  <p className="text-sm text-muted-foreground">No webhooks yet</p>
+                  <p className="text-xs text-muted-foreground/70 mt-1">
+                    Add an endpoint to hear about builds in chat or CI
+                  </p>
+                </div>
+              ) : (
+                webhooks.map((webhook) => (
+                  <div
+                    key={webhook.id}
+                    className="flex items-center gap-2 p-3 bg-muted/50 border border-border rounded-lg"
+                  >
+                    <button
+                      type="button"
+                      onClick={() => setSelectedWebhook(webhook)}
+                      title="Show deliveries"
+                      className="flex-1 min-w-0 text-left"
+                    >
+                      <div className="flex items-center gap-2">
+                        <WebhookIcon className="w-4 h-4 text-theme-primary shrink-0" />
+                        <span className="text-sm font-medium text-foreground truncate">{webhook.url}</span>
+                      </div>
+                      <div className="flex items-center gap-3 mt-1 text-xs text-muted-foreground">
+                        <span>{webhook.projectName ?? "All projects"}</span>
+                        <span className="font-mono truncate">{webhook.events.join(" ")}</span>
+                      </div>
+                    </button>
+                    <Switch
+                      checked={webhook.active}
+                      onCheckedChange={(checked) => handleToggleActive(webhook, checked)}
+                      disabled={updateMutation.isPending}
+                      aria-label={webhook.active ? "Disable webhook" : "Enable webhook"}
+                    />
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleRotateSecret(webhook)}
+                      disabled={updateMutation.isPending}
+                      title="Rotate signing secret"
+                    >
+                      <KeyRound className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleDelete(webhook)}
+                      disabled={deleteMutation.isPending}
+                      title="Delete webhook"
+                      className="text-theme-primary hover:text-red-600 dark:hover:text-red-400 hover:bg-red-500/10"
+                    >
+                      {deleteMutation.isPending && deleteMutation.variables === webhook.id ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <Trash2 className="w-4 h-4" />
+                      )}
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+
+            {/* Verification instructions */}
+            <div className="pt-4 border-t border-border">
+              <p className="text-xs text-muted-foreground">
+                Each request carries <code className="font-mono">X-OpenBuilder-Event</code>,{" "}
+                <code className="font-mono">X-OpenBuilder-Timestamp</code> and{" "}
+                <code className="font-mono">X-OpenBuilder-Signature</code>. Verify the signature by comparing it with:
+              </p>
+              <code className="block mt-1 px-2 py-1 bg-muted rounded text-xs text-muted-foreground font-mono">
+                sha256=HMAC_SHA256(secret, timestamp + &quot;.&quot; + raw body)
+              </code>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function DeliveryStatusIcon({ status }: { status: WebhookDelivery["status"] }) {
+  if (status === "succeeded") {
+    return <CheckCircle2 className="w-4 h-4 text-green-600 dark:text-green-400 shrink-0" />;
+  }
+  if (status === "failed") {
+    return <XCircle className="w-4 h-4 text-red-600 dark:text-red-400 shrink-0" />;
+  }
+  return <Clock className="w-4 h-4 text-amber-500 shrink-0" />;
+}
+
+function WebhookDeliveryLog({ webhook, onBack }: { webhook: Webhook; onBack: () => void }) {
+  const { data: deliveries = [], isLoading } = useWebhookDeliveries(webhook.id);
+  const redeliverMutation = useRedeliverWebhook(webhook.id);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    setError(null);
+    try {
+      await redeliverMutation.mutateAsync(delivery.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to redeliver webhook");
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle className="text-xl flex items-center gap-2">
+          <Button size="sm" variant="ghost" onClick={onBack} className="-ml-2" title="Back to webhooks">
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          Deliveries
+        </DialogTitle>
+        <DialogDescription className="truncate">{webhook.url}</DialogDescription>
+      </DialogHeader>
+
+      {error && (
+        <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <AlertCircle className="w-4 h-4 text-red-600 dark:text-red-400 shrink-0" />
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        </div>
+      )}
+
+      <div className="space-y-2 max-h-96 overflow-y-auto">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : deliveries.length === 0 ? (
+          <div className="py-8 text-center">
+            <WebhookIcon className="w-10 h-10 mx-auto mb-3 text-muted-foreground/50" />
+            <p className="text-sm text-muted-foreground">No deliveries yet</p>
+            <p className="text-xs text-muted-foreground/70 mt-1">
+              Deliveries show up here when a subscribed event fires
+            </p>
+          </div>
+        ) : (
+          deliveries.map((delivery) => {
+            const expanded = expandedId === delivery.id;
+            return (
+              <div key={delivery.id} className="bg-muted/50 border border-border rounded-lg">
+                <div className="flex items-center gap-2 p-3">
+                  <button
+                    type="button"
+                    onClick={() => setExpandedId(expanded ? null : delivery.id)}
+                    className="flex flex-1 min-w-0 items-center gap-2 text-left"
+                  >
+                    {expanded ? (
+                      <ChevronDown className="w-3 h-3 text-muted-foreground shrink-0" />
+                    ) : (
+                      <ChevronRight className="w-3 h-3 text-muted-foreground shrink-0" />
+                    )}
+                    <DeliveryStatusIcon status={delivery.status} />
+                    <code className="text-xs font-mono text-foreground">{delivery.event}</code>
+                    <span className="text-xs text-muted-foreground truncate">
+                      {delivery.responseStatus !== null
+                        ? `HTTP ${delivery.responseStatus}`
+                        : delivery.error ?? "Not attempted yet"}
+                      {" · "}
+                      {delivery.attempts} {delivery.attempts === 1 ? "attempt" : "attempts"}
+                      {delivery.status === "pending" && delivery.nextAttemptAt
+                        ? ` · retry at ${formatDateTime(delivery.nextAttemptAt)}`
+                        : ""}
+                    </span>
+                  </button>
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {formatDateTime(delivery.createdAt)}
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleRedeliver(delivery)}
+                    disabled={redeliverMutation.isPending || !webhook.active}
+                    title={webhook.active ? "Redeliver" : "Enable the webhook to redeliver"}
+                  >
+                    {redeliverMutation.isPending && redeliverMutation.variables === delivery.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <RotateCw className="w-4 h-4" />
+                    )}
+                  </Button>
+                </div>
+                {expanded && (
+                  <div className="px-3 pb-3 space-y-2">
+                    <div>
+                      <p className="text-[11px] uppercase tracking-wide text-muted-foreground mb-1">Payload</p>
+                      <pre className="max-h-48 overflow-auto px-2 py-1 bg-muted rounded text-xs font-mono text-foreground">
+                        {JSON.stringify(delivery.payload, null, 2)}
+                      </pre>
+                    </div>
+                    {delivery.error && (
+                      <div>
+                        <p className="text-[11px] uppercase tracking-wide text-muted-foreground mb-1">
+                          Error
+                          {delivery.durationMs !== null ? ` (${delivery.durationMs} ms)` : ""}
+                        </p>
+                        <pre className="max-h-32 overflow-auto px-2 py-1 bg-muted rounded text-xs font-mono text-foreground whitespace-pre-wrap">
+                          {delivery.error}
+                        </pre>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </>
+  );
+}
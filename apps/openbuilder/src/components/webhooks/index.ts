@@ -0,0 +1 @@
+export { WebhookManager } from './WebhookManager';
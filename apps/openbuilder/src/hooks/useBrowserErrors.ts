@@ -0,0 +1,106 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { BrowserError } from '@openbuilder/agent-core/lib/selection/injector';
+import { useReportBrowserErrors } from '@/mutations/browser-errors';
+
+export interface BrowserConsoleEntry extends BrowserError {
+  id: number;
+  count: number; // Identical consecutive reports are collapsed
+}
+
+const MAX_ENTRIES = 500;
+const AUTO_FIX_DEBOUNCE_MS = 3000; // Let an error burst settle before starting one fix build
+
+export function isRuntimeError(error: BrowserError): boolean {
+  return error.kind === 'error' || error.kind === 'unhandledrejection';
+}
+
+/**
+ * Collect errors the preview iframe reports through the injected browser error
+ * script. Uncaught runtime errors are handed to auto-fix (once per message)
+ * when `autoFix` is on and no build is running.
+ */
+export function useBrowserErrors(
+  projectId: string | null | undefined,
+  { autoFix, isBuildActive }: { autoFix: boolean; isBuildActive: boolean }
+) {
+  const [entries, setEntries] = useState<BrowserConsoleEntry[]>([]);
+  const reportErrors = useReportBrowserErrors(projectId);
+
+  const nextIdRef = useRef(0);
+  const pendingRef = useRef<BrowserError[]>([]);
+  const reportedRef = useRef(new Set<string>());
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Read the latest values from the debounced callback
+  const autoFixRef = useRef(autoFix);
+  const isBuildActiveRef = useRef(isBuildActive);
+  const reportRef = useRef(reportErrors.mutate);
+  autoFixRef.current = autoFix;
+  isBuildActiveRef.current = isBuildActive;
+  reportRef.current = reportErrors.mutate;
+
+  // Errors belong to the project's preview
+  useEffect(() => {
+    setEntries([]);
+    pendingRef.current = [];
+    reportedRef.current.clear();
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    const flushAutoFix = () => {
+      timerRef.current = null;
+      const errors = pendingRef.current;
+      pendingRef.current = [];
+      if (!autoFixRef.current || isBuildActiveRef.current || errors.length === 0) return;
+
+      errors.forEach((error) => reportedRef.current.add(error.message));
+      reportRef.current(errors);
+    };
+
+    const handleMessage = (e: MessageEvent) => {
+      if (e.data?.type !== 'openbuilder:browser-error' || !e.data.data) return;
+      const error = e.data.data as BrowserError;
+
+      setEntries((prev) => {
+        const last = prev[prev.length - 1];
+        if (last && last.kind === error.kind && last.message === error.message) {
+          return [...prev.slice(0, -1), { ...last, count: last.count + 1, timestamp: error.timestamp }];
+        }
+        return [...prev, { ...error, id: nextIdRef.current++, count: 1 }].slice(-MAX_ENTRIES);
+      });
+
+      if (isRuntimeError(error) && !reportedRef.current.has(error.message)) {
+        pendingRef.current.push(error);
+        if (timerRef.current) clearTimeout(timerRef.current);
+        timerRef.current = setTimeout(flushAutoFix, AUTO_FIX_DEBOUNCE_MS);
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => {
+      window.removeEventListener('message', handleMessage);
+      if (timerRef.current) clearTimeout(timerRef.current);
+    };
+  }, []);
+
+  const clear = useCallback(() => setEntries([]), []);
+
+  // Manual fix from the console - always sent, even if auto-fix already saw the error
+  const fixErrors = useCallback((errors: BrowserError[]) => {
+    errors.forEach((error) => reportedRef.current.add(error.message));
+    reportRef.current(errors);
+  }, []);
+
+  return {
+    entries,
+    clear,
+    fixErrors,
+    isFixing: reportErrors.isPending,
+  };
+}
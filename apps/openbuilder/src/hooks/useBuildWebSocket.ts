@@ -377,6 +377,18 @@ export function useBuildWebSocket({
             }
             break;
 
+          case 'build-verification':
+            newState.verification = update.data as GenerationState['verification'];
+            break;
+
+          case 'build-usage':
+            newState.usage = update.data as GenerationState['usage'];
+            break;
+
+          case 'build-screenshots':
+            newState.screenshots = update.data as GenerationState['screenshots'];
+            break;
+
           case 'state-update':
             // Legacy: Merge state update and normalize dates
             const normalizedUpdate = normalizeDates(update.data);
@@ -1,31 +1,56 @@
 import { useState, useCallback } from 'react';
 
+/**
+ * Element data posted by the selection script in the preview iframe
+ */
+export interface SelectedElement {
+  selector: string;
+  fullPath?: string;
+  pagePath?: string;
+  tagName: string;
+  className: string;
+  textContent: string;
+  boundingRect: {
+    top: number;
+    left: number;
+    width: number;
+    height: number;
+  };
+  viewport?: {
+    width: number;
+    height: number;
+    scrollX: number;
+    scrollY: number;
+  };
+  computedStyles?: Record<string, string>;
+  clickPosition?: { x: number; y: number };
+}
+
 export interface ElementEdit {
   id: string;
-  element: {
-    selector: string;
-    tagName: string;
-    className: string;
-    textContent: string;
-    boundingRect: {
-      top: number;
-      left: number;
-      width: number;
-      height: number;
-    };
-  };
+  element: SelectedElement;
   prompt: string;
   position: { x: number; y: number };
+  // Pinned comments wait in the list until the batch is submitted
+  isPinned: boolean;
   status: 'pending' | 'processing' | 'completed' | 'failed';
   createdAt: Date;
   completedAt?: Date;
   error?: string;
 }
 
+/**
+ * One element change in a batched focused-edit request
+ */
+export interface SelectionEditRequest {
+  element: SelectedElement;
+  prompt: string;
+}
+
 export function useElementEdits() {
   const [edits, setEdits] = useState<Map<string, ElementEdit>>(new Map());
 
-  const addEdit = useCallback((element: any, prompt: string, position: { x: number; y: number }) => {
+  const addEdit = useCallback((element: SelectedElement, prompt: string, position: { x: number; y: number }) => {
     const id = `edit-${Date.now()}-${Math.random()}`;
 
     const edit: ElementEdit = {
@@ -33,6 +58,7 @@ export function useElementEdits() {
       element,
       prompt,
       position,
+      isPinned: false,
       status: 'pending',
       createdAt: new Date(),
     };
@@ -41,17 +67,27 @@ export function useElementEdits() {
     return id;
   }, []);
 
-  const updateEditStatus = useCallback((id: string, status: ElementEdit['status'], error?: string) => {
+  const updateEdit = useCallback((id: string, changes: Partial<Pick<ElementEdit, 'prompt' | 'isPinned'>>) => {
+    setEdits((prev) => {
+      const edit = prev.get(id);
+      if (!edit) return prev;
+      return new Map(prev).set(id, { ...edit, ...changes });
+    });
+  }, []);
+
+  const updateEditStatus = useCallback((ids: string | string[], status: ElementEdit['status'], error?: string) => {
     setEdits((prev) => {
       const next = new Map(prev);
-      const edit = next.get(id);
-      if (edit) {
-        next.set(id, {
-          ...edit,
-          status,
-          error,
-          completedAt: status === 'completed' || status === 'failed' ? new Date() : edit.completedAt,
-        });
+      for (const id of Array.isArray(ids) ? ids : [ids]) {
+        const edit = next.get(id);
+        if (edit) {
+          next.set(id, {
+            ...edit,
+            status,
+            error,
+            completedAt: status === 'completed' || status === 'failed' ? new Date() : edit.completedAt,
+          });
+        }
       }
       return next;
     });
@@ -80,6 +116,7 @@ export function useElementEdits() {
   return {
     edits: Array.from(edits.values()),
     addEdit,
+    updateEdit,
     updateEditStatus,
     removeEdit,
     clearCompleted,
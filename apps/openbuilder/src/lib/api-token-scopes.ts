@@ -0,0 +1,20 @@
+/**
+ * Scopes for personal API tokens
+ * Kept free of server imports so the token manager UI can list them too.
+ */
+export const API_TOKEN_SCOPES = [
+  { id: "projects:read", description: "List projects and read their details" },
+  { id: "projects:write", description: "Create, update and delete projects" },
+  { id: "builds:write", description: "Start and cancel builds" },
+  { id: "messages:read", description: "Read build history and chat messages" },
+  { id: "messages:write", description: "Save chat messages" },
+  { id: "files:read", description: "Browse and read project files" },
+  { id: "files:write", description: "Edit project files" },
+  { id: "servers:write", description: "Start and stop dev servers" },
+] as const;
+
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number]["id"];
+
+export function isApiTokenScope(value: unknown): value is ApiTokenScope {
+  return API_TOKEN_SCOPES.some((scope) => scope.id === value);
+}
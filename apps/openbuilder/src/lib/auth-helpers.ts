@@ -1,9 +1,10 @@
 import { getAuth } from "./auth";
 import { headers } from "next/headers";
 import { db } from "@openbuilder/agent-core";
-import { projects, runnerKeys } from "@openbuilder/agent-core/lib/db/schema";
+import { projects, runnerKeys, apiTokens, users } from "@openbuilder/agent-core/lib/db/schema";
 import { eq, and, isNull } from "drizzle-orm";
 import { createHash } from "crypto";
+import type { ApiTokenScope } from "./api-token-scopes";
 
 // Local mode user - used when OPENBUILDER_LOCAL_MODE is true
 export const LOCAL_USER = {
@@ -38,28 +39,54 @@ export function isLocalMode(): boolean {
 }
 
 /**
- * Get the current session from the request
- * Returns LOCAL_SESSION in local mode, otherwise checks better-auth session
+ * Resolve the request's session, noting when a valid API token lacks the scope
  */
-export async function getSession() {
+async function resolveSession(scope?: ApiTokenScope) {
   if (isLocalMode()) {
-    return LOCAL_SESSION;
+    return { session: LOCAL_SESSION, missingScope: false };
+  }
+
+  const requestHeaders = await headers();
+
+  if (scope) {
+    const token = extractApiToken(requestHeaders.get("Authorization"));
+    if (token) {
+      const apiToken = await authenticateApiToken(token);
+      if (apiToken && !apiToken.scopes.includes(scope)) {
+        return { session: null, missingScope: true };
+      }
+      return { session: apiToken ? await getApiTokenSession(apiToken) : null, missingScope: false };
+    }
   }
 
   const session = await getAuth().api.getSession({
-    headers: await headers(),
+    headers: requestHeaders,
   });
 
+  return { session, missingScope: false };
+}
+
+/**
+ * Get the current session from the request, or null if not authenticated
+ * Returns LOCAL_SESSION in local mode, otherwise checks better-auth session.
+ * Routes that pass a scope also accept a personal API token
+ * ("Authorization: Bearer ob_xxx") carrying that scope; a token without it gets null.
+ */
+export async function getSession(scope?: ApiTokenScope) {
+  const { session } = await resolveSession(scope);
   return session;
 }
 
 /**
  * Require authentication - throws if not authenticated
- * Returns the session if authenticated
+ * (403 for an API token missing the scope) and returns the session otherwise
  */
-export async function requireAuth() {
-  const session = await getSession();
+export async function requireAuth(scope?: ApiTokenScope) {
+  const { session, missingScope } = await resolveSession(scope);
 
+  if (missingScope) {
+    throw new AuthError(`API token is missing the "${scope}" scope`, 403);
+  }
   if (!session) {
     throw new AuthError("Unauthorized", 401);
   }
@@ -70,18 +97,55 @@ export async function requireAuth() {
 /**
  * Get user ID from session, or null if not authenticated
  */
-export async function getUserId(): Promise<string | null> {
-  const session = await getSession();
+export async function getUserId(scope?: ApiTokenScope): Promise<string | null> {
+  const session = await getSession(scope);
   return session?.user?.id ?? null;
 }
 
+/**
+ * Check whether a user is an admin
+ * Admins are listed by email in OPENBUILDER_ADMIN_EMAILS (comma-separated).
+ * In local mode the local user is always an admin.
+ */
+export function isAdminUser(user: { email?: string | null }): boolean {
+  if (isLocalMode()) {
+    return true;
+  }
+
+  const email = user.email?.trim().toLowerCase();
+  if (!email) {
+    return false;
+  }
+
+  const adminEmails = (process.env.OPENBUILDER_ADMIN_EMAILS ?? "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+
+  return adminEmails.includes(email);
+}
+
+/**
+ * Require an admin - throws if not authenticated or not an admin
+ * Returns the session if the user is an admin
+ */
+export async function requireAdmin() {
+  const session = await requireAuth();
+
+  if (!isAdminUser(session.user)) {
+    throw new AuthError("Forbidden", 403);
+  }
+
+  return session;
+}
+
 /**
  * Verify that the current user owns the project
  * In local mode, always returns the project (no ownership check)
  * For projects without userId (legacy), allows access if user is authenticated
  */
-export async function requireProjectOwnership(projectId: string) {
-  const session = await requireAuth();
+export async function requireProjectOwnership(projectId: string, scope?: ApiTokenScope) {
+  const session = await requireAuth(scope);
   const userId = session.user.id;
 
   const project = await db.query.projects.findFirst({
@@ -253,6 +317,103 @@ export async function authenticateRunnerRequest(request: Request): Promise<boole
   return false;
 }
 
+/**
+ * Generate a new personal API token
+ * Format: ob_<32 random hex characters>
+ */
+export function generateApiToken(): string {
+  const randomBytes = createHash("sha256")
+    .update(crypto.randomUUID() + Date.now().toString())
+    .digest("hex")
+    .substring(0, 32);
+  return `ob_${randomBytes}`;
+}
+
+/**
+ * Extract a personal API token from an Authorization header value
+ * Only "Bearer ob_xxx" counts - session cookies and runner keys are handled elsewhere
+ */
+export function extractApiToken(authHeader: string | null): string | null {
+  if (!authHeader?.startsWith("Bearer ob_")) {
+    return null;
+  }
+
+  return authHeader.substring(7);
+}
+
+/**
+ * Authenticate a personal API token
+ * Returns the token's user and scopes, or null if the token is unknown, revoked or expired
+ */
+export async function authenticateApiToken(token: string): Promise<{
+  userId: string;
+  tokenId: string;
+  scopes: string[];
+} | null> {
+  if (!token || !token.startsWith("ob_")) {
+    return null;
+  }
+
+  const apiToken = await db.query.apiTokens.findFirst({
+    where: and(
+      eq(apiTokens.tokenHash, hashRunnerKey(token)),
+      isNull(apiTokens.revokedAt)
+    ),
+  });
+
+  if (!apiToken) {
+    return null;
+  }
+
+  if (apiToken.expiresAt && apiToken.expiresAt.getTime() <= Date.now()) {
+    return null;
+  }
+
+  // Same as runner keys - don't fail auth if the timestamp update fails
+  try {
+    await db.update(apiTokens)
+      .set({ lastUsedAt: new Date() })
+      .where(eq(apiTokens.id, apiToken.id))
+      .execute();
+  } catch {
+    console.warn(`[auth] Failed to update lastUsedAt for API token ${apiToken.id}`);
+  }
+
+  return {
+    userId: apiToken.userId,
+    tokenId: apiToken.id,
+    scopes: apiToken.scopes,
+  };
+}
+
+/**
+ * Build a session for a request authenticated with a personal API token
+ * Returns null when the token's user no longer exists
+ */
+async function getApiTokenSession(result: { userId: string; tokenId: string }) {
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, result.userId),
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  return {
+    user,
+    session: {
+      id: `api-token:${result.tokenId}`,
+      userId: user.id,
+      token: "api-token",
+      expiresAt: new Date(Date.now() + 1000 * 60 * 60), // Per-request session
+      ipAddress: null,
+      userAgent: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    },
+  };
+}
+
 /**
  * Custom error class for auth errors
  */
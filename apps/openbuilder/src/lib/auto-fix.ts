@@ -0,0 +1,213 @@
+import { randomUUID } from 'crypto';
+import { eq } from 'drizzle-orm';
+import * as Sentry from '@sentry/nextjs';
+import { db } from '@openbuilder/agent-core/lib/db/client';
+import { projects } from '@openbuilder/agent-core/lib/db/schema';
+import { publishRunnerEvent } from '@openbuilder/agent-core/lib/runner/event-stream';
+import { sendCommandToRunner } from '@openbuilder/agent-core/lib/runner/broker-state';
+import type { AutoFixStartedEvent, StartBuildCommand } from '@/shared/runner/messages';
+import { getProjectRunnerId } from '@/lib/runner-utils';
+import { getProjectEnvVarNames } from '@/lib/project-env';
+import { projectEvents } from '@/lib/project-events';
+import { isLocalMode } from '@/lib/auth-helpers';
+import { checkBuildBudget, type BuildBudgetCheck } from '@/lib/spending-limits';
+
+// Track auto-fix attempts per project to prevent infinite loops
+export const autoFixAttempts = new Map<string, { count: number; lastAttempt: number }>();
+export const MAX_AUTO_FIX_ATTEMPTS = 3;
+export const AUTO_FIX_COOLDOWN_MS = 60000; // 1 minute cooldown between auto-fix attempts
+
+function emitProjectUpdate(projectId: string, projectData: typeof projects.$inferSelect) {
+  try {
+    projectEvents.emitProjectUpdate(projectId, projectData);
+  } catch (error) {
+    console.error(`Failed to emit project update for ${projectId}:`, error);
+  }
+}
+
+export type AutoFixSource = 'dev-server' | 'browser';
+
+/**
+ * Check the project's spending limits before starting an auto-fix build.
+ * Returns null (and marks the project failed) when a blocking budget is used up.
+ */
+export async function checkAutoFixBudget(
+  project: typeof projects.$inferSelect,
+  errorMessage: string
+): Promise<BuildBudgetCheck | null> {
+  const budgetCheck = await checkBuildBudget({
+    userId: isLocalMode() ? null : project.userId,
+    projectId: project.id,
+  });
+
+  if (budgetCheck.allowed) {
+    for (const warning of budgetCheck.warnings) {
+      console.warn(`[auto-fix] Budget warning for project ${project.id}: ${warning}`);
+    }
+    return budgetCheck;
+  }
+
+  console.log(`[auto-fix] ⚠️ ${budgetCheck.error}, skipping auto-fix for project ${project.id}`);
+  const [updated] = await db.update(projects)
+    .set({
+      status: 'failed',
+      errorMessage: `Auto-fix skipped: ${budgetCheck.error}. Error: ${errorMessage.substring(0, 300)}`,
+      lastActivityAt: new Date(),
+    })
+    .where(eq(projects.id, project.id))
+    .returning();
+  if (updated) emitProjectUpdate(project.id, updated);
+  return null;
+}
+
+const FIX_PROMPT_INTROS: Record<AutoFixSource, { heading: string; intro: string }> = {
+  'dev-server': {
+    heading: 'Dev Server Error',
+    intro: 'The dev server encountered the following error after the build completed:',
+  },
+  browser: {
+    heading: 'Browser Runtime Error',
+    intro: 'The app threw the following error in the browser while it was being previewed:',
+  },
+};
+
+/**
+ * Start an auto-fix build for an error found after a build completed.
+ * Gives up (and marks the project failed) after MAX_AUTO_FIX_ATTEMPTS within the cooldown.
+ */
+export async function triggerAutoFix(
+  projectId: string,
+  commandId: string | undefined,
+  errorMessage: string,
+  source: AutoFixSource = 'dev-server'
+) {
+  // Check auto-fix attempt limits to prevent infinite loops
+  const attempts = autoFixAttempts.get(projectId);
+  const now = Date.now();
+
+  if (attempts) {
+    // Reset count if cooldown period has passed
+    if (now - attempts.lastAttempt > AUTO_FIX_COOLDOWN_MS) {
+      attempts.count = 0;
+    }
+
+    if (attempts.count >= MAX_AUTO_FIX_ATTEMPTS) {
+      console.log(`[auto-fix] ⚠️ Max auto-fix attempts (${MAX_AUTO_FIX_ATTEMPTS}) reached for project ${projectId}, skipping auto-fix`);
+
+      // Update project status to show manual intervention needed
+      const [updated] = await db.update(projects)
+        .set({
+          status: 'failed',
+          errorMessage: `Auto-fix failed after ${MAX_AUTO_FIX_ATTEMPTS} attempts. Error: ${errorMessage.substring(0, 300)}`,
+          lastActivityAt: new Date(),
+        })
+        .where(eq(projects.id, projectId))
+        .returning();
+      if (updated) emitProjectUpdate(projectId, updated);
+      return;
+    }
+  }
+
+  // Get project details for the fix request
+  const [project] = await db.select()
+    .from(projects)
+    .where(eq(projects.id, projectId))
+    .limit(1);
+
+  if (project && project.slug) {
+    const budgetCheck = await checkAutoFixBudget(project, errorMessage);
+    if (!budgetCheck) {
+      return;
+    }
+
+    // Update auto-fix tracking
+    const attemptNumber = (attempts?.count || 0) + 1;
+    autoFixAttempts.set(projectId, {
+      count: attemptNumber,
+      lastAttempt: now,
+    });
+
+    console.log(`[auto-fix] 🔧 Triggering auto-fix build (attempt ${attemptNumber}/${MAX_AUTO_FIX_ATTEMPTS})...`);
+
+    // Emit autofix-started event to notify UI
+    const autoFixEvent: AutoFixStartedEvent = {
+      type: 'autofix-started',
+      projectId: projectId,
+      commandId,
+      timestamp: new Date().toISOString(),
+      errorType: 'runtime',
+      errorMessage: errorMessage.substring(0, 500),
+      attempt: attemptNumber,
+      maxAttempts: MAX_AUTO_FIX_ATTEMPTS,
+    };
+    publishRunnerEvent(autoFixEvent);
+    console.log(`[auto-fix] 📡 Emitted autofix-started event for project ${projectId}`);
+
+    // Update project status to indicate error fixing in progress
+    const [updated] = await db.update(projects)
+      .set({
+        status: 'building',
+        errorMessage: errorMessage.substring(0, 500),
+        lastActivityAt: new Date(),
+      })
+      .where(eq(projects.id, projectId))
+      .returning();
+    if (updated) emitProjectUpdate(projectId, updated);
+
+    // Get the runner for this project
+    const runnerId = await getProjectRunnerId(project.runnerId);
+
+    if (runnerId) {
+      // Create a fix build command
+      const { heading, intro } = FIX_PROMPT_INTROS[source];
+      const fixPrompt = `## ${heading} - Please Fix
+
+${intro}
+
+\`\`\`
+${errorMessage.substring(0, 2000)}
+\`\`\`
+
+Please analyze this error, identify the root cause, fix it, and verify the fix works by running the dev server.
+
+IMPORTANT:
+- Run \`npm run build\` or \`npm run dev\` to verify your fix
+- Keep iterating until the error is resolved
+- Do not declare success until verification shows no errors`;
+
+      const buildCommand: StartBuildCommand = {
+        id: randomUUID(),
+        type: 'start-build',
+        projectId: projectId,
+        timestamp: new Date().toISOString(),
+        payload: {
+          prompt: fixPrompt,
+          operationType: 'autofix', // Use 'autofix' operation type for clarity
+          projectSlug: project.slug,
+          projectName: project.name || project.slug,
+          isAutoFix: true,
+          autoFixError: errorMessage.substring(0, 500),
+          envVarNames: await getProjectEnvVarNames(projectId),
+          budget: budgetCheck.budget,
+        },
+      };
+
+      try {
+        await sendCommandToRunner(runnerId, buildCommand);
+        console.log(`[auto-fix] ✅ Auto-fix build triggered for project ${projectId}`);
+
+        Sentry.metrics.count('dev_server_error_autofix_triggered', 1, {
+          attributes: {
+            project_id: projectId,
+            attempt: String((attempts?.count || 0) + 1),
+            source,
+          },
+        });
+      } catch (sendError) {
+        console.error(`[auto-fix] ❌ Failed to send auto-fix command to runner:`, sendError);
+      }
+    } else {
+      console.log(`[auto-fix] ⚠️ No runner available for auto-fix, project ${projectId}`);
+    }
+  }
+}
@@ -0,0 +1,322 @@
+import { randomUUID } from 'crypto';
+import { and, desc, eq, inArray, sql } from 'drizzle-orm';
+import { db } from '@openbuilder/agent-core/lib/db/client';
+import {
+  bakeOffs,
+  generationSessions,
+  generationTodos,
+  messages,
+  projects,
+  type BakeOff,
+  type Project,
+} from '@openbuilder/agent-core/lib/db/schema';
+import { findTagDefinition } from '@openbuilder/agent-core/config/tags';
+import { releasePortForProject, reserveOrReallocatePort } from '@openbuilder/agent-core/lib/port-allocator';
+import { sendCommandToRunner } from '@openbuilder/agent-core/lib/runner/broker-state';
+import type { SerializedTag } from '@openbuilder/agent-core/lib/tags/serialization';
+import { AuthError, isLocalMode, requireAuth } from '@/lib/auth-helpers';
+import { getProjectRunnerId } from '@/lib/runner-utils';
+
+/**
+ * Bake-offs.
+ *
+ * One prompt is built by several models in parallel. Every model gets its own
+ * sibling project (slug suffixed with the model) so builds, dev servers and
+ * ports never collide. The client dispatches the builds through the regular
+ * build route - budgets and runner scheduling apply to each sibling as usual.
+ *
+ * Keeping a winner deletes the other siblings, files included.
+ */
+
+export const MIN_BAKE_OFF_MODELS = 2;
+export const MAX_BAKE_OFF_MODELS = 4;
+
+export interface BakeOffAnalysis {
+  slug: string;
+  friendlyName: string;
+  description?: string;
+  icon?: string;
+  template?: {
+    framework?: string;
+    runCommand?: string;
+  } | null;
+}
+
+export interface BakeOffEntry {
+  projectId: string;
+  name: string;
+  slug: string;
+  model: string;
+  modelLabel: string;
+  devServerStatus: string | null;
+  devServerPort: number | null;
+  tunnelUrl: string | null;
+  build: {
+    status: string;
+    startedAt: string;
+    endedAt: string | null;
+    durationMs: number | null;
+    costUsd: number | null;
+    inputTokens: number | null;
+    outputTokens: number | null;
+    todos: number;
+    completedTodos: number;
+  } | null;
+}
+
+export interface BakeOffComparison {
+  id: string;
+  name: string;
+  prompt: string;
+  status: string;
+  winnerProjectId: string | null;
+  createdAt: string;
+  entries: BakeOffEntry[];
+}
+
+function modelSlug(model: string): string {
+  return model.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+function getModelTag(tags: unknown): string | null {
+  if (!Array.isArray(tags)) return null;
+  const modelTag = (tags as SerializedTag[]).find((tag) => tag.key === 'model');
+  return modelTag?.value ?? null;
+}
+
+function getModelLabel(model: string): string {
+  return findTagDefinition('model')?.options?.find((option) => option.value === model)?.label ?? model;
+}
+
+/**
+ * Load a bake-off and check the current user may access it
+ */
+export async function requireBakeOffOwnership(bakeOffId: string) {
+  const session = await requireAuth();
+
+  const [bakeOff] = await db.select().from(bakeOffs).where(eq(bakeOffs.id, bakeOffId)).limit(1);
+  if (!bakeOff) {
+    throw new AuthError('Bake-off not found', 404);
+  }
+
+  if (!isLocalMode() && bakeOff.userId && bakeOff.userId !== session.user.id) {
+    throw new AuthError('Forbidden', 403);
+  }
+
+  return { bakeOff, session };
+}
+
+/**
+ * Create a bake-off and one sibling project per model.
+ * Each sibling gets a port up front so their dev servers can run side by side.
+ */
+export async function createBakeOff({
+  userId,
+  prompt,
+  analysis,
+  models,
+  tags,
+  runnerId,
+}: {
+  userId: string | null;
+  prompt: string;
+  analysis: BakeOffAnalysis;
+  models: string[];
+  tags: SerializedTag[];
+  runnerId: string | null;
+}): Promise<{ bakeOff: BakeOff; projects: Project[] }> {
+  const [bakeOff] = await db.insert(bakeOffs).values({
+    userId,
+    name: analysis.friendlyName,
+    prompt,
+  }).returning();
+
+  const baseTags = tags.filter((tag) => tag.key !== 'model');
+  const siblings: Project[] = [];
+
+  for (const model of models) {
+    let slug = `${analysis.slug}-${modelSlug(model)}`;
+    const existing = await db.select({ id: projects.id }).from(projects).where(eq(projects.slug, slug));
+    if (existing.length > 0) {
+      slug = `${slug}-${Date.now()}`;
+    }
+
+    const [project] = await db.insert(projects).values({
+      name: `${analysis.friendlyName} (${getModelLabel(model)})`,
+      slug,
+      description: analysis.description || prompt.substring(0, 150),
+      icon: analysis.icon || 'Code',
+      status: 'pending',
+      originalPrompt: prompt,
+      detectedFramework: analysis.template?.framework || null,
+      tags: [...baseTags, { key: 'model', value: model, appliedAt: new Date().toISOString() }],
+      userId,
+      runnerId,
+      bakeOffId: bakeOff.id,
+    }).returning();
+
+    await db.insert(messages).values({
+      projectId: project.id,
+      role: 'user',
+      content: prompt,
+    });
+
+    try {
+      await reserveOrReallocatePort({
+        projectId: project.id,
+        projectType: null,
+        runCommand: analysis.template?.runCommand ?? null,
+        detectedFramework: analysis.template?.framework ?? null,
+      }, runnerId !== 'local');
+    } catch (error) {
+      // The dev server allocates a port when it starts - don't fail the bake-off over it
+      console.warn(`[bake-offs] Failed to reserve a port for ${project.slug}:`, error);
+    }
+
+    siblings.push(project);
+  }
+
+  return { bakeOff, projects: siblings };
+}
+
+/**
+ * Side-by-side view of a bake-off: each sibling with its latest build
+ */
+export async function getBakeOffComparison(bakeOff: BakeOff): Promise<BakeOffComparison> {
+  const siblings = await db
+    .select()
+    .from(projects)
+    .where(eq(projects.bakeOffId, bakeOff.id))
+    .orderBy(projects.createdAt);
+
+  const projectIds = siblings.map((project) => project.id);
+  const sessions = projectIds.length > 0
+    ? await db
+        .select()
+        .from(generationSessions)
+        .where(inArray(generationSessions.projectId, projectIds))
+        .orderBy(desc(generationSessions.startedAt))
+    : [];
+
+  // Sessions are newest first - the first one per project is its latest build
+  const latestSessions = new Map<string, (typeof sessions)[number]>();
+  for (const session of sessions) {
+    if (!latestSessions.has(session.projectId)) {
+      latestSessions.set(session.projectId, session);
+    }
+  }
+
+  const sessionIds = [...latestSessions.values()].map((session) => session.id);
+  const todoCounts = sessionIds.length > 0
+    ? await db
+        .select({
+          sessionId: generationTodos.sessionId,
+          total: sql<number>`count(*)`.mapWith(Number),
+          completed: sql<number>`count(*) filter (where ${generationTodos.status} = 'completed')`.mapWith(Number),
+        })
+        .from(generationTodos)
+        .where(inArray(generationTodos.sessionId, sessionIds))
+        .groupBy(generationTodos.sessionId)
+    : [];
+  const todosBySession = new Map(todoCounts.map((row) => [row.sessionId, row]));
+
+  const entries = siblings.map((project): BakeOffEntry => {
+    const model = getModelTag(project.tags) ?? 'unknown';
+    const session = latestSessions.get(project.id);
+    const todos = session ? todosBySession.get(session.id) : undefined;
+
+    return {
+      projectId: project.id,
+      name: project.name,
+      slug: project.slug,
+      model,
+      modelLabel: getModelLabel(model),
+      devServerStatus: project.devServerStatus,
+      devServerPort: project.devServerPort,
+      tunnelUrl: project.tunnelUrl,
+      build: session
+        ? {
+            status: session.status,
+            startedAt: session.startedAt.toISOString(),
+            endedAt: session.endedAt?.toISOString() ?? null,
+            durationMs: session.endedAt ? session.endedAt.getTime() - session.startedAt.getTime() : null,
+            costUsd: session.costUsd,
+            inputTokens: session.inputTokens,
+            outputTokens: session.outputTokens,
+            todos: todos?.total ?? 0,
+            completedTodos: todos?.completed ?? 0,
+          }
+        : null,
+    };
+  });
+
+  return {
+    id: bakeOff.id,
+    name: bakeOff.name,
+    prompt: bakeOff.prompt,
+    status: bakeOff.status,
+    winnerProjectId: bakeOff.winnerProjectId,
+    createdAt: bakeOff.createdAt.toISOString(),
+    entries,
+  };
+}
+
+/**
+ * Keep one sibling: it takes the bake-off's name and the others are deleted.
+ * Fails while any sibling is still building.
+ */
+export async function keepBakeOffProject(
+  bakeOff: BakeOff,
+  projectId: string
+): Promise<{ winner: Project; deletedProjectIds: string[] } | { error: string; status: number }> {
+  const siblings = await db.select().from(projects).where(eq(projects.bakeOffId, bakeOff.id));
+  const winner = siblings.find((project) => project.id === projectId);
+  if (!winner) {
+    return { error: 'Project is not part of this bake-off', status: 400 };
+  }
+
+  const siblingIds = siblings.map((project) => project.id);
+  const activeBuilds = await db
+    .select({ id: generationSessions.id })
+    .from(generationSessions)
+    .where(and(inArray(generationSessions.projectId, siblingIds), eq(generationSessions.status, 'active')));
+  if (activeBuilds.length > 0) {
+    return { error: 'Wait for every build to finish before picking a winner', status: 409 };
+  }
+
+  const losers = siblings.filter((project) => project.id !== projectId);
+  for (const loser of losers) {
+    await releasePortForProject(loser.id);
+    await db.delete(projects).where(eq(projects.id, loser.id));
+
+    // The runner stops the dev server before deleting the files
+    const runnerId = await getProjectRunnerId(loser.runnerId);
+    if (!runnerId) {
+      console.warn(`[bake-offs] No runner connected - skipping file deletion for ${loser.slug}`);
+      continue;
+    }
+    try {
+      await sendCommandToRunner(runnerId, {
+        id: randomUUID(),
+        type: 'delete-project-files',
+        projectId: loser.id,
+        timestamp: new Date().toISOString(),
+        payload: { slug: loser.slug },
+      });
+    } catch (error) {
+      console.warn(`[bake-offs] Failed to send delete command for ${loser.slug}:`, error);
+    }
+  }
+
+  const now = new Date();
+  const [promoted] = await db.update(projects)
+    .set({ name: bakeOff.name, updatedAt: now })
+    .where(eq(projects.id, winner.id))
+    .returning();
+
+  await db.update(bakeOffs)
+    .set({ status: 'decided', winnerProjectId: winner.id, updatedAt: now })
+    .where(eq(bakeOffs.id, bakeOff.id));
+
+  return { winner: promoted, deletedProjectIds: losers.map((project) => project.id) };
+}
@@ -0,0 +1,175 @@
+import { and, desc, eq, lt } from 'drizzle-orm';
+import { db } from '@openbuilder/agent-core/lib/db/client';
+import { buildScreenshots, generationSessions } from '@openbuilder/agent-core/lib/db/schema';
+import type { BuildScreenshotsEvent } from '@openbuilder/agent-core';
+import type { BuildScreenshot, BuildScreenshots, ScreenshotViewport } from '@openbuilder/agent-core/types/generation';
+
+/**
+ * Screenshots of the running app, captured by the runner after each build.
+ *
+ * Images are stored per generation session in build_screenshots. The session's
+ * raw state only keeps the summary (flags and diff ratios) so loading build
+ * history stays cheap - images are fetched when the build summary shows them.
+ */
+
+export interface BuildScreenshotWithImages extends BuildScreenshot {
+  image: string | null;
+  diffImage: string | null;
+  previousImage: string | null; // Same route and viewport from the previous build
+}
+
+export interface BuildScreenshotsResponse {
+  buildId: string;
+  previousBuildId: string | null;
+  shots: BuildScreenshotWithImages[];
+}
+
+function shotKey(shot: { route: string; viewport: string }): string {
+  return `${shot.viewport}:${shot.route}`;
+}
+
+/**
+ * The screenshots without their images
+ */
+export function summarizeBuildScreenshots(payload: BuildScreenshotsEvent['payload']): BuildScreenshots {
+  return {
+    status: payload.status,
+    capturedAt: payload.capturedAt,
+    shots: payload.shots.map((shot) => ({
+      route: shot.route,
+      viewport: shot.viewport,
+      width: shot.width,
+      height: shot.height,
+      blank: shot.blank,
+      overlay: shot.overlay,
+      diffRatio: shot.diffRatio,
+      error: shot.error,
+    })),
+  };
+}
+
+/**
+ * Store a session's screenshots, replacing an earlier capture of the same session
+ */
+export async function saveBuildScreenshots(
+  sessionId: string,
+  projectId: string,
+  payload: BuildScreenshotsEvent['payload']
+): Promise<BuildScreenshots> {
+  const summary = summarizeBuildScreenshots(payload);
+
+  await db.delete(buildScreenshots).where(eq(buildScreenshots.sessionId, sessionId));
+  if (payload.shots.length > 0) {
+    await db.insert(buildScreenshots).values(payload.shots.map((shot) => ({
+      sessionId,
+      projectId,
+      route: shot.route,
+      viewport: shot.viewport,
+      width: shot.width,
+      height: shot.height,
+      image: shot.image ?? null,
+      diffImage: shot.diffImage ?? null,
+      blank: shot.blank,
+      overlay: shot.overlay,
+      diffRatio: shot.diffRatio,
+      error: shot.error ?? null,
+    })));
+  }
+
+  const [session] = await db.select({ rawState: generationSessions.rawState })
+    .from(generationSessions)
+    .where(eq(generationSessions.id, sessionId))
+    .limit(1);
+
+  if (session) {
+    const existingState = typeof session.rawState === 'string'
+      ? JSON.parse(session.rawState)
+      : (session.rawState ?? {});
+
+    await db.update(generationSessions)
+      .set({
+        rawState: JSON.stringify({ ...existingState, screenshots: summary }),
+        updatedAt: new Date(),
+      })
+      .where(eq(generationSessions.id, sessionId));
+  }
+
+  return summary;
+}
+
+/**
+ * The error an auto-fix build gets for blank pages and error overlays
+ */
+export function describeScreenshotFailures(screenshots: BuildScreenshots): string {
+  const lines = screenshots.shots
+    .filter((shot) => shot.blank || shot.overlay)
+    .map((shot) => {
+      const problem = shot.overlay
+        ? `shows the ${shot.overlay} dev server error overlay`
+        : 'renders a blank page';
+      return `- ${shot.route} (${shot.viewport}, ${shot.width}x${shot.height}) ${problem}`;
+    });
+
+  return `Screenshots of the running app after the build found problems:\n${lines.join('\n')}\n\nOpen the affected routes, find what fails to render (runtime errors, failed imports, missing data) and fix it.`;
+}
+
+/**
+ * Screenshots of a build with the same route and viewport from the previous
+ * build of the project that has screenshots. Null when the build doesn't exist.
+ */
+export async function getBuildScreenshots(
+  projectId: string,
+  buildId: string
+): Promise<BuildScreenshotsResponse | null> {
+  const [session] = await db.select({ id: generationSessions.id, startedAt: generationSessions.startedAt })
+    .from(generationSessions)
+    .where(and(eq(generationSessions.projectId, projectId), eq(generationSessions.buildId, buildId)))
+    .limit(1);
+
+  if (!session) return null;
+
+  const rows = await db.select()
+    .from(buildScreenshots)
+    .where(eq(buildScreenshots.sessionId, session.id))
+    .orderBy(buildScreenshots.createdAt);
+
+  // Newest earlier session that has screenshots
+  const [previous] = await db.select({ sessionId: buildScreenshots.sessionId, buildId: generationSessions.buildId })
+    .from(buildScreenshots)
+    .innerJoin(generationSessions, eq(buildScreenshots.sessionId, generationSessions.id))
+    .where(and(eq(buildScreenshots.projectId, projectId), lt(generationSessions.startedAt, session.startedAt)))
+    .orderBy(desc(generationSessions.startedAt))
+    .limit(1);
+
+  const previousImages = new Map<string, string | null>();
+  if (previous) {
+    const previousRows = await db.select({
+      route: buildScreenshots.route,
+      viewport: buildScreenshots.viewport,
+      image: buildScreenshots.image,
+    })
+      .from(buildScreenshots)
+      .where(eq(buildScreenshots.sessionId, previous.sessionId));
+    for (const row of previousRows) {
+      previousImages.set(shotKey(row), row.image);
+    }
+  }
+
+  return {
+    buildId,
+    previousBuildId: previous?.buildId ?? null,
+    shots: rows.map((row) => ({
+      route: row.route,
+      viewport: row.viewport as ScreenshotViewport,
+      width: row.width,
+      height: row.height,
+      blank: row.blank,
+      overlay: row.overlay,
+      diffRatio: row.diffRatio,
+      error: row.error ?? undefined,
+      image: row.image,
+      diffImage: row.diffImage,
+      previousImage: previousImages.get(shotKey(row)) ?? null,
+    })),
+  };
+}
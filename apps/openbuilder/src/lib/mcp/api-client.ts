@@ -0,0 +1,195 @@
+/**
+ * REST client used by the MCP tools
+ *
+ * MCP tools call the public REST API on this same server with the caller's
+ * API token, so ownership, scopes, budgets and build bookkeeping are enforced
+ * by exactly the routes the web UI and `openbuilder new` / `chat` use.
+ */
+
+import type { Project } from '@openbuilder/agent-core/lib/db/schema';
+import type { AppliedTag } from '@openbuilder/agent-core/types/tags';
+import type { GenerationState } from '@/types/generation';
+
+export type ApiProject = Project & { runnerConnected?: boolean };
+
+export interface ApiFileNode {
+  name: string;
+  path: string;
+  type: 'file' | 'directory';
+  children?: ApiFileNode[];
+}
+
+export interface ApiProjectAnalysis {
+  slug: string;
+  friendlyName: string;
+  description: string;
+  icon: string;
+  template?: {
+    id: string;
+    name: string;
+    framework: string;
+    port: number;
+    runCommand: string;
+    repository: string;
+    branch: string;
+  };
+}
+
+export interface ApiBuildSession {
+  session: {
+    id: string;
+    buildId: string;
+    operationType: string | null;
+    status: string;
+    startedAt: string;
+    endedAt: string | null;
+    summary: string | null;
+  };
+  hydratedState: GenerationState | null;
+}
+
+export interface ApiBuildRequest {
+  operationType: 'initial-build' | 'enhancement';
+  prompt: string;
+  agent?: string;
+  claudeModel?: string;
+  runnerId?: string;
+  tags?: AppliedTag[];
+  template?: ApiProjectAnalysis['template'];
+}
+
+/**
+ * Where the MCP tools reach the REST API: this server, never the origin of the
+ * incoming request - its Host header is client-controlled and the calls carry
+ * the caller's token. OPENBUILDER_INTERNAL_URL overrides it behind a proxy.
+ */
+export function getInternalApiOrigin(): string {
+  return process.env.OPENBUILDER_INTERNAL_URL || `http://127.0.0.1:${process.env.PORT || '3000'}`;
+}
+
+export class ApiRequestError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = 'ApiRequestError';
+  }
+}
+
+export class OpenBuilderApiClient {
+  constructor(
+    private readonly origin: string,
+    private readonly token?: string
+  ) {}
+
+  private async request(path: string, init: RequestInit = {}): Promise<Response> {
+    const res = await fetch(`${this.origin}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+        ...init.headers,
+      },
+    });
+
+    if (!res.ok) {
+      const body = await res.json().catch(() => null) as { error?: string } | null;
+      throw new ApiRequestError(body?.error || `${init.method ?? 'GET'} ${path} failed (${res.status})`, res.status);
+    }
+
+    return res;
+  }
+
+  private async json<T>(path: string, init?: RequestInit): Promise<T> {
+    const res = await this.request(path, init);
+    return res.json() as Promise<T>;
+  }
+
+  async listProjects(): Promise<ApiProject[]> {
+    const { projects } = await this.json<{ projects: ApiProject[] }>('/api/projects');
+    return projects;
+  }
+
+  async getProject(projectId: string): Promise<ApiProject> {
+    const { project } = await this.json<{ project: ApiProject }>(`/api/projects/${projectId}`);
+    return project;
+  }
+
+  async analyzeProject(body: {
+    prompt: string;
+    agent: string;
+    claudeModel?: string;
+    tags?: AppliedTag[];
+    runnerId?: string;
+  }): Promise<{ analysis: ApiProjectAnalysis; runnerId: string }> {
+    return this.json('/api/projects/analyze', { method: 'POST', body: JSON.stringify(body) });
+  }
+
+  async createProjectFromAnalysis(body: {
+    prompt: string;
+    analysis: ApiProjectAnalysis;
+    agent: string;
+    claudeModel?: string;
+    runnerId: string;
+    tags?: AppliedTag[];
+  }): Promise<ApiProject> {
+    const { project } = await this.json<{ project: ApiProject }>('/api/projects/create-from-analysis', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    });
+    return project;
+  }
+
+  /**
+   * Start a build without following its stream.
+   * The build route registers the build with the persistent processor before
+   * responding, so dropping the SSE body doesn't stop the build.
+   */
+  async startBuild(projectId: string, body: ApiBuildRequest): Promise<void> {
+    const res = await this.request(`/api/projects/${projectId}/build`, {
+      method: 'POST',
+      body: JSON.stringify(body),
+    });
+    await res.body?.cancel().catch(() => {});
+  }
+
+  async saveMessage(projectId: string, role: 'user' | 'assistant', content: string): Promise<void> {
+    await this.request(`/api/projects/${projectId}/messages`, {
+      method: 'POST',
+      body: JSON.stringify({ role, content }),
+    });
+  }
+
+  /**
+   * Build sessions, most recent first
+   */
+  async listBuildSessions(projectId: string): Promise<ApiBuildSession[]> {
+    const { sessions } = await this.json<{ sessions: ApiBuildSession[] }>(`/api/projects/${projectId}/messages`);
+    return sessions;
+  }
+
+  async listFiles(projectId: string): Promise<ApiFileNode[]> {
+    const { files } = await this.json<{ files: ApiFileNode[] }>(`/api/projects/${projectId}/files`);
+    return files;
+  }
+
+  async readFile(projectId: string, path: string): Promise<{ content: string; size: number }> {
+    return this.json(`/api/projects/${projectId}/files/content?path=${encodeURIComponent(path)}`);
+  }
+
+  async writeFile(projectId: string, path: string, content: string): Promise<void> {
+    await this.request(`/api/projects/${projectId}/files/content`, {
+      method: 'PUT',
+      body: JSON.stringify({ path, content }),
+    });
+  }
+
+  async startDevServer(projectId: string): Promise<{ message?: string; port?: number }> {
+    return this.json(`/api/projects/${projectId}/start`, { method: 'POST' });
+  }
+
+  async stopDevServer(projectId: string): Promise<{ message?: string }> {
+    return this.json(`/api/projects/${projectId}/stop`, { method: 'POST' });
+  }
+}
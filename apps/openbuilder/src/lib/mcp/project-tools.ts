@@ -0,0 +1,405 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { z } from "zod";
+import { TAG_DEFINITIONS } from "@openbuilder/agent-core/config/tags";
+import { parseModelTag } from "@openbuilder/agent-core/lib/tags/model-parser";
+import { DEFAULT_AGENT_ID, DEFAULT_CLAUDE_MODEL_ID } from "@openbuilder/agent-core/types/agent";
+import type { AppliedTag } from "@openbuilder/agent-core/types/tags";
+import type { ApiTokenScope } from "@/lib/api-token-scopes";
+import { getInternalApiOrigin, OpenBuilderApiClient, type ApiFileNode, type ApiProject } from "./api-client";
+
+/**
+ * Set on AuthInfo.extra by the MCP route's token verifier
+ */
+export interface McpAuthExtra {
+  userId: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Statuses of a build session that is still running
+const ACTIVE_SESSION_STATUSES = new Set(["active", "pending"]);
+
+const WAIT_POLL_INTERVAL_MS = 3000;
+const MAX_WAIT_SECONDS = 240; // Stays under the MCP route's maxDuration
+
+const projectArg = z
+  .string()
+  .min(1)
+  .describe("Project ID, or its slug (looking up slugs needs the projects:read scope)");
+
+type ToolResult = {
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+};
+
+function jsonResult(value: unknown): ToolResult {
+  return { content: [{ type: "text", text: JSON.stringify(value, null, 2) }] };
+}
+
+function errorResult(message: string): ToolResult {
+  return { content: [{ type: "text", text: message }], isError: true };
+}
+
+/**
+ * API client acting as the caller, or an error if the token lacks a scope
+ */
+function getClient(authInfo: AuthInfo | undefined, scopes: ApiTokenScope[]): OpenBuilderApiClient | ToolResult {
+  const extra = authInfo?.extra as McpAuthExtra | undefined;
+  if (!authInfo || !extra?.userId) {
+    return errorResult("Not authenticated. Connect with an OpenBuilder API token.");
+  }
+
+  const missing = scopes.filter((scope) => !authInfo.scopes.includes(scope));
+  if (missing.length > 0) {
+    return errorResult(`This API token is missing the ${missing.map((scope) => `"${scope}"`).join(", ")} scope(s).`);
+  }
+
+  // Local mode verifies without a token - the REST API is open there too
+  return new OpenBuilderApiClient(getInternalApiOrigin(), authInfo.token || undefined);
+}
+
+/**
+ * Run a tool body with a scoped client, turning API errors into tool errors
+ */
+async function withClient(
+  authInfo: AuthInfo | undefined,
+  scopes: ApiTokenScope[],
+  run: (client: OpenBuilderApiClient) => Promise<ToolResult>
+): Promise<ToolResult> {
+  const client = getClient(authInfo, scopes);
+  if (!(client instanceof OpenBuilderApiClient)) {
+    return client;
+  }
+
+  try {
+    return await run(client);
+  } catch (error) {
+    return errorResult(error instanceof Error ? error.message : String(error));
+  }
+}
+
+async function resolveProject(client: OpenBuilderApiClient, reference: string): Promise<ApiProject> {
+  if (UUID_PATTERN.test(reference)) {
+    return client.getProject(reference);
+  }
+
+  const projects = await client.listProjects();
+  const project = projects.find((p) => p.slug === reference);
+  if (!project) {
+    throw new Error(`Project not found: ${reference}`);
+  }
+  return project;
+}
+
+function summarizeProject(project: ApiProject) {
+  return {
+    id: project.id,
+    name: project.name,
+    slug: project.slug,
+    description: project.description,
+    status: project.status,
+    errorMessage: project.errorMessage,
+    framework: project.detectedFramework,
+    runnerId: project.runnerId,
+    runnerConnected: project.runnerConnected,
+    devServer: {
+      status: project.devServerStatus,
+      port: project.devServerPort,
+      tunnelUrl: project.tunnelUrl,
+    },
+    updatedAt: project.updatedAt,
+  };
+}
+
+async function getBuildStatus(client: OpenBuilderApiClient, project: ApiProject) {
+  const [current, sessions] = await Promise.all([
+    client.getProject(project.id),
+    client.listBuildSessions(project.id),
+  ]);
+  const latest = sessions[0];
+  const todos = latest?.hydratedState?.todos ?? [];
+
+  return {
+    project: summarizeProject(current),
+    building: latest ? ACTIVE_SESSION_STATUSES.has(latest.session.status) : false,
+    latestBuild: latest
+      ? {
+          buildId: latest.session.buildId,
+          operationType: latest.session.operationType,
+          status: latest.session.status,
+          startedAt: latest.session.startedAt,
+          endedAt: latest.session.endedAt,
+          summary: latest.session.summary ?? latest.hydratedState?.buildSummary ?? null,
+          todos: todos.map((todo) => ({ content: todo.content, status: todo.status })),
+        }
+      : null,
+  };
+}
+
+function flattenFiles(nodes: ApiFileNode[]): string[] {
+  return nodes.flatMap((node) =>
+    node.type === "directory" ? flattenFiles(node.children ?? []) : [node.path]
+  );
+}
+
+function createTag(key: string, value: string): AppliedTag {
+  return { key, value, appliedAt: new Date() };
+}
+
+function resolveModel(model?: string) {
+  if (!model) {
+    return { agent: DEFAULT_AGENT_ID as string, claudeModel: DEFAULT_CLAUDE_MODEL_ID as string | undefined };
+  }
+  const parsed = parseModelTag(model);
+  return { agent: parsed.agent as string, claudeModel: parsed.claudeModel as string | undefined };
+}
+
+const frameworkValues = TAG_DEFINITIONS.find((tag) => tag.key === "framework")?.options?.map((option) => option.value) ?? [];
+const modelValues = TAG_DEFINITIONS.find((tag) => tag.key === "model")?.options?.map((option) => option.value) ?? [];
+
+/**
+ * Tools for building projects from another MCP client
+ * Each tool acts as the token's user through the REST API and needs the listed scopes.
+ */
+export function registerProjectTools(server: McpServer) {
+  server.tool(
+    "list-projects",
+    "List the user's OpenBuilder projects with their build and dev server status. Requires the projects:read scope.",
+    {},
+    async (_args, { authInfo }) =>
+      withClient(authInfo, ["projects:read"], async (client) => {
+        const projects = await client.listProjects();
+        return jsonResult({ projects: projects.map(summarizeProject) });
+      })
+  );
+
+  server.tool(
+    "create-project",
+    "Create a new project from a prompt and start its initial build. Returns right away - follow the build with wait-for-build or get-build-status. Requires the projects:write and builds:write scopes.",
+    {
+      prompt: z.string().min(10).describe("Description of the app to build"),
+      model: z
+        .string()
+        .optional()
+        .describe(`Model to build with${modelValues.length > 0 ? ` (one of: ${modelValues.join(", ")})` : ""}`),
+      framework: z
+        .string()
+        .optional()
+        .describe(`Framework to start from${frameworkValues.length > 0 ? ` (one of: ${frameworkValues.join(", ")})` : ""}`),
+      runnerId: z.string().optional().describe("Runner to build on (defaults to the least busy runner)"),
+    },
+    async ({ prompt, model, framework, runnerId }, { authInfo }) =>
+      withClient(authInfo, ["projects:write", "builds:write"], async (client) => {
+        if (framework && !frameworkValues.includes(framework)) {
+          return errorResult(`Unknown framework "${framework}". Expected one of: ${frameworkValues.join(", ")}`);
+        }
+
+        const { agent, claudeModel } = resolveModel(model);
+        const tags: AppliedTag[] = [];
+        if (model) tags.push(createTag("model", model));
+        if (framework) tags.push(createTag("framework", framework));
+
+        const { analysis, runnerId: selectedRunnerId } = await client.analyzeProject({
+          prompt,
+          agent,
+          claudeModel,
+          tags: tags.length > 0 ? tags : undefined,
+          runnerId,
+        });
+
+        const project = await client.createProjectFromAnalysis({
+          prompt,
+          analysis,
+          agent,
+          claudeModel,
+          runnerId: selectedRunnerId,
+          tags: tags.length > 0 ? tags : undefined,
+        });
+
+        await client.startBuild(project.id, {
+          operationType: "initial-build",
+          prompt,
+          agent,
+          claudeModel,
+          runnerId: selectedRunnerId,
+          tags: tags.length > 0 ? tags : undefined,
+          template: analysis.template,
+        });
+
+        return jsonResult({
+          project: summarizeProject(project),
+          template: analysis.template?.name,
+          message: `Build started for ${project.slug}. Use wait-for-build to follow it.`,
+        });
+      })
+  );
+
+  server.tool(
+    "send-message",
+    "Send a follow-up prompt to a project and start an enhancement build. Returns right away - follow the build with wait-for-build. Requires the builds:write and messages:write scopes.",
+    {
+      project: projectArg,
+      prompt: z.string().min(1).describe("The change to make"),
+      model: z.string().optional().describe("Switch the project's model for this and later builds"),
+    },
+    async ({ project: reference, prompt, model }, { authInfo }) =>
+      withClient(authInfo, ["builds:write", "messages:write"], async (client) => {
+        const project = await resolveProject(client, reference);
+
+        // Keep the project's tags (framework, design, ...) and only swap the model when asked
+        const projectTags = (Array.isArray(project.tags) ? project.tags : []) as AppliedTag[];
+        const tags = model
+          ? [...projectTags.filter((tag) => tag.key !== "model"), createTag("model", model)]
+          : projectTags;
+        const { agent, claudeModel } = resolveModel(tags.find((tag) => tag.key === "model")?.value);
+
+        await client.saveMessage(project.id, "user", prompt);
+        await client.startBuild(project.id, {
+          operationType: "enhancement",
+          prompt,
+          agent,
+          claudeModel,
+          tags: tags.length > 0 ? tags : undefined,
+        });
+
+        return jsonResult({
+          project: summarizeProject(project),
+          message: `Build started for ${project.slug}. Use wait-for-build to follow it.`,
+        });
+      })
+  );
+
+  server.tool(
+    "get-build-status",
+    "Get a project's status and its latest build: status, todo list and summary. Requires the projects:read and messages:read scopes.",
+    { project: projectArg },
+    async ({ project: reference }, { authInfo }) =>
+      withClient(authInfo, ["projects:read", "messages:read"], async (client) => {
+        const project = await resolveProject(client, reference);
+        return jsonResult(await getBuildStatus(client, project));
+      })
+  );
+
+  server.tool(
+    "wait-for-build",
+    "Wait for a project's running build to finish, reporting todo progress as MCP progress notifications. Returns the final build status, or the current one if the timeout passes first. Requires the projects:read and messages:read scopes.",
+    {
+      project: projectArg,
+      timeoutSeconds: z
+        .number()
+        .int()
+        .min(5)
+        .max(MAX_WAIT_SECONDS)
+        .optional()
+        .describe(`How long to wait (default 120, max ${MAX_WAIT_SECONDS})`),
+    },
+    async ({ project: reference, timeoutSeconds }, { authInfo, signal, _meta, sendNotification }) =>
+      withClient(authInfo, ["projects:read", "messages:read"], async (client) => {
+        const project = await resolveProject(client, reference);
+        const deadline = Date.now() + (timeoutSeconds ?? 120) * 1000;
+        const progressToken = _meta?.progressToken;
+        let lastProgress = "";
+
+        while (true) {
+          const status = await getBuildStatus(client, project);
+          const todos = status.latestBuild?.todos ?? [];
+
+          if (progressToken !== undefined && todos.length > 0) {
+            const completed = todos.filter((todo) => todo.status === "completed").length;
+            const active = todos.find((todo) => todo.status === "in_progress");
+            const progress = `${completed}/${todos.length}:${active?.content ?? ""}`;
+            if (progress !== lastProgress) {
+              lastProgress = progress;
+              await sendNotification({
+                method: "notifications/progress",
+                params: {
+                  progressToken,
+                  progress: completed,
+                  total: todos.length,
+                  message: active?.content ?? `${completed} of ${todos.length} tasks done`,
+                },
+              }).catch(() => {});
+            }
+          }
+
+          if (!status.building) {
+            return jsonResult(status);
+          }
+
+          if (Date.now() >= deadline || signal.aborted) {
+            return jsonResult({ ...status, timedOut: true });
+          }
+
+          await new Promise((resolve) => setTimeout(resolve, WAIT_POLL_INTERVAL_MS));
+        }
+      })
+  );
+
+  server.tool(
+    "list-files",
+    "List the files in a project (node_modules and build output excluded). Requires the files:read scope.",
+    { project: projectArg },
+    async ({ project: reference }, { authInfo }) =>
+      withClient(authInfo, ["files:read"], async (client) => {
+        const project = await resolveProject(client, reference);
+        const files = flattenFiles(await client.listFiles(project.id));
+        return jsonResult({ project: project.slug, files });
+      })
+  );
+
+  server.tool(
+    "read-file",
+    "Read a file from a project through its runner. Requires the files:read scope.",
+    {
+      project: projectArg,
+      path: z.string().min(1).describe("Path relative to the project root, e.g. src/App.tsx"),
+    },
+    async ({ project: reference, path }, { authInfo }) =>
+      withClient(authInfo, ["files:read"], async (client) => {
+        const project = await resolveProject(client, reference);
+        const { content } = await client.readFile(project.id, path);
+        return { content: [{ type: "text", text: content }] };
+      })
+  );
+
+  server.tool(
+    "write-file",
+    "Write a file in a project through its runner. The dev server picks the change up with hot reload. Requires the files:write scope.",
+    {
+      project: projectArg,
+      path: z.string().min(1).describe("Path relative to the project root"),
+      content: z.string().describe("Full new file content"),
+    },
+    async ({ project: reference, path, content }, { authInfo }) =>
+      withClient(authInfo, ["files:write"], async (client) => {
+        const project = await resolveProject(client, reference);
+        await client.writeFile(project.id, path, content);
+        return jsonResult({ project: project.slug, path, written: true });
+      })
+  );
+
+  server.tool(
+    "start-dev-server",
+    "Start a project's dev server on its runner. Check get-build-status for the port once it is running. Requires the servers:write scope.",
+    { project: projectArg },
+    async ({ project: reference }, { authInfo }) =>
+      withClient(authInfo, ["servers:write"], async (client) => {
+        const project = await resolveProject(client, reference);
+        const result = await client.startDevServer(project.id);
+        return jsonResult({ project: project.slug, ...result });
+      })
+  );
+
+  server.tool(
+    "stop-dev-server",
+    "Stop a project's dev server. Requires the servers:write scope.",
+    { project: projectArg },
+    async ({ project: reference }, { authInfo }) =>
+      withClient(authInfo, ["servers:write"], async (client) => {
+        const project = await resolveProject(client, reference);
+        const result = await client.stopDevServer(project.id);
+        return jsonResult({ project: project.slug, ...result });
+      })
+  );
+}
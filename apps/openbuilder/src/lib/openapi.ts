@@ -0,0 +1,488 @@
+/**
+ * OpenAPI description of the public REST API
+ *
+ * The document is generated from the operation table below, so each entry
+ * should match its route handler - in particular the scope passed to
+ * requireProjectOwnership / getSession. Served at GET /api/openapi.
+ */
+
+import { API_TOKEN_SCOPES, type ApiTokenScope } from './api-token-scopes';
+
+type Schema = Record<string, unknown>;
+
+interface ApiOperation {
+  method: 'get' | 'post' | 'patch' | 'put' | 'delete';
+  path: string;
+  operationId: string;
+  tag: 'Projects' | 'Builds' | 'Messages' | 'Files' | 'Dev servers';
+  summary: string;
+  description?: string;
+  scope: ApiTokenScope;
+  query?: Array<{ name: string; description: string; required?: boolean; schema: Schema }>;
+  requestBody?: Schema;
+  response: { description: string; contentType?: string; schema: Schema };
+}
+
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` });
+
+const SCHEMAS: Record<string, Schema> = {
+  Error: {
+    type: 'object',
+    required: ['error'],
+    properties: { error: { type: 'string' } },
+  },
+  Tag: {
+    type: 'object',
+    required: ['key', 'value'],
+    properties: {
+      key: { type: 'string', description: 'Tag key, e.g. "framework" or "model"' },
+      value: { type: 'string' },
+      appliedAt: { type: 'string', format: 'date-time' },
+    },
+  },
+  Project: {
+    type: 'object',
+    required: ['id', 'name', 'slug', 'status'],
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+      name: { type: 'string' },
+      slug: { type: 'string' },
+      description: { type: 'string', nullable: true },
+      status: { type: 'string', enum: ['pending', 'in_progress', 'completed', 'failed'] },
+      projectType: { type: 'string', nullable: true },
+      runCommand: { type: 'string', nullable: true },
+      port: { type: 'integer', nullable: true },
+      devServerStatus: { type: 'string', nullable: true },
+      runnerId: { type: 'string', nullable: true },
+      runnerConnected: { type: 'boolean' },
+      tags: { type: 'array', items: ref('Tag'), nullable: true },
+      errorMessage: { type: 'string', nullable: true },
+      createdAt: { type: 'string', format: 'date-time' },
+      updatedAt: { type: 'string', format: 'date-time' },
+    },
+  },
+  Template: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      framework: { type: 'string' },
+      port: { type: 'integer' },
+      runCommand: { type: 'string' },
+      repository: { type: 'string' },
+      branch: { type: 'string' },
+    },
+  },
+  ProjectAnalysis: {
+    type: 'object',
+    required: ['slug', 'friendlyName', 'description', 'icon'],
+    properties: {
+      slug: { type: 'string' },
+      friendlyName: { type: 'string' },
+      description: { type: 'string' },
+      icon: { type: 'string' },
+      template: ref('Template'),
+    },
+  },
+  BuildRequest: {
+    type: 'object',
+    required: ['operationType', 'prompt'],
+    properties: {
+      operationType: {
+        type: 'string',
+        enum: ['initial-build', 'enhancement', 'focused-edit', 'continuation', 'autofix'],
+      },
+      prompt: { type: 'string' },
+      runnerId: { type: 'string', description: 'Defaults to the project\'s runner' },
+      agent: { type: 'string', description: 'Coding agent, e.g. "claude-code"' },
+      claudeModel: { type: 'string' },
+      tags: { type: 'array', items: ref('Tag') },
+      template: ref('Template'),
+      verifyBuild: { type: 'boolean' },
+    },
+  },
+  Message: {
+    type: 'object',
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+      projectId: { type: 'string', format: 'uuid' },
+      role: { type: 'string', enum: ['user', 'assistant'] },
+      content: { description: 'Plain text or an array of message parts' },
+      createdAt: { type: 'string', format: 'date-time' },
+    },
+  },
+  FileNode: {
+    type: 'object',
+    required: ['name', 'path', 'type'],
+    properties: {
+      name: { type: 'string' },
+      path: { type: 'string' },
+      type: { type: 'string', enum: ['file', 'directory'] },
+      children: { type: 'array', items: ref('FileNode') },
+    },
+  },
+};
+
+// Bump when an operation changes in a way that breaks existing clients
+const API_VERSION = '1.0.0';
+
+const projectIdPath = '/api/projects/{id}';
+
+const OPERATIONS: ApiOperation[] = [
+  {
+    method: 'get',
+    path: '/api/projects',
+    operationId: 'listProjects',
+    tag: 'Projects',
+    summary: 'List projects',
+    scope: 'projects:read',
+    response: {
+      description: 'Projects owned by the caller',
+      schema: { type: 'object', properties: { projects: { type: 'array', items: ref('Project') } } },
+    },
+  },
+  {
+    method: 'post',
+    path: '/api/projects/analyze',
+    operationId: 'analyzeProject',
+    tag: 'Projects',
+    summary: 'Analyze a prompt',
+    description: 'Asks a runner to pick a name, slug and template for a new project. Pass the result to createProjectFromAnalysis.',
+    scope: 'projects:write',
+    requestBody: {
+      type: 'object',
+      required: ['prompt', 'agent'],
+      properties: {
+        prompt: { type: 'string' },
+        agent: { type: 'string' },
+        claudeModel: { type: 'string' },
+        tags: { type: 'array', items: ref('Tag') },
+        runnerId: { type: 'string' },
+      },
+    },
+    response: {
+      description: 'Analysis result and the runner that produced it',
+      schema: {
+        type: 'object',
+        properties: { analysis: ref('ProjectAnalysis'), runnerId: { type: 'string' } },
+      },
+    },
+  },
+  {
+    method: 'post',
+    path: '/api/projects/create-from-analysis',
+    operationId: 'createProjectFromAnalysis',
+    tag: 'Projects',
+    summary: 'Create a project from an analysis',
+    scope: 'projects:write',
+    requestBody: {
+      type: 'object',
+      required: ['prompt', 'analysis', 'agent', 'runnerId'],
+      properties: {
+        prompt: { type: 'string' },
+        analysis: ref('ProjectAnalysis'),
+        agent: { type: 'string' },
+        claudeModel: { type: 'string' },
+        runnerId: { type: 'string' },
+        tags: { type: 'array', items: ref('Tag') },
+      },
+    },
+    response: {
+      description: 'The created project',
+      schema: { type: 'object', properties: { project: ref('Project') } },
+    },
+  },
+  {
+    method: 'get',
+    path: projectIdPath,
+    operationId: 'getProject',
+    tag: 'Projects',
+    summary: 'Get a project',
+    scope: 'projects:read',
+    response: {
+      description: 'The project, including its build status',
+      schema: { type: 'object', properties: { project: ref('Project') } },
+    },
+  },
+  {
+    method: 'patch',
+    path: projectIdPath,
+    operationId: 'updateProject',
+    tag: 'Projects',
+    summary: 'Update a project',
+    scope: 'projects:write',
+    requestBody: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        description: { type: 'string' },
+        icon: { type: 'string' },
+        runCommand: { type: 'string' },
+        port: { type: 'integer' },
+      },
+    },
+    response: {
+      description: 'The updated project',
+      schema: { type: 'object', properties: { project: ref('Project') } },
+    },
+  },
+  {
+    method: 'delete',
+    path: projectIdPath,
+    operationId: 'deleteProject',
+    tag: 'Projects',
+    summary: 'Delete a project',
+    scope: 'projects:write',
+    requestBody: {
+      type: 'object',
+      properties: { deleteFiles: { type: 'boolean', description: 'Also delete the files on the runner' } },
+    },
+    response: {
+      description: 'Deleted',
+      schema: {
+        type: 'object',
+        properties: { success: { type: 'boolean' }, filesDeleted: { type: 'boolean' }, filesRequested: { type: 'boolean' } },
+      },
+    },
+  },
+  {
+    method: 'post',
+    path: `${projectIdPath}/build`,
+    operationId: 'startBuild',
+    tag: 'Builds',
+    summary: 'Start a build',
+    description:
+      'Streams the build as server-sent events. Each `data:` line is a JSON chunk ' +
+      '(`start`, `text-delta`, `tool-input-available`, `tool-output-available`, `finish`). ' +
+      'A failed build ends with an `error` chunk followed by `[DONE]`; check the project status afterwards.',
+    scope: 'builds:write',
+    requestBody: ref('BuildRequest'),
+    response: {
+      description: 'Build event stream',
+      contentType: 'text/event-stream',
+      schema: { type: 'string' },
+    },
+  },
+  {
+    method: 'post',
+    path: `${projectIdPath}/cancel-build`,
+    operationId: 'cancelBuild',
+    tag: 'Builds',
+    summary: 'Cancel the running build',
+    scope: 'builds:write',
+    requestBody: { type: 'object', properties: { reason: { type: 'string' } } },
+    response: {
+      description: 'Cancellation result',
+      schema: {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean' },
+          message: { type: 'string' },
+          sessionId: { type: 'string', format: 'uuid' },
+          runnerNotified: { type: 'boolean' },
+        },
+      },
+    },
+  },
+  {
+    method: 'get',
+    path: `${projectIdPath}/messages`,
+    operationId: 'listMessages',
+    tag: 'Messages',
+    summary: 'List messages and build sessions',
+    scope: 'messages:read',
+    response: {
+      description: 'Chat messages and the recorded build sessions (todos, tool calls, summaries)',
+      schema: {
+        type: 'object',
+        properties: {
+          messages: { type: 'array', items: ref('Message') },
+          sessions: { type: 'array', items: { type: 'object' } },
+        },
+      },
+    },
+  },
+  {
+    method: 'post',
+    path: `${projectIdPath}/messages`,
+    operationId: 'createMessage',
+    tag: 'Messages',
+    summary: 'Save a message',
+    scope: 'messages:write',
+    requestBody: {
+      type: 'object',
+      required: ['role'],
+      properties: {
+        role: { type: 'string', enum: ['user', 'assistant'] },
+        content: { type: 'string' },
+        parts: { type: 'array', items: { type: 'object' } },
+      },
+    },
+    response: {
+      description: 'The saved message',
+      schema: { type: 'object', properties: { message: ref('Message') } },
+    },
+  },
+  {
+    method: 'get',
+    path: `${projectIdPath}/files`,
+    operationId: 'listFiles',
+    tag: 'Files',
+    summary: 'Get the file tree',
+    scope: 'files:read',
+    response: {
+      description: 'Project files, excluding node_modules and build output',
+      schema: { type: 'object', properties: { files: { type: 'array', items: ref('FileNode') } } },
+    },
+  },
+  {
+    method: 'get',
+    path: `${projectIdPath}/files/content`,
+    operationId: 'readFile',
+    tag: 'Files',
+    summary: 'Read a file',
+    scope: 'files:read',
+    query: [{ name: 'path', description: 'Path relative to the project root', required: true, schema: { type: 'string' } }],
+    response: {
+      description: 'File content',
+      schema: { type: 'object', properties: { content: { type: 'string' }, size: { type: 'integer' } } },
+    },
+  },
+  {
+    method: 'put',
+    path: `${projectIdPath}/files/content`,
+    operationId: 'writeFile',
+    tag: 'Files',
+    summary: 'Write a file',
+    scope: 'files:write',
+    requestBody: {
+      type: 'object',
+      required: ['path', 'content'],
+      properties: { path: { type: 'string' }, content: { type: 'string', maxLength: 512000 } },
+    },
+    response: {
+      description: 'Saved',
+      schema: { type: 'object', properties: { success: { type: 'boolean' } } },
+    },
+  },
+  {
+    method: 'post',
+    path: `${projectIdPath}/start`,
+    operationId: 'startDevServer',
+    tag: 'Dev servers',
+    summary: 'Start the dev server',
+    description: 'Asks the project\'s runner to start the dev server. Poll getProject until `devServerStatus` is `running`.',
+    scope: 'servers:write',
+    response: {
+      description: 'Start requested (202), or already running',
+      schema: {
+        type: 'object',
+        properties: { message: { type: 'string' }, port: { type: 'integer' }, operationId: { type: 'string' } },
+      },
+    },
+  },
+  {
+    method: 'post',
+    path: `${projectIdPath}/stop`,
+    operationId: 'stopDevServer',
+    tag: 'Dev servers',
+    summary: 'Stop the dev server',
+    scope: 'servers:write',
+    response: {
+      description: 'Stop requested (202)',
+      schema: { type: 'object', properties: { message: { type: 'string' } } },
+    },
+  },
+];
+
+function errorResponse(description: string): Schema {
+  return { description, content: { 'application/json': { schema: ref('Error') } } };
+}
+
+function toOperationObject(operation: ApiOperation): Schema {
+  const parameters: Schema[] = [];
+  if (operation.path.includes('{id}')) {
+    parameters.push({
+      name: 'id',
+      in: 'path',
+      required: true,
+      description: 'Project ID',
+      schema: { type: 'string', format: 'uuid' },
+    });
+  }
+  for (const param of operation.query ?? []) {
+    parameters.push({ in: 'query', ...param });
+  }
+
+  return {
+    operationId: operation.operationId,
+    tags: [operation.tag],
+    summary: operation.summary,
+    description: [operation.description, `Requires the \`${operation.scope}\` scope when called with an API token.`]
+      .filter(Boolean)
+      .join('\n\n'),
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(operation.requestBody
+      ? { requestBody: { required: true, content: { 'application/json': { schema: operation.requestBody } } } }
+      : {}),
+    security: [{ apiToken: [operation.scope] }, { session: [] }],
+    responses: {
+      200: {
+        description: operation.response.description,
+        content: { [operation.response.contentType ?? 'application/json']: { schema: operation.response.schema } },
+      },
+      400: errorResponse('Invalid request'),
+      401: errorResponse('Missing or invalid credentials'),
+      403: errorResponse('Not the project owner, or the token lacks the scope'),
+      ...(operation.path.includes('{id}') ? { 404: errorResponse('Project not found') } : {}),
+    },
+  };
+}
+
+/**
+ * Build the OpenAPI 3.0 document for the given server URL
+ */
+export function buildOpenApiDocument(serverUrl: string) {
+  const paths: Record<string, Record<string, Schema>> = {};
+  for (const operation of OPERATIONS) {
+    paths[operation.path] ??= {};
+    paths[operation.path][operation.method] = toOperationObject(operation);
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'OpenBuilder API',
+      version: API_VERSION,
+      description:
+        'Create projects, run builds and read their results. Authenticate with a personal API token ' +
+        '(`Authorization: Bearer ob_...`) created from the API Tokens dialog. Each token only reaches the ' +
+        'operations its scopes allow. In local mode no authentication is needed.',
+    },
+    servers: [{ url: serverUrl }],
+    tags: [
+      { name: 'Projects' },
+      { name: 'Builds' },
+      { name: 'Messages' },
+      { name: 'Files' },
+      { name: 'Dev servers' },
+    ],
+    paths,
+    components: {
+      securitySchemes: {
+        apiToken: {
+          type: 'http',
+          scheme: 'bearer',
+          description: `Personal API token. Scopes: ${API_TOKEN_SCOPES.map((scope) => `\`${scope.id}\` (${scope.description})`).join(', ')}.`,
+        },
+        session: {
+          type: 'apiKey',
+          in: 'cookie',
+          name: 'better-auth.session_token',
+          description: 'Browser session from signing in to the web app',
+        },
+      },
+      schemas: SCHEMAS,
+    },
+  };
+}
@@ -0,0 +1,192 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { and, asc, eq } from 'drizzle-orm';
+import { db } from '@openbuilder/agent-core/lib/db/client';
+import { projectEnvVars } from '@openbuilder/agent-core/lib/db/schema';
+import { buildEnvForFramework, type FrameworkKey } from '@openbuilder/agent-core/lib/port-allocator';
+import type { RunnerCommand } from '@openbuilder/agent-core/shared/runner/messages';
+
+/**
+ * Per-project environment variables.
+ *
+ * Values are encrypted with AES-256-GCM before they hit the database and are
+ * only decrypted when a dev server is started. The agent only ever sees the
+ * variable names.
+ */
+
+const ENCRYPTION_VERSION = 'v1';
+const ENV_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const MAX_KEY_LENGTH = 128;
+const MAX_VALUE_LENGTH = 16 * 1024;
+
+// Managed by the port allocator - a project value would break port tracking
+const RESERVED_KEYS = new Set(['PORT']);
+
+export interface ProjectEnvVarSummary {
+  key: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+function getEncryptionSecret(): string {
+  if (process.env.PROJECT_ENV_ENCRYPTION_KEY) {
+    return process.env.PROJECT_ENV_ENCRYPTION_KEY;
+  }
+
+  if (process.env.BETTER_AUTH_SECRET) {
+    return process.env.BETTER_AUTH_SECRET;
+  }
+
+  if (process.env.OPENBUILDER_LOCAL_MODE === 'true') {
+    return 'local-development-secret-do-not-use-in-production';
+  }
+
+  throw new Error(
+    'PROJECT_ENV_ENCRYPTION_KEY (or BETTER_AUTH_SECRET) must be set to store project environment variables'
+  );
+}
+
+function getEncryptionKey(): Buffer {
+  return createHash('sha256').update(getEncryptionSecret()).digest();
+}
+
+function encryptValue(value: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [ENCRYPTION_VERSION, iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+function decryptValue(encrypted: string): string {
+  const [version, iv, tag, ciphertext] = encrypted.split(':');
+  if (version !== ENCRYPTION_VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error('Unsupported encrypted value format');
+  }
+
+  const decipher = createDecipheriv('aes-256-gcm', getEncryptionKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+}
+
+/**
+ * Validate a variable name and value. Returns an error message, or null when valid.
+ */
+export function validateProjectEnvVar(key: unknown, value?: unknown): string | null {
+  if (typeof key !== 'string' || !key) {
+    return 'key is required';
+  }
+  if (key.length > MAX_KEY_LENGTH || !ENV_KEY_PATTERN.test(key)) {
+    return 'key must start with a letter or underscore and contain only letters, digits and underscores';
+  }
+  if (RESERVED_KEYS.has(key)) {
+    return `${key} is managed by OpenBuilder and can't be overridden`;
+  }
+  if (value !== undefined) {
+    if (typeof value !== 'string') {
+      return 'value must be a string';
+    }
+    if (value.length > MAX_VALUE_LENGTH) {
+      return `value must be at most ${MAX_VALUE_LENGTH} characters`;
+    }
+  }
+  return null;
+}
+
+/**
+ * List a project's variables (names and timestamps only)
+ */
+export async function listProjectEnvVars(projectId: string): Promise<ProjectEnvVarSummary[]> {
+  return db
+    .select({
+      key: projectEnvVars.key,
+      createdAt: projectEnvVars.createdAt,
+      updatedAt: projectEnvVars.updatedAt,
+    })
+    .from(projectEnvVars)
+    .where(eq(projectEnvVars.projectId, projectId))
+    .orderBy(asc(projectEnvVars.key));
+}
+
+/**
+ * Variable names for the agent's system prompt
+ */
+export async function getProjectEnvVarNames(projectId: string): Promise<string[]> {
+  const vars = await listProjectEnvVars(projectId);
+  return vars.map((envVar) => envVar.key);
+}
+
+/**
+ * Create or replace a variable
+ */
+export async function setProjectEnvVar(projectId: string, key: string, value: string): Promise<ProjectEnvVarSummary> {
+  const now = new Date();
+  const encryptedValue = encryptValue(value);
+
+  const [saved] = await db
+    .insert(projectEnvVars)
+    .values({ projectId, key, encryptedValue })
+    .onConflictDoUpdate({
+      target: [projectEnvVars.projectId, projectEnvVars.key],
+      set: { encryptedValue, updatedAt: now },
+    })
+    .returning({
+      key: projectEnvVars.key,
+      createdAt: projectEnvVars.createdAt,
+      updatedAt: projectEnvVars.updatedAt,
+    });
+
+  return saved;
+}
+
+/**
+ * Delete a variable. Returns false when it didn't exist.
+ */
+export async function deleteProjectEnvVar(projectId: string, key: string): Promise<boolean> {
+  const deleted = await db
+    .delete(projectEnvVars)
+    .where(and(eq(projectEnvVars.projectId, projectId), eq(projectEnvVars.key, key)))
+    .returning({ id: projectEnvVars.id });
+
+  return deleted.length > 0;
+}
+
+/**
+ * Decrypted variables for a dev server start.
+ * Values that can't be decrypted (e.g. the encryption key changed) are skipped.
+ */
+export async function getProjectEnv(projectId: string): Promise<Record<string, string>> {
+  const rows = await db
+    .select({ key: projectEnvVars.key, encryptedValue: projectEnvVars.encryptedValue })
+    .from(projectEnvVars)
+    .where(eq(projectEnvVars.projectId, projectId));
+
+  const env: Record<string, string> = {};
+  for (const row of rows) {
+    try {
+      env[row.key] = decryptValue(row.encryptedValue);
+    } catch (error) {
+      console.warn(`[project-env] Failed to decrypt ${row.key} for project ${projectId}:`, error instanceof Error ? error.message : error);
+    }
+  }
+  return env;
+}
+
+/**
+ * Rebuild the env of a dev server start replayed from the durable command queue,
+ * which stores start commands without their (decrypted) env.
+ */
+export async function restoreQueuedCommandEnv(command: RunnerCommand): Promise<RunnerCommand> {
+  if (command.type !== 'start-dev-server' || command.payload.env) {
+    return command;
+  }
+
+  const { framework, preferredPort } = command.payload;
+  const portEnv = preferredPort ? buildEnvForFramework((framework ?? 'default') as FrameworkKey, preferredPort) : {};
+  const projectEnv = await getProjectEnv(command.projectId);
+
+  return { ...command, payload: { ...command.payload, env: { ...projectEnv, ...portEnv } } };
+}
@@ -1,4 +1,19 @@
-import { listRunnerConnections, isRunnerConnected } from '@openbuilder/agent-core/lib/runner/broker-state';
+import { randomUUID } from 'crypto';
+import { listRunnerConnections, isRunnerConnected, sendCommandToRunner } from '@openbuilder/agent-core/lib/runner/broker-state';
+import { addRunnerEventSubscriber } from '@openbuilder/agent-core/lib/runner/event-stream';
+import type {
+  BuildExportArtifact,
+  BuildExportChunkEvent,
+  ExportBuildCommand,
+  ExportProjectCommand,
+  ImportProjectCommand,
+  ImportSource,
+  ImportSourceCommand,
+  ProjectImportedEvent,
+  RunnerCommand,
+  RunnerEvent,
+  SourceImportedEvent,
+} from '@/shared/runner/messages';
 
 /**
  * Check if a specific runner is connected
@@ -76,3 +91,283 @@ export async function getProjectRunnerId(preferredRunnerId: string | null): Prom
   console.log(`✅ [getProjectRunnerId] New project, using runner: ${connections[0].runnerId}`);
   return connections[0].runnerId;
 }
+
+/**
+ * Send a command to a runner and wait for its reply event.
+ * Resolves with the first event of `replyType` for the command, rejects on an
+ * `error` event, a timeout, or if the command can't be sent.
+ */
+export async function requestFromRunner<T extends RunnerEvent['type']>(
+  runnerId: string,
+  command: RunnerCommand,
+  replyType: T,
+  timeoutMs = 10000
+): Promise<Extract<RunnerEvent, { type: T }>> {
+  let cancel: (error: Error) => void = () => {};
+
+  const replyPromise = new Promise<Extract<RunnerEvent, { type: T }>>((resolve, reject) => {
+    const timeoutId = setTimeout(() => {
+      unsubscribe();
+      reject(new Error(`${command.type} timed out`));
+    }, timeoutMs);
+
+    const unsubscribe = addRunnerEventSubscriber(command.id, (event: RunnerEvent) => {
+      if (event.type === replyType) {
+        clearTimeout(timeoutId);
+        unsubscribe();
+        resolve(event as Extract<RunnerEvent, { type: T }>);
+      } else if (event.type === 'error') {
+        clearTimeout(timeoutId);
+        unsubscribe();
+        reject(new Error(event.error || `${command.type} failed`));
+      }
+    });
+
+    cancel = (error) => {
+      clearTimeout(timeoutId);
+      unsubscribe();
+      reject(error);
+    };
+  });
+
+  try {
+    await sendCommandToRunner(runnerId, command);
+  } catch (error) {
+    replyPromise.catch(() => {});
+    cancel(error instanceof Error ? error : new Error(String(error)));
+    throw error;
+  }
+
+  return replyPromise;
+}
+
+const TRANSFER_TIMEOUT_MS = 5 * 60 * 1000;
+const IMPORT_TIMEOUT_MS = 10 * 60 * 1000; // Extracting + reinstalling dependencies on the target
+
+/**
+ * Copy a project's workspace from one runner to another.
+ * The source streams a tarball as project-export-chunk events; each chunk is
+ * relayed to the target as an import-project command, in order. Resolves with
+ * the target's project-imported payload once the final chunk is extracted.
+ */
+export async function transferProjectWorkspace(options: {
+  projectId: string;
+  slug: string;
+  sourceRunnerId: string;
+  targetRunnerId: string;
+}): Promise<ProjectImportedEvent['payload']> {
+  const { projectId, slug, sourceRunnerId, targetRunnerId } = options;
+  const transferId = randomUUID();
+
+  const exportCommand: ExportProjectCommand = {
+    id: randomUUID(),
+    type: 'export-project',
+    projectId,
+    timestamp: new Date().toISOString(),
+    payload: { slug, transferId },
+  };
+
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    let relay: Promise<void> = Promise.resolve();
+
+    const finish = (error: Error | null, result?: ProjectImportedEvent['payload']) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeoutId);
+      unsubscribe();
+      if (error) {
+        reject(error);
+      } else {
+        resolve(result!);
+      }
+    };
+
+    const timeoutId = setTimeout(() => {
+      finish(new Error('Project transfer timed out'));
+    }, TRANSFER_TIMEOUT_MS);
+
+    const unsubscribe = addRunnerEventSubscriber(exportCommand.id, (event: RunnerEvent) => {
+      if (event.type === 'error') {
+        finish(new Error(event.error || 'Project export failed'));
+        return;
+      }
+      if (event.type !== 'project-export-chunk') {
+        return;
+      }
+      if (event.error) {
+        finish(new Error(event.error));
+        return;
+      }
+
+      const importCommand: ImportProjectCommand = {
+        id: randomUUID(),
+        type: 'import-project',
+        projectId,
+        timestamp: new Date().toISOString(),
+        payload: {
+          slug,
+          transferId,
+          index: event.index,
+          chunk: event.chunk,
+          isFinal: event.isFinal,
+        },
+      };
+
+      // Chain sends so chunks reach the target in the order they were exported
+      relay = relay.then(async () => {
+        if (settled) return;
+        if (!event.isFinal) {
+          await sendCommandToRunner(targetRunnerId, importCommand);
+          return;
+        }
+
+        clearTimeout(timeoutId);
+        const imported = await requestFromRunner(targetRunnerId, importCommand, 'project-imported', IMPORT_TIMEOUT_MS);
+        finish(null, imported.payload);
+      }).catch((error) => {
+        finish(error instanceof Error ? error : new Error(String(error)));
+      });
+    });
+
+    sendCommandToRunner(sourceRunnerId, exportCommand).catch((error) => {
+      finish(error instanceof Error ? error : new Error(String(error)));
+    });
+  });
+}
+
+const SOURCE_IMPORT_TIMEOUT_MS = 10 * 60 * 1000; // Clone or copy + dependency install
+
+/**
+ * Clone a git repository or adopt a local directory into a runner's workspace.
+ * Resolves with the runner's source-imported payload, which carries the
+ * detected framework and run command when the import succeeded.
+ */
+export async function importSourceOnRunner(options: {
+  projectId: string;
+  slug: string;
+  runnerId: string;
+  source: ImportSource;
+}): Promise<SourceImportedEvent['payload']> {
+  const { projectId, slug, runnerId, source } = options;
+
+  const command: ImportSourceCommand = {
+    id: randomUUID(),
+    type: 'import-source',
+    projectId,
+    timestamp: new Date().toISOString(),
+    payload: { slug, source },
+  };
+
+  const imported = await requestFromRunner(runnerId, command, 'source-imported', SOURCE_IMPORT_TIMEOUT_MS);
+  return imported.payload;
+}
+
+const BUILD_EXPORT_TIMEOUT_MS = 15 * 60 * 1000; // Dependency install + production build + packaging
+
+export type BuildExportStreamResult =
+  | { success: true; artifact?: BuildExportArtifact; stream: ReadableStream<Uint8Array> }
+  | { success: false; error: string; buildErrors?: string[] };
+
+/**
+ * Build a project for production on its runner and stream the packaged artifact.
+ * The runner only starts sending build-export-chunk events once the build
+ * succeeded, so this resolves after the first chunk with a stream of the
+ * gzipped tarball, or with the build error if the first chunk carries one.
+ */
+export async function streamBuildExport(options: {
+  projectId: string;
+  slug: string;
+  runnerId: string;
+  framework?: string | null;
+}): Promise<BuildExportStreamResult> {
+  const { projectId, slug, runnerId, framework } = options;
+
+  const exportCommand: ExportBuildCommand = {
+    id: randomUUID(),
+    type: 'export-build',
+    projectId,
+    timestamp: new Date().toISOString(),
+    payload: { slug, exportId: randomUUID(), framework },
+  };
+
+  return new Promise((resolve, reject) => {
+    let controller!: ReadableStreamDefaultController<Uint8Array>;
+    let started = false;
+    let finished = false;
+    let nextIndex = 0;
+    const pending = new Map<number, BuildExportChunkEvent>(); // Chunks that arrived ahead of nextIndex
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(streamController) {
+        controller = streamController;
+      },
+      cancel() {
+        // The client went away - stop listening, the runner finishes on its own
+        finish();
+      },
+    });
+
+    const finish = () => {
+      if (finished) return;
+      finished = true;
+      clearTimeout(timeoutId);
+      unsubscribe();
+    };
+
+    const fail = (error: Error, buildErrors?: string[]) => {
+      if (finished) return;
+      finish();
+      if (started) {
+        controller.error(error);
+      } else {
+        resolve({ success: false, error: error.message, buildErrors });
+      }
+    };
+
+    const timeoutId = setTimeout(() => {
+      fail(new Error('Production export timed out'));
+    }, BUILD_EXPORT_TIMEOUT_MS);
+
+    const unsubscribe = addRunnerEventSubscriber(exportCommand.id, (event: RunnerEvent) => {
+      if (event.type === 'error') {
+        fail(new Error(event.error || 'Production export failed'));
+        return;
+      }
+      if (event.type !== 'build-export-chunk' || finished) {
+        return;
+      }
+
+      pending.set(event.index, event);
+      while (pending.has(nextIndex)) {
+        const chunk = pending.get(nextIndex)!;
+        pending.delete(nextIndex);
+        nextIndex += 1;
+
+        if (chunk.error) {
+          fail(new Error(chunk.error), chunk.buildErrors);
+          return;
+        }
+
+        if (!started) {
+          started = true;
+          resolve({ success: true, artifact: chunk.artifact, stream });
+        }
+
+        if (chunk.chunk) {
+          controller.enqueue(new Uint8Array(Buffer.from(chunk.chunk, 'base64')));
+        }
+        if (chunk.isFinal) {
+          finish();
+          controller.close();
+          return;
+        }
+      }
+    });
+
+    sendCommandToRunner(runnerId, exportCommand).catch((error) => {
+      finish();
+      reject(error instanceof Error ? error : new Error(String(error)));
+    });
+  });
+}
@@ -0,0 +1,226 @@
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import type { BuildBudget } from '@openbuilder/agent-core';
+import { db } from '@openbuilder/agent-core/lib/db/client';
+import { spendingLimits, type SpendingLimit } from '@openbuilder/agent-core/lib/db/schema';
+import { formatCostUsd, formatTokenCount } from '@/lib/utils';
+import { getUsageTotalsSince, type UsageTotals } from '@/lib/usage';
+
+/**
+ * Spending limits.
+ *
+ * A limit applies to a user (all of their projects) or to a single project.
+ * The row with scopeId '*' is the default for its scope; a row for a specific
+ * user or project replaces it. Monthly budgets are checked before a build is
+ * dispatched, the per-build cap is sent with start-build and enforced by the
+ * runner while the agent works.
+ *
+ * Tokens count input + output - cache reads and writes only count towards cost.
+ */
+
+export type SpendingLimitScope = 'user' | 'project';
+export type SpendingLimitEnforcement = 'block' | 'warn';
+
+export const DEFAULT_SCOPE_ID = '*';
+
+// Share of a monthly budget after which builds carry a warning
+const WARNING_THRESHOLD = 0.8;
+
+export interface SpendingLimitInput {
+  scope: SpendingLimitScope;
+  scopeId: string;
+  monthlyCostUsd: number | null;
+  monthlyTokens: number | null;
+  perBuildCostUsd: number | null;
+  perBuildTokens: number | null;
+  enforcement: SpendingLimitEnforcement;
+}
+
+export interface BuildBudgetCheck {
+  allowed: boolean;
+  error?: string;
+  warnings: string[];
+  budget?: BuildBudget;
+}
+
+function isLimitValue(value: unknown): value is number | null {
+  return value === null || (typeof value === 'number' && Number.isFinite(value) && value > 0);
+}
+
+/**
+ * Validate a limit from a request body. Returns an error message, or null when valid.
+ */
+export function validateSpendingLimit(input: unknown): string | null {
+  if (typeof input !== 'object' || input === null) {
+    return 'body must be an object';
+  }
+  const limit = input as Record<string, unknown>;
+
+  if (limit.scope !== 'user' && limit.scope !== 'project') {
+    return "scope must be 'user' or 'project'";
+  }
+  if (typeof limit.scopeId !== 'string' || !limit.scopeId.trim()) {
+    return `scopeId is required - use '${DEFAULT_SCOPE_ID}' for the default limit`;
+  }
+  for (const field of ['monthlyCostUsd', 'monthlyTokens', 'perBuildCostUsd', 'perBuildTokens'] as const) {
+    if (!isLimitValue(limit[field] ?? null)) {
+      return `${field} must be a positive number or null`;
+    }
+  }
+  for (const field of ['monthlyTokens', 'perBuildTokens'] as const) {
+    if (typeof limit[field] === 'number' && !Number.isInteger(limit[field])) {
+      return `${field} must be a whole number`;
+    }
+  }
+  if (limit.enforcement !== undefined && limit.enforcement !== 'block' && limit.enforcement !== 'warn') {
+    return "enforcement must be 'block' or 'warn'";
+  }
+  return null;
+}
+
+/**
+ * All limits, defaults first
+ */
+export async function listSpendingLimits(): Promise<SpendingLimit[]> {
+  return db
+    .select()
+    .from(spendingLimits)
+    .orderBy(asc(spendingLimits.scope), asc(spendingLimits.scopeId));
+}
+
+/**
+ * Create or replace the limit of a scope
+ */
+export async function setSpendingLimit(input: SpendingLimitInput): Promise<SpendingLimit> {
+  const values = {
+    monthlyCostUsd: input.monthlyCostUsd,
+    monthlyTokens: input.monthlyTokens,
+    perBuildCostUsd: input.perBuildCostUsd,
+    perBuildTokens: input.perBuildTokens,
+    enforcement: input.enforcement,
+  };
+
+  const [saved] = await db
+    .insert(spendingLimits)
+    .values({ scope: input.scope, scopeId: input.scopeId.trim(), ...values })
+    .onConflictDoUpdate({
+      target: [spendingLimits.scope, spendingLimits.scopeId],
+      set: { ...values, updatedAt: new Date() },
+    })
+    .returning();
+
+  return saved;
+}
+
+/**
+ * Delete a limit. Returns false when it didn't exist.
+ */
+export async function deleteSpendingLimit(id: string): Promise<boolean> {
+  const deleted = await db
+    .delete(spendingLimits)
+    .where(eq(spendingLimits.id, id))
+    .returning({ id: spendingLimits.id });
+
+  return deleted.length > 0;
+}
+
+/**
+ * The limit that applies to a user or project - its own row, else the default
+ */
+async function resolveLimit(scope: SpendingLimitScope, scopeId: string | null): Promise<SpendingLimit | null> {
+  const scopeIds = scopeId ? [scopeId, DEFAULT_SCOPE_ID] : [DEFAULT_SCOPE_ID];
+  const rows = await db
+    .select()
+    .from(spendingLimits)
+    .where(and(eq(spendingLimits.scope, scope), inArray(spendingLimits.scopeId, scopeIds)));
+
+  return rows.find((row) => row.scopeId !== DEFAULT_SCOPE_ID) ?? rows[0] ?? null;
+}
+
+function startOfMonthUtc(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+function minLimit(...values: Array<number | null | undefined>): number | null {
+  const limits = values.filter((value): value is number => typeof value === 'number');
+  return limits.length > 0 ? Math.min(...limits) : null;
+}
+
+/**
+ * Check the user's and project's monthly budgets before dispatching a build and
+ * work out the per-build cap to send to the runner.
+ * Pass a null userId in local mode - only the default user limit applies there.
+ */
+export async function checkBuildBudget({
+  userId,
+  projectId,
+}: {
+  userId: string | null;
+  projectId: string;
+}): Promise<BuildBudgetCheck> {
+  const [userLimit, projectLimit] = await Promise.all([
+    resolveLimit('user', userId),
+    resolveLimit('project', projectId),
+  ]);
+
+  if (!userLimit && !projectLimit) {
+    return { allowed: true, warnings: [] };
+  }
+
+  const monthStart = startOfMonthUtc();
+  const checks: Array<{ label: string; limit: SpendingLimit; usage: UsageTotals }> = [];
+  if (userLimit) {
+    checks.push({ label: 'Your', limit: userLimit, usage: await getUsageTotalsSince({ userId }, monthStart) });
+  }
+  if (projectLimit) {
+    checks.push({ label: "This project's", limit: projectLimit, usage: await getUsageTotalsSince({ projectId }, monthStart) });
+  }
+
+  const warnings: string[] = [];
+  let maxCostUsd = minLimit(userLimit?.perBuildCostUsd, projectLimit?.perBuildCostUsd);
+  let maxTokens = minLimit(userLimit?.perBuildTokens, projectLimit?.perBuildTokens);
+
+  for (const { label, limit, usage } of checks) {
+    const blocking = limit.enforcement !== 'warn';
+    const budgets = [
+      {
+        max: limit.monthlyCostUsd,
+        used: usage.costUsd,
+        format: formatCostUsd,
+        noun: 'cost',
+      },
+      {
+        max: limit.monthlyTokens,
+        used: usage.inputTokens + usage.outputTokens,
+        format: formatTokenCount,
+        noun: 'token',
+      },
+    ];
+
+    for (const { max, used, format, noun } of budgets) {
+      if (max === null) continue;
+
+      if (used >= max) {
+        const message = `${label} monthly ${noun} budget is used up (${format(used)} of ${format(max)})`;
+        if (blocking) {
+          return { allowed: false, error: message, warnings };
+        }
+        warnings.push(message);
+      } else if (used >= max * WARNING_THRESHOLD) {
+        warnings.push(`${label} monthly ${noun} budget is ${Math.floor((used / max) * 100)}% used (${format(used)} of ${format(max)})`);
+      }
+    }
+
+    // A blocking monthly budget also caps the build at what is left of it
+    if (blocking) {
+      if (limit.monthlyCostUsd !== null) {
+        maxCostUsd = minLimit(maxCostUsd, limit.monthlyCostUsd - usage.costUsd);
+      }
+      if (limit.monthlyTokens !== null) {
+        maxTokens = minLimit(maxTokens, limit.monthlyTokens - usage.inputTokens - usage.outputTokens);
+      }
+    }
+  }
+
+  const budget = maxCostUsd !== null || maxTokens !== null ? { maxCostUsd, maxTokens } : undefined;
+  return { allowed: true, warnings, budget };
+}
@@ -0,0 +1,202 @@
+import { and, desc, eq, gte, isNotNull, sql, type SQL } from 'drizzle-orm';
+import { db } from '@openbuilder/agent-core/lib/db/client';
+import { generationSessions, projects } from '@openbuilder/agent-core/lib/db/schema';
+
+/**
+ * Token and cost usage.
+ *
+ * The runner reports usage once per build (build-usage event) and it is stored
+ * on the generation session. Totals here only count sessions that reported
+ * usage - builds that ran before accounting existed are left out.
+ */
+
+const RECENT_BUILDS_LIMIT = 50;
+
+export interface UsageTotals {
+  builds: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  costUsd: number;
+  turns: number;
+}
+
+export interface ProjectUsageSummary extends UsageTotals {
+  projectId: string;
+  projectName: string;
+  lastBuildAt: string | null;
+}
+
+export interface ModelUsageSummary extends UsageTotals {
+  model: string;
+}
+
+export interface BuildUsageRecord {
+  sessionId: string;
+  projectId: string;
+  projectName: string;
+  operationType: string | null;
+  status: string;
+  agentId: string | null;
+  model: string | null;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  costUsd: number | null;
+  turns: number;
+  startedAt: string;
+}
+
+export interface ProjectUsage {
+  totals: UsageTotals;
+  builds: BuildUsageRecord[];
+}
+
+export interface UserUsage {
+  totals: UsageTotals;
+  projects: ProjectUsageSummary[];
+  models: ModelUsageSummary[];
+  builds: BuildUsageRecord[];
+}
+
+const totalsColumns = {
+  builds: sql<number>`count(*)`.mapWith(Number),
+  inputTokens: sql<number>`coalesce(sum(${generationSessions.inputTokens}), 0)`.mapWith(Number),
+  outputTokens: sql<number>`coalesce(sum(${generationSessions.outputTokens}), 0)`.mapWith(Number),
+  cacheReadTokens: sql<number>`coalesce(sum(${generationSessions.cacheReadTokens}), 0)`.mapWith(Number),
+  cacheWriteTokens: sql<number>`coalesce(sum(${generationSessions.cacheWriteTokens}), 0)`.mapWith(Number),
+  costUsd: sql<number>`coalesce(sum(${generationSessions.costUsd}), 0)`.mapWith(Number),
+  turns: sql<number>`coalesce(sum(${generationSessions.numTurns}), 0)`.mapWith(Number),
+};
+
+const EMPTY_TOTALS: UsageTotals = {
+  builds: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  cacheReadTokens: 0,
+  cacheWriteTokens: 0,
+  costUsd: 0,
+  turns: 0,
+};
+
+function withUsage(filter?: SQL): SQL {
+  const hasUsage = isNotNull(generationSessions.inputTokens);
+  return filter ? and(hasUsage, filter)! : hasUsage;
+}
+
+async function getTotals(filter?: SQL): Promise<UsageTotals> {
+  const [totals] = await db
+    .select(totalsColumns)
+    .from(generationSessions)
+    .innerJoin(projects, eq(generationSessions.projectId, projects.id))
+    .where(withUsage(filter));
+
+  return totals ?? EMPTY_TOTALS;
+}
+
+async function getRecentBuilds(filter?: SQL): Promise<BuildUsageRecord[]> {
+  const rows = await db
+    .select({
+      sessionId: generationSessions.id,
+      projectId: generationSessions.projectId,
+      projectName: projects.name,
+      operationType: generationSessions.operationType,
+      status: generationSessions.status,
+      agentId: generationSessions.agentId,
+      model: generationSessions.model,
+      inputTokens: generationSessions.inputTokens,
+      outputTokens: generationSessions.outputTokens,
+      cacheReadTokens: generationSessions.cacheReadTokens,
+      cacheWriteTokens: generationSessions.cacheWriteTokens,
+      costUsd: generationSessions.costUsd,
+      turns: generationSessions.numTurns,
+      startedAt: generationSessions.startedAt,
+    })
+    .from(generationSessions)
+    .innerJoin(projects, eq(generationSessions.projectId, projects.id))
+    .where(withUsage(filter))
+    .orderBy(desc(generationSessions.startedAt))
+    .limit(RECENT_BUILDS_LIMIT);
+
+  return rows.map((row) => ({
+    ...row,
+    inputTokens: row.inputTokens ?? 0,
+    outputTokens: row.outputTokens ?? 0,
+    cacheReadTokens: row.cacheReadTokens ?? 0,
+    cacheWriteTokens: row.cacheWriteTokens ?? 0,
+    turns: row.turns ?? 0,
+    startedAt: row.startedAt.toISOString(),
+  }));
+}
+
+/**
+ * Usage of a single project: totals and its most recent builds
+ */
+export async function getProjectUsage(projectId: string): Promise<ProjectUsage> {
+  const filter = eq(generationSessions.projectId, projectId);
+  const [totals, builds] = await Promise.all([getTotals(filter), getRecentBuilds(filter)]);
+  return { totals, builds };
+}
+
+/**
+ * Usage across a user's projects, broken down by project and model.
+ * Pass null for local mode, where every project belongs to the local user.
+ */
+export async function getUserUsage(userId: string | null): Promise<UserUsage> {
+  const filter = userId ? eq(projects.userId, userId) : undefined;
+
+  const [totals, projectRows, modelRows, builds] = await Promise.all([
+    getTotals(filter),
+    db
+      .select({
+        projectId: projects.id,
+        projectName: projects.name,
+        lastBuildAt: sql<string | null>`max(${generationSessions.startedAt})`,
+        ...totalsColumns,
+      })
+      .from(generationSessions)
+      .innerJoin(projects, eq(generationSessions.projectId, projects.id))
+      .where(withUsage(filter))
+      .groupBy(projects.id, projects.name)
+      .orderBy(desc(totalsColumns.costUsd)),
+    db
+      .select({
+        model: sql<string>`coalesce(${generationSessions.model}, 'unknown')`,
+        ...totalsColumns,
+      })
+      .from(generationSessions)
+      .innerJoin(projects, eq(generationSessions.projectId, projects.id))
+      .where(withUsage(filter))
+      .groupBy(sql`coalesce(${generationSessions.model}, 'unknown')`)
+      .orderBy(desc(totalsColumns.costUsd)),
+    getRecentBuilds(filter),
+  ]);
+
+  return {
+    totals,
+    projects: projectRows.map((row) => ({
+      ...row,
+      lastBuildAt: row.lastBuildAt ? new Date(row.lastBuildAt).toISOString() : null,
+    })),
+    models: modelRows,
+    builds,
+  };
+}
+
+/**
+ * Totals since a point in time, for one project or all of a user's projects
+ * (every project when userId is null - local mode)
+ */
+export async function getUsageTotalsSince(
+  scope: { projectId: string } | { userId: string | null },
+  since: Date
+): Promise<UsageTotals> {
+  const scopeFilter = 'projectId' in scope
+    ? eq(generationSessions.projectId, scope.projectId)
+    : scope.userId ? eq(projects.userId, scope.userId) : undefined;
+  const sinceFilter = gte(generationSessions.startedAt, since);
+
+  return getTotals(scopeFilter ? and(scopeFilter, sinceFilter) : sinceFilter);
+}
@@ -49,3 +49,19 @@ export function getContrastTextColor(
   // Colors with luminance > 0.179 are "light" and need dark text
   return bgLuminance > 0.179 ? darkColor : lightColor;
 }
+
+/**
+ * Compact token count for badges, e.g. 950, 12.3k, 1.2M
+ */
+export function formatTokenCount(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
+
+/**
+ * Dollar cost with enough precision for cheap builds, e.g. $0.0042, $1.27
+ */
+export function formatCostUsd(cost: number): string {
+  return `$${cost.toFixed(cost < 0.1 ? 4 : 2)}`;
+}
@@ -0,0 +1,18 @@
+/**
+ * Events an outbound webhook can subscribe to
+ * Kept free of server imports so the webhook manager UI can list them too.
+ */
+export const WEBHOOK_EVENTS = [
+  { id: "build-started", description: "A build or auto-fix started running" },
+  { id: "build-completed", description: "A build finished successfully" },
+  { id: "build-failed", description: "A build failed or was stopped by its budget" },
+  { id: "dev-server-error", description: "The dev server reported an error after a build" },
+  { id: "tunnel-created", description: "A public tunnel URL was created for the dev server" },
+  { id: "process-exited", description: "The dev server process exited" },
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number]["id"];
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return WEBHOOK_EVENTS.some((event) => event.id === value);
+}
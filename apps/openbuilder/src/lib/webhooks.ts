@@ -0,0 +1,384 @@
+import { createHmac, randomBytes } from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { and, eq, isNull, or } from 'drizzle-orm';
+import * as Sentry from '@sentry/nextjs';
+import { db } from '@openbuilder/agent-core/lib/db/client';
+import { projects, webhookDeliveries, webhooks, type WebhookDelivery } from '@openbuilder/agent-core/lib/db/schema';
+import type { WebhookEvent } from '@/lib/webhook-events';
+import { isLocalMode } from '@/lib/auth-helpers';
+
+/**
+ * Outbound webhooks.
+ *
+ * A webhook belongs to a user and either one project or all of the user's
+ * projects. Every event creates a delivery row which is POSTed with an HMAC
+ * signature and retried with backoff until it gets a 2xx or runs out of
+ * attempts. Retries are timers in this process; deliveries still pending
+ * when the server restarts are picked up again on startup.
+ *
+ * Receivers verify `X-OpenBuilder-Signature` by computing
+ * HMAC-SHA256(secret, `${X-OpenBuilder-Timestamp}.${raw body}`).
+ *
+ * Outside local mode webhooks may only reach the public internet: localhost,
+ * private and link-local targets are rejected when a webhook is saved and
+ * again on every delivery, against the addresses the host resolves to right
+ * before connecting. Only the response status is kept, never the body.
+ */
+
+export interface WebhookPayload {
+  event: WebhookEvent;
+  createdAt: string;
+  project: { id: string; name: string; slug: string };
+  data: Record<string, unknown>;
+}
+
+const SECRET_PREFIX = 'whsec_';
+const DELIVERY_TIMEOUT_MS = 10_000;
+const PRIVATE_TARGET_ERROR = 'URL must not point to localhost or a private network address';
+
+// Loopback, private, shared (CGNAT), link-local - cloud metadata included - and multicast ranges
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], // Unspecified and loopback
+  ['fc00::', 7], // Unique local
+  ['fe80::', 10], // Link-local
+  ['ff00::', 8], // Multicast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+// Delay before each retry - the first attempt is immediate, so MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1
+const RETRY_DELAYS_MS = [10_000, 60_000, 5 * 60_000, 30 * 60_000];
+export const MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+
+// Scheduled retries, so a delivery is never attempted twice at once
+const scheduledRetries = new Map<string, NodeJS.Timeout>();
+
+export function generateWebhookSecret(): string {
+  return `${SECRET_PREFIX}${randomBytes(24).toString('hex')}`;
+}
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+function isBlockedAddress(address: string): boolean {
+  const family = isIP(address);
+  return family !== 0 && BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+// URL hostnames keep IPv6 brackets and may end in a root dot
+function getHostname(url: URL): string {
+  return url.hostname.replace(/^\[|\]$/g, '').replace(/\.$/, '').toLowerCase();
+}
+
+/**
+ * Whether a URL names a local host outright - localhost or a blocked IP literal.
+ * Other hostnames are checked once resolved.
+ */
+function isLocalHostname(url: URL): boolean {
+  const hostname = getHostname(url);
+  return hostname === 'localhost' || hostname.endsWith('.localhost') || isBlockedAddress(hostname);
+}
+
+/**
+ * DNS lookup for deliveries that fails when the host resolves to a blocked address
+ */
+const publicAddressLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+    if (addresses.some(({ address }) => isBlockedAddress(address))) {
+      callback(new Error(PRIVATE_TARGET_ERROR), '', 0);
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * Validate a webhook URL. Returns an error message, or null when valid.
+ */
+export async function validateWebhookUrl(url: unknown): Promise<string | null> {
+  if (typeof url !== 'string' || !url.trim()) {
+    return 'URL is required';
+  }
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return 'URL is not valid';
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    return 'URL must start with http:// or https://';
+  }
+
+  // Local mode receivers usually run on the same machine
+  if (isLocalMode()) {
+    return null;
+  }
+  if (isLocalHostname(parsed)) {
+    return PRIVATE_TARGET_ERROR;
+  }
+  const addresses = await dns.promises.lookup(getHostname(parsed), { all: true }).catch(() => null);
+  if (!addresses) {
+    return `Could not resolve ${parsed.hostname}`;
+  }
+  if (addresses.some(({ address }) => isBlockedAddress(address))) {
+    return PRIVATE_TARGET_ERROR;
+  }
+  return null;
+}
+
+/**
+ * POST a delivery and return the response status. Uses node's HTTP client
+ * rather than fetch so resolved addresses are checked at connect time.
+ */
+function postWebhook(url: URL, headers: Record<string, string>, body: string): Promise<number> {
+  if (!isLocalMode() && isLocalHostname(url)) {
+    return Promise.reject(new Error(PRIVATE_TARGET_ERROR));
+  }
+
+  const request = url.protocol === 'https:' ? https.request : http.request;
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+        lookup: isLocalMode() ? undefined : publicAddressLookup,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      },
+      (res) => {
+        // The body is never read - receivers' responses aren't kept
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      }
+    );
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+/**
+ * Send an event to every matching webhook.
+ * Fire-and-forget: callers are event handlers that must not fail or wait on delivery.
+ */
+export function dispatchWebhookEvent(projectId: string, event: WebhookEvent, data: Record<string, unknown> = {}) {
+  queueDeliveries(projectId, event, data).catch((error) => {
+    console.error(`[webhooks] Failed to queue ${event} for project ${projectId}:`, error);
+    Sentry.captureException(error, { tags: { webhook_event: event } });
+  });
+}
+
+async function queueDeliveries(projectId: string, event: WebhookEvent, data: Record<string, unknown>) {
+  const project = await db.query.projects.findFirst({ where: eq(projects.id, projectId) });
+  if (!project) {
+    return;
+  }
+
+  // Project webhooks, plus the owner's webhooks for all projects.
+  // Local mode stores both projects and webhooks without a user.
+  const candidates = await db
+    .select()
+    .from(webhooks)
+    .where(
+      and(
+        eq(webhooks.active, true),
+        or(
+          eq(webhooks.projectId, projectId),
+          and(
+            isNull(webhooks.projectId),
+            project.userId ? eq(webhooks.userId, project.userId) : isNull(webhooks.userId)
+          )
+        )
+      )
+    );
+
+  const subscribed = candidates.filter((webhook) => webhook.events.includes(event));
+  if (subscribed.length === 0) {
+    return;
+  }
+
+  const payload: WebhookPayload = {
+    event,
+    createdAt: new Date().toISOString(),
+    project: { id: project.id, name: project.name, slug: project.slug },
+    data,
+  };
+
+  const inserted = await db
+    .insert(webhookDeliveries)
+    .values(subscribed.map((webhook) => ({ webhookId: webhook.id, projectId, event, payload })))
+    .returning({ id: webhookDeliveries.id });
+
+  for (const { id } of inserted) {
+    void attemptDelivery(id);
+  }
+}
+
+function scheduleRetry(deliveryId: string, delayMs: number) {
+  clearTimeout(scheduledRetries.get(deliveryId));
+  const timer = setTimeout(() => {
+    scheduledRetries.delete(deliveryId);
+    void attemptDelivery(deliveryId);
+  }, delayMs);
+  timer.unref?.();
+  scheduledRetries.set(deliveryId, timer);
+}
+
+/**
+ * Make one delivery attempt and record the outcome, scheduling a retry on failure
+ */
+async function attemptDelivery(deliveryId: string) {
+  try {
+    const [row] = await db
+      .select({ delivery: webhookDeliveries, webhook: webhooks })
+      .from(webhookDeliveries)
+      .innerJoin(webhooks, eq(webhookDeliveries.webhookId, webhooks.id))
+      .where(eq(webhookDeliveries.id, deliveryId))
+      .limit(1);
+
+    if (!row || row.delivery.status !== 'pending') {
+      return;
+    }
+
+    const { delivery, webhook } = row;
+
+    if (!webhook.active) {
+      await db
+        .update(webhookDeliveries)
+        .set({ status: 'failed', error: 'Webhook was disabled before delivery', nextAttemptAt: null })
+        .where(eq(webhookDeliveries.id, deliveryId));
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const attempts = delivery.attempts + 1;
+    const startedAt = Date.now();
+
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    try {
+      // Redirects are not followed
+      responseStatus = await postWebhook(new URL(webhook.url), {
+        'Content-Type': 'application/json',
+        'User-Agent': 'OpenBuilder-Webhooks/1.0',
+        'X-OpenBuilder-Event': delivery.event,
+        'X-OpenBuilder-Delivery': delivery.id,
+        'X-OpenBuilder-Timestamp': String(timestamp),
+        'X-OpenBuilder-Signature': `sha256=${signWebhookPayload(webhook.secret, timestamp, body)}`,
+      }, body);
+    } catch (deliveryError) {
+      error = deliveryError instanceof Error ? deliveryError.message : String(deliveryError);
+    }
+
+    const durationMs = Date.now() - startedAt;
+    const succeeded = responseStatus !== null && responseStatus >= 200 && responseStatus < 300;
+    const retryDelay = succeeded ? undefined : RETRY_DELAYS_MS[attempts - 1];
+    const status = succeeded ? 'succeeded' : retryDelay !== undefined ? 'pending' : 'failed';
+
+    await db
+      .update(webhookDeliveries)
+      .set({
+        status,
+        attempts,
+        responseStatus,
+        error,
+        durationMs,
+        nextAttemptAt: retryDelay !== undefined ? new Date(Date.now() + retryDelay) : null,
+        deliveredAt: succeeded ? new Date() : null,
+      })
+      .where(eq(webhookDeliveries.id, deliveryId));
+
+    Sentry.metrics.count('webhook.delivery_attempt', 1, {
+      attributes: {
+        event: delivery.event,
+        outcome: status,
+        attempt: String(attempts),
+      }
+    });
+
+    if (retryDelay !== undefined) {
+      console.log(`[webhooks] Delivery ${deliveryId} attempt ${attempts} failed (${responseStatus ?? error}), retrying in ${retryDelay / 1000}s`);
+      scheduleRetry(deliveryId, retryDelay);
+    }
+  } catch (error) {
+    console.error(`[webhooks] Delivery ${deliveryId} attempt errored:`, error);
+    Sentry.captureException(error, { tags: { webhook_delivery_id: deliveryId } });
+  }
+}
+
+/**
+ * Send a delivery's payload again as a new delivery with a fresh set of attempts
+ */
+export async function redeliverWebhookDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const [copy] = await db
+    .insert(webhookDeliveries)
+    .values({
+      webhookId: delivery.webhookId,
+      projectId: delivery.projectId,
+      event: delivery.event,
+      payload: delivery.payload,
+      redeliveryOf: delivery.id,
+    })
+    .returning();
+
+  void attemptDelivery(copy.id);
+  return copy;
+}
+
+/**
+ * Reschedule deliveries whose retry timers were lost when the server stopped
+ */
+export async function resumePendingWebhookDeliveries(): Promise<number> {
+  const pending = await db
+    .select({ id: webhookDeliveries.id, nextAttemptAt: webhookDeliveries.nextAttemptAt })
+    .from(webhookDeliveries)
+    .where(eq(webhookDeliveries.status, 'pending'));
+
+  const now = Date.now();
+  pending.forEach(({ id, nextAttemptAt }, index) => {
+    // Overdue deliveries are staggered so a backlog doesn't fire all at once
+    const dueIn = nextAttemptAt ? nextAttemptAt.getTime() - now : 0;
+    scheduleRetry(id, Math.max(dueIn, index * 200));
+  });
+
+  return pending.length;
+}
+
+/**
+ * Find a webhook owned by the given user (null owner in local mode)
+ */
+export async function findOwnedWebhook(webhookId: string, ownerId: string | null) {
+  return db.query.webhooks.findFirst({
+    where: and(
+      eq(webhooks.id, webhookId),
+      ownerId ? eq(webhooks.userId, ownerId) : isNull(webhooks.userId)
+    ),
+  });
+}
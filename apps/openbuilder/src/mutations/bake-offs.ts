@@ -0,0 +1,123 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { SerializedTag } from '@openbuilder/agent-core/lib/tags/serialization';
+import type { MessagePart, Project } from '@/queries/projects';
+import type { BakeOffAnalysis } from '@/lib/bake-offs';
+
+interface StartBakeOffData {
+  prompt: string;
+  analysis: BakeOffAnalysis & { template?: Record<string, unknown> | null };
+  models: string[];
+  tags: SerializedTag[];
+  runnerId: string | null;
+  messageParts?: MessagePart[];
+}
+
+interface StartBakeOffResult {
+  bakeOffId: string;
+  failedBuilds: Array<{ projectName: string; error: string }>;
+}
+
+/**
+ * Create the bake-off, then start every sibling's build in parallel.
+ * Build streams are dropped right away - the comparison view polls for progress.
+ */
+async function startBakeOff(data: StartBakeOffData): Promise<StartBakeOffResult> {
+  const res = await fetch('/api/bake-offs', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      prompt: data.prompt,
+      analysis: data.analysis,
+      models: data.models,
+      tags: data.tags,
+      runnerId: data.runnerId,
+    }),
+  });
+
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error || 'Failed to create bake-off');
+  }
+
+  const { bakeOff, projects } = await res.json() as { bakeOff: { id: string }; projects: Project[] };
+  const startedAt = Date.now();
+
+  const results = await Promise.all(projects.map(async (project, index) => {
+    const buildRes = await fetch(`/api/projects/${project.id}/build`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        operationType: 'initial-build',
+        prompt: data.prompt,
+        messageParts: data.messageParts,
+        buildId: `build-${startedAt}-${index}`,
+        runnerId: data.runnerId,
+        tags: project.tags,
+        template: data.analysis.template ?? undefined,
+      }),
+    });
+
+    if (!buildRes.ok) {
+      const error = await buildRes.json().catch(() => ({})) as { error?: string };
+      return { projectName: project.name, error: error.error || 'Failed to start build' };
+    }
+
+    await buildRes.body?.cancel();
+    return null;
+  }));
+
+  return {
+    bakeOffId: bakeOff.id,
+    failedBuilds: results.filter((result): result is { projectName: string; error: string } => result !== null),
+  };
+}
+
+async function keepBakeOffProject({ bakeOffId, projectId }: { bakeOffId: string; projectId: string }): Promise<{ project: Project; deletedProjectIds: string[] }> {
+  const res = await fetch(`/api/bake-offs/${bakeOffId}/keep`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ projectId }),
+  });
+
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error || 'Failed to keep project');
+  }
+
+  return res.json();
+}
+
+/**
+ * Start a bake-off: one sibling project per model, built in parallel
+ */
+export function useStartBakeOff() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: startBakeOff,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['projects'] });
+    },
+    onError: (err) => {
+      console.error('Failed to start bake-off:', err);
+    },
+  });
+}
+
+/**
+ * Keep the winner of a bake-off and delete the other siblings
+ */
+export function useKeepBakeOffProject() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: keepBakeOffProject,
+    onSuccess: (_data, { bakeOffId }) => {
+      queryClient.invalidateQueries({ queryKey: ['bake-offs', bakeOffId] });
+      queryClient.invalidateQueries({ queryKey: ['projects'] });
+    },
+    onError: (err) => {
+      console.error('Failed to keep bake-off project:', err);
+    },
+  });
+}
@@ -0,0 +1,35 @@
+import { useMutation } from '@tanstack/react-query';
+import type { BrowserError } from '@openbuilder/agent-core/lib/selection/injector';
+
+interface ReportBrowserErrorsResult {
+  triggered: boolean;
+  reason?: string;
+}
+
+async function reportBrowserErrors(projectId: string, errors: BrowserError[]): Promise<ReportBrowserErrorsResult> {
+  const res = await fetch(`/api/projects/${projectId}/browser-errors`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ errors }),
+  });
+
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error || 'Failed to report browser errors');
+  }
+
+  return res.json();
+}
+
+/**
+ * Hand runtime errors from the preview to auto-fix
+ */
+export function useReportBrowserErrors(projectId: string | null | undefined) {
+  return useMutation({
+    mutationFn: (errors: BrowserError[]) => reportBrowserErrors(projectId!, errors),
+    // The auto-fix build shows up through the project status stream - nothing to invalidate
+    onError: (err) => {
+      console.error('Failed to report browser errors:', err);
+    },
+  });
+}
@@ -0,0 +1,64 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { ProjectEnvVar } from '@/queries/env-vars';
+
+async function saveEnvVar(projectId: string, key: string, value: string): Promise<{ variable: ProjectEnvVar }> {
+  const res = await fetch(`/api/projects/${projectId}/env/${encodeURIComponent(key)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ value }),
+  });
+
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error || 'Failed to save environment variable');
+  }
+
+  return res.json();
+}
+
+async function deleteEnvVar(projectId: string, key: string): Promise<{ success: boolean }> {
+  const res = await fetch(`/api/projects/${projectId}/env/${encodeURIComponent(key)}`, {
+    method: 'DELETE',
+  });
+
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error || 'Failed to delete environment variable');
+  }
+
+  return res.json();
+}
+
+/**
+ * Create or replace a project environment variable
+ */
+export function useSaveProjectEnvVar(projectId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ key, value }: { key: string; value: string }) => saveEnvVar(projectId, key, value),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['projects', projectId, 'env'] });
+    },
+    onError: (err) => {
+      console.error('Failed to save environment variable:', err);
+    },
+  });
+}
+
+/**
+ * Delete a project environment variable
+ */
+export function useDeleteProjectEnvVar(projectId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (key: string) => deleteEnvVar(projectId, key),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['projects', projectId, 'env'] });
+    },
+    onError: (err) => {
+      console.error('Failed to delete environment variable:', err);
+    },
+  });
+}
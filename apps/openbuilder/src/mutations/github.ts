@@ -1,5 +1,6 @@
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query';
 import type { GitHubStatus, UpdateGitHubSettingsRequest } from '@openbuilder/agent-core';
+import { fetchGitHubStatus, type GitHubStatusResponse } from '@/queries/github';
 
 // ============================================================================
 // GitHub Settings
@@ -84,6 +85,77 @@ export function useSyncGitHub(projectId: string) {
   });
 }
 
+// ============================================================================
+// GitHub Push
+// ============================================================================
+
+interface PushResult {
+  success: boolean;
+  message: string;
+  commandId: string;
+}
+
+const PUSH_POLL_INTERVAL_MS = 2000;
+const PUSH_POLL_TIMEOUT_MS = 2 * 60 * 1000;
+
+async function pushGitHub(projectId: string, commitMessage?: string): Promise<PushResult> {
+  const res = await fetch(`/api/projects/${projectId}/github/push`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ commitMessage }),
+  });
+
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error || 'Failed to push to GitHub');
+  }
+
+  return res.json();
+}
+
+/**
+ * Poll the GitHub status until the runner has reported the push, then cache it.
+ * The github-pushed event bumps lastSyncAt whether the push succeeded or failed.
+ */
+async function refreshWhenPushed(queryClient: QueryClient, projectId: string, previousSyncAt: GitHubStatus['lastSyncAt']) {
+  const deadline = Date.now() + PUSH_POLL_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, PUSH_POLL_INTERVAL_MS));
+
+    try {
+      const data = await fetchGitHubStatus(projectId);
+      // Both sides are JSON timestamps
+      if (data.status.lastSyncAt !== previousSyncAt) {
+        queryClient.setQueryData<GitHubStatusResponse>(['projects', projectId, 'github'], data);
+        return;
+      }
+    } catch (err) {
+      console.error('Failed to refresh GitHub status:', err);
+      return;
+    }
+  }
+}
+
+export function usePushGitHub(projectId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (commitMessage?: string) => pushGitHub(projectId, commitMessage),
+    onMutate: () => {
+      const cached = queryClient.getQueryData<GitHubStatusResponse>(['projects', projectId, 'github']);
+      return { previousSyncAt: cached?.status.lastSyncAt ?? null };
+    },
+    onSuccess: (_data, _commitMessage, context) => {
+      // The push runs asynchronously on the runner - refresh the status once it reports back
+      void refreshWhenPushed(queryClient, projectId, context?.previousSyncAt ?? null);
+    },
+    onError: (err) => {
+      console.error('Failed to push to GitHub:', err);
+    },
+  });
+}
+
 // ============================================================================
 // Disconnect GitHub
 // ============================================================================
@@ -1,5 +1,6 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import type { Project } from '@/queries/projects';
+import type { Project, ProjectsResponse } from '@/queries/projects';
+import type { ImportSource } from '@/shared/runner/messages';
 
 // ============================================================================
 // Server Operations
@@ -312,3 +313,48 @@ export function useCreateProject() {
     },
   });
 }
+
+// ============================================================================
+// Import Project
+// ============================================================================
+
+export interface ImportProjectData {
+  source: ImportSource;
+  name?: string;
+  runnerId?: string;
+}
+
+async function importProject(data: ImportProjectData): Promise<Project> {
+  const res = await fetch('/api/projects/import', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error || 'Failed to import project');
+  }
+
+  const result = await res.json();
+  return result.project;
+}
+
+export function useImportProject() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: importProject,
+    onSuccess: (newProject) => {
+      queryClient.setQueryData<ProjectsResponse>(['projects'], (old) => ({
+        ...old,
+        projects: [...(old?.projects ?? []), newProject],
+      }));
+
+      queryClient.invalidateQueries({ queryKey: ['projects'] });
+    },
+    onError: (err) => {
+      console.error('Failed to import project:', err);
+    },
+  });
+}
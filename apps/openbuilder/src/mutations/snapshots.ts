@@ -0,0 +1,42 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+
+interface RestoreSnapshotResult {
+  success: boolean;
+  buildId: string;
+  backupBuildId?: string;
+  filesChanged: number;
+}
+
+async function restoreSnapshot(projectId: string, buildId: string): Promise<RestoreSnapshotResult> {
+  const res = await fetch(`/api/projects/${projectId}/snapshots/restore`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ buildId }),
+  });
+
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error || 'Failed to restore snapshot');
+  }
+
+  return res.json();
+}
+
+/**
+ * Roll the project workspace back to its state before a build
+ */
+export function useRestoreSnapshot(projectId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (buildId: string) => restoreSnapshot(projectId, buildId),
+    onSuccess: () => {
+      // Workspace contents changed - refetch files and the snapshot list (restore adds a backup snapshot)
+      queryClient.invalidateQueries({ queryKey: ['projects', projectId, 'files'] });
+      queryClient.invalidateQueries({ queryKey: ['projects', projectId, 'snapshots'] });
+    },
+    onError: (err) => {
+      console.error('Failed to restore snapshot:', err);
+    },
+  });
+}
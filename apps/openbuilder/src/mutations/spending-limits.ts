@@ -0,0 +1,64 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { SpendingLimit, SpendingLimitInput } from '@/queries/spending-limits';
+
+async function saveSpendingLimit(limit: SpendingLimitInput): Promise<{ limit: SpendingLimit }> {
+  const res = await fetch('/api/admin/spending-limits', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(limit),
+  });
+
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error || 'Failed to save spending limit');
+  }
+
+  return res.json();
+}
+
+async function deleteSpendingLimit(id: string): Promise<{ success: boolean }> {
+  const res = await fetch(`/api/admin/spending-limits/${id}`, {
+    method: 'DELETE',
+  });
+
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error || 'Failed to delete spending limit');
+  }
+
+  return res.json();
+}
+
+/**
+ * Create or replace the spending limit of a user or project
+ */
+export function useSaveSpendingLimit() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: saveSpendingLimit,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['spending-limits'] });
+    },
+    onError: (err) => {
+      console.error('Failed to save spending limit:', err);
+    },
+  });
+}
+
+/**
+ * Delete a spending limit
+ */
+export function useDeleteSpendingLimit() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteSpendingLimit,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['spending-limits'] });
+    },
+    onError: (err) => {
+      console.error('Failed to delete spending limit:', err);
+    },
+  });
+}
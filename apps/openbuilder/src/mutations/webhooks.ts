@@ -0,0 +1,140 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { Webhook, WebhookDelivery } from '@/queries/webhooks';
+
+interface CreateWebhookInput {
+  url: string;
+  events: string[];
+  projectId?: string | null;
+}
+
+interface UpdateWebhookInput {
+  id: string;
+  url?: string;
+  events?: string[];
+  active?: boolean;
+  rotateSecret?: boolean;
+}
+
+async function createWebhook(input: CreateWebhookInput): Promise<{ webhook: Webhook; secret: string }> {
+  const res = await fetch('/api/webhooks', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error || 'Failed to create webhook');
+  }
+
+  return res.json();
+}
+
+async function updateWebhook({ id, ...input }: UpdateWebhookInput): Promise<{ webhook: Webhook; secret?: string }> {
+  const res = await fetch(`/api/webhooks/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error || 'Failed to update webhook');
+  }
+
+  return res.json();
+}
+
+async function deleteWebhook(id: string): Promise<{ success: boolean }> {
+  const res = await fetch(`/api/webhooks/${id}`, {
+    method: 'DELETE',
+  });
+
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error || 'Failed to delete webhook');
+  }
+
+  return res.json();
+}
+
+async function redeliverWebhook(deliveryId: string): Promise<{ delivery: WebhookDelivery }> {
+  const res = await fetch(`/api/webhooks/deliveries/${deliveryId}/redeliver`, {
+    method: 'POST',
+  });
+
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error || 'Failed to redeliver webhook');
+  }
+
+  return res.json();
+}
+
+/**
+ * Create a webhook. The response carries the signing secret, which is only returned once.
+ */
+export function useCreateWebhook() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createWebhook,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhooks'] });
+    },
+    onError: (err) => {
+      console.error('Failed to create webhook:', err);
+    },
+  });
+}
+
+/**
+ * Update a webhook's URL, events or active flag, or rotate its secret
+ */
+export function useUpdateWebhook() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: updateWebhook,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhooks'] });
+    },
+    onError: (err) => {
+      console.error('Failed to update webhook:', err);
+    },
+  });
+}
+
+/**
+ * Delete a webhook and its delivery log
+ */
+export function useDeleteWebhook() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteWebhook,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhooks'] });
+    },
+    onError: (err) => {
+      console.error('Failed to delete webhook:', err);
+    },
+  });
+}
+
+/**
+ * Send a delivery's payload again as a new delivery
+ */
+export function useRedeliverWebhook(webhookId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: redeliverWebhook,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhooks', webhookId, 'deliveries'] });
+    },
+    onError: (err) => {
+      console.error('Failed to redeliver webhook:', err);
+    },
+  });
+}
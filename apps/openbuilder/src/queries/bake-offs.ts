@@ -0,0 +1,37 @@
+import { useQuery } from '@tanstack/react-query';
+import type { BakeOffComparison } from '@/lib/bake-offs';
+
+export type { BakeOffComparison, BakeOffEntry } from '@/lib/bake-offs';
+
+async function fetchBakeOff(bakeOffId: string): Promise<{ bakeOff: BakeOffComparison }> {
+  const res = await fetch(`/api/bake-offs/${bakeOffId}`);
+
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error || 'Failed to fetch bake-off');
+  }
+
+  return res.json();
+}
+
+function isSettled(bakeOff: BakeOffComparison): boolean {
+  return bakeOff.entries.every((entry) =>
+    entry.build?.status !== 'active' && entry.devServerStatus !== 'starting'
+  );
+}
+
+/**
+ * Hook to fetch a bake-off - polls while builds run or dev servers start
+ */
+export function useBakeOff(bakeOffId: string | undefined | null) {
+  return useQuery({
+    queryKey: ['bake-offs', bakeOffId],
+    queryFn: () => fetchBakeOff(bakeOffId!),
+    enabled: !!bakeOffId,
+    select: (data) => data.bakeOff,
+    refetchInterval: (query) => {
+      const bakeOff = query.state.data?.bakeOff;
+      return bakeOff && isSettled(bakeOff) ? false : 5000;
+    },
+  });
+}
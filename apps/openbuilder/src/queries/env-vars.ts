@@ -0,0 +1,35 @@
+import { useQuery } from '@tanstack/react-query';
+
+export interface ProjectEnvVar {
+  key: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ProjectEnvVarsResponse {
+  variables: ProjectEnvVar[];
+}
+
+async function fetchProjectEnvVars(projectId: string): Promise<ProjectEnvVarsResponse> {
+  const res = await fetch(`/api/projects/${projectId}/env`);
+
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error || 'Failed to fetch environment variables');
+  }
+
+  return res.json();
+}
+
+/**
+ * Hook to fetch a project's environment variable names (values are never returned)
+ */
+export function useProjectEnvVars(projectId: string | undefined | null, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: ['projects', projectId, 'env'],
+    queryFn: () => fetchProjectEnvVars(projectId!),
+    enabled: !!projectId && (options?.enabled ?? true),
+    staleTime: 30 * 1000, // 30 seconds
+    select: (data) => data.variables,
+  });
+}
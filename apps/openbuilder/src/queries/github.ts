@@ -1,11 +1,11 @@
 import { useQuery } from '@tanstack/react-query';
 import type { GitHubStatus } from '@openbuilder/agent-core';
 
-interface GitHubStatusResponse {
+export interface GitHubStatusResponse {
   status: GitHubStatus;
 }
 
-async function fetchGitHubStatus(projectId: string): Promise<GitHubStatusResponse> {
+export async function fetchGitHubStatus(projectId: string): Promise<GitHubStatusResponse> {
   const res = await fetch(`/api/projects/${projectId}/github`);
 
   if (!res.ok) {
@@ -1,4 +1,5 @@
 import { useQuery } from '@tanstack/react-query';
+import type { LogPageEntry } from '@/shared/runner/messages';
 
 export interface Project {
   id: string;
@@ -19,6 +20,7 @@ export interface Project {
   tunnelUrl: string | null;
   runnerId: string | null;
   runnerConnected: boolean; // Whether the project's runner is currently connected
+  bakeOffId: string | null; // Bake-off this project was built in
   generationState: string | null;
   tags: any | null;
   lastActivityAt: Date | null;
@@ -34,7 +36,7 @@ export interface FileNode {
   children?: FileNode[];
 }
 
-interface ProjectsResponse {
+export interface ProjectsResponse {
   projects: Project[];
 }
 
@@ -133,21 +135,30 @@ export function useFileContent(
  */
 interface LogsResponse {
   logs: string[];
+  entries: LogPageEntry[];
+  nextCursor: string | null;
   hasMore: boolean;
+  running: boolean;
 }
 
-async function fetchProjectLogs(projectId: string, page: number = 0): Promise<LogsResponse> {
-  const res = await fetch(`/api/projects/${projectId}/logs?page=${page}&limit=100`);
+async function fetchProjectLogs(projectId: string, cursor?: string | null): Promise<LogsResponse> {
+  const params = new URLSearchParams({ limit: '100' });
+  if (cursor) params.set('cursor', cursor);
+
+  const res = await fetch(`/api/projects/${projectId}/logs?${params.toString()}`);
   if (!res.ok) {
     throw new Error('Failed to fetch project logs');
   }
   return res.json();
 }
 
-export function useProjectLogs(projectId: string | undefined | null, page: number = 0) {
+/**
+ * @param cursor - Cursor from a previous page's nextCursor to fetch older output; omit for the latest page
+ */
+export function useProjectLogs(projectId: string | undefined | null, cursor?: string | null) {
   return useQuery({
-    queryKey: ['projects', projectId, 'logs', page],
-    queryFn: () => fetchProjectLogs(projectId!, page),
+    queryKey: ['projects', projectId, 'logs', cursor ?? 'latest'],
+    queryFn: () => fetchProjectLogs(projectId!, cursor),
     enabled: !!projectId,
     staleTime: 10000, // 10 seconds
     // Note: For smooth pagination in v5, consider using placeholderData with previous data
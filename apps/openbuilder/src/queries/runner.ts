@@ -1,8 +1,12 @@
 import { useQuery } from '@tanstack/react-query';
+import type { RunnerAgentInfo } from '@openbuilder/agent-core/shared/runner/messages';
 
 export interface RunnerConnection {
   runnerId: string;
   lastHeartbeat: number;
+  status?: {
+    agents?: RunnerAgentInfo[]; // Third-party agents registered on the runner
+  };
 }
 
 interface RunnerStatusResponse {
@@ -0,0 +1,31 @@
+import { useQuery } from '@tanstack/react-query';
+import type { BuildScreenshotsResponse } from '@/lib/build-screenshots';
+
+async function fetchBuildScreenshots(projectId: string, buildId: string): Promise<BuildScreenshotsResponse> {
+  const params = new URLSearchParams({ buildId });
+  const res = await fetch(`/api/projects/${projectId}/screenshots?${params.toString()}`);
+
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error || 'Failed to fetch build screenshots');
+  }
+
+  return res.json();
+}
+
+/**
+ * Hook to fetch the screenshots of a build and the previous build's captures
+ * @param capturedAt - When the screenshots were captured; a new capture refetches
+ */
+export function useBuildScreenshots(
+  projectId: string | undefined | null,
+  buildId: string | undefined | null,
+  capturedAt: string | undefined | null
+) {
+  return useQuery({
+    queryKey: ['projects', projectId, 'screenshots', buildId, capturedAt],
+    queryFn: () => fetchBuildScreenshots(projectId!, buildId!),
+    enabled: !!projectId && !!buildId && !!capturedAt,
+    staleTime: Infinity, // A capture never changes
+  });
+}
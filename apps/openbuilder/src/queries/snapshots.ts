@@ -0,0 +1,85 @@
+import { useQuery } from '@tanstack/react-query';
+import type { ProjectSnapshot, SnapshotDiffFile } from '@openbuilder/agent-core';
+
+export interface ProjectSnapshotWithSession extends ProjectSnapshot {
+  session: {
+    buildId: string;
+    operationType: string | null;
+    status: string;
+    isAutoFix: boolean | null;
+    startedAt: string;
+    endedAt: string | null;
+  } | null;
+}
+
+interface SnapshotsResponse {
+  snapshots: ProjectSnapshotWithSession[];
+}
+
+export interface SnapshotDiffResponse {
+  from: string;
+  to: string | null;
+  files: SnapshotDiffFile[];
+  patch?: string;
+  patchTruncated: boolean;
+}
+
+async function fetchSnapshots(projectId: string): Promise<SnapshotsResponse> {
+  const res = await fetch(`/api/projects/${projectId}/snapshots`);
+
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error || 'Failed to fetch snapshots');
+  }
+
+  return res.json();
+}
+
+async function fetchSnapshotDiff(
+  projectId: string,
+  from: string,
+  to?: string | null
+): Promise<SnapshotDiffResponse> {
+  const params = new URLSearchParams({ from, patch: 'true' });
+  if (to) params.set('to', to);
+
+  const res = await fetch(`/api/projects/${projectId}/snapshots/diff?${params.toString()}`);
+
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error || 'Failed to fetch snapshot diff');
+  }
+
+  return res.json();
+}
+
+/**
+ * Hook to fetch the workspace snapshots taken before each build (newest first)
+ */
+export function useProjectSnapshots(projectId: string | undefined | null) {
+  return useQuery({
+    queryKey: ['projects', projectId, 'snapshots'],
+    queryFn: () => fetchSnapshots(projectId!),
+    enabled: !!projectId,
+    staleTime: 30 * 1000, // 30 seconds
+    select: (data) => data.snapshots,
+  });
+}
+
+/**
+ * Hook to fetch the file diff between two snapshots
+ * @param to - Target snapshot buildId; omit to diff against the current workspace
+ */
+export function useSnapshotDiff(
+  projectId: string | undefined | null,
+  from: string | undefined | null,
+  to?: string | null,
+  options: { enabled?: boolean } = {}
+) {
+  return useQuery({
+    queryKey: ['projects', projectId, 'snapshots', 'diff', from, to ?? 'workspace'],
+    queryFn: () => fetchSnapshotDiff(projectId!, from!, to),
+    enabled: !!projectId && !!from && (options.enabled ?? true),
+    staleTime: to ? Infinity : 0, // Snapshot-to-snapshot diffs never change
+  });
+}
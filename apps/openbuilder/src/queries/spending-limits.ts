@@ -0,0 +1,45 @@
+import { useQuery } from '@tanstack/react-query';
+import type { SpendingLimitInput } from '@/lib/spending-limits';
+
+export type { SpendingLimitInput, SpendingLimitScope, SpendingLimitEnforcement } from '@/lib/spending-limits';
+
+export interface SpendingLimit extends SpendingLimitInput {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface SpendingLimitsResponse {
+  limits: SpendingLimit[];
+}
+
+export class SpendingLimitsError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'SpendingLimitsError';
+  }
+}
+
+async function fetchSpendingLimits(): Promise<SpendingLimitsResponse> {
+  const res = await fetch('/api/admin/spending-limits');
+
+  if (!res.ok) {
+    const error = await res.json();
+    throw new SpendingLimitsError(error.error || 'Failed to fetch spending limits', res.status);
+  }
+
+  return res.json();
+}
+
+/**
+ * Hook to fetch all spending limits (admins only - fails with status 403 otherwise)
+ */
+export function useSpendingLimits() {
+  return useQuery({
+    queryKey: ['spending-limits'],
+    queryFn: fetchSpendingLimits,
+    staleTime: 30 * 1000, // 30 seconds
+    retry: (failureCount, error) => !(error instanceof SpendingLimitsError && error.status === 403) && failureCount < 3,
+    select: (data) => data.limits,
+  });
+}
@@ -0,0 +1,45 @@
+import { useQuery } from '@tanstack/react-query';
+import type { ProjectUsage, UserUsage } from '@/lib/usage';
+
+export type {
+  UsageTotals,
+  ProjectUsage,
+  ProjectUsageSummary,
+  ModelUsageSummary,
+  BuildUsageRecord,
+  UserUsage,
+} from '@/lib/usage';
+
+async function fetchUsage<T>(url: string): Promise<T> {
+  const res = await fetch(url);
+
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error || 'Failed to fetch usage');
+  }
+
+  return res.json();
+}
+
+/**
+ * Hook to fetch token and cost usage across the current user's projects
+ */
+export function useUsage() {
+  return useQuery({
+    queryKey: ['usage'],
+    queryFn: () => fetchUsage<UserUsage & { canManageLimits: boolean }>('/api/usage'),
+    staleTime: 30 * 1000, // 30 seconds
+  });
+}
+
+/**
+ * Hook to fetch token and cost usage of a single project
+ */
+export function useProjectUsage(projectId: string | undefined | null, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: ['projects', projectId, 'usage'],
+    queryFn: () => fetchUsage<ProjectUsage>(`/api/projects/${projectId}/usage`),
+    enabled: !!projectId && (options?.enabled ?? true),
+    staleTime: 30 * 1000, // 30 seconds
+  });
+}
@@ -0,0 +1,87 @@
+import { useQuery } from '@tanstack/react-query';
+
+export interface Webhook {
+  id: string;
+  url: string;
+  events: string[];
+  active: boolean;
+  projectId: string | null;
+  projectName: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  projectId: string | null;
+  event: string;
+  payload: unknown;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  durationMs: number | null;
+  nextAttemptAt: string | null;
+  redeliveryOf: string | null;
+  createdAt: string;
+  deliveredAt: string | null;
+}
+
+interface WebhooksResponse {
+  webhooks: Webhook[];
+}
+
+interface WebhookDeliveriesResponse {
+  deliveries: WebhookDelivery[];
+}
+
+async function fetchWebhooks(): Promise<WebhooksResponse> {
+  const res = await fetch('/api/webhooks');
+
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error || 'Failed to fetch webhooks');
+  }
+
+  return res.json();
+}
+
+async function fetchWebhookDeliveries(webhookId: string): Promise<WebhookDeliveriesResponse> {
+  const res = await fetch(`/api/webhooks/${webhookId}/deliveries`);
+
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error || 'Failed to fetch webhook deliveries');
+  }
+
+  return res.json();
+}
+
+/**
+ * Hook to fetch the current user's webhooks (secrets are never returned)
+ */
+export function useWebhooks(options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: ['webhooks'],
+    queryFn: fetchWebhooks,
+    enabled: options?.enabled ?? true,
+    staleTime: 30 * 1000, // 30 seconds
+    select: (data) => data.webhooks,
+  });
+}
+
+/**
+ * Hook to fetch a webhook's recent deliveries.
+ * Polls while any delivery is still waiting on a retry.
+ */
+export function useWebhookDeliveries(webhookId: string | null) {
+  return useQuery({
+    queryKey: ['webhooks', webhookId, 'deliveries'],
+    queryFn: () => fetchWebhookDeliveries(webhookId!),
+    enabled: !!webhookId,
+    select: (data) => data.deliveries,
+    refetchInterval: (query) =>
+      query.state.data?.deliveries.some((delivery) => delivery.status === 'pending') ? 5000 : false,
+  });
+}
@@ -13,6 +13,12 @@ export type {
   CodexTaskSummary,
   CodexExecutionInsight,
   CodexSessionState,
+  BuildVerification,
+  BuildVerificationStep,
+  BuildUsage,
+  BuildScreenshot,
+  BuildScreenshots,
+  ScreenshotViewport,
   GenerationState,
   GenerationEvent,
 } from '@openbuilder/agent-core/types/generation';
@@ -71,6 +71,7 @@ const external = [
   'picocolors',
   // 'react',  // Bundle React to avoid multiple instances issue with ink
   'server-only',
+  'sharp', // Native module
   'simple-git',
   'tailwind-merge',
   'ws',
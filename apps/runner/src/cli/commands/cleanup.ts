@@ -62,6 +62,11 @@ export async function cleanupCommand(options: CleanupOptions) {
 async function cleanupProject(workspace: string, slug: string) {
   const projectPath = join(workspace, slug);
 
+  if (slug.startsWith('.')) {
+    logger.error(`Not a project: ${slug}`);
+    return;
+  }
+
   if (!existsSync(projectPath)) {
     logger.error(`Project not found: ${slug}`);
     return;
@@ -113,6 +118,8 @@ async function cleanupAllProjects(workspace: string) {
   const projects = [];
 
   for (const entry of entries) {
+    // Dot-directories hold runner data (.openbuilder: snapshots, exports, screenshots, imports)
+    if (entry.startsWith('.')) continue;
     const entryPath = join(workspace, entry);
     const stats = await stat(entryPath);
     if (stats.isDirectory()) {
@@ -0,0 +1,340 @@
+/**
+ * Headless builds - create and iterate on projects from the terminal
+ *
+ *   openbuilder new "<prompt>" [--model <model>] [--framework <framework>]
+ *   openbuilder chat <slug> "<prompt>"
+ *
+ * Runs the same analyze → create → build flow as the web UI against the
+ * configured server and streams the agent's todos and tool calls. Exits
+ * non-zero when the build fails, so builds can be scripted.
+ */
+
+import { render } from 'ink';
+import pc from 'picocolors';
+import { TAG_DEFINITIONS } from '@openbuilder/agent-core/config/tags';
+import { parseModelTag } from '@openbuilder/agent-core/lib/tags/model-parser';
+import { DEFAULT_AGENT_ID, DEFAULT_CLAUDE_MODEL_ID } from '@openbuilder/agent-core/types/agent';
+import { BuildStreamScreen, type BuildStreamScreenProps } from '../tui/screens/index.js';
+import type { Task, StreamTask } from '../tui/components/index.js';
+import { ServerApi, type BuildStreamEvent, type BuildTag, type ServerProject } from '../utils/server-api.js';
+import { CLIError, errors } from '../utils/cli-error.js';
+
+interface HeadlessBuildOptions {
+  url?: string;
+  runnerId?: string;
+  model?: string;
+  tui?: boolean; // --no-tui prints plain lines instead
+}
+
+interface NewOptions extends HeadlessBuildOptions {
+  framework?: string;
+}
+
+interface TodoWriteItem {
+  content: string;
+  status: 'pending' | 'in_progress' | 'completed';
+  activeForm?: string;
+}
+
+const MAX_VISIBLE_TOOLS = 5;
+
+// Bookkeeping tools that aren't shown as progress
+const HIDDEN_TOOLS = new Set(['TodoWrite', 'CodexThreadCapture']);
+
+function shorten(value: string, max = 48): string {
+  const singleLine = value.replace(/\s+/g, ' ').trim();
+  return singleLine.length > max ? `…${singleLine.slice(-(max - 1))}` : singleLine;
+}
+
+function describeTool(toolName: string, input: unknown): string {
+  const fields = (input ?? {}) as Record<string, unknown>;
+  const target = fields.file_path ?? fields.path ?? fields.command ?? fields.pattern ?? fields.url ?? fields.description;
+  return typeof target === 'string' && target ? `${toolName} ${shorten(target)}` : toolName;
+}
+
+function toTodoStatus(status: TodoWriteItem['status']): Task['status'] {
+  if (status === 'completed') return 'completed';
+  if (status === 'in_progress') return 'running';
+  return 'pending';
+}
+
+function createTag(key: string, value: string): BuildTag {
+  return { key, value, appliedAt: new Date().toISOString() };
+}
+
+/**
+ * Renders build progress - an Ink screen on a TTY, plain lines otherwise
+ */
+function createBuildReporter(options: { title: string; prompt: string; steps: Task[]; tui: boolean }) {
+  const state: BuildStreamScreenProps = {
+    title: options.title,
+    prompt: options.prompt,
+    steps: options.steps,
+    todos: [],
+    tools: [],
+    activeTodoIndex: -1,
+  };
+  let buildError: string | undefined;
+
+  const instance = options.tui ? render(<BuildStreamScreen {...state} />, { exitOnCtrlC: true }) : null;
+  const update = () => instance?.rerender(<BuildStreamScreen {...state} />);
+  const log = (line: string) => {
+    if (!instance) console.log(line);
+  };
+
+  if (!instance) {
+    log(`${pc.magenta('openbuilder')} ${pc.dim('›')} ${options.title}`);
+  }
+
+  return {
+    setTitle(title: string) {
+      state.title = title;
+      update();
+    },
+
+    setStep(id: string, status: Task['status'], detail?: string) {
+      state.steps = state.steps.map((step) =>
+        step.id === id ? { ...step, status, detail, error: status === 'failed' ? detail : undefined } : step
+      );
+      const step = state.steps.find((s) => s.id === id);
+      if (step && status === 'running') log(`${pc.cyan('●')} ${step.label}${detail ? pc.dim(` (${detail})`) : ''}`);
+      if (step && status === 'completed') log(`${pc.green('✓')} ${step.label}${detail ? pc.dim(` (${detail})`) : ''}`);
+      update();
+    },
+
+    handleEvent(event: BuildStreamEvent) {
+      if (event.type === 'error') {
+        buildError = typeof event.error === 'string' ? event.error : 'Build failed';
+        return;
+      }
+
+      if (event.type === 'tool-input-available' && event.toolName === 'TodoWrite') {
+        const todos = ((event.input as { todos?: TodoWriteItem[] })?.todos ?? []);
+        const previous = state.todos;
+        state.todos = todos.map((todo, index) => ({
+          id: String(index),
+          label: todo.status === 'in_progress' && todo.activeForm ? todo.activeForm : todo.content,
+          status: toTodoStatus(todo.status),
+        }));
+
+        state.todos.forEach((todo, index) => {
+          if (todo.status === 'completed' && previous[index]?.status !== 'completed') {
+            log(`  ${pc.green('✓')} ${todos[index].content}`);
+          }
+        });
+
+        const activeTodoIndex = todos.findIndex((todo) => todo.status === 'in_progress');
+        if (activeTodoIndex !== state.activeTodoIndex) {
+          state.activeTodoIndex = activeTodoIndex;
+          state.tools = [];
+        }
+        update();
+        return;
+      }
+
+      if (event.type === 'tool-input-available' && typeof event.toolName === 'string') {
+        if (HIDDEN_TOOLS.has(event.toolName)) return;
+        const label = describeTool(event.toolName, event.input);
+        state.tools = [
+          ...state.tools,
+          { id: String(event.toolCallId), label, status: 'running' } satisfies StreamTask,
+        ].slice(-MAX_VISIBLE_TOOLS);
+        log(`    ${pc.dim('→')} ${label}`);
+        update();
+        return;
+      }
+
+      if (event.type === 'tool-output-available') {
+        state.tools = state.tools.map((tool) =>
+          tool.id === String(event.toolCallId) ? { ...tool, status: 'completed' } : tool
+        );
+        update();
+      }
+    },
+
+    get error() {
+      return buildError;
+    },
+
+    finish(summary: { success: boolean; message: string }) {
+      state.summary = summary;
+      if (instance) {
+        update();
+        instance.unmount();
+      } else {
+        log(`${summary.success ? pc.green('✓') : pc.red('✗')} ${summary.message}`);
+      }
+    },
+  };
+}
+
+type BuildReporter = ReturnType<typeof createBuildReporter>;
+
+/**
+ * Stream a build to the reporter and check how it ended.
+ * The stream closes quietly on success and with an error event on build-failed;
+ * the project status is the final word either way.
+ */
+async function runBuild(
+  api: ServerApi,
+  reporter: BuildReporter,
+  project: ServerProject,
+  request: Parameters<ServerApi['streamBuild']>[1]
+): Promise<void> {
+  reporter.setStep('build', 'running');
+
+  await api.streamBuild(project.id, request, (event) => reporter.handleEvent(event));
+
+  const finalProject = await api.getProject(project.id).catch(() => null);
+  const failure = reporter.error ?? (finalProject?.status === 'failed' ? finalProject.errorMessage || 'Build failed' : undefined);
+
+  if (failure) {
+    reporter.setStep('build', 'failed', failure);
+    reporter.finish({ success: false, message: `Build failed for ${project.slug}` });
+    throw new CLIError({
+      code: 'BUILD_FAILED',
+      message: failure,
+      context: { project: project.slug, server: api.baseUrl },
+      suggestions: [
+        `Try again with more detail: openbuilder chat ${project.slug} "<prompt>"`,
+        `Or open it in the browser: ${api.baseUrl}/?project=${project.slug}`,
+      ],
+    });
+  }
+
+  reporter.setStep('build', 'completed');
+  reporter.finish({ success: true, message: `Built ${project.slug} - ${api.baseUrl}/?project=${project.slug}` });
+}
+
+function resolveModel(model?: string) {
+  if (!model) {
+    return { agent: DEFAULT_AGENT_ID as string, claudeModel: DEFAULT_CLAUDE_MODEL_ID as string | undefined };
+  }
+  const parsed = parseModelTag(model);
+  return { agent: parsed.agent as string, claudeModel: parsed.claudeModel as string | undefined };
+}
+
+/**
+ * openbuilder new "<prompt>"
+ */
+export async function newCommand(prompt: string, options: NewOptions): Promise<void> {
+  if (!prompt?.trim()) {
+    throw errors.invalidArgument('prompt', 'Describe the app to build');
+  }
+
+  const frameworks = TAG_DEFINITIONS.find((tag) => tag.key === 'framework')?.options?.map((option) => option.value) ?? [];
+  if (options.framework && !frameworks.includes(options.framework)) {
+    throw errors.invalidArgument('--framework', `Expected one of: ${frameworks.join(', ')}`);
+  }
+
+  const api = ServerApi.fromConfig(options.url);
+  const { agent, claudeModel } = resolveModel(options.model);
+  const tags: BuildTag[] = [];
+  if (options.model) tags.push(createTag('model', options.model));
+  if (options.framework) tags.push(createTag('framework', options.framework));
+
+  const reporter = createBuildReporter({
+    title: 'New project',
+    prompt,
+    tui: options.tui !== false && !!process.stdout.isTTY,
+    steps: [
+      { id: 'analyze', label: 'Analyzing prompt', status: 'pending' },
+      { id: 'create', label: 'Creating project', status: 'pending' },
+      { id: 'build', label: 'Building', status: 'pending' },
+    ],
+  });
+
+  let step = 'analyze';
+  try {
+    reporter.setStep('analyze', 'running');
+    const { analysis, runnerId } = await api.analyzeProject({
+      prompt,
+      agent,
+      claudeModel,
+      tags: tags.length > 0 ? tags : undefined,
+      runnerId: options.runnerId,
+    });
+    reporter.setStep('analyze', 'completed', analysis.template?.name);
+
+    step = 'create';
+    reporter.setStep('create', 'running');
+    const project = await api.createProjectFromAnalysis({
+      prompt,
+      analysis,
+      agent,
+      claudeModel,
+      runnerId,
+      tags: tags.length > 0 ? tags : undefined,
+    });
+    reporter.setTitle(project.name);
+    reporter.setStep('create', 'completed', project.slug);
+
+    step = 'build';
+    await runBuild(api, reporter, project, {
+      operationType: 'initial-build',
+      prompt,
+      agent,
+      claudeModel,
+      runnerId,
+      tags: tags.length > 0 ? tags : undefined,
+      template: analysis.template,
+    });
+  } catch (error) {
+    if (!(error instanceof CLIError && error.code === 'BUILD_FAILED')) {
+      reporter.setStep(step, 'failed', error instanceof Error ? error.message : String(error));
+      reporter.finish({ success: false, message: 'Could not create the project' });
+    }
+    throw error;
+  }
+}
+
+/**
+ * openbuilder chat <slug> "<prompt>"
+ */
+export async function chatCommand(slug: string, prompt: string, options: HeadlessBuildOptions): Promise<void> {
+  if (!prompt?.trim()) {
+    throw errors.invalidArgument('prompt', 'Describe the change to make');
+  }
+
+  const api = ServerApi.fromConfig(options.url);
+  const project = await api.findProjectBySlug(slug);
+  if (!project) {
+    throw new CLIError({
+      code: 'INVALID_ARGUMENT',
+      message: `Project not found: ${slug}`,
+      context: { server: api.baseUrl },
+      suggestions: ['Create it first: openbuilder new "<prompt>"'],
+    });
+  }
+
+  // Keep the project's tags (framework, design, ...) and only swap the model when asked
+  const projectTags = Array.isArray(project.tags) ? project.tags : [];
+  const tags = options.model
+    ? [...projectTags.filter((tag) => tag.key !== 'model'), createTag('model', options.model)]
+    : projectTags;
+  const { agent, claudeModel } = resolveModel(tags.find((tag) => tag.key === 'model')?.value);
+
+  const reporter = createBuildReporter({
+    title: project.name,
+    prompt,
+    tui: options.tui !== false && !!process.stdout.isTTY,
+    steps: [{ id: 'build', label: 'Building', status: 'pending' }],
+  });
+
+  try {
+    await runBuild(api, reporter, project, {
+      operationType: 'enhancement',
+      prompt,
+      agent,
+      claudeModel,
+      runnerId: options.runnerId,
+      tags: tags.length > 0 ? tags : undefined,
+    });
+  } catch (error) {
+    if (!(error instanceof CLIError && error.code === 'BUILD_FAILED')) {
+      reporter.setStep('build', 'failed', error instanceof Error ? error.message : String(error));
+      reporter.finish({ success: false, message: `Could not build ${project.slug}` });
+    }
+    throw error;
+  }
+}
@@ -40,6 +40,8 @@ export async function statusCommand() {
       const projects = [];
 
       for (const entry of entries) {
+        // Dot-directories hold runner data, not projects
+        if (entry.startsWith('.')) continue;
         const entryPath = `${config.workspace}/${entry}`;
         const stats = await stat(entryPath);
         if (stats.isDirectory()) {
@@ -243,6 +243,39 @@ program
   });
 
 
+program
+  .command('new <prompt>')
+  .description('Create a project from a prompt and build it (headless)')
+  .option('-m, --model <model>', 'Model to build with (e.g. claude-sonnet-4-5)')
+  .option('-f, --framework <framework>', 'Framework template (next, tanstack, vite, astro)')
+  .option('-i, --runner-id <id>', 'Runner to build on (default: server picks)')
+  .option('-u, --url <url>', 'OpenBuilder server URL (default: configured apiUrl)')
+  .option('--no-tui', 'Print plain progress lines instead of the TUI')
+  .action(async (prompt, options) => {
+    try {
+      const { newCommand } = await import('./commands/headless-build.js');
+      await newCommand(prompt, options);
+    } catch (error) {
+      globalErrorHandler.handle(error as Error);
+    }
+  });
+
+program
+  .command('chat <slug> <prompt>')
+  .description('Send a follow-up prompt to an existing project and build it (headless)')
+  .option('-m, --model <model>', 'Model to build with (default: the project\'s model)')
+  .option('-i, --runner-id <id>', 'Runner to build on (default: the project\'s runner)')
+  .option('-u, --url <url>', 'OpenBuilder server URL (default: configured apiUrl)')
+  .option('--no-tui', 'Print plain progress lines instead of the TUI')
+  .action(async (slug, prompt, options) => {
+    try {
+      const { chatCommand } = await import('./commands/headless-build.js');
+      await chatCommand(slug, prompt, options);
+    } catch (error) {
+      globalErrorHandler.handle(error as Error);
+    }
+  });
+
 program
   .command('config <action> [key] [value]')
   .description('Manage configuration (actions: get, set, list, path, validate, reset)')
@@ -0,0 +1,78 @@
+import { Box, Text } from 'ink';
+import { TaskList, TaskStream, type Task, type StreamTask } from '../components/index.js';
+import { colors, symbols } from '../theme.js';
+
+export interface BuildStreamScreenProps {
+  title: string;
+  prompt: string;
+  /** Analyze / create / build phases */
+  steps: Task[];
+  /** The agent's TodoWrite plan */
+  todos: Task[];
+  /** Tool calls for the active todo, most recent last */
+  tools: StreamTask[];
+  activeTodoIndex: number;
+  summary?: { success: boolean; message: string };
+}
+
+/**
+ * Progress of a headless build (`openbuilder new` / `openbuilder chat`)
+ *
+ * openbuilder › Recipe Box
+ *   "a recipe app with tags"
+ *
+ * ✓  Analyzing prompt
+ * ⠋  Building
+ *
+ * ✓  Scaffold from template
+ * ⠋  Add recipe list
+ * ┌───────────────────────────────────────┐
+ * │ ⠋ Write src/routes/index.tsx          │
+ * └───────────────────────────────────────┘
+ */
+export function BuildStreamScreen({
+  title,
+  prompt,
+  steps,
+  todos,
+  tools,
+  activeTodoIndex,
+  summary,
+}: BuildStreamScreenProps) {
+  const promptPreview = prompt.length > 72 ? `${prompt.slice(0, 69)}...` : prompt;
+
+  return (
+    <Box flexDirection="column" paddingX={1} paddingY={1}>
+      <Text>
+        <Text color={colors.purple} bold>openbuilder</Text>
+        <Text color={colors.dimGray}> › </Text>
+        <Text color={colors.white} bold>{title}</Text>
+      </Text>
+      <Box paddingLeft={2}>
+        <Text color={colors.gray}>{`"${promptPreview}"`}</Text>
+      </Box>
+
+      <Box marginTop={1}>
+        <TaskList tasks={steps} />
+      </Box>
+
+      {todos.length > 0 && (
+        <Box marginTop={1} flexDirection="column">
+          <TaskList tasks={todos} />
+        </Box>
+      )}
+
+      {tools.length > 0 && !summary && (
+        <TaskStream stepId={String(activeTodoIndex)} tasks={tools} />
+      )}
+
+      {summary && (
+        <Box marginTop={1}>
+          <Text color={summary.success ? colors.success : colors.error}>
+            {summary.success ? symbols.check : symbols.cross} {summary.message}
+          </Text>
+        </Box>
+      )}
+    </Box>
+  );
+}
@@ -5,3 +5,4 @@ export { RunnerModeScreen, type RunnerModeScreenProps, type RunnerConfig } from
 export { ConfigFormScreen, type ConfigFormScreenProps, type InitFormConfig } from './ConfigFormScreen.js';
 export { StartPromptScreen, type StartPromptScreenProps } from './StartPromptScreen.js';
 export { RunnerDashboard, type RunnerDashboardProps } from './RunnerDashboard.js';
+export { BuildStreamScreen, type BuildStreamScreenProps } from './BuildStreamScreen.js';
@@ -26,6 +26,7 @@ export type ErrorCode =
   | 'PORT_IN_USE'
   | 'BROKER_CONNECTION_FAILED'
   | 'TUNNEL_CREATION_FAILED'
+  | 'API_REQUEST_FAILED'
 
   // Runtime errors
   | 'SERVICE_START_FAILED'
@@ -94,6 +95,7 @@ export class CLIError extends Error {
       'INVALID_ARGUMENT': 64,         // EX_USAGE
       'DB_CONNECTION_FAILED': 69,     // EX_UNAVAILABLE
       'BROKER_CONNECTION_FAILED': 69,
+      'API_REQUEST_FAILED': 69,
       'PORT_IN_USE': 69,
     };
 
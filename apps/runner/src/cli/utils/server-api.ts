@@ -0,0 +1,212 @@
+/**
+ * HTTP client for the OpenBuilder web API
+ * Drives the same analyze → create → build flow as the web UI, for headless builds
+ */
+
+import { configManager } from './config-manager.js';
+import { CLIError } from './cli-error.js';
+
+export interface ServerProject {
+  id: string;
+  name: string;
+  slug: string;
+  status: string;
+  errorMessage?: string | null;
+  runnerId?: string | null;
+  tags?: BuildTag[] | null;
+}
+
+export interface ProjectAnalysis {
+  slug: string;
+  friendlyName: string;
+  description: string;
+  icon: string;
+  template?: {
+    id: string;
+    name: string;
+    framework: string;
+    port: number;
+    runCommand: string;
+    repository: string;
+    branch: string;
+  };
+}
+
+export interface BuildTag {
+  key: string;
+  value: string;
+  appliedAt: string;
+}
+
+export interface BuildStreamRequest {
+  operationType: 'initial-build' | 'enhancement';
+  prompt: string;
+  agent?: string;
+  claudeModel?: string;
+  runnerId?: string;
+  tags?: BuildTag[];
+  template?: ProjectAnalysis['template'];
+}
+
+/**
+ * One parsed `data:` payload from the build SSE stream (AI SDK UI message chunks)
+ */
+export interface BuildStreamEvent {
+  type: string;
+  [key: string]: unknown;
+}
+
+export class ServerApi {
+  constructor(
+    public readonly baseUrl: string,
+    private readonly apiToken?: string
+  ) {}
+
+  /**
+   * Server URL from --url, then the configured apiUrl.
+   * Hosted servers need a personal API token in OPENBUILDER_API_TOKEN.
+   */
+  static fromConfig(url?: string): ServerApi {
+    const baseUrl = url || configManager.get().apiUrl || 'http://localhost:3000';
+    return new ServerApi(baseUrl.replace(/\/+$/, ''), process.env.OPENBUILDER_API_TOKEN || undefined);
+  }
+
+  private async request(path: string, init: RequestInit = {}): Promise<Response> {
+    let res: Response;
+    try {
+      res = await fetch(`${this.baseUrl}${path}`, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiToken ? { Authorization: `Bearer ${this.apiToken}` } : {}),
+          ...init.headers,
+        },
+      });
+    } catch (error) {
+      throw new CLIError({
+        code: 'API_REQUEST_FAILED',
+        message: `Could not reach OpenBuilder at ${this.baseUrl}`,
+        cause: error instanceof Error ? error : new Error(String(error)),
+        suggestions: [
+          'Start OpenBuilder locally: openbuilder run',
+          'Or point at another server: --url <url> or openbuilder config set apiUrl <url>',
+        ],
+      });
+    }
+
+    if (!res.ok) {
+      const body = await res.json().catch(() => null) as { error?: string } | null;
+      throw new CLIError({
+        code: 'API_REQUEST_FAILED',
+        message: body?.error || `${init.method ?? 'GET'} ${path} failed (${res.status})`,
+        context: { status: res.status, url: `${this.baseUrl}${path}` },
+        suggestions: res.status === 401
+          ? [
+              'Create an API token in the web app (API Tokens) and set OPENBUILDER_API_TOKEN',
+              'Or use a server in local mode: openbuilder run',
+            ]
+          : res.status === 403 && this.apiToken
+            ? ['Check that the API token has the projects:read, projects:write and builds:write scopes']
+            : [],
+      });
+    }
+
+    return res;
+  }
+
+  private async json<T>(path: string, init?: RequestInit): Promise<T> {
+    const res = await this.request(path, init);
+    return res.json() as Promise<T>;
+  }
+
+  async analyzeProject(body: {
+    prompt: string;
+    agent: string;
+    claudeModel?: string;
+    tags?: BuildTag[];
+    runnerId?: string;
+  }): Promise<{ analysis: ProjectAnalysis; runnerId: string }> {
+    return this.json('/api/projects/analyze', { method: 'POST', body: JSON.stringify(body) });
+  }
+
+  async createProjectFromAnalysis(body: {
+    prompt: string;
+    analysis: ProjectAnalysis;
+    agent: string;
+    claudeModel?: string;
+    runnerId: string;
+    tags?: BuildTag[];
+  }): Promise<ServerProject> {
+    const { project } = await this.json<{ project: ServerProject }>('/api/projects/create-from-analysis', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    });
+    return project;
+  }
+
+  async getProject(projectId: string): Promise<ServerProject> {
+    const { project } = await this.json<{ project: ServerProject }>(`/api/projects/${projectId}`);
+    return project;
+  }
+
+  async findProjectBySlug(slug: string): Promise<ServerProject | null> {
+    const { projects } = await this.json<{ projects: ServerProject[] }>('/api/projects');
+    return projects.find((project) => project.slug === slug) ?? null;
+  }
+
+  /**
+   * Start a build and call `onEvent` for every payload of its SSE stream.
+   * Resolves when the stream closes; a failed build arrives as an `error` event.
+   */
+  async streamBuild(
+    projectId: string,
+    body: BuildStreamRequest,
+    onEvent: (event: BuildStreamEvent) => void
+  ): Promise<void> {
+    const res = await this.request(`/api/projects/${projectId}/build`, {
+      method: 'POST',
+      body: JSON.stringify(body),
+    });
+
+    const reader = res.body?.getReader();
+    if (!reader) return;
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let dataLines: string[] = [];
+
+    const dispatch = () => {
+      const payload = dataLines.join('\n');
+      dataLines = [];
+      if (!payload || payload === '[DONE]') return;
+      try {
+        onEvent(JSON.parse(payload) as BuildStreamEvent);
+      } catch {
+        // Not JSON - ignore
+      }
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      const lines = buffer.replace(/\r\n/g, '\n').split('\n');
+      buffer = done ? '' : lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (line.trim() === '') {
+          if (dataLines.length > 0) dispatch();
+        } else if (!line.startsWith(':')) {
+          // Comment frames are keep-alives
+          const match = line.match(/^data:\s?(.*)$/);
+          dataLines.push(match ? match[1] : line);
+        }
+      }
+
+      if (done) {
+        if (dataLines.length > 0) dispatch();
+        break;
+      }
+    }
+  }
+}
@@ -2,12 +2,14 @@
 // This ensures instrumentation loads before any other modules
 import * as Sentry from "@sentry/node";
 import { query } from "@anthropic-ai/claude-agent-sdk";
-import { Codex } from "@openai/codex-sdk";
+import { Codex, type Input, type ThreadEvent, type Usage as CodexUsage } from "@openai/codex-sdk";
 import { fileLog, setFileLoggerTuiMode } from "./lib/file-logger.js";
 import { config as loadEnv } from "dotenv";
 import { resolve, join, dirname } from "node:path";
 import { fileURLToPath } from "node:url";
-import { createNativeClaudeQuery } from "./lib/native-claude-sdk.js";
+import { createNativeClaudeQuery, type ClaudeSessionOptions } from "./lib/native-claude-sdk.js";
+import { getAgentBackend, listAgentBackends, loadAgentModules, registerAgentBackend } from "./lib/agent-registry.js";
+import { createReplayAgent, getTranscriptPath, recordQuery } from "./lib/replay-agent.js";
 import { createOpenCodeQuery, USE_OPENCODE_SDK } from "./lib/opencode-sdk.js";
 import WebSocket from "ws";
 import os from "node:os";
@@ -21,17 +23,21 @@ import {
   DEFAULT_CLAUDE_MODEL_ID,
   DEFAULT_OPENCODE_MODEL_ID,
   normalizeModelId,
+  isBuiltInAgentId,
   type RunnerCommand,
   type RunnerEvent,
   type AgentId,
   type ClaudeModelId,
   type OpenCodeModelId,
+  type GitHubMeta,
+  type BuildExportArtifact,
   setTemplatesPath,
 } from "@openbuilder/agent-core";
 import { CLAUDE_CLI_TOOL_REGISTRY } from "@openbuilder/agent-core/lib/claude/tools";
 import { buildLogger } from "@openbuilder/agent-core/lib/logging/build-logger";
+import type { FocusedEditElement } from "@openbuilder/agent-core/types/build";
 import { createBuildStream } from "./lib/build/engine.js";
-import { startDevServer, startDevServerAsync, stopDevServer, checkPortInUse, findAvailablePort } from "./lib/process-manager.js";
+import { startDevServer, startDevServerAsync, stopDevServer, checkPortInUse, findAvailablePort, getDevServer, ProcessState } from "./lib/process-manager.js";
 import { getWorkspaceRoot } from "./lib/workspace.js";
 import {
   transformAgentMessageToSSE,
@@ -40,13 +46,29 @@ import {
 } from "./lib/message-transformer.js";
 import { transformCodexStream } from "./lib/codex-sdk-adapter.js";
 
-import { orchestrateBuild } from "./lib/build-orchestrator.js";
+import {
+  orchestrateBuild,
+  verifyBuild,
+  buildRepairPrompt,
+  describeVerificationFailure,
+  MAX_VERIFICATION_REPAIR_ATTEMPTS,
+} from "./lib/build-orchestrator.js";
 import { analyzeProject } from "./lib/project-analyzer.js";
 import { tunnelManager } from "./lib/tunnel/manager.js";
 import { waitForPort } from "./lib/port-checker.js";
 import { createProjectScopedPermissionHandler } from "./lib/permissions/project-scoped-handler.js";
 import { hmrProxyManager } from "./lib/hmr-proxy-manager.js";
 import { ensureProjectSkills } from "./lib/skills.js";
+import { describeRejectedImages, prepareImageAttachments, writeImagesToTempDir } from "./lib/image-attachments.js";
+import { BuildUsageTracker } from "./lib/usage-tracker.js";
+import { pushProjectToGitHub, fetchGitHubMeta } from "./lib/github.js";
+import { devServerLogBuffer } from "./lib/log-buffer.js";
+import { createSnapshot, listSnapshots, restoreSnapshot, diffSnapshots, deleteSnapshots } from "./lib/snapshots.js";
+import { captureElementCrops, captureScreenshots, getChromiumPath, getScreenshotConfig } from "./lib/screenshots.js";
+import { exportProject, receiveImportChunk } from "./lib/project-transfer.js";
+import { importSource } from "./lib/source-import.js";
+import { exportBuild, BuildExportError } from "./lib/build-export.js";
+import { projectFileWatcher } from "./lib/file-watcher.js";
 import { 
   initRunnerLogger, 
   getLogger,
@@ -87,6 +109,7 @@ export interface RunnerOptions {
   silent?: boolean; // Suppress console output (for TUI mode)
   verbose?: boolean; // Enable verbose logging
   tuiMode?: boolean; // Enable TUI dashboard (default: true)
+  agentModules?: string[]; // Third-party agent modules, in addition to RUNNER_AGENT_MODULES
 }
 
 let isSilentMode = false;
@@ -493,6 +516,18 @@ async function* convertCodexEventsToAgentMessages(
   }
 }
 
+/**
+ * Codex counts cached tokens as part of input_tokens - split them the way Claude reports usage
+ */
+function toClaudeUsage(usage: CodexUsage) {
+  return {
+    input_tokens: usage.input_tokens - usage.cached_input_tokens,
+    output_tokens: usage.output_tokens,
+    cache_read_input_tokens: usage.cached_input_tokens,
+    cache_creation_input_tokens: 0,
+  };
+}
+
 /**
  * Create Codex query function using ORIGINAL Codex SDK (NOT AI SDK)
  *
@@ -504,7 +539,7 @@ async function* convertCodexEventsToAgentMessages(
  * 1. Planning phase: Get structured task list with JSON schema
  * 2. Execution phase: Work through tasks sequentially
  */
-function createCodexQuery(): BuildQueryFn {
+function createCodexQuery(abortController?: AbortController): BuildQueryFn {
   return async function* codexQuery(
     prompt: string,
     workingDirectory: string,
@@ -535,6 +570,14 @@ function createCodexQuery(): BuildQueryFn {
     // Note: Codex SDK doesn't have system prompt configuration, so we prepend it to the user prompt
     const combinedPrompt = `${systemParts.join("\n\n")}\n\n${prompt}`;
 
+    // Codex takes images as local files attached to the first turn
+    const { images, rejected } = await prepareImageAttachments(messageParts);
+    for (const reason of rejected) {
+      log(`⚠️  [codex-query] Skipping image attachment ${reason}`);
+    }
+    const attachments = images.length > 0 ? await writeImagesToTempDir(images) : null;
+    const firstTurnPrompt = combinedPrompt + describeRejectedImages(rejected);
+
     fileLog.info('Using CODEX_SYSTEM_PROMPT (TodoWrite references replaced with JSON code blocks)');
 
     // Resume existing thread for enhancements, start new for initial builds
@@ -580,112 +623,160 @@ function createCodexQuery(): BuildQueryFn {
     let lastTurnText = '';
     let allTodosDone = false;
 
-    while (turnCount < MAX_TURNS) {
-      turnCount++;
-
-      // Capture thread ID
-      if (!capturedThreadId && thread.id) {
-        capturedThreadId = thread.id;
-        fileLog.info('Codex thread ID captured:', capturedThreadId);
-
-        // Send thread ID to frontend
-        const threadIdEvent = {
-          type: "assistant",
-          message: {
-            id: `codex-thread-${Date.now()}`,
-            content: [
-              {
-                type: "metadata",
-                metadata_type: "codex_thread_id",
-                thread_id: capturedThreadId,
-              }
-            ],
-          },
-        };
-        yield threadIdEvent;
-        fileLog.info('Thread ID sent to frontend:', capturedThreadId);
+    // Codex reports usage on every turn.completed - summed and reported once at the end
+    const codexUsage: CodexUsage = { input_tokens: 0, cached_input_tokens: 0, output_tokens: 0 };
+    async function* trackUsage(events: AsyncIterable<ThreadEvent>) {
+      for await (const event of events) {
+        if (event.type === "turn.completed") {
+          codexUsage.input_tokens += event.usage.input_tokens;
+          codexUsage.cached_input_tokens += event.usage.cached_input_tokens;
+          codexUsage.output_tokens += event.usage.output_tokens;
+        }
+        yield event;
       }
+    }
 
-      // Determine prompt for this turn
-      const turnPrompt = turnCount === 1
-        ? combinedPrompt
-        : "Continue working on the next step. Call todo-update-tool to track your progress.";
-
-      log(`🚀 [codex-query] Turn ${turnCount}: ${turnCount === 1 ? 'Initial request' : 'Continuing work'}...`);
-
-      // Log full prompt being sent to Codex
-      if (turnCount === 1) {
-        Sentry.logger.info(
-          Sentry.logger.fmt`Full Codex prompt (Turn 1) ${{
-            prompt: turnPrompt,
-            promptLength: turnPrompt.length,
-            promptPreview: turnPrompt.substring(0, 200),
-            operation: 'codex_query',
-            turnCount: 1,
-          }}`
-        );
+    // Attachments are removed however the loop ends - errors, aborts or the consumer stopping early
+    try {
+      while (turnCount < MAX_TURNS) {
+        // The SDK can't cancel a turn, so cancellation and budget stops take effect between turns
+        if (abortController?.signal.aborted) {
+          log("🛑 [codex-query] Build aborted, stopping before the next turn");
+          break;
+        }
+        turnCount++;
 
-        // Also log to file
-        fileLog.info('━━━ FULL CODEX PROMPT ━━━');
-        fileLog.info(turnPrompt);
-        fileLog.info(`━━━ END PROMPT (${turnPrompt.length} chars) ━━━`);
-      } else {
-        fileLog.info(`Turn ${turnCount} prompt:`, turnPrompt);
-      }
+        // Capture thread ID
+        if (!capturedThreadId && thread.id) {
+          capturedThreadId = thread.id;
+          fileLog.info('Codex thread ID captured:', capturedThreadId);
 
-      // Execute turn (like basic_streaming.ts but automated)
-      const { events } = await thread.runStreamed(turnPrompt);
+          // Send thread ID to frontend
+          const threadIdEvent = {
+            type: "assistant",
+            message: {
+              id: `codex-thread-${Date.now()}`,
+              content: [
+                {
+                  type: "metadata",
+                  metadata_type: "codex_thread_id",
+                  thread_id: capturedThreadId,
+                }
+              ],
+            },
+          };
+          yield threadIdEvent;
+          fileLog.info('Thread ID sent to frontend:', capturedThreadId);
+        }
 
-      // Stream events from this turn through adapter
-      // transformCodexStream expects the full event stream
-      let turnHadContent = false;
-      for await (const message of transformCodexStream(events)) {
-        turnHadContent = true;
+        // Determine prompt for this turn
+        const turnPrompt = turnCount === 1
+          ? firstTurnPrompt
+          : "Continue working on the next step. Call todo-update-tool to track your progress.";
+        const turnInput: Input = turnCount === 1 && attachments
+          ? [{ type: "text", text: turnPrompt }, ...attachments.paths.map((path) => ({ type: "local_image" as const, path }))]
+          : turnPrompt;
+
+        log(`🚀 [codex-query] Turn ${turnCount}: ${turnCount === 1 ? 'Initial request' : 'Continuing work'}...`);
+
+        // Log full prompt being sent to Codex
+        if (turnCount === 1) {
+          Sentry.logger.info(
+            Sentry.logger.fmt`Full Codex prompt (Turn 1) ${{
+              prompt: turnPrompt,
+              promptLength: turnPrompt.length,
+              promptPreview: turnPrompt.substring(0, 200),
+              operation: 'codex_query',
+              turnCount: 1,
+            }}`
+          );
 
-        // Track text for completion detection
-        if (message.type === 'assistant' && message.message.content) {
-          for (const block of message.message.content) {
-            if (block.type === 'text' && block.text) {
-              lastTurnText = block.text.toLowerCase();
+          // Also log to file
+          fileLog.info('━━━ FULL CODEX PROMPT ━━━');
+          fileLog.info(turnPrompt);
+          fileLog.info(`━━━ END PROMPT (${turnPrompt.length} chars) ━━━`);
+        } else {
+          fileLog.info(`Turn ${turnCount} prompt:`, turnPrompt);
+        }
+
+        // Execute turn (like basic_streaming.ts but automated)
+        const { events } = await thread.runStreamed(turnInput);
+
+        // Stream events from this turn through adapter
+        // transformCodexStream expects the full event stream
+        let turnHadContent = false;
+        for await (const message of transformCodexStream(trackUsage(events))) {
+          turnHadContent = true;
+
+          // Track text for completion detection
+          if (message.type === 'assistant' && message.message.content) {
+            for (const block of message.message.content) {
+              if (block.type === 'text' && block.text) {
+                lastTurnText = block.text.toLowerCase();
+              }
             }
           }
+
+          yield message;
         }
 
-        yield message;
-      }
+        // Running totals for live budget checks
+        yield {
+          type: "usage",
+          usage: toClaudeUsage(codexUsage),
+          model: CODEX_MODEL,
+        };
 
-      // Check for completion signals
-      const hasCompletionSignal = lastTurnText.includes('implementation complete') ||
-                                   lastTurnText.includes('build complete') ||
-                                   lastTurnText.includes('all steps verified');
+        // Check for completion signals
+        const hasCompletionSignal = lastTurnText.includes('implementation complete') ||
+                                     lastTurnText.includes('build complete') ||
+                                     lastTurnText.includes('all steps verified');
 
-      if (hasCompletionSignal) {
-        log("✅ [codex-query] Codex signaled completion");
-        allTodosDone = true;
-        break;
-      }
+        if (hasCompletionSignal) {
+          log("✅ [codex-query] Codex signaled completion");
+          allTodosDone = true;
+          break;
+        }
 
-      // Safety: Stop if turn produced no content
-      if (!turnHadContent) {
-        log("⚠️  [codex-query] Turn produced no content, stopping");
-        break;
-      }
+        // Safety: Stop if turn produced no content
+        if (!turnHadContent) {
+          log("⚠️  [codex-query] Turn produced no content, stopping");
+          break;
+        }
 
-      // Log turn completion
-      fileLog.info(`Turn ${turnCount} complete, checking if more work needed...`);
+        // Log turn completion
+        fileLog.info(`Turn ${turnCount} complete, checking if more work needed...`);
+      }
+    } finally {
+      await attachments?.cleanup();
     }
 
     buildLogger.codexQuery.sessionComplete(turnCount);
     fileLog.info("━━━ CODEX QUERY COMPLETE ━━━");
     fileLog.info(`Total turns: ${turnCount}`);
+
+    yield {
+      type: "result",
+      usage: toClaudeUsage(codexUsage),
+      num_turns: turnCount,
+      model: CODEX_MODEL,
+    };
   };
 }
 
 function createBuildQuery(
   agent: AgentId,
   modelId?: ClaudeModelId | OpenCodeModelId,
-  abortController?: AbortController
+  abortController?: AbortController,
+  claudeSession?: ClaudeSessionOptions
 ): BuildQueryFn {
+  // Agents from the registry take precedence and are never routed through OpenCode
+  const backend = getAgentBackend(agent);
+  if (backend) {
+    console.log(`[runner] 🔄 Using registered agent: ${backend.label}${modelId ? ` - Model: ${modelId}` : ''}`);
+    return backend.createQuery({ model: modelId, abortController });
+  }
+
   // When OpenCode SDK is enabled, route ALL requests through it (including Codex)
   if (USE_OPENCODE_SDK) {
     // Map openai-codex agent to the correct OpenCode model
@@ -700,12 +791,12 @@ function createBuildQuery(
   // Fallback: Direct Codex SDK with thread resumption (when OpenCode is disabled)
   if (agent === "openai-codex") {
     console.log('[runner] 🔄 Using direct Codex SDK (fallback mode)');
-    return createCodexQuery();
+    return createCodexQuery(abortController);
   }
 
   // Default: Use native Claude Agent SDK (direct integration)
   console.log('[runner] 🔄 Using NATIVE Claude Agent SDK');
-  return createNativeClaudeQuery((modelId as ClaudeModelId) ?? DEFAULT_CLAUDE_MODEL_ID, abortController);
+  return createNativeClaudeQuery((modelId as ClaudeModelId) ?? DEFAULT_CLAUDE_MODEL_ID, abortController, claudeSession);
 }
 
 /**
@@ -970,6 +1061,22 @@ export async function startRunner(options: RunnerOptions = {}) {
   const WORKSPACE_ROOT = options.workspace || getWorkspaceRoot();
   log("workspace root:", WORKSPACE_ROOT);
 
+  // Third-party agents - advertised in runner-status so their models show up in the model tag
+  const agentModules = [
+    ...(options.agentModules ?? []),
+    ...(process.env.RUNNER_AGENT_MODULES ?? "").split(",").map((entry) => entry.trim()).filter(Boolean),
+  ];
+  if (agentModules.length > 0) {
+    const agentBackends = await loadAgentModules(agentModules);
+    log(`registered agents: ${agentBackends.map((backend) => backend.id).join(", ") || "none"}`);
+  }
+
+  // Replay agent - replays transcripts recorded with RUNNER_RECORD_DIR, no model calls
+  if (process.env.RUNNER_REPLAY_DIR) {
+    await registerAgentBackend(createReplayAgent(process.env.RUNNER_REPLAY_DIR));
+    log("replay transcripts:", resolve(process.env.RUNNER_REPLAY_DIR));
+  }
+
   // Railway-aware RUNNER_ID: Prefer explicit config, then Railway replica ID, fallback to hostname
   const RUNNER_ID = options.runnerId ||
     process.env.RUNNER_ID ||
@@ -1236,6 +1343,43 @@ export async function startRunner(options: RunnerOptions = {}) {
   // Track which sessions have had their start event sent to avoid duplicates
   const startedSessions = new Set<string>();
 
+  // Builds whose screenshots wait for the dev server to pass its health check, by project
+  const pendingScreenshots = new Map<string, { commandId: string; sessionId?: string; projectSlug: string }>();
+
+  /**
+   * Screenshot the running app after a build (RUNNER_SCREENSHOTS=1).
+   * Runs in the background - the build has already completed.
+   */
+  function sendBuildScreenshots(
+    projectId: string,
+    port: number,
+    target: { commandId: string; sessionId?: string; projectSlug: string }
+  ) {
+    const config = getScreenshotConfig();
+    if (!config) return;
+
+    void (async () => {
+      try {
+        log(`📸 Capturing screenshots of ${config.routes.join(", ")} on port ${port}...`);
+        const payload = await captureScreenshots({
+          workspaceRoot: WORKSPACE_ROOT,
+          slug: target.projectSlug,
+          port,
+          config,
+        });
+        log(`📸 Screenshots ${payload.status} (${payload.shots.length} captured)`);
+        sendEvent({
+          type: "build-screenshots",
+          sessionId: target.sessionId,
+          ...buildEventBase(projectId, target.commandId),
+          payload,
+        });
+      } catch (error) {
+        log(`⚠️  Failed to capture screenshots:`, error);
+      }
+    })();
+  }
+
   async function persistBuildEvent(
     context: BuildContext,
     event: Record<string, unknown>
@@ -1343,6 +1487,10 @@ export async function startRunner(options: RunnerOptions = {}) {
     'project-metadata',
     'build-completed',
     'build-summary',
+    'build-verification',
+    'build-screenshots',
+    'build-usage',
+    'claude-session',
     'build-failed',
     'tunnel-created',
     'tunnel-closed',
@@ -1350,6 +1498,8 @@ export async function startRunner(options: RunnerOptions = {}) {
     'process-exited',
     'error',
     'ack',
+    'github-pushed',
+    'github-synced',
   ];
 
 
@@ -1644,6 +1794,9 @@ export async function startRunner(options: RunnerOptions = {}) {
             port: finalPort ?? undefined,
           });
 
+          // Stream edits made while the server runs to the editor
+          projectFileWatcher.watch(command.projectId, workingDirectory);
+
           // Track errors for potential auto-fix
           let errorBuffer: string[] = [];
           let lastErrorTime = 0;
@@ -1683,7 +1836,7 @@ export async function startRunner(options: RunnerOptions = {}) {
               ...buildEventBase(command.projectId, command.id),
               stream: logEvent.type,
               data: logEvent.data,
-              cursor: randomUUID(),
+              cursor: devServerLogBuffer.append(command.projectId, logEvent.type, logEvent.data),
             });
 
             // Track when server has successfully started
@@ -1772,6 +1925,12 @@ export async function startRunner(options: RunnerOptions = {}) {
                 ...buildEventBase(command.projectId, command.id),
                 message: `Dev server is running and healthy on port ${allocatedPort}`,
               });
+
+              const screenshotTarget = pendingScreenshots.get(command.projectId);
+              if (screenshotTarget) {
+                pendingScreenshots.delete(command.projectId);
+                sendBuildScreenshots(command.projectId, allocatedPort, screenshotTarget);
+              }
             } else if (healthResult.portFixed) {
               // Port was fixed in package.json - wait for process to exit, then retry
               log(`🔧 Port configuration fixed, waiting for process cleanup before retry...`);
@@ -1811,7 +1970,8 @@ export async function startRunner(options: RunnerOptions = {}) {
                   ...buildEventBase(command.projectId, command.id),
                   data,
                   stream: type,
-                } as RunnerEvent);
+                  cursor: devServerLogBuffer.append(command.projectId, type, data),
+                });
               });
 
               retryProcess.emitter.on("exit", async ({ code, signal, state, failureReason }) => {
@@ -1851,6 +2011,12 @@ export async function startRunner(options: RunnerOptions = {}) {
                   ...buildEventBase(command.projectId, command.id),
                   message: `Dev server is running and healthy on port ${allocatedPort}`,
                 });
+
+                const screenshotTarget = pendingScreenshots.get(command.projectId);
+                if (screenshotTarget) {
+                  pendingScreenshots.delete(command.projectId);
+                  sendBuildScreenshots(command.projectId, allocatedPort, screenshotTarget);
+                }
               } else {
                 log(`❌ Dev server retry failed: ${retryHealthResult.error}`);
                 sendEvent({
@@ -2010,11 +2176,15 @@ export async function startRunner(options: RunnerOptions = {}) {
         break;
       }
       case "fetch-logs": {
-        log("fetch-logs not yet implemented");
+        // Page through buffered dev server output (newest page first, older via cursor)
+        const { cursor, limit } = command.payload;
+        const page = devServerLogBuffer.getPage(command.projectId, { cursor, limit });
+        log(`📜 fetch-logs: ${page.entries.length} entries (cursor: ${cursor ?? 'latest'}, next: ${page.nextCursor ?? 'none'})`);
         sendEvent({
-          type: "error",
+          type: "log-page",
           ...buildEventBase(command.projectId, command.id),
-          error: "fetch-logs not yet implemented in prototype",
+          entries: page.entries,
+          nextCursor: page.nextCursor,
         });
         break;
       }
@@ -2026,6 +2196,8 @@ export async function startRunner(options: RunnerOptions = {}) {
           console.log(`[runner] 🗑️  Deleting project files for slug: ${slug}`);
           console.log(`[runner]   Path: ${projectPath}`);
 
+          projectFileWatcher.unwatch(command.projectId);
+
           // First, stop any running dev server for this project to release file locks
           const wasStopped = await stopDevServer(command.projectId, {
             tunnelManager,
@@ -2087,6 +2259,9 @@ export async function startRunner(options: RunnerOptions = {}) {
             );
           }
 
+          devServerLogBuffer.clear(command.projectId);
+          await deleteSnapshots(WORKSPACE_ROOT, slug);
+
           sendEvent({
             type: "files-deleted",
             ...buildEventBase(command.projectId, command.id),
@@ -2248,7 +2423,10 @@ export async function startRunner(options: RunnerOptions = {}) {
         // Use unified logger for build received
         const agent = (command.payload?.agent as string) || DEFAULT_AGENT;
         const claudeModelFromPayload = command.payload?.claudeModel;
-        const model = agent === 'claude-code' && 
+        const registeredAgent = getAgentBackend(agent);
+        const model = registeredAgent
+          ? command.payload?.agentModel ?? agent
+          : agent === 'claude-code' && 
           (claudeModelFromPayload === 'claude-haiku-4-5' || 
            claudeModelFromPayload === 'claude-sonnet-4-5' || 
            claudeModelFromPayload === 'claude-opus-4-5')
@@ -2274,6 +2452,26 @@ export async function startRunner(options: RunnerOptions = {}) {
         fileLog.info("Agent:", command.payload?.agent);
         fileLog.info("Template:", command.payload?.template);
 
+        // Token and cost usage, summed over every agent run of this build (repair turns included)
+        const usageTracker = new BuildUsageTracker(
+          agent as AgentId,
+          agent === "openai-codex" ? CODEX_MODEL : model
+        );
+        // Per-build spending cap - the build is aborted once the agent's usage crosses it
+        const buildBudget = command.payload?.budget;
+        let budgetExceeded: string | null = null;
+        // Set when the project still fails verification after the last repair turn
+        let verificationFailure: string | null = null;
+        const sendBuildUsage = () => {
+          if (!usageTracker.hasUsage()) return;
+          sendEvent({
+            type: "build-usage",
+            sessionId: command.payload?.sessionId,
+            ...buildEventBase(command.projectId, command.id),
+            payload: usageTracker.snapshot(),
+          });
+        };
+
         // REMOVED: Manual Sentry span creation - rely on automatic instrumentation
         // await Sentry.startSpan({ name: "runner.build", op: "ai.build", ... }, async () => {
         // Build operation (previously wrapped in Sentry span)
@@ -2296,7 +2494,12 @@ export async function startRunner(options: RunnerOptions = {}) {
           // Determine agent to use for this build
           const agent =
             (command.payload.agent as AgentId | undefined) ?? DEFAULT_AGENT;
-          const agentLabel = agent === "openai-codex" ? "Codex" : "Claude";
+          // Unknown agents fail rather than silently building with Claude
+          if (!registeredAgent && !isBuiltInAgentId(agent)) {
+            throw new Error(`Agent '${agent}' is not registered on this runner`);
+          }
+          const agentLabel =
+            registeredAgent?.label ?? (agent === "openai-codex" ? "Codex" : "Claude");
           log("selected agent:", agent);
           const claudeModel: ClaudeModelId =
             agent === "claude-code" &&
@@ -2325,17 +2528,37 @@ export async function startRunner(options: RunnerOptions = {}) {
             // Store abort controller for cancellation
             abortController: buildAbortController,
           });
+          // Report the new build count right away so the scheduler sees this runner as busier
+          publishStatus();
 
           if (agent === "claude-code") {
             log("claude model:", claudeModel);
           }
 
-          const agentQuery = createBuildQuery(agent, claudeModel, buildAbortController);
+          // Follow-up builds resume the project's Claude session (native SDK only)
+          const resumeClaudeSessionId =
+            agent === "claude-code" && !USE_OPENCODE_SDK
+              ? command.payload.claudeSessionId
+              : undefined;
+          let reportedClaudeSessionId = resumeClaudeSessionId;
 
           // Reset transformer state for new build
           resetTransformerState();
           setExpectedCwd(projectDirectory);
 
+          // Snapshot the workspace before the agent touches it so the build can be rolled back
+          if (command.payload.buildId) {
+            try {
+              const snapshot = await createSnapshot(WORKSPACE_ROOT, projectSlug, command.payload.buildId);
+              if (snapshot) {
+                log(`📸 snapshot ${snapshot.commitSha.slice(0, 7)} taken for ${command.payload.buildId}`);
+              }
+            } catch (snapshotError) {
+              // Non-fatal - the build still runs, it just can't be rolled back
+              console.warn("[snapshots] ⚠️ Failed to snapshot workspace before build:", snapshotError);
+            }
+          }
+
           // Orchestrate the build - handle templates, generate dynamic prompt
           log("orchestrating build...");
 
@@ -2359,8 +2582,25 @@ export async function startRunner(options: RunnerOptions = {}) {
             designPreferences: command.payload.designPreferences, // User-specified design constraints (deprecated - use tags)
             tags: command.payload.tags, // Tag-based configuration
             conversationHistory: (command.payload as unknown as { conversationHistory: Array<{ role: string; content: string; timestamp: Date }> }).conversationHistory, // Pass conversation context (type will be updated after rebuild)
+            envVarNames: command.payload.envVarNames, // Names only - values never reach the agent
+            resumeSessionId: resumeClaudeSessionId,
+          });
+
+          let agentQuery = createBuildQuery(agent, registeredAgent ? command.payload.agentModel : claudeModel, buildAbortController, {
+            resumeSessionId: resumeClaudeSessionId,
+            fallbackSystemPrompt: orchestration.fallbackSystemPrompt,
           });
 
+          // Record mode - keep the agent's messages so the build can be replayed offline
+          if (process.env.RUNNER_RECORD_DIR) {
+            const transcriptPath = getTranscriptPath(process.env.RUNNER_RECORD_DIR, projectSlug, command.id);
+            agentQuery = recordQuery(agentQuery, transcriptPath);
+            buildLog(` 📼 Recording agent messages to ${transcriptPath}`);
+          }
+
+          // The template is in place now - stream the agent's edits to the editor
+          projectFileWatcher.watch(command.projectId, projectDirectory);
+
           // Log template selection
           if (orchestration.template) {
             logger.template({
@@ -2419,287 +2659,399 @@ export async function startRunner(options: RunnerOptions = {}) {
             `   Template: ${orchestration.template?.name || "none"}`
           );
 
-          const stream = await createBuildStream({
-            projectId: command.projectId,
-            projectName,
-            prompt: orchestration.fullPrompt,
-            messageParts: (command.payload as unknown as { messageParts: MessagePart[] }).messageParts,
-            operationType: command.payload.operationType,
-            context: command.payload.context,
-            query: agentQuery,
-            workingDirectory: projectDirectory,
-            systemPrompt: orchestration.systemPrompt,
-            agent,
-            claudeModel: agent === "claude-code" ? claudeModel : undefined,
-            isNewProject: orchestration.isNewProject,
-          });
-
-          buildLog(
-            ` 📡 Build stream created, starting to process chunks...`
-          );
-
-          const reader = stream.getReader();
-          const decoder = new TextDecoder();
+          // Optional verification: run the build + type-check once the agent is done and hand
+          // failures back to it for a bounded number of repair turns
+          const verifyBuildEnabled =
+            command.payload.verifyBuild ?? process.env.RUNNER_VERIFY_BUILD === "1";
+          let streamPrompt = orchestration.fullPrompt;
+          let repairAttempt = 0;
+
+          // Batched focused edits - show the agent what each pinned element looks like
+          let messageParts = (command.payload as unknown as { messageParts?: MessagePart[] }).messageParts;
+          const pinnedElements = (command.payload.context as { elements?: FocusedEditElement[] } | undefined)?.elements;
+          if (command.payload.operationType === "focused-edit" && pinnedElements?.length) {
+            const chromiumPath = getChromiumPath();
+            const devServer = getDevServer(command.projectId);
+            if (chromiumPath && devServer?.port && devServer.state === ProcessState.RUNNING) {
+              try {
+                const crops = await captureElementCrops({ chromiumPath, port: devServer.port, elements: pinnedElements });
+                if (crops.length > 0) {
+                  messageParts = [...(messageParts ?? []), ...crops];
+                  streamPrompt += `\n\nCropped screenshots of the elements are attached: ${crops.map((crop) => crop.fileName).join(", ")}`;
+                  buildLog(` 📸 Attached ${crops.length} element screenshot(s)`);
+                }
+              } catch (cropError) {
+                // Non-fatal - selectors and DOM paths still identify the elements
+                log(`⚠️  Failed to capture element screenshots:`, cropError);
+              }
+            }
+          }
 
           let chunkCount = 0;
           
           // Track files modified and todos for build summary
           const filesModified = new Set<string>();
           const completedTodos: string[] = [];
-          
+
           while (true) {
-            const { value, done } = await reader.read();
-            if (done) {
-              buildLog(
-                ` Stream reader reports DONE after ${chunkCount} chunks`
-              );
-              break;
-            }
-            if (value === undefined || value === null) continue;
-            chunkCount++;
+            const isRepairTurn = repairAttempt > 0;
+            const stream = await createBuildStream({
+              projectId: command.projectId,
+              projectName,
+              prompt: streamPrompt,
+              messageParts: isRepairTurn ? undefined : messageParts,
+              operationType: isRepairTurn ? "autofix" : command.payload.operationType,
+              context: isRepairTurn ? undefined : command.payload.context,
+              query: agentQuery,
+              workingDirectory: projectDirectory,
+              systemPrompt: orchestration.systemPrompt,
+              agent,
+              claudeModel: agent === "claude-code" ? claudeModel : undefined,
+              isNewProject: !isRepairTurn && orchestration.isNewProject,
+            });
 
-            // Decode the chunk to get the agent message object
-            let agentMessage: unknown;
-            if (typeof value === "string") {
-              try {
-                agentMessage = JSON.parse(value);
-              } catch {
-                agentMessage = { raw: value };
+            buildLog(
+              ` 📡 Build stream created, starting to process chunks...`
+            );
+
+            const reader = stream.getReader();
+            const decoder = new TextDecoder();
+
+            while (true) {
+              const { value, done } = await reader.read();
+              if (done) {
+                buildLog(
+                  ` Stream reader reports DONE after ${chunkCount} chunks`
+                );
+                break;
               }
-            } else if (value instanceof Uint8Array) {
-              const text = decoder.decode(value, { stream: true });
-              try {
-                agentMessage = JSON.parse(text);
-              } catch {
-                agentMessage = { raw: text };
+              if (value === undefined || value === null) continue;
+              chunkCount++;
+
+              // Decode the chunk to get the agent message object
+              let agentMessage: unknown;
+              if (typeof value === "string") {
+                try {
+                  agentMessage = JSON.parse(value);
+                } catch {
+                  agentMessage = { raw: value };
+                }
+              } else if (value instanceof Uint8Array) {
+                const text = decoder.decode(value, { stream: true });
+                try {
+                  agentMessage = JSON.parse(text);
+                } catch {
+                  agentMessage = { raw: text };
+                }
+              } else if (ArrayBuffer.isView(value)) {
+                const view = value as ArrayBufferView;
+                const text = decoder.decode(
+                  new Uint8Array(
+                    view.buffer,
+                    view.byteOffset,
+                    view.byteLength
+                  ),
+                  { stream: true }
+                );
+                try {
+                  agentMessage = JSON.parse(text);
+                } catch {
+                  agentMessage = { raw: text };
+                }
+              } else if (value instanceof ArrayBuffer) {
+                const text = decoder.decode(new Uint8Array(value), {
+                  stream: true,
+                });
+                try {
+                  agentMessage = JSON.parse(text);
+                } catch {
+                  agentMessage = { raw: text };
+                }
+              } else if (typeof value === "object") {
+                agentMessage = value;
+              } else {
+                log(
+                  "Unsupported chunk type from build stream:",
+                  typeof value
+                );
+                continue;
               }
-            } else if (ArrayBuffer.isView(value)) {
-              const view = value as ArrayBufferView;
-              const text = decoder.decode(
-                new Uint8Array(
-                  view.buffer,
-                  view.byteOffset,
-                  view.byteLength
-                ),
-                { stream: true }
-              );
-              try {
-                agentMessage = JSON.parse(text);
-              } catch {
-                agentMessage = { raw: text };
+
+              if (!loggedFirstChunk) {
+                buildLog(` 📨 First chunk received from ${agentLabel}`);
+                loggedFirstChunk = true;
               }
-            } else if (value instanceof ArrayBuffer) {
-              const text = decoder.decode(new Uint8Array(value), {
-                stream: true,
-              });
-              try {
-                agentMessage = JSON.parse(text);
-              } catch {
-                agentMessage = { raw: text };
+
+              usageTracker.record(agentMessage);
+              if (!budgetExceeded) {
+                budgetExceeded = usageTracker.checkBudget(buildBudget);
+                if (budgetExceeded) {
+                  buildLog(` 💸 ${budgetExceeded}`);
+                  buildAbortController.abort();
+                  // Agents don't always stop right away on abort - stop reading so the build fails now
+                  break;
+                }
               }
-            } else if (typeof value === "object") {
-              agentMessage = value;
-            } else {
-              log(
-                "Unsupported chunk type from build stream:",
-                typeof value
-              );
-              continue;
-            }
 
-            if (!loggedFirstChunk) {
-              buildLog(` 📨 First chunk received from ${agentLabel}`);
-              loggedFirstChunk = true;
-            }
+              // Log generation and tool usage
+              if (typeof agentMessage === "object" && agentMessage !== null) {
+                const msg = agentMessage as Record<string, unknown>;
+
+                // Store the Claude session so the next follow-up build can resume it
+                if (
+                  agent === "claude-code" &&
+                  msg.type === "system" &&
+                  typeof msg.session_id === "string" &&
+                  msg.session_id &&
+                  msg.session_id !== reportedClaudeSessionId
+                ) {
+                  reportedClaudeSessionId = msg.session_id;
+                  sendEvent({
+                    type: "claude-session",
+                    sessionId: command.payload.sessionId,
+                    ...buildEventBase(command.projectId, command.id),
+                    payload: { claudeSessionId: msg.session_id },
+                  });
+                }
 
-            // Log generation and tool usage
-            if (typeof agentMessage === "object" && agentMessage !== null) {
-              const msg = agentMessage as Record<string, unknown>;
-
-              // The actual message is nested in a 'message' property
-              const actualMessage =
-                (msg.message as Record<string, unknown>) || msg;
-
-              // Handle assistant messages (conversation turn format)
-              if (
-                msg.type === "assistant" &&
-                actualMessage.content &&
-                Array.isArray(actualMessage.content)
-              ) {
-                for (const block of actualMessage.content) {
-                  // Log text content
-                  if (block.type === "text" && block.text) {
-                    buildLog(
-                      ` 💭 ${agentLabel}: ${block.text.slice(0, 200)}${
-                        block.text.length > 200 ? "..." : ""
-                      }`
-                    );
-                  }
+                // The actual message is nested in a 'message' property
+                const actualMessage =
+                  (msg.message as Record<string, unknown>) || msg;
+
+                // Handle assistant messages (conversation turn format)
+                if (
+                  msg.type === "assistant" &&
+                  actualMessage.content &&
+                  Array.isArray(actualMessage.content)
+                ) {
+                  for (const block of actualMessage.content) {
+                    // Log text content
+                    if (block.type === "text" && block.text) {
+                      buildLog(
+                        ` 💭 ${agentLabel}: ${block.text.slice(0, 200)}${
+                          block.text.length > 200 ? "..." : ""
+                        }`
+                      );
+                    }
 
-                  // Log thinking blocks
-                  if (block.type === "thinking" && block.thinking) {
-                    buildLog(
-                      ` 🤔 Thinking: ${block.thinking.slice(0, 300)}${
-                        block.thinking.length > 300 ? "..." : ""
-                      }`
-                    );
-                  }
+                    // Log thinking blocks
+                    if (block.type === "thinking" && block.thinking) {
+                      buildLog(
+                        ` 🤔 Thinking: ${block.thinking.slice(0, 300)}${
+                          block.thinking.length > 300 ? "..." : ""
+                        }`
+                      );
+                    }
 
-                  // Log tool use via unified logger
-                  if (block.type === "tool_use") {
-                    const toolName = block.name;
-                    logger.tool(toolName, block.input as Record<string, unknown>);
+                    // Log tool use via unified logger
+                    if (block.type === "tool_use") {
+                      const toolName = block.name;
+                      logger.tool(toolName, block.input as Record<string, unknown>);
                     
-                    if (DEBUG_BUILD) {
-                      buildLog(`    Input: ${truncateJSON(block.input, 200)}`);
+                      if (DEBUG_BUILD) {
+                        buildLog(`    Input: ${truncateJSON(block.input, 200)}`);
+                      }
                     }
                   }
                 }
-              }
 
-              // Handle user messages (tool results)
-              if (
-                msg.type === "user" &&
-                actualMessage.content &&
-                Array.isArray(actualMessage.content)
-              ) {
-                for (const block of actualMessage.content) {
-                  if (block.type === "tool_result") {
-                    const toolId = block.tool_use_id;
-                    const isError = block.is_error;
-
-                    // Handle different content formats
-                    let content = "";
-                    if (typeof block.content === "string") {
-                      content = block.content;
-                    } else if (Array.isArray(block.content)) {
-                      // Content might be an array of content blocks
-                      content = (
-                        block.content as Array<{
-                          type: string;
-                          text?: string;
-                        }>
-                      )
-                        .map((c) => {
-                          if (c.type === "text" && c.text) return c.text;
-                          return JSON.stringify(c);
-                        })
-                        .join("\n");
-                    } else {
-                      content = JSON.stringify(block.content);
-                    }
-
-                    // DEBUG: Log tool results (adapter already logs this)
-                    if (DEBUG_BUILD) {
-                      if (isError) {
-                        buildLog(` ❌ Tool error (${toolId}):`);
-                        buildLog(`    ${truncate(content, 200)}`);
+                // Handle user messages (tool results)
+                if (
+                  msg.type === "user" &&
+                  actualMessage.content &&
+                  Array.isArray(actualMessage.content)
+                ) {
+                  for (const block of actualMessage.content) {
+                    if (block.type === "tool_result") {
+                      const toolId = block.tool_use_id;
+                      const isError = block.is_error;
+
+                      // Handle different content formats
+                      let content = "";
+                      if (typeof block.content === "string") {
+                        content = block.content;
+                      } else if (Array.isArray(block.content)) {
+                        // Content might be an array of content blocks
+                        content = (
+                          block.content as Array<{
+                            type: string;
+                            text?: string;
+                          }>
+                        )
+                          .map((c) => {
+                            if (c.type === "text" && c.text) return c.text;
+                            return JSON.stringify(c);
+                          })
+                          .join("\n");
                       } else {
-                        buildLog(` ✅ Tool result (${toolId}):`);
-                        buildLog(`    ${truncate(content, 200)}`);
+                        content = JSON.stringify(block.content);
+                      }
+
+                      // DEBUG: Log tool results (adapter already logs this)
+                      if (DEBUG_BUILD) {
+                        if (isError) {
+                          buildLog(` ❌ Tool error (${toolId}):`);
+                          buildLog(`    ${truncate(content, 200)}`);
+                        } else {
+                          buildLog(` ✅ Tool result (${toolId}):`);
+                          buildLog(`    ${truncate(content, 200)}`);
+                        }
                       }
                     }
                   }
                 }
               }
-            }
 
-            // Transform agent message to SSE events
-            const sseEvents = transformAgentMessageToSSE(agentMessage);
-
-            // Filter and send events - exclude high-volume events that don't affect UI
-            const IMPORTANT_EVENT_TYPES = [
-              'start',
-              'finish',
-              'tool-input-available',
-              'tool-output-available',
-              'text-start',
-              'text-delta',  // Needed for streaming text content (e.g., GITHUB_RESULT parsing)
-              'text-end',
-              'error',
-              // NOT reasoning (high volume, only for DB persistence if needed)
-            ];
-
-            // Get build context for HTTP persistence
-            const buildContext = activeBuildContexts.get(command.id);
-
-            for (const event of sseEvents) {
-              // Track files modified via Edit/Write tools for summary context
-              if (event.type === 'tool-input-available') {
-                const toolEvent = event as { toolName?: string; input?: unknown };
-                if ((toolEvent.toolName === 'Edit' || toolEvent.toolName === 'Write') && toolEvent.input) {
-                  const input = toolEvent.input as { file_path?: string; filePath?: string };
-                  const filePath = input.file_path || input.filePath;
-                  if (filePath) {
-                    // Extract just the filename/relative path for cleaner summary
-                    const relativePath = filePath.includes('/') 
-                      ? filePath.split('/').slice(-2).join('/')
-                      : filePath;
-                    filesModified.add(relativePath);
+              // Transform agent message to SSE events
+              const sseEvents = transformAgentMessageToSSE(agentMessage);
+
+              // Filter and send events - exclude high-volume events that don't affect UI
+              const IMPORTANT_EVENT_TYPES = [
+                'start',
+                'finish',
+                'tool-input-available',
+                'tool-output-available',
+                'text-start',
+                'text-delta',  // Needed for streaming text content (e.g., GITHUB_RESULT parsing)
+                'text-end',
+                'error',
+                // NOT reasoning (high volume, only for DB persistence if needed)
+              ];
+
+              // Get build context for HTTP persistence
+              const buildContext = activeBuildContexts.get(command.id);
+
+              for (const event of sseEvents) {
+                // Track files modified via Edit/Write tools for summary context
+                if (event.type === 'tool-input-available') {
+                  const toolEvent = event as { toolName?: string; input?: unknown };
+                  if ((toolEvent.toolName === 'Edit' || toolEvent.toolName === 'Write') && toolEvent.input) {
+                    const input = toolEvent.input as { file_path?: string; filePath?: string };
+                    const filePath = input.file_path || input.filePath;
+                    if (filePath) {
+                      // Extract just the filename/relative path for cleaner summary
+                      const relativePath = filePath.includes('/') 
+                        ? filePath.split('/').slice(-2).join('/')
+                        : filePath;
+                      filesModified.add(relativePath);
+                    }
                   }
-                }
-                // Track completed todos for summary context
-                if (toolEvent.toolName === 'TodoWrite' && toolEvent.input) {
-                  const input = toolEvent.input as { todos?: Array<{ id?: string; content: string; status: string; priority?: string }> };
-                  if (input.todos) {
-                    // Update the logger's todo list for the build panel
-                    const todoItems = input.todos.map(t => ({
-                      id: t.id || `todo-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
-                      content: t.content,
-                      status: t.status as 'pending' | 'in_progress' | 'completed' | 'cancelled',
-                      priority: t.priority as 'high' | 'medium' | 'low' | undefined,
-                    }));
-                    logger.updateTodos(todoItems);
+                  // Track completed todos for summary context
+                  if (toolEvent.toolName === 'TodoWrite' && toolEvent.input) {
+                    const input = toolEvent.input as { todos?: Array<{ id?: string; content: string; status: string; priority?: string }> };
+                    if (input.todos) {
+                      // Update the logger's todo list for the build panel
+                      const todoItems = input.todos.map(t => ({
+                        id: t.id || `todo-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+                        content: t.content,
+                        status: t.status as 'pending' | 'in_progress' | 'completed' | 'cancelled',
+                        priority: t.priority as 'high' | 'medium' | 'low' | undefined,
+                      }));
+                      logger.updateTodos(todoItems);
                     
-                    // Get completed todos (excluding any "summarize" todos from old prompts)
-                    const completed = input.todos
-                      .filter(t => t.status === 'completed' && !t.content.toLowerCase().includes('summarize'))
-                      .map(t => t.content);
-                    // Update our list with the latest completed todos
-                    completedTodos.length = 0;
-                    completedTodos.push(...completed);
+                      // Get completed todos (excluding any "summarize" todos from old prompts)
+                      const completed = input.todos
+                        .filter(t => t.status === 'completed' && !t.content.toLowerCase().includes('summarize'))
+                        .map(t => t.content);
+                      // Update our list with the latest completed todos
+                      completedTodos.length = 0;
+                      completedTodos.push(...completed);
+                    }
                   }
                 }
-              }
               
-              // Persist events via HTTP (filtering happens in persistBuildEvent)
-              // AWAIT to ensure input writes before output arrives (prevents race condition)
-              if (buildContext) {
-                await persistBuildEvent(buildContext, event);
-              }
+                // Persist events via HTTP (filtering happens in persistBuildEvent)
+                // AWAIT to ensure input writes before output arrives (prevents race condition)
+                if (buildContext) {
+                  await persistBuildEvent(buildContext, event);
+                }
 
-              // Only send important events via WebSocket for frontend UI
-              if (!IMPORTANT_EVENT_TYPES.includes(event.type)) {
-                continue;
+                // Only send important events via WebSocket for frontend UI
+                if (!IMPORTANT_EVENT_TYPES.includes(event.type)) {
+                  continue;
+                }
+
+                const payload = `data: ${JSON.stringify(event)}\n\n`;
+                sendEvent({
+                  type: "build-stream",
+                  ...buildEventBase(command.projectId, command.id),
+                  data: payload,
+                });
               }
+            }
 
-              const payload = `data: ${JSON.stringify(event)}\n\n`;
+            buildLog(` ═══════════════════════════════════════════════`);
+            buildLog(` STREAM ENDED - Processing final chunks`);
+            buildLog(` ═══════════════════════════════════════════════`);
+
+            const finalChunk = decoder.decode();
+            if (finalChunk) {
+              buildLog(` Final chunk decoded: ${finalChunk.length} chars`);
+              let payload = finalChunk.startsWith("data:")
+                ? finalChunk
+                : `data: ${finalChunk}`;
+              if (!payload.endsWith("\n\n")) {
+                payload = `${payload}\n\n`;
+              }
               sendEvent({
                 type: "build-stream",
                 ...buildEventBase(command.projectId, command.id),
                 data: payload,
               });
             }
-          }
 
-          buildLog(` ═══════════════════════════════════════════════`);
-          buildLog(` STREAM ENDED - Processing final chunks`);
-          buildLog(` ═══════════════════════════════════════════════`);
-
-          const finalChunk = decoder.decode();
-          if (finalChunk) {
-            buildLog(` Final chunk decoded: ${finalChunk.length} chars`);
-            let payload = finalChunk.startsWith("data:")
-              ? finalChunk
-              : `data: ${finalChunk}`;
-            if (!payload.endsWith("\n\n")) {
-              payload = `${payload}\n\n`;
+            if (!verifyBuildEnabled || buildAbortController.signal.aborted) {
+              break;
             }
+
+            buildLog(
+              ` 🔎 Verifying build${isRepairTurn ? ` (after repair ${repairAttempt}/${MAX_VERIFICATION_REPAIR_ATTEMPTS})` : ""}...`
+            );
+            const verification = await verifyBuild(projectDirectory, orchestration.template, {
+              attempt: repairAttempt,
+              maxRepairAttempts: MAX_VERIFICATION_REPAIR_ATTEMPTS,
+              signal: buildAbortController.signal,
+            });
+
+            for (const step of verification.steps) {
+              buildLog(
+                `    ${step.success ? "✅" : "❌"} ${step.command} (${(step.durationMs / 1000).toFixed(1)}s)`
+              );
+            }
+            if (verification.reason) {
+              buildLog(`    Skipped: ${verification.reason}`);
+            }
+
             sendEvent({
-              type: "build-stream",
+              type: "build-verification",
+              sessionId: command.payload.sessionId,
               ...buildEventBase(command.projectId, command.id),
-              data: payload,
+              payload: verification,
             });
+
+            if (verification.status !== "failed" || buildAbortController.signal.aborted) {
+              break;
+            }
+
+            if (repairAttempt >= MAX_VERIFICATION_REPAIR_ATTEMPTS) {
+              verificationFailure = describeVerificationFailure(verification);
+              buildLog(` ❌ Verification still failing after ${repairAttempt} repair turn(s)`);
+              break;
+            }
+
+            repairAttempt++;
+            streamPrompt = buildRepairPrompt(verification);
+            buildLog(
+              ` 🔧 Verification failed - starting repair turn ${repairAttempt}/${MAX_VERIFICATION_REPAIR_ATTEMPTS}`
+            );
+          }
+
+          if (budgetExceeded) {
+            throw new Error(budgetExceeded);
+          }
+
+          if (verificationFailure) {
+            throw new Error(verificationFailure);
           }
 
           buildLog(` Sending [DONE] signal to client`);
@@ -2754,13 +3106,10 @@ export async function startRunner(options: RunnerOptions = {}) {
             ? (buildEndTime - (completedBuildContext as any).startTime || buildEndTime) / 1000 
             : 0;
           
-          // TODO: Get actual token usage from build stream when available
-          const totalTokens = 0; // Will be populated from usage events
-          
           logger.buildComplete({
             elapsedTime: elapsedSeconds,
             toolCallCount: filesModified.size + completedTodos.length, // Approximate from tracked data
-            totalTokens,
+            totalTokens: usageTracker.totalTokens,
             directory: projectDirectory,
           });
 
@@ -2784,6 +3133,7 @@ export async function startRunner(options: RunnerOptions = {}) {
           const completedContext = activeBuildContexts.get(command.id);
           const sessionId = completedContext?.sessionId;
 
+          sendBuildUsage();
           sendEvent({
             type: "build-completed",
             ...buildEventBase(command.projectId, command.id),
@@ -2852,6 +3202,18 @@ Write a brief, professional summary (1-3 sentences) describing what was accompli
             })();
           }
 
+          // Screenshot the app once it runs: right away when the dev server is
+          // already up (follow-up builds hot reload), otherwise after it starts
+          if (getScreenshotConfig()) {
+            const screenshotTarget = { commandId: command.id, sessionId, projectSlug };
+            const devServer = getDevServer(command.projectId);
+            if (devServer?.port && devServer.state === ProcessState.RUNNING) {
+              sendBuildScreenshots(command.projectId, devServer.port, screenshotTarget);
+            } else {
+              pendingScreenshots.set(command.projectId, screenshotTarget);
+            }
+          }
+
           // Print event summary
           printEventSummary();
 
@@ -2877,19 +3239,23 @@ Write a brief, professional summary (1-3 sentences) describing what was accompli
             startedSessions.delete(completedContext.sessionId);
           }
           activeBuildContexts.delete(command.id);
+          publishStatus();
         } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : "Failed to run build";
+          // An aborted agent may throw its own error - report the budget as the reason
+          const errorMessage = budgetExceeded ?? verificationFailure ?? (error instanceof Error ? error.message : "Failed to run build");
           logger.buildFailed(errorMessage);
           
           Sentry.getActiveSpan()?.setStatus({
             code: 2, // SPAN_STATUS_ERROR
             message: "Build failed",
           });
+          sendBuildUsage();
           sendEvent({
             type: "build-failed",
             ...buildEventBase(command.projectId, command.id),
             error: errorMessage,
             stack: error instanceof Error ? error.stack : undefined,
+            failureReason: budgetExceeded ? "budget-exceeded" : verificationFailure ? "verification-failed" : undefined,
           });
 
           // Print event summary
@@ -2901,6 +3267,7 @@ Write a brief, professional summary (1-3 sentences) describing what was accompli
             startedSessions.delete(failedContext.sessionId);
           }
           activeBuildContexts.delete(command.id);
+          publishStatus();
           throw error;
         }
         break;
@@ -3017,27 +3384,312 @@ Write a brief, professional summary (1-3 sentences) describing what was accompli
         break;
       }
       case "github-sync": {
-        // Sync GitHub repository information (not yet implemented)
-        console.log('[github] GitHub sync command received (not yet implemented)');
-        sendEvent({
-          type: "ack",
-          commandId: command.id,
-          projectId: command.projectId,
-          timestamp: new Date().toISOString(),
-          message: 'GitHub sync command received (not yet implemented)',
-        });
+        // Refresh repository metadata (counts, recent commits) from GitHub
+        const { repo } = command.payload;
+        console.log(`[github] 🔄 Syncing repository info for ${repo}`);
+
+        try {
+          const meta = await fetchGitHubMeta(repo);
+          console.log(`[github] ✅ Synced ${repo} (${meta.openIssuesCount} issues, ${meta.openPrsCount} PRs)`);
+          sendEvent({
+            type: "github-synced",
+            ...buildEventBase(command.projectId, command.id),
+            payload: { success: true, repo, meta },
+          });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : "Failed to sync GitHub repository";
+          console.error(`[github] ❌ Sync failed for ${repo}:`, message);
+          sendEvent({
+            type: "github-synced",
+            ...buildEventBase(command.projectId, command.id),
+            payload: { success: false, repo, error: message, meta: { lastSyncError: message } },
+          });
+        }
         break;
       }
       case "github-push": {
-        // Push to GitHub repository (not yet implemented)
-        console.log('[github] GitHub push command received (not yet implemented)');
-        sendEvent({
-          type: "ack",
-          commandId: command.id,
-          projectId: command.projectId,
-          timestamp: new Date().toISOString(),
-          message: 'GitHub push command received (not yet implemented)',
-        });
+        // Commit the workspace and push it to GitHub, creating the repo if needed
+        const { slug, repo, commitMessage, visibility } = command.payload;
+        const branch = command.payload.branch || "main";
+        const projectPath = join(WORKSPACE_ROOT, slug);
+        console.log(`[github] ⬆️  Pushing ${slug} to ${repo} (${branch})`);
+
+        try {
+          if (!projectPath.startsWith(WORKSPACE_ROOT) || slug.includes("..")) {
+            throw new Error("Invalid project slug - outside workspace");
+          }
+
+          const result = await pushProjectToGitHub({
+            projectPath,
+            repo,
+            branch,
+            commitMessage,
+            visibility,
+          });
+          console.log(`[github] ✅ Pushed ${result.filesChanged} changed file(s) to ${repo} @ ${result.commitSha.slice(0, 7)}`);
+
+          // Metadata refresh is best-effort - the push itself already succeeded
+          let meta: GitHubMeta;
+          try {
+            meta = await fetchGitHubMeta(repo, branch);
+          } catch (metaError) {
+            const message = metaError instanceof Error ? metaError.message : String(metaError);
+            console.warn(`[github] ⚠️ Pushed but failed to refresh repository info:`, message);
+            meta = { lastSyncError: message };
+          }
+
+          sendEvent({
+            type: "github-pushed",
+            ...buildEventBase(command.projectId, command.id),
+            payload: {
+              success: true,
+              repo,
+              branch,
+              url: result.url,
+              commitSha: result.commitSha,
+              filesChanged: result.filesChanged,
+              repoCreated: result.repoCreated,
+              meta,
+            },
+          });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : "Failed to push to GitHub";
+          console.error(`[github] ❌ Push failed for ${repo}:`, message);
+          sendEvent({
+            type: "github-pushed",
+            ...buildEventBase(command.projectId, command.id),
+            payload: { success: false, repo, branch, error: message, meta: { lastSyncError: message } },
+          });
+        }
+        break;
+      }
+      case "list-snapshots": {
+        const { slug } = command.payload;
+        try {
+          const snapshots = await listSnapshots(WORKSPACE_ROOT, slug);
+          sendEvent({
+            type: "snapshot-list",
+            ...buildEventBase(command.projectId, command.id),
+            snapshots,
+          });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : "Failed to list snapshots";
+          console.error(`[snapshots] ❌ Failed to list snapshots for ${slug}:`, message);
+          sendEvent({
+            type: "snapshot-list",
+            ...buildEventBase(command.projectId, command.id),
+            snapshots: [],
+            error: message,
+          });
+        }
+        break;
+      }
+      case "restore-snapshot": {
+        // Roll the workspace back to its state before the given build
+        const { slug, buildId } = command.payload;
+        console.log(`[snapshots] ⏪ Restoring ${slug} to before ${buildId}`);
+
+        try {
+          for (const ctx of activeBuildContexts.values()) {
+            if (ctx.projectId === command.projectId) {
+              throw new Error("Cannot restore a snapshot while a build is running");
+            }
+          }
+
+          const result = await restoreSnapshot(WORKSPACE_ROOT, slug, buildId);
+          console.log(`[snapshots] ✅ Restored ${result.filesChanged} file(s) (backup: ${result.backupBuildId})`);
+          sendEvent({
+            type: "snapshot-restored",
+            ...buildEventBase(command.projectId, command.id),
+            payload: {
+              success: true,
+              buildId,
+              backupBuildId: result.backupBuildId,
+              filesChanged: result.filesChanged,
+            },
+          });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : "Failed to restore snapshot";
+          console.error(`[snapshots] ❌ Restore failed for ${slug}:`, message);
+          sendEvent({
+            type: "snapshot-restored",
+            ...buildEventBase(command.projectId, command.id),
+            payload: { success: false, buildId, error: message },
+          });
+        }
+        break;
+      }
+      case "diff-snapshots": {
+        const { slug, from, to, includePatch } = command.payload;
+        try {
+          const diff = await diffSnapshots(WORKSPACE_ROOT, slug, from, to, { includePatch });
+          sendEvent({
+            type: "snapshot-diff",
+            ...buildEventBase(command.projectId, command.id),
+            from,
+            to: to ?? null,
+            ...diff,
+          });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : "Failed to diff snapshots";
+          console.error(`[snapshots] ❌ Diff failed for ${slug}:`, message);
+          sendEvent({
+            type: "snapshot-diff",
+            ...buildEventBase(command.projectId, command.id),
+            from,
+            to: to ?? null,
+            files: [],
+            error: message,
+          });
+        }
+        break;
+      }
+      case "export-project": {
+        // Stream the project workspace to the broker, which relays it to another runner
+        const { slug, transferId } = command.payload;
+        console.log(`[transfer] 📤 Exporting ${slug} (transfer ${transferId})`);
+
+        let index = 0;
+        try {
+          const bytes = await exportProject(WORKSPACE_ROOT, slug, (chunk, isFinal) => {
+            sendEvent({
+              type: "project-export-chunk",
+              ...buildEventBase(command.projectId, command.id),
+              transferId,
+              index: index++,
+              chunk: chunk.toString("base64"),
+              isFinal,
+            });
+          });
+          console.log(`[transfer] ✅ Exported ${slug} (${bytes} bytes in ${index} chunk(s))`);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : "Failed to export project";
+          console.error(`[transfer] ❌ Export failed for ${slug}:`, message);
+          sendEvent({
+            type: "project-export-chunk",
+            ...buildEventBase(command.projectId, command.id),
+            transferId,
+            index,
+            chunk: "",
+            isFinal: true,
+            error: message,
+          });
+        }
+        break;
+      }
+      case "export-build": {
+        // Build the project for production and stream the artifact to the broker for download
+        const { slug, exportId, framework } = command.payload;
+        console.log(`[export] 📦 Exporting production build of ${slug} (export ${exportId})`);
+
+        let index = 0;
+        let artifact: BuildExportArtifact | undefined;
+        try {
+          const result = await exportBuild(
+            WORKSPACE_ROOT,
+            slug,
+            {
+              exportId,
+              framework,
+              onArtifact: (built) => {
+                artifact = built;
+              },
+            },
+            (chunk, isFinal) => {
+              sendEvent({
+                type: "build-export-chunk",
+                ...buildEventBase(command.projectId, command.id),
+                exportId,
+                index,
+                chunk: chunk.toString("base64"),
+                isFinal,
+                ...(index === 0 ? { artifact } : {}),
+              });
+              index++;
+            }
+          );
+          console.log(
+            `[export] ✅ Exported ${slug} (${result.artifact.framework}, ${result.artifact.outputDir ?? "project"}) - ${result.bytes} bytes in ${index} chunk(s)`
+          );
+        } catch (error) {
+          const message = error instanceof Error ? error.message : "Failed to export production build";
+          console.error(`[export] ❌ Export failed for ${slug}:`, message);
+          sendEvent({
+            type: "build-export-chunk",
+            ...buildEventBase(command.projectId, command.id),
+            exportId,
+            index,
+            chunk: "",
+            isFinal: true,
+            error: message,
+            ...(error instanceof BuildExportError && error.buildErrors.length > 0
+              ? { buildErrors: error.buildErrors }
+              : {}),
+          });
+        }
+        break;
+      }
+      case "import-project": {
+        const { slug, transferId, index, chunk, isFinal } = command.payload;
+        try {
+          if (index === 0) {
+            console.log(`[transfer] 📥 Importing ${slug} (transfer ${transferId})`);
+            // An older copy of the project may still be running or watched here
+            projectFileWatcher.unwatch(command.projectId);
+            await stopDevServer(command.projectId, { tunnelManager, reason: "import" });
+          }
+
+          const result = await receiveImportChunk(WORKSPACE_ROOT, transferId, { slug, index, chunk, isFinal });
+          if (!result) {
+            break;
+          }
+
+          devServerLogBuffer.clear(command.projectId);
+          console.log(`[transfer] ✅ Imported ${slug} to ${result.path} (${result.bytes} bytes)`);
+          sendEvent({
+            type: "project-imported",
+            ...buildEventBase(command.projectId, command.id),
+            payload: {
+              success: true,
+              slug,
+              transferId,
+              path: result.path,
+              bytes: result.bytes,
+              dependenciesInstalled: result.dependenciesInstalled,
+            },
+          });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : "Failed to import project";
+          console.error(`[transfer] ❌ Import failed for ${slug}:`, message);
+          if (isFinal) {
+            sendEvent({
+              type: "project-imported",
+              ...buildEventBase(command.projectId, command.id),
+              payload: { success: false, slug, transferId, error: message },
+            });
+          }
+        }
+        break;
+      }
+      case "import-source": {
+        const { slug, source } = command.payload;
+        try {
+          const result = await importSource(WORKSPACE_ROOT, slug, source);
+          console.log(`[import] ✅ Imported ${result.slug} to ${result.path} (${result.detectedFramework ?? "unknown framework"})`);
+          sendEvent({
+            type: "source-imported",
+            ...buildEventBase(command.projectId, command.id),
+            payload: { success: true, ...result },
+          });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : "Failed to import source";
+          console.error(`[import] ❌ Import failed for ${slug}:`, message);
+          sendEvent({
+            type: "source-imported",
+            ...buildEventBase(command.projectId, command.id),
+            payload: { success: false, slug, error: message },
+          });
+        }
         break;
       }
       case "cancel-build": {
@@ -3128,6 +3780,9 @@ Write a brief, professional summary (1-3 sentences) describing what was accompli
         platform: os.platform(),
         uptimeSeconds,
         load,
+        cpuCount: os.cpus?.().length,
+        activeBuilds: activeBuildContexts.size,
+        agents: listAgentBackends(),
       },
     });
   }
@@ -3139,6 +3794,25 @@ Write a brief, professional summary (1-3 sentences) describing what was accompli
     heartbeatTimer = setInterval(() => publishStatus(), HEARTBEAT_INTERVAL_MS);
   }
 
+  // Forward project file changes so open editors stay in sync with the agent
+  projectFileWatcher.setCallbacks({
+    onChanged: (projectId, path, isDirectory) => {
+      sendEvent({
+        type: "file-changed",
+        ...buildEventBase(projectId),
+        path,
+        isDirectory,
+      });
+    },
+    onDeleted: (projectId, path) => {
+      sendEvent({
+        type: "file-deleted",
+        ...buildEventBase(projectId),
+        path,
+      });
+    },
+  });
+
   // Set up HMR proxy callbacks to forward HMR events through the main WebSocket
   hmrProxyManager.setCallbacks({
     onConnected: (connectionId) => {
@@ -3485,6 +4159,8 @@ Write a brief, professional summary (1-3 sentences) describing what was accompli
     // Final cleanup of any remaining tunnels
     await tunnelManager.closeAll();
 
+    projectFileWatcher.unwatchAll();
+
     // Flush Sentry events before exiting
     await Sentry.flush(2000);
 
@@ -0,0 +1,121 @@
+/**
+ * Agent Registry - third-party agent backends
+ *
+ * The built-in agents (Claude, Codex, OpenCode) are wired into createBuildQuery.
+ * Other agents - an internal agent, a deterministic mock for testing - are ES
+ * modules listed in RUNNER_AGENT_MODULES (comma-separated paths or package names)
+ * or passed to startRunner as `agentModules`. A module's default export is an
+ * AgentBackend, or an array of them.
+ *
+ * The query function receives the same arguments as the built-in ones and must
+ * yield Claude SDK-shaped messages (`assistant` / `user` with content blocks,
+ * and a final `result`) - that is what the message transformer turns into
+ * build-stream, todo and tool-call events.
+ *
+ * Registered agents are advertised in runner-status heartbeats, which is how
+ * their models show up as options of the model tag.
+ */
+
+import { isAbsolute, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { isBuiltInAgentId, type RunnerAgentInfo } from '@openbuilder/agent-core';
+import { registerAgentStrategy, resolveAgentStrategy, type AgentStrategy } from '@openbuilder/agent-core/lib/agents';
+
+export interface AgentMessagePart {
+  type: string;
+  text?: string;
+  image?: string;
+  mimeType?: string;
+  fileName?: string;
+}
+
+export type BuildQueryFn = (
+  prompt: string,
+  workingDirectory: string,
+  systemPrompt: string,
+  agent?: string,
+  codexThreadId?: string,
+  messageParts?: AgentMessagePart[]
+) => AsyncGenerator<unknown, void, unknown>;
+
+export interface AgentBackend {
+  id: string; // Must not clash with a built-in agent
+  label: string;
+  description?: string;
+  // Offered in the model tag - an agent without models gets a single option
+  models?: RunnerAgentInfo['models'];
+  createQuery(options: { model?: string; abortController?: AbortController }): BuildQueryFn;
+  // Builds the system prompt - defaults to the Claude strategy
+  strategy?: AgentStrategy;
+}
+
+const backends = new Map<string, AgentBackend>();
+
+function isAgentBackend(value: unknown): value is AgentBackend {
+  if (typeof value !== 'object' || value === null) return false;
+  const backend = value as Partial<AgentBackend>;
+  return typeof backend.id === 'string' && backend.id.length > 0
+    && typeof backend.label === 'string'
+    && typeof backend.createQuery === 'function';
+}
+
+/**
+ * Register an agent backend. Re-registering an ID replaces the previous backend.
+ */
+export async function registerAgentBackend(backend: AgentBackend): Promise<void> {
+  if (isBuiltInAgentId(backend.id)) {
+    throw new Error(`Agent ID '${backend.id}' is reserved for a built-in agent`);
+  }
+
+  registerAgentStrategy(backend.id, backend.strategy ?? await resolveAgentStrategy('claude-code'));
+  backends.set(backend.id, backend);
+}
+
+/**
+ * Import agent modules and register their backends.
+ * A module that fails to load is reported and skipped - the runner still starts.
+ */
+export async function loadAgentModules(specifiers: string[]): Promise<AgentBackend[]> {
+  const loaded: AgentBackend[] = [];
+
+  for (const specifier of specifiers) {
+    // Paths are resolved against the working directory, anything else is a package name
+    const isPath = specifier.startsWith('.') || isAbsolute(specifier);
+    const url = isPath ? pathToFileURL(resolve(specifier)).href : specifier;
+
+    try {
+      const agentModule = await import(url) as { default?: unknown };
+      const exported = Array.isArray(agentModule.default) ? agentModule.default : [agentModule.default];
+      const moduleBackends = exported.filter(isAgentBackend);
+
+      if (moduleBackends.length === 0) {
+        throw new Error('default export is not an agent backend');
+      }
+
+      for (const backend of moduleBackends) {
+        await registerAgentBackend(backend);
+        loaded.push(backend);
+      }
+    } catch (error) {
+      console.error(`[agent-registry] ❌ Failed to load agent module ${specifier}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return loaded;
+}
+
+export function getAgentBackend(agentId: string): AgentBackend | undefined {
+  return backends.get(agentId);
+}
+
+/**
+ * Registered agents as advertised in runner-status
+ */
+export function listAgentBackends(): RunnerAgentInfo[] {
+  return [...backends.values()].map((backend) => ({
+    id: backend.id,
+    label: backend.label,
+    description: backend.description,
+    models: backend.models ?? [],
+  }));
+}
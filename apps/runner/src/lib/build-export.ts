@@ -0,0 +1,385 @@
+import { existsSync } from 'node:fs';
+import { copyFile, cp, link, mkdir, readFile, readdir, readlink, rm, symlink, writeFile } from 'node:fs/promises';
+import { join, relative } from 'node:path';
+import type { FrameworkKey } from '@openbuilder/agent-core/lib/port-allocator';
+import type { BuildExportArtifact } from '@openbuilder/agent-core';
+import { getAllTemplates } from './templates/config.js';
+import { detectPackageManager, runProductionBuild } from './build-orchestrator.js';
+import { assertValidSlug, installDependencies, streamTarball } from './project-transfer.js';
+
+/**
+ * Production export.
+ *
+ * Runs the project's production build (the template's build command, or the
+ * project's build script), picks the framework's output directory and packs it
+ * together with a generated Dockerfile into a gzipped tarball rooted at <slug>/.
+ * The build runs in a copy of the project under <workspace>/.openbuilder/exports
+ * (node_modules hard-linked, not reinstalled) so it never touches the output
+ * directories the running dev server uses - `next build` would replace .next.
+ */
+
+const NODE_IMAGE = 'node:20-alpine';
+const NGINX_IMAGE = 'nginx:1.27-alpine';
+const NODE_PORT = 3000;
+
+const FRAMEWORK_KEYS: FrameworkKey[] = ['next', 'astro', 'vite', 'tanstack', 'node', 'default'];
+const LOCKFILES = ['pnpm-lock.yaml', 'yarn.lock', 'package-lock.json', 'bun.lock', 'bun.lockb'];
+const NEXT_CONFIG_FILES = ['next.config.js', 'next.config.mjs', 'next.config.ts'];
+const STATIC_OUTPUT_DIRS = ['dist', 'build', 'out'];
+
+// Packaging the whole project (plain Node apps) - dependencies are installed in the image
+const PROJECT_EXCLUDES = ['node_modules', '.git', '.env*', '.turbo', '.cache', '.vercel'];
+
+// Top-level entries left out of the staging copy: dependencies are linked separately
+// and dev/build outputs are regenerated by the production build
+const STAGING_EXCLUDES = new Set(['node_modules', '.git', '.next', '.output', '.turbo', '.cache', '.vercel']);
+
+export class BuildExportError extends Error {
+  constructor(message: string, readonly buildErrors: string[] = []) {
+    super(message);
+    this.name = 'BuildExportError';
+  }
+}
+
+export interface BuildExportResult {
+  artifact: BuildExportArtifact;
+  bytes: number;
+}
+
+interface ProjectManifest {
+  scripts: Record<string, string>;
+  lockfile: string | null;
+  packageManager: string;
+}
+
+interface ExportPlan {
+  artifact: BuildExportArtifact;
+  paths: string[]; // Relative to the project directory, '.' for the whole project
+  excludes: string[];
+  files: Record<string, string>; // Generated files added next to the build output
+}
+
+function toFrameworkKey(value: string | null | undefined): FrameworkKey | null {
+  return FRAMEWORK_KEYS.find((key) => key === value?.toLowerCase()) ?? null;
+}
+
+async function resolveFramework(projectPath: string, framework?: string | null): Promise<FrameworkKey> {
+  const known = toFrameworkKey(framework);
+  if (known) return known;
+
+  try {
+    const { detectFrameworkFromFilesystem } = await import('@openbuilder/agent-core/lib/port-allocator');
+    return (await detectFrameworkFromFilesystem(projectPath)) ?? 'default';
+  } catch {
+    return 'default';
+  }
+}
+
+function installCommand(manifest: ProjectManifest): string {
+  const frozen = manifest.lockfile !== null;
+  switch (manifest.packageManager) {
+    case 'pnpm':
+      return `corepack enable && pnpm install --prod${frozen ? ' --frozen-lockfile' : ''}`;
+    case 'yarn':
+      return `corepack enable && yarn install --production${frozen ? ' --frozen-lockfile' : ''}`;
+    case 'bun':
+      return 'npm install -g bun && bun install --production';
+    default:
+      return manifest.lockfile === 'package-lock.json' ? 'npm ci --omit=dev' : 'npm install --omit=dev';
+  }
+}
+
+function startCommand(manifest: ProjectManifest): string[] {
+  return manifest.packageManager === 'bun' ? ['bun', 'run', 'start'] : [manifest.packageManager, 'start'];
+}
+
+function staticDockerfile(outputDir: string): string {
+  return `FROM ${NGINX_IMAGE}
+COPY nginx.conf /etc/nginx/conf.d/default.conf
+COPY ${outputDir}/ /usr/share/nginx/html/
+EXPOSE 80
+CMD ["nginx", "-g", "daemon off;"]
+`;
+}
+
+function nginxConfig(spaFallback: boolean): string {
+  return `server {
+  listen 80;
+  root /usr/share/nginx/html;
+  index index.html;
+
+  location / {
+    try_files $uri $uri/ ${spaFallback ? '/index.html' : '$uri.html =404'};
+  }
+}
+`;
+}
+
+/**
+ * Dockerfile for a Node server: installs production dependencies, copies the
+ * packaged paths and runs `cmd`
+ */
+function nodeDockerfile(manifest: ProjectManifest, copyPaths: string[], cmd: string[]): string {
+  const manifestFiles = ['package.json', manifest.lockfile].filter(Boolean).join(' ');
+  const copies = copyPaths
+    .map((path) => (path === '.' ? 'COPY . .' : `COPY ${path} ./${path}`))
+    .join('\n');
+
+  return `FROM ${NODE_IMAGE}
+WORKDIR /app
+ENV NODE_ENV=production HOST=0.0.0.0 PORT=${NODE_PORT}
+COPY ${manifestFiles} ./
+RUN ${installCommand(manifest)}
+${copies}
+EXPOSE ${NODE_PORT}
+CMD ${JSON.stringify(cmd)}
+`;
+}
+
+/**
+ * Decide what goes into the artifact for a framework, based on what the build produced
+ */
+function planExport(
+  projectPath: string,
+  framework: FrameworkKey,
+  buildCommand: string | null,
+  manifest: ProjectManifest
+): ExportPlan {
+  const exists = (path: string) => existsSync(join(projectPath, path));
+  const manifestPaths = ['package.json', manifest.lockfile].filter((path): path is string => !!path);
+  const artifact = (outputDir: string | null, runtime: BuildExportArtifact['runtime']): BuildExportArtifact => ({
+    framework,
+    buildCommand,
+    outputDir,
+    runtime,
+  });
+  const staticPlan = (outputDir: string, spaFallback: boolean): ExportPlan => ({
+    artifact: artifact(outputDir, 'static'),
+    paths: [outputDir],
+    excludes: [],
+    files: { Dockerfile: staticDockerfile(outputDir), 'nginx.conf': nginxConfig(spaFallback) },
+  });
+
+  switch (framework) {
+    case 'next': {
+      if (!exists('.next')) {
+        throw new BuildExportError('Build finished but .next was not found');
+      }
+
+      // output: 'standalone' bundles a minimal server with its own node_modules
+      if (exists('.next/standalone')) {
+        const paths = ['.next/standalone', '.next/static', ...(exists('public') ? ['public'] : [])];
+        return {
+          artifact: artifact('.next', 'node'),
+          paths,
+          excludes: [],
+          files: {
+            Dockerfile: `FROM ${NODE_IMAGE}
+WORKDIR /app
+ENV NODE_ENV=production HOSTNAME=0.0.0.0 PORT=${NODE_PORT}
+COPY .next/standalone ./
+COPY .next/static ./.next/static
+${exists('public') ? 'COPY public ./public\n' : ''}EXPOSE ${NODE_PORT}
+CMD ["node", "server.js"]
+`,
+          },
+        };
+      }
+
+      const paths = ['.next', ...['public', ...NEXT_CONFIG_FILES].filter(exists)];
+      const cmd = manifest.scripts.start ? startCommand(manifest) : ['npx', 'next', 'start'];
+      return {
+        artifact: artifact('.next', 'node'),
+        paths: [...manifestPaths, ...paths],
+        excludes: ['.next/cache'],
+        files: { Dockerfile: nodeDockerfile(manifest, paths, cmd) },
+      };
+    }
+    case 'astro': {
+      if (!exists('dist')) {
+        throw new BuildExportError('Build finished but dist was not found');
+      }
+      // SSR with the Node adapter, otherwise a static site
+      if (exists('dist/server/entry.mjs')) {
+        return {
+          artifact: artifact('dist', 'node'),
+          paths: [...manifestPaths, 'dist'],
+          excludes: [],
+          files: { Dockerfile: nodeDockerfile(manifest, ['dist'], ['node', 'dist/server/entry.mjs']) },
+        };
+      }
+      return staticPlan('dist', false);
+    }
+    case 'vite': {
+      if (!exists('dist')) {
+        throw new BuildExportError('Build finished but dist was not found');
+      }
+      return staticPlan('dist', true);
+    }
+    default: {
+      // Nitro-based servers (TanStack Start) emit a self-contained .output
+      if (exists('.output/server/index.mjs')) {
+        return {
+          artifact: artifact('.output', 'node'),
+          paths: ['.output'],
+          excludes: [],
+          files: {
+            Dockerfile: `FROM ${NODE_IMAGE}
+WORKDIR /app
+ENV NODE_ENV=production HOST=0.0.0.0 PORT=${NODE_PORT}
+COPY .output ./.output
+EXPOSE ${NODE_PORT}
+CMD ["node", ".output/server/index.mjs"]
+`,
+          },
+        };
+      }
+
+      if (framework !== 'tanstack') {
+        const staticDir = STATIC_OUTPUT_DIRS.find((dir) => exists(join(dir, 'index.html')));
+        if (staticDir) {
+          return staticPlan(staticDir, true);
+        }
+      }
+
+      if (!manifest.scripts.start) {
+        throw new BuildExportError('No build output was found and package.json has no start script to run the app');
+      }
+      return {
+        artifact: artifact(null, 'node'),
+        paths: ['.'],
+        excludes: PROJECT_EXCLUDES,
+        files: { Dockerfile: nodeDockerfile(manifest, ['.'], startCommand(manifest)) },
+      };
+    }
+  }
+}
+
+/**
+ * Hard-link a directory tree, falling back to copies across filesystems.
+ * Build caches are skipped so the staging build can't write through a link into the project.
+ */
+async function linkTree(source: string, target: string): Promise<void> {
+  await mkdir(target, { recursive: true });
+  for (const entry of await readdir(source, { withFileTypes: true })) {
+    if (entry.name === '.cache') continue;
+    const from = join(source, entry.name);
+    const to = join(target, entry.name);
+    if (entry.isDirectory()) {
+      await linkTree(from, to);
+    } else if (entry.isSymbolicLink()) {
+      await symlink(await readlink(from), to);
+    } else {
+      await link(from, to).catch(() => copyFile(from, to));
+    }
+  }
+}
+
+/**
+ * Copy a project into a staging directory for an isolated production build
+ */
+async function stageProject(projectPath: string, stagedPath: string): Promise<void> {
+  await cp(projectPath, stagedPath, {
+    recursive: true,
+    verbatimSymlinks: true,
+    filter: (source) => !STAGING_EXCLUDES.has(relative(projectPath, source)),
+  });
+
+  const nodeModules = join(projectPath, 'node_modules');
+  if (existsSync(nodeModules)) {
+    await linkTree(nodeModules, join(stagedPath, 'node_modules'));
+  }
+}
+
+/**
+ * Build a project and stream a gzipped tarball of the deployable artifact.
+ * `onArtifact` is called once the build succeeded, before the first chunk;
+ * `onChunk` receives chunks of at most 64KB in order and the last call has isFinal set.
+ */
+export async function exportBuild(
+  workspaceRoot: string,
+  slug: string,
+  options: {
+    exportId: string;
+    framework?: string | null;
+    signal?: AbortSignal;
+    onArtifact?: (artifact: BuildExportArtifact) => void;
+  },
+  onChunk: (chunk: Buffer, isFinal: boolean) => void
+): Promise<BuildExportResult> {
+  assertValidSlug(slug);
+
+  const projectPath = join(workspaceRoot, slug);
+  const packageJsonPath = join(projectPath, 'package.json');
+  if (!existsSync(packageJsonPath)) {
+    throw new BuildExportError(`No package.json found in ${slug}`);
+  }
+
+  let scripts: Record<string, string> = {};
+  try {
+    const packageJson = JSON.parse(await readFile(packageJsonPath, 'utf-8')) as { scripts?: Record<string, string> };
+    scripts = packageJson.scripts ?? {};
+  } catch {
+    throw new BuildExportError('package.json could not be parsed');
+  }
+
+  if (!existsSync(join(projectPath, 'node_modules')) && !(await installDependencies(projectPath))) {
+    throw new BuildExportError('Failed to install dependencies');
+  }
+
+  const framework = await resolveFramework(projectPath, options.framework);
+  const templates = await getAllTemplates().catch(() => []);
+  const template = templates.find((candidate) => toFrameworkKey(candidate.tech.framework) === framework) ?? null;
+
+  const stagingRoot = join(workspaceRoot, '.openbuilder', 'exports', options.exportId);
+  const buildRoot = join(stagingRoot, 'build');
+  const generatedRoot = join(stagingRoot, 'generated');
+  const stagedPath = join(buildRoot, slug);
+  try {
+    await stageProject(projectPath, stagedPath);
+
+    const build = await runProductionBuild(stagedPath, template, options.signal);
+    if (options.signal?.aborted) {
+      throw new BuildExportError('Export cancelled');
+    }
+    if (build && !build.success) {
+      throw new BuildExportError(`Build failed: ${build.command}`, build.errors);
+    }
+
+    const manifest: ProjectManifest = {
+      scripts,
+      lockfile: LOCKFILES.find((file) => existsSync(join(stagedPath, file))) ?? null,
+      packageManager: detectPackageManager(stagedPath),
+    };
+    const plan = planExport(stagedPath, framework, build?.command ?? null, manifest);
+    options.onArtifact?.(plan.artifact);
+
+    await mkdir(join(generatedRoot, slug), { recursive: true });
+    for (const [name, content] of Object.entries(plan.files)) {
+      await writeFile(join(generatedRoot, slug, name), content);
+    }
+
+    const projectPaths = plan.paths.map((path) => (path === '.' ? slug : `${slug}/${path}`));
+    const generatedPaths = Object.keys(plan.files).map((name) => `${slug}/${name}`);
+
+    const bytes = await streamTarball(
+      [
+        '-czf',
+        '-',
+        ...plan.excludes.map((pattern) => `--exclude=${pattern}`),
+        '-C',
+        buildRoot,
+        ...projectPaths,
+        '-C',
+        generatedRoot,
+        ...generatedPaths,
+      ],
+      buildRoot,
+      onChunk
+    );
+
+    return { artifact: plan.artifact, bytes };
+  } finally {
+    await rm(stagingRoot, { recursive: true, force: true });
+  }
+}
@@ -3,8 +3,9 @@
  * This replicates the functionality from the old /api/projects/[id]/generate route
  */
 
+import { spawn } from 'node:child_process';
 import { existsSync } from 'node:fs';
-import { readdir } from 'node:fs/promises';
+import { readdir, readFile } from 'node:fs/promises';
 import { join } from 'node:path';
 import { selectTemplateFromPrompt, type Template } from './templates/config.js';
 import { downloadTemplate, getProjectFileTree } from './templates/downloader.js';
@@ -14,6 +15,8 @@ import { resolveAgentStrategy, type AgentStrategyContext } from '@openbuilder/ag
 import { buildLogger } from '@openbuilder/agent-core/lib/logging/build-logger';
 import type { DesignPreferences } from '@openbuilder/agent-core/types/design';
 import type { AppliedTag } from '@openbuilder/agent-core/types/tags';
+import type { BuildVerification, BuildVerificationStep } from '@openbuilder/agent-core/types/generation';
+import { extractBuildErrors } from '../cli/utils/build-error-extractor.js';
 
 export interface MessagePart {
   type: string;
@@ -52,6 +55,8 @@ export interface BuildContext {
     content: string;
     timestamp: Date;
   }>; // Recent conversation messages for context in enhancements
+  envVarNames?: string[]; // Project env vars available to the dev server (names only)
+  resumeSessionId?: string; // Claude session the agent resumes - it already holds the conversation
 }
 
 export interface OrchestrationResult {
@@ -59,6 +64,7 @@ export interface OrchestrationResult {
   template: Template | null;
   fileTree: string;
   systemPrompt: string;
+  fallbackSystemPrompt?: string; // With conversation history, for when the resumed session has expired
   fullPrompt: string;
   projectPath: string;
   templateEvents: Array<{type: string; data: Record<string, unknown>}>; // Events to send to UI
@@ -74,7 +80,7 @@ export interface OrchestrationResult {
  * Orchestrate the build - handle templates, prompts, context
  */
 export async function orchestrateBuild(context: BuildContext): Promise<OrchestrationResult> {
-  const { projectId, projectName, prompt, workingDirectory, agent, operationType, template: providedTemplate, designPreferences, tags, conversationHistory } = context;
+  const { projectId, projectName, prompt, workingDirectory, agent, operationType, template: providedTemplate, designPreferences, tags, conversationHistory, envVarNames, resumeSessionId } = context;
   const workspaceRoot = getWorkspaceRoot();
 
   // Log conversation history if present
@@ -390,13 +396,26 @@ export async function orchestrateBuild(context: BuildContext): Promise<Orchestra
     conversationHistoryCount: conversationHistory?.length || 0,
   });
 
-  const systemPromptSections = await strategy.buildSystemPromptSections(strategyContext);
-  const systemPrompt = systemPromptSections.join('\n\n');
+  const buildSystemPrompt = async (history: BuildContext['conversationHistory']) => {
+    const systemPromptSections = await strategy.buildSystemPromptSections({ ...strategyContext, conversationHistory: history });
+    if (envVarNames && envVarNames.length > 0) {
+      systemPromptSections.push(buildEnvVarsSection(envVarNames));
+    }
+    return systemPromptSections.join('\n\n');
+  };
+
+  // A resumed session already holds the conversation - the history is only needed
+  // if the session turns out to have expired
+  const resumingSession = !!resumeSessionId && !isNewProject;
+  const systemPrompt = await buildSystemPrompt(resumingSession ? undefined : conversationHistory);
+  const fallbackSystemPrompt = resumingSession ? await buildSystemPrompt(conversationHistory) : undefined;
 
   buildLogger.orchestrator.systemPromptGenerated(systemPrompt.length);
   
   // Log snippet of system prompt for debugging
-  if (!isNewProject && systemPrompt.includes('Recent Conversation History')) {
+  if (resumingSession) {
+    buildLogger.log('info', 'orchestrator', `✅ Resuming agent session ${resumeSessionId} - conversation history kept for fallback only`);
+  } else if (!isNewProject && systemPrompt.includes('Recent Conversation History')) {
     buildLogger.log('info', 'orchestrator', '✅ System prompt includes conversation history');
   } else if (!isNewProject) {
     buildLogger.log('warn', 'orchestrator', '⚠️  No conversation history in system prompt for existing project');
@@ -415,6 +434,7 @@ export async function orchestrateBuild(context: BuildContext): Promise<Orchestra
     template: selectedTemplate,
     fileTree,
     systemPrompt,
+    fallbackSystemPrompt,
     fullPrompt,
     projectPath: resolvedWorkingDirectory,
     templateEvents,
@@ -422,6 +442,250 @@ export async function orchestrateBuild(context: BuildContext): Promise<Orchestra
   };
 }
 
+/**
+ * Tell the agent which project variables exist. Values stay on the server and are
+ * injected into the dev server process, so the agent must never write them to files.
+ */
+function buildEnvVarsSection(envVarNames: string[]): string {
+  return `## Project Environment Variables
+
+These variables are configured for this project and injected into the dev server at runtime:
+${envVarNames.map((name) => `- \`${name}\``).join('\n')}
+
+- Read them from the environment (\`process.env.NAME\`, or the framework's public prefix for client-side code).
+- Their values are not available to you. Never hard-code values, invent placeholders for them, or write them to \`.env\` files.
+- If the app needs a variable that isn't listed, tell the user to add it in the project's Environment panel.`;
+}
+
+// Build verification - run after the agent finishes so a broken build isn't reported as a success
+export const MAX_VERIFICATION_REPAIR_ATTEMPTS = 2;
+const VERIFY_BUILD_TIMEOUT_MS = 5 * 60 * 1000;
+const VERIFY_TYPECHECK_TIMEOUT_MS = 3 * 60 * 1000;
+const MAX_CAPTURED_OUTPUT = 200 * 1024;
+
+interface VerificationCommand {
+  name: BuildVerificationStep['name'];
+  command: string;
+  timeoutMs: number;
+}
+
+export function detectPackageManager(projectPath: string): string {
+  if (existsSync(join(projectPath, 'pnpm-lock.yaml'))) return 'pnpm';
+  if (existsSync(join(projectPath, 'yarn.lock'))) return 'yarn';
+  if (existsSync(join(projectPath, 'bun.lockb')) || existsSync(join(projectPath, 'bun.lock'))) return 'bun';
+  return 'npm';
+}
+
+/**
+ * Work out which checks apply to a project.
+ * The template's build command wins; otherwise the project's own scripts are used.
+ */
+function resolveVerificationCommands(
+  projectPath: string,
+  template: Template | null,
+  scripts: Record<string, string>
+): VerificationCommand[] {
+  const packageManager = detectPackageManager(projectPath);
+  const commands: VerificationCommand[] = [];
+
+  const buildCommand = template?.setup.buildCommand || (scripts.build ? `${packageManager} run build` : null);
+  if (buildCommand) {
+    commands.push({ name: 'build', command: buildCommand, timeoutMs: VERIFY_BUILD_TIMEOUT_MS });
+  }
+
+  const typecheckScript = ['typecheck', 'type-check'].find((name) => scripts[name]);
+  if (typecheckScript) {
+    commands.push({ name: 'typecheck', command: `${packageManager} run ${typecheckScript}`, timeoutMs: VERIFY_TYPECHECK_TIMEOUT_MS });
+  } else if (existsSync(join(projectPath, 'tsconfig.json')) && existsSync(join(projectPath, 'node_modules', '.bin', 'tsc'))) {
+    commands.push({ name: 'typecheck', command: 'npx --no-install tsc --noEmit', timeoutMs: VERIFY_TYPECHECK_TIMEOUT_MS });
+  }
+
+  return commands;
+}
+
+function runVerificationCommand(
+  projectPath: string,
+  check: VerificationCommand,
+  signal?: AbortSignal
+): Promise<BuildVerificationStep> {
+  const startedAt = Date.now();
+
+  return new Promise((resolve) => {
+    let output = '';
+    let timedOut = false;
+
+    const proc = spawn(check.command, {
+      cwd: projectPath,
+      shell: true,
+      // Own process group so the whole tree (shell + package manager + compiler) can be killed
+      detached: process.platform !== 'win32',
+      stdio: ['ignore', 'pipe', 'pipe'],
+      env: { ...process.env, CI: '1', FORCE_COLOR: '0' },
+    });
+
+    const kill = () => {
+      try {
+        if (proc.pid && process.platform !== 'win32') {
+          process.kill(-proc.pid, 'SIGKILL');
+        } else {
+          proc.kill('SIGKILL');
+        }
+      } catch {
+        // Already exited
+      }
+    };
+
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      kill();
+    }, check.timeoutMs);
+    signal?.addEventListener('abort', kill, { once: true });
+
+    const capture = (data: Buffer) => {
+      output += data.toString();
+      if (output.length > MAX_CAPTURED_OUTPUT) {
+        output = output.slice(-MAX_CAPTURED_OUTPUT);
+      }
+    };
+    proc.stdout?.on('data', capture);
+    proc.stderr?.on('data', capture);
+
+    const finish = (success: boolean, errors: string[]) => {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', kill);
+      resolve({
+        name: check.name,
+        command: check.command,
+        success,
+        errors,
+        durationMs: Date.now() - startedAt,
+        ...(timedOut ? { timedOut } : {}),
+      });
+    };
+
+    proc.on('error', (error) => finish(false, [error.message]));
+    proc.on('close', (code) => {
+      if (code === 0 && !timedOut) {
+        finish(true, []);
+        return;
+      }
+      const errors = extractBuildErrors(output, 30);
+      if (timedOut) {
+        errors.unshift(`Timed out after ${Math.round(check.timeoutMs / 1000)}s`);
+      }
+      finish(false, errors);
+    });
+  });
+}
+
+/**
+ * Run the project's build and type-check and collect the errors.
+ * `attempt` is 0 for the check right after generation and counts repair turns after that.
+ */
+export async function verifyBuild(
+  projectPath: string,
+  template: Template | null,
+  options: { attempt: number; maxRepairAttempts?: number; signal?: AbortSignal }
+): Promise<BuildVerification> {
+  const base = {
+    attempt: options.attempt,
+    maxRepairAttempts: options.maxRepairAttempts ?? MAX_VERIFICATION_REPAIR_ATTEMPTS,
+  };
+  const skipped = (reason: string): BuildVerification => ({ ...base, status: 'skipped', steps: [], reason });
+
+  const packageJsonPath = join(projectPath, 'package.json');
+  if (!existsSync(packageJsonPath)) {
+    return skipped('No package.json found');
+  }
+  if (!existsSync(join(projectPath, 'node_modules'))) {
+    return skipped('Dependencies are not installed');
+  }
+
+  let scripts: Record<string, string> = {};
+  try {
+    const packageJson = JSON.parse(await readFile(packageJsonPath, 'utf-8')) as { scripts?: Record<string, string> };
+    scripts = packageJson.scripts ?? {};
+  } catch {
+    return skipped('package.json could not be parsed');
+  }
+
+  const commands = resolveVerificationCommands(projectPath, template, scripts);
+  if (commands.length === 0) {
+    return skipped('No build or type-check command found');
+  }
+
+  const steps: BuildVerificationStep[] = [];
+  for (const check of commands) {
+    if (options.signal?.aborted) break;
+    buildLogger.log('info', 'orchestrator', `Verifying ${check.name}: ${check.command}`);
+    steps.push(await runVerificationCommand(projectPath, check, options.signal));
+  }
+
+  return {
+    ...base,
+    status: steps.length > 0 && steps.every((step) => step.success) ? 'passed' : 'failed',
+    steps,
+  };
+}
+
+/**
+ * Run only the production build (template build command or the project's build script).
+ * Returns null when the project has no build command.
+ */
+export async function runProductionBuild(
+  projectPath: string,
+  template: Template | null,
+  signal?: AbortSignal
+): Promise<BuildVerificationStep | null> {
+  let scripts: Record<string, string> = {};
+  try {
+    const packageJson = JSON.parse(await readFile(join(projectPath, 'package.json'), 'utf-8')) as { scripts?: Record<string, string> };
+    scripts = packageJson.scripts ?? {};
+  } catch {
+    return null;
+  }
+
+  const build = resolveVerificationCommands(projectPath, template, scripts).find((check) => check.name === 'build');
+  if (!build) {
+    return null;
+  }
+
+  buildLogger.log('info', 'orchestrator', `Running production build: ${build.command}`);
+  return runVerificationCommand(projectPath, build, signal);
+}
+
+/**
+ * Prompt for a repair turn - hands the failing commands and their errors back to the agent
+ */
+export function buildRepairPrompt(verification: BuildVerification): string {
+  const failures = verification.steps
+    .filter((step) => !step.success)
+    .map((step) => `### \`${step.command}\` failed
+
+\`\`\`
+${step.errors.join('\n') || '(no output)'}
+\`\`\``)
+    .join('\n\n');
+
+  return `The project does not build cleanly yet. These checks ran after your last changes and failed:
+
+${failures}
+
+Fix the root causes in the project's source files so these commands succeed. Do not disable type checking, lint rules or the build step to get them to pass. Re-run the failing command to confirm the fix, then briefly summarize what you changed.`;
+}
+
+/**
+ * Build failure message for a project that still fails verification after the last repair turn
+ */
+export function describeVerificationFailure(verification: BuildVerification): string {
+  const failures = verification.steps
+    .filter((step) => !step.success)
+    .map((step) => `${step.command} failed:\n${step.errors.join('\n') || '(no output)'}`)
+    .join('\n\n');
+
+  return `Build verification failed after ${verification.attempt} repair attempt(s).\n\n${failures}`;
+}
+
 /**
  * Generate dynamic system prompt based on project context
  *
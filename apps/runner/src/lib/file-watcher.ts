@@ -0,0 +1,231 @@
+/**
+ * Project File Watcher for Runner
+ *
+ * Watches active project directories and reports file changes (debounced per
+ * path) so the editor can follow along while the agent rewrites files.
+ * Dependency and VCS directories are never watched.
+ */
+
+import { existsSync, watch, type FSWatcher } from 'node:fs';
+import { readdir, stat } from 'node:fs/promises';
+import { join, sep } from 'node:path';
+
+const DEBOUNCE_MS = 250;
+const MAX_WATCHED_PROJECTS = 20;
+
+// Directory names skipped anywhere in the tree
+const IGNORED_DIRECTORIES = new Set([
+  'node_modules',
+  '.git',
+  '.next',
+  '.nuxt',
+  '.svelte-kit',
+  '.astro',
+  '.turbo',
+  '.vercel',
+  '.cache',
+]);
+
+// macOS and Windows watch whole trees natively; elsewhere each directory gets its own watcher
+const SUPPORTS_RECURSIVE_WATCH = process.platform === 'darwin' || process.platform === 'win32';
+
+type ChangedCallback = (projectId: string, path: string, isDirectory: boolean) => void;
+type DeletedCallback = (projectId: string, path: string) => void;
+
+interface WatchedProject {
+  projectId: string;
+  root: string;
+  watchers: Map<string, FSWatcher>; // relative directory path ('' for root) -> watcher
+  pending: Map<string, NodeJS.Timeout>;
+  lastUsedAt: number;
+}
+
+function isIgnored(relativePath: string): boolean {
+  return relativePath.split(/[\\/]/).some((segment) => IGNORED_DIRECTORIES.has(segment));
+}
+
+function toPosixPath(relativePath: string): string {
+  return sep === '/' ? relativePath : relativePath.split(sep).join('/');
+}
+
+class ProjectFileWatcher {
+  private projects = new Map<string, WatchedProject>();
+  private onChanged: ChangedCallback | null = null;
+  private onDeleted: DeletedCallback | null = null;
+
+  /**
+   * Set callbacks for file events
+   */
+  setCallbacks(callbacks: { onChanged: ChangedCallback; onDeleted: DeletedCallback }) {
+    this.onChanged = callbacks.onChanged;
+    this.onDeleted = callbacks.onDeleted;
+  }
+
+  /**
+   * Start watching a project directory (no-op if it is already watched or doesn't exist yet)
+   */
+  watch(projectId: string, projectPath: string): void {
+    if (!existsSync(projectPath)) return;
+
+    const existing = this.projects.get(projectId);
+    if (existing && existing.root === projectPath) {
+      existing.lastUsedAt = Date.now();
+      return;
+    }
+    if (existing) {
+      this.unwatch(projectId);
+    }
+
+    this.evictLeastRecentlyUsed();
+
+    const project: WatchedProject = {
+      projectId,
+      root: projectPath,
+      watchers: new Map(),
+      pending: new Map(),
+      lastUsedAt: Date.now(),
+    };
+    this.projects.set(projectId, project);
+
+    if (SUPPORTS_RECURSIVE_WATCH) {
+      this.watchDirectory(project, '', true);
+    } else {
+      void this.watchTree(project, '');
+    }
+
+    console.log(`[file-watcher] 👀 Watching ${projectPath}`);
+  }
+
+  /**
+   * Stop watching a project
+   */
+  unwatch(projectId: string): void {
+    const project = this.projects.get(projectId);
+    if (!project) return;
+
+    for (const watcher of project.watchers.values()) {
+      watcher.close();
+    }
+    for (const timer of project.pending.values()) {
+      clearTimeout(timer);
+    }
+    this.projects.delete(projectId);
+  }
+
+  /**
+   * Stop watching everything (runner shutdown)
+   */
+  unwatchAll(): void {
+    for (const projectId of [...this.projects.keys()]) {
+      this.unwatch(projectId);
+    }
+  }
+
+  private evictLeastRecentlyUsed() {
+    if (this.projects.size < MAX_WATCHED_PROJECTS) return;
+
+    let oldest: WatchedProject | null = null;
+    for (const project of this.projects.values()) {
+      if (!oldest || project.lastUsedAt < oldest.lastUsedAt) {
+        oldest = project;
+      }
+    }
+    if (oldest) {
+      this.unwatch(oldest.projectId);
+    }
+  }
+
+  private watchDirectory(project: WatchedProject, relativeDir: string, recursive: boolean) {
+    if (project.watchers.has(relativeDir)) return;
+
+    try {
+      const watcher = watch(join(project.root, relativeDir), { recursive }, (_eventType, filename) => {
+        if (!filename) return;
+        const relativePath = relativeDir ? join(relativeDir, filename.toString()) : filename.toString();
+        this.schedule(project, relativePath);
+      });
+
+      watcher.on('error', () => {
+        // Directory was removed - its deletion is reported through the parent watcher
+        watcher.close();
+        project.watchers.delete(relativeDir);
+      });
+
+      project.watchers.set(relativeDir, watcher);
+    } catch (error) {
+      console.warn(
+        `[file-watcher] ⚠️  Could not watch ${join(project.root, relativeDir)}:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  /**
+   * Watch a directory and every non-ignored directory below it
+   */
+  private async watchTree(project: WatchedProject, relativeDir: string): Promise<void> {
+    if (this.projects.get(project.projectId) !== project) return;
+
+    this.watchDirectory(project, relativeDir, false);
+
+    try {
+      const entries = await readdir(join(project.root, relativeDir), { withFileTypes: true });
+      for (const entry of entries) {
+        if (entry.isDirectory() && !IGNORED_DIRECTORIES.has(entry.name)) {
+          await this.watchTree(project, relativeDir ? join(relativeDir, entry.name) : entry.name);
+        }
+      }
+    } catch {
+      // Directory disappeared while walking
+    }
+  }
+
+  private schedule(project: WatchedProject, relativePath: string) {
+    if (isIgnored(relativePath)) return;
+
+    const existing = project.pending.get(relativePath);
+    if (existing) {
+      clearTimeout(existing);
+    }
+
+    project.pending.set(
+      relativePath,
+      setTimeout(() => {
+        project.pending.delete(relativePath);
+        void this.flush(project, relativePath);
+      }, DEBOUNCE_MS)
+    );
+  }
+
+  private async flush(project: WatchedProject, relativePath: string) {
+    if (this.projects.get(project.projectId) !== project) return;
+
+    const path = toPosixPath(relativePath);
+
+    try {
+      const stats = await stat(join(project.root, relativePath));
+      const isDirectory = stats.isDirectory();
+
+      // New directory - start watching it too
+      if (isDirectory && !SUPPORTS_RECURSIVE_WATCH) {
+        await this.watchTree(project, relativePath);
+      }
+
+      this.onChanged?.(project.projectId, path, isDirectory);
+    } catch {
+      // Gone - drop watchers for it and anything below it
+      const prefix = `${relativePath}${sep}`;
+      for (const [dir, watcher] of project.watchers) {
+        if (dir === relativePath || dir.startsWith(prefix)) {
+          watcher.close();
+          project.watchers.delete(dir);
+        }
+      }
+
+      this.onDeleted?.(project.projectId, path);
+    }
+  }
+}
+
+export const projectFileWatcher = new ProjectFileWatcher();
+
@@ -0,0 +1,190 @@
+import { execFile } from 'node:child_process';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import type { GitHubCommit, GitHubMeta } from '@openbuilder/agent-core';
+
+/**
+ * GitHub integration for project workspaces.
+ *
+ * Uses the local git and gh CLIs so authentication stays on the runner host
+ * (the same gh session the github-setup skill relies on).
+ */
+
+const COMMAND_TIMEOUT_MS = 120000; // git push / gh repo create can be slow on large repos
+const RECENT_COMMITS_LIMIT = 5;
+const FALLBACK_AUTHOR_NAME = 'OpenBuilder';
+const FALLBACK_AUTHOR_EMAIL = 'builder@openbuilder.local';
+
+interface CommandResult {
+  stdout: string;
+  stderr: string;
+}
+
+export interface PushProjectOptions {
+  projectPath: string;
+  repo: string; // owner/repo format
+  branch: string;
+  commitMessage: string;
+  visibility?: 'public' | 'private';
+}
+
+export interface PushProjectResult {
+  commitSha: string;
+  filesChanged: number;
+  repoCreated: boolean;
+  url: string;
+}
+
+function run(command: string, args: string[], cwd?: string): Promise<CommandResult> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      command,
+      args,
+      { cwd, timeout: COMMAND_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024, env: { ...process.env, GH_PROMPT_DISABLED: '1', GIT_TERMINAL_PROMPT: '0' } },
+      (error, stdout, stderr) => {
+        if (error) {
+          const details = (stderr || stdout || '').toString().trim();
+          reject(new Error(details ? `${command} ${args[0]} failed: ${details}` : error.message));
+          return;
+        }
+        resolve({ stdout: stdout.toString(), stderr: stderr.toString() });
+      }
+    );
+  });
+}
+
+async function succeeds(command: string, args: string[], cwd?: string): Promise<boolean> {
+  try {
+    await run(command, args, cwd);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Commit identity flags - only used when the host has no git identity configured,
+ * otherwise the user's own name/email is preserved on commits
+ */
+async function getIdentityArgs(projectPath: string): Promise<string[]> {
+  const hasEmail = await succeeds('git', ['config', 'user.email'], projectPath);
+  return hasEmail
+    ? []
+    : ['-c', `user.name=${FALLBACK_AUTHOR_NAME}`, '-c', `user.email=${FALLBACK_AUTHOR_EMAIL}`];
+}
+
+/**
+ * Commit all workspace changes and push them to GitHub.
+ * Initializes the local repository and creates the GitHub repository if either is missing.
+ */
+export async function pushProjectToGitHub(options: PushProjectOptions): Promise<PushProjectResult> {
+  const { projectPath, repo, branch, commitMessage, visibility = 'private' } = options;
+
+  if (!existsSync(projectPath)) {
+    throw new Error(`Project directory not found: ${projectPath}`);
+  }
+
+  if (!(await succeeds('gh', ['auth', 'status']))) {
+    throw new Error('GitHub CLI is not authenticated on the runner. Run `gh auth login` on the runner host.');
+  }
+
+  // Initialize local repository on first push
+  if (!existsSync(join(projectPath, '.git'))) {
+    await run('git', ['init', '-b', branch], projectPath);
+  }
+
+  // Stage and commit everything (respects the project's .gitignore)
+  await run('git', ['add', '-A'], projectPath);
+  const { stdout: status } = await run('git', ['status', '--porcelain'], projectPath);
+  const filesChanged = status.split('\n').filter((line) => line.trim().length > 0).length;
+
+  if (filesChanged > 0) {
+    const identityArgs = await getIdentityArgs(projectPath);
+    await run('git', [...identityArgs, 'commit', '-m', commitMessage], projectPath);
+  }
+
+  // Create the GitHub repository if it doesn't exist yet
+  let repoCreated = false;
+  if (!(await succeeds('gh', ['repo', 'view', repo, '--json', 'name']))) {
+    await run('gh', ['repo', 'create', repo, `--${visibility}`], projectPath);
+    repoCreated = true;
+  }
+
+  // Point origin at the repository
+  const url = `https://github.com/${repo}`;
+  if (await succeeds('git', ['remote', 'get-url', 'origin'], projectPath)) {
+    await run('git', ['remote', 'set-url', 'origin', `${url}.git`], projectPath);
+  } else {
+    await run('git', ['remote', 'add', 'origin', `${url}.git`], projectPath);
+  }
+
+  // gh provides credentials for https remotes
+  await run('gh', ['auth', 'setup-git']);
+  await run('git', ['push', '-u', 'origin', `HEAD:${branch}`], projectPath);
+
+  const { stdout: sha } = await run('git', ['rev-parse', 'HEAD'], projectPath);
+
+  return {
+    commitSha: sha.trim(),
+    filesChanged,
+    repoCreated,
+    url,
+  };
+}
+
+/**
+ * Fetch repository metadata (counts, visibility, recent commits) from GitHub
+ */
+export async function fetchGitHubMeta(repo: string, branch?: string): Promise<GitHubMeta> {
+  const { stdout } = await run('gh', [
+    'repo',
+    'view',
+    repo,
+    '--json',
+    'description,visibility,defaultBranchRef,stargazerCount,forkCount,issues,pullRequests',
+  ]);
+
+  const info = JSON.parse(stdout) as {
+    description?: string | null;
+    visibility?: string;
+    defaultBranchRef?: { name?: string } | null;
+    stargazerCount?: number;
+    forkCount?: number;
+    issues?: { totalCount?: number };
+    pullRequests?: { totalCount?: number };
+  };
+
+  const defaultBranch = info.defaultBranchRef?.name || undefined;
+  const ref = branch || defaultBranch;
+
+  const { stdout: commitsJson } = await run('gh', [
+    'api',
+    `repos/${repo}/commits?per_page=${RECENT_COMMITS_LIMIT}${ref ? `&sha=${encodeURIComponent(ref)}` : ''}`,
+  ]);
+
+  const commits = JSON.parse(commitsJson) as Array<{
+    sha: string;
+    commit: { message: string; author?: { name?: string; date?: string } | null };
+    author?: { login?: string } | null;
+  }>;
+
+  const recentCommits: GitHubCommit[] = commits.map((c) => ({
+    sha: c.sha,
+    message: c.commit.message.split('\n')[0],
+    author: c.author?.login || c.commit.author?.name || 'unknown',
+    date: c.commit.author?.date || '',
+  }));
+
+  const visibility = info.visibility?.toLowerCase();
+
+  return {
+    openIssuesCount: info.issues?.totalCount ?? 0,
+    openPrsCount: info.pullRequests?.totalCount ?? 0,
+    recentCommits,
+    visibility: visibility === 'public' || visibility === 'private' ? visibility : undefined,
+    description: info.description || undefined,
+    defaultBranch,
+    starsCount: info.stargazerCount ?? 0,
+    forksCount: info.forkCount ?? 0,
+  };
+}
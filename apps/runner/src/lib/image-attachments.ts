@@ -0,0 +1,195 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import sharp from 'sharp';
+
+/**
+ * Image attachments for agent prompts.
+ *
+ * The editor sends attachments as data URLs in `messageParts`. Before they go to
+ * an agent they are decoded, checked against the formats the models accept
+ * (sniffed from the bytes, not the declared MIME type) and downscaled so the
+ * long edge is at most 1568px and the encoded image stays under the 5MB API
+ * limit - larger images are resized by the API anyway and only cost tokens.
+ */
+
+export type SupportedImageType = 'image/png' | 'image/jpeg' | 'image/gif' | 'image/webp';
+
+export interface PreparedImage {
+  data: Buffer;
+  mimeType: SupportedImageType;
+  fileName?: string;
+  width: number;
+  height: number;
+}
+
+export interface PreparedImages {
+  images: PreparedImage[];
+  rejected: string[]; // One reason per attachment that was dropped
+}
+
+interface ImagePartLike {
+  type: string;
+  image?: string;
+  mimeType?: string;
+  fileName?: string;
+}
+
+export const MAX_IMAGE_ATTACHMENTS = 20;
+const MAX_INPUT_BYTES = 20 * 1024 * 1024;
+const MAX_OUTPUT_BYTES = Math.floor((5 * 1024 * 1024 * 3) / 4); // 5MB once base64 encoded
+const MAX_DIMENSION = 1568;
+
+const FORMAT_MIME_TYPES: Record<string, SupportedImageType> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+function decodeImage(image: string): Buffer {
+  const match = /^data:[^;,]*(;base64)?,/.exec(image);
+  if (!match) {
+    return Buffer.from(image, 'base64');
+  }
+  const payload = image.slice(match[0].length);
+  return match[1] ? Buffer.from(payload, 'base64') : Buffer.from(decodeURIComponent(payload));
+}
+
+function describe(part: ImagePartLike, index: number): string {
+  return part.fileName ? `"${part.fileName}"` : `image ${index + 1}`;
+}
+
+/**
+ * Re-encode in the original format (GIFs become PNGs - only the first frame is
+ * kept), falling back to JPEG when a lossless encode is still over the limit
+ */
+async function encodeImage(pipeline: sharp.Sharp, mimeType: SupportedImageType): Promise<{ data: Buffer; mimeType: SupportedImageType }> {
+  let encoded: { data: Buffer; mimeType: SupportedImageType };
+  switch (mimeType) {
+    case 'image/jpeg':
+      encoded = { data: await pipeline.clone().jpeg({ quality: 85, mozjpeg: true }).toBuffer(), mimeType };
+      break;
+    case 'image/webp':
+      encoded = { data: await pipeline.clone().webp({ quality: 85 }).toBuffer(), mimeType };
+      break;
+    default:
+      encoded = { data: await pipeline.clone().png({ compressionLevel: 9 }).toBuffer(), mimeType: 'image/png' };
+  }
+
+  if (encoded.data.length <= MAX_OUTPUT_BYTES) {
+    return encoded;
+  }
+
+  return {
+    data: await pipeline.clone().flatten({ background: '#ffffff' }).jpeg({ quality: 75, mozjpeg: true }).toBuffer(),
+    mimeType: 'image/jpeg',
+  };
+}
+
+async function prepareImage(part: ImagePartLike): Promise<PreparedImage> {
+  const input = decodeImage(part.image ?? '');
+  if (input.length === 0) {
+    throw new Error('no image data');
+  }
+  if (input.length > MAX_INPUT_BYTES) {
+    throw new Error(`larger than ${MAX_INPUT_BYTES / (1024 * 1024)}MB`);
+  }
+
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(input).metadata();
+  } catch {
+    throw new Error('not a readable image');
+  }
+
+  const mimeType = metadata.format ? FORMAT_MIME_TYPES[metadata.format] : undefined;
+  if (!mimeType) {
+    throw new Error(`unsupported format${metadata.format ? ` (${metadata.format})` : ''} - use PNG, JPEG, GIF or WebP`);
+  }
+
+  const width = metadata.autoOrient?.width ?? metadata.width ?? 0;
+  const height = metadata.autoOrient?.height ?? metadata.height ?? 0;
+  const fits = width <= MAX_DIMENSION && height <= MAX_DIMENSION;
+
+  // Already within limits - pass through untouched (keeps GIFs and exact pixels)
+  if (fits && input.length <= MAX_OUTPUT_BYTES && !(metadata.orientation && metadata.orientation > 1)) {
+    return { data: input, mimeType, fileName: part.fileName, width, height };
+  }
+
+  const pipeline = sharp(input)
+    .rotate()
+    .resize({ width: MAX_DIMENSION, height: MAX_DIMENSION, fit: 'inside', withoutEnlargement: true });
+  const encoded = await encodeImage(pipeline, mimeType);
+  if (encoded.data.length > MAX_OUTPUT_BYTES) {
+    throw new Error('still larger than 5MB after downscaling');
+  }
+
+  const resized = await sharp(encoded.data).metadata();
+  return {
+    data: encoded.data,
+    mimeType: encoded.mimeType,
+    fileName: part.fileName,
+    width: resized.width ?? width,
+    height: resized.height ?? height,
+  };
+}
+
+/**
+ * Validate and downscale the image parts of a message.
+ * Attachments that can't be used are dropped and reported in `rejected`
+ * instead of failing the whole build.
+ */
+export async function prepareImageAttachments(messageParts?: ImagePartLike[]): Promise<PreparedImages> {
+  const parts = (messageParts ?? []).filter((part) => part.type === 'image' && part.image);
+  const images: PreparedImage[] = [];
+  const rejected: string[] = [];
+
+  for (const [index, part] of parts.entries()) {
+    if (images.length >= MAX_IMAGE_ATTACHMENTS) {
+      rejected.push(`${describe(part, index)}: more than ${MAX_IMAGE_ATTACHMENTS} images attached`);
+      continue;
+    }
+
+    try {
+      images.push(await prepareImage(part));
+    } catch (error) {
+      rejected.push(`${describe(part, index)}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return { images, rejected };
+}
+
+/**
+ * Note for the agent about attachments that were dropped, so it can ask for them again
+ */
+export function describeRejectedImages(rejected: string[]): string {
+  if (rejected.length === 0) return '';
+  return `\n\n(The user attached ${rejected.length} image(s) that could not be used: ${rejected.join('; ')})`;
+}
+
+export function toDataUrl(image: PreparedImage): string {
+  return `data:${image.mimeType};base64,${image.data.toString('base64')}`;
+}
+
+/**
+ * Write images to a temporary directory for agents that take file paths.
+ * Call `cleanup` once the agent is done with them.
+ */
+export async function writeImagesToTempDir(images: PreparedImage[]): Promise<{ paths: string[]; cleanup: () => Promise<void> }> {
+  const dir = await mkdtemp(join(tmpdir(), 'openbuilder-images-'));
+  const paths: string[] = [];
+
+  for (const [index, image] of images.entries()) {
+    const extension = image.mimeType.split('/')[1];
+    const path = join(dir, `attachment-${index + 1}.${extension === 'jpeg' ? 'jpg' : extension}`);
+    await writeFile(path, image.data);
+    paths.push(path);
+  }
+
+  return {
+    paths,
+    cleanup: () => rm(dir, { recursive: true, force: true }),
+  };
+}
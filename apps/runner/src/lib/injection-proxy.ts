@@ -17,7 +17,7 @@ import http from 'http';
 import https from 'https';
 import httpProxy from 'http-proxy';
 import zlib from 'zlib';
-import { SELECTION_SCRIPT } from '@openbuilder/agent-core/lib/selection/injector';
+import { BROWSER_ERROR_SCRIPT, SELECTION_SCRIPT } from '@openbuilder/agent-core/lib/selection/injector';
 
 export interface InjectionProxyOptions {
   /** Dev server port to proxy to (e.g., 3000) */
@@ -145,8 +145,15 @@ export async function createInjectionProxy(options: InjectionProxyOptions): Prom
 
         let html = body.toString('utf-8');
 
+        // Error capture goes first in <head> so it sees errors thrown while the page boots
+        const errorScriptTag = `<script>${BROWSER_ERROR_SCRIPT}</script>`;
+        const hasHead = /<head(\s[^>]*)?>/i.test(html);
+        if (hasHead) {
+          html = html.replace(/<head(\s[^>]*)?>/i, (headTag) => `${headTag}${errorScriptTag}`);
+        }
+
         // Inject selection script before </body> or </html> or at end
-        const scriptTag = `<script>${SELECTION_SCRIPT}</script>`;
+        const scriptTag = `${hasHead ? '' : errorScriptTag}<script>${SELECTION_SCRIPT}</script>`;
         
         if (html.toLowerCase().includes('</body>')) {
           html = html.replace(/<\/body>/i, `${scriptTag}</body>`);
@@ -0,0 +1,99 @@
+/**
+ * Dev Server Log Buffer for Runner
+ *
+ * Keeps a per-project ring buffer of dev server stdout/stderr so the web app
+ * can backfill terminal history (fetch-logs) after a refresh or reconnect.
+ * Lives in the runner process, so it survives web-app/WebSocket reconnects.
+ */
+
+import type { LogPageEntry } from '@openbuilder/agent-core';
+
+const MAX_ENTRIES_PER_PROJECT = 2000;
+const DEFAULT_PAGE_SIZE = 200;
+const MAX_PAGE_SIZE = 1000;
+
+interface BufferedLogEntry {
+  seq: number;
+  stream: 'stdout' | 'stderr';
+  data: string;
+  timestamp: string;
+}
+
+export interface LogPage {
+  entries: LogPageEntry[];
+  nextCursor: string | null;
+}
+
+class DevServerLogBuffer {
+  private buffers = new Map<string, BufferedLogEntry[]>();
+  // Global sequence so cursors are unique and monotonically increasing across projects
+  private nextSeq = 1;
+
+  /**
+   * Append a chunk of output and return its cursor
+   */
+  append(projectId: string, stream: 'stdout' | 'stderr', data: string): string {
+    let buffer = this.buffers.get(projectId);
+    if (!buffer) {
+      buffer = [];
+      this.buffers.set(projectId, buffer);
+    }
+
+    const entry: BufferedLogEntry = {
+      seq: this.nextSeq++,
+      stream,
+      data,
+      timestamp: new Date().toISOString(),
+    };
+    buffer.push(entry);
+
+    if (buffer.length > MAX_ENTRIES_PER_PROJECT) {
+      buffer.splice(0, buffer.length - MAX_ENTRIES_PER_PROJECT);
+    }
+
+    return String(entry.seq);
+  }
+
+  /**
+   * Get a page of entries older than `cursor` (or the most recent page if no cursor).
+   * Entries are returned oldest first; nextCursor points at the next older page.
+   */
+  getPage(projectId: string, options: { cursor?: string; limit?: number } = {}): LogPage {
+    const buffer = this.buffers.get(projectId);
+    if (!buffer || buffer.length === 0) {
+      return { entries: [], nextCursor: null };
+    }
+
+    const limit = Math.min(Math.max(options.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const before = options.cursor ? Number.parseInt(options.cursor, 10) : Number.POSITIVE_INFINITY;
+
+    // Index of the first entry at or after the cursor (entries are sorted by seq)
+    let end = buffer.length;
+    if (Number.isFinite(before)) {
+      end = buffer.findIndex((entry) => entry.seq >= before);
+      if (end === -1) end = buffer.length;
+    }
+
+    const start = Math.max(0, end - limit);
+    const page = buffer.slice(start, end);
+
+    return {
+      entries: page.map(({ seq, stream, data, timestamp }) => ({
+        cursor: String(seq),
+        stream,
+        data,
+        timestamp,
+      })),
+      nextCursor: start > 0 && page.length > 0 ? String(page[0].seq) : null,
+    };
+  }
+
+  /**
+   * Drop buffered output for a project (e.g. when its files are deleted)
+   */
+  clear(projectId: string): void {
+    this.buffers.delete(projectId);
+  }
+}
+
+export const devServerLogBuffer = new DevServerLogBuffer();
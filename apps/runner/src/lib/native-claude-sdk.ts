@@ -14,11 +14,13 @@
  * - Direct streaming without adaptation layer
  */
 
-import { query, type SDKMessage, type Options } from '@anthropic-ai/claude-agent-sdk';
+import { query, type SDKMessage, type SDKUserMessage, type Options } from '@anthropic-ai/claude-agent-sdk';
 import * as Sentry from '@sentry/node';
 import { existsSync, mkdirSync } from 'node:fs';
 import { createProjectScopedPermissionHandler } from './permissions/project-scoped-handler.js';
 import { ensureProjectSkills } from './skills.js';
+import { describeRejectedImages, prepareImageAttachments } from './image-attachments.js';
+import { estimateClaudeCostUsd, sumUsage, type ResultUsage } from './usage-tracker.js';
 import {
   CLAUDE_SYSTEM_PROMPT,
   type ClaudeModelId,
@@ -43,7 +45,7 @@ interface MessagePart {
 
 // Internal message format that matches our transformer expectations
 interface TransformedMessage {
-  type: 'assistant' | 'user' | 'result' | 'system';
+  type: 'assistant' | 'user' | 'result' | 'system' | 'usage';
   message?: {
     id: string;
     content: Array<{
@@ -59,17 +61,30 @@ interface TransformedMessage {
   };
   result?: string;
   usage?: unknown;
+  total_cost_usd?: number;
+  num_turns?: number;
+  model?: string;
   subtype?: string;
   session_id?: string;
 }
 
+/**
+ * Session continuity for follow-up builds. The query resumes `resumeSessionId`
+ * and, if that session can't be loaded, starts a new one with
+ * `fallbackSystemPrompt` (which carries the conversation history) instead.
+ */
+export interface ClaudeSessionOptions {
+  resumeSessionId?: string;
+  fallbackSystemPrompt?: string;
+}
+
 /**
  * Transform SDK messages to our internal format
  *
  * The SDK outputs messages in a format very similar to what our message transformer expects,
  * but we need to ensure consistent structure for downstream processing.
  */
-function transformSDKMessage(sdkMessage: SDKMessage): TransformedMessage | null {
+function transformSDKMessage(sdkMessage: SDKMessage, model?: string): TransformedMessage | null {
   switch (sdkMessage.type) {
     case 'assistant': {
       // Assistant messages contain the Claude response with text and tool use blocks
@@ -134,6 +149,9 @@ function transformSDKMessage(sdkMessage: SDKMessage): TransformedMessage | null
         type: 'result',
         result: sdkMessage.subtype === 'success' ? sdkMessage.result : undefined,
         usage: sdkMessage.usage,
+        total_cost_usd: sdkMessage.total_cost_usd,
+        num_turns: sdkMessage.num_turns,
+        model,
         subtype: sdkMessage.subtype,
         session_id: sdkMessage.session_id,
       };
@@ -142,8 +160,8 @@ function transformSDKMessage(sdkMessage: SDKMessage): TransformedMessage | null
     case 'system': {
       // System messages (init, status, etc.)
       if (sdkMessage.subtype === 'init') {
-        // Could emit session info if needed
-        return null; // Skip for now - we don't need init messages in output
+        // Only the session ID is needed - the runner stores it so follow-up builds can resume
+        return { type: 'system', subtype: 'init', session_id: sdkMessage.session_id };
       }
       return null;
     }
@@ -161,12 +179,48 @@ function transformSDKMessage(sdkMessage: SDKMessage): TransformedMessage | null
 
 /**
  * Build prompt with image support for multi-modal messages
+ *
+ * Without images the prompt is passed as a plain string. With images it becomes a
+ * single user message whose content has the image blocks ahead of the text, which
+ * the SDK accepts through its streaming input mode.
  */
-function buildPromptWithImages(prompt: string, messageParts?: MessagePart[]): string {
-  // For now, we pass images via the message format rather than prompt string
-  // The SDK handles multi-modal via the prompt parameter accepting different formats
-  // TODO: Investigate SDK support for image content in prompts
-  return prompt;
+async function buildPromptWithImages(
+  prompt: string,
+  messageParts?: MessagePart[]
+): Promise<string | AsyncIterable<SDKUserMessage>> {
+  const { images, rejected } = await prepareImageAttachments(messageParts);
+  for (const reason of rejected) {
+    console.warn(`[native-sdk] ⚠️  Skipping image attachment ${reason}`);
+  }
+
+  const text = prompt + describeRejectedImages(rejected);
+  if (images.length === 0) {
+    return text;
+  }
+
+  const message: SDKUserMessage = {
+    type: 'user',
+    message: {
+      role: 'user',
+      content: [
+        ...images.map((image) => ({
+          type: 'image' as const,
+          source: {
+            type: 'base64' as const,
+            media_type: image.mimeType,
+            data: image.data.toString('base64'),
+          },
+        })),
+        { type: 'text', text },
+      ],
+    },
+    parent_tool_use_id: null,
+    session_id: '',
+  };
+
+  return (async function* () {
+    yield message;
+  })();
 }
 
 /**
@@ -185,8 +239,12 @@ function buildPromptWithImages(prompt: string, messageParts?: MessagePart[]): st
  */
 export function createNativeClaudeQuery(
   modelId: ClaudeModelId = DEFAULT_CLAUDE_MODEL_ID,
-  abortController?: AbortController
+  abortController?: AbortController,
+  session: ClaudeSessionOptions = {}
 ) {
+  // Later runs of this query (verification repair turns) continue the same session
+  let sessionId = session.resumeSessionId;
+
   return async function* nativeClaudeQuery(
     prompt: string,
     workingDirectory: string,
@@ -201,11 +259,13 @@ export function createNativeClaudeQuery(
     debugLog(`[runner] [native-sdk] Prompt length: ${prompt.length}\n`);
 
     // Build combined system prompt
-    const systemPromptSegments: string[] = [CLAUDE_SYSTEM_PROMPT.trim()];
-    if (systemPrompt && systemPrompt.trim().length > 0) {
-      systemPromptSegments.push(systemPrompt.trim());
-    }
-    const appendedSystemPrompt = systemPromptSegments.join('\n\n');
+    const buildAppendedSystemPrompt = (promptSection: string) => {
+      const systemPromptSegments: string[] = [CLAUDE_SYSTEM_PROMPT.trim()];
+      if (promptSection && promptSection.trim().length > 0) {
+        systemPromptSegments.push(promptSection.trim());
+      }
+      return systemPromptSegments.join('\n\n');
+    };
 
     // Ensure working directory exists
     if (!existsSync(workingDirectory)) {
@@ -224,7 +284,7 @@ export function createNativeClaudeQuery(
     }
 
     // Build the final prompt
-    const finalPrompt = buildPromptWithImages(prompt, messageParts);
+    const finalPrompt = await buildPromptWithImages(prompt, messageParts);
 
     // Configure SDK options
     const options: Options = {
@@ -232,7 +292,7 @@ export function createNativeClaudeQuery(
       systemPrompt: {
         type: 'preset',
         preset: 'claude_code',
-        append: appendedSystemPrompt,
+        append: buildAppendedSystemPrompt(systemPrompt),
       },
       cwd: workingDirectory,
       permissionMode: 'bypassPermissions',
@@ -255,22 +315,35 @@ export function createNativeClaudeQuery(
       // See: https://github.com/anthropics/claude-code/issues/2970
       // See: https://github.com/anthropics/claude-agent-sdk-typescript/issues/46
       abortController,
+      resume: sessionId,
     };
 
+    if (sessionId) {
+      debugLog(`[runner] [native-sdk] 🔄 Resuming session: ${sessionId}\n`);
+    }
     debugLog('[runner] [native-sdk] 🚀 Starting SDK query stream\n');
 
     let messageCount = 0;
     let toolCallCount = 0;
     let textBlockCount = 0;
+    // Usage per API message for live budget checks - the SDK emits an assistant
+    // message per content block, all carrying the usage of the same API response
+    const usageByMessage = new Map<string, ResultUsage>();
 
-    try {
-      // Stream messages directly from the SDK
-      // NOTE: query() is auto-instrumented by Sentry's claudeCodeAgentSdkIntegration
-      for await (const sdkMessage of query({ prompt: finalPrompt, options })) {
+    // Stream messages directly from the SDK
+    // NOTE: query() is auto-instrumented by Sentry's claudeCodeAgentSdkIntegration
+    const streamQuery = async function* (
+      queryPrompt: Awaited<ReturnType<typeof buildPromptWithImages>>,
+      queryOptions: Options
+    ): AsyncGenerator<TransformedMessage, void, unknown> {
+      for await (const sdkMessage of query({ prompt: queryPrompt, options: queryOptions })) {
         messageCount++;
+        if (sdkMessage.type === 'system' && sdkMessage.subtype === 'init') {
+          sessionId = sdkMessage.session_id;
+        }
 
         // Transform SDK message to our internal format
-        const transformed = transformSDKMessage(sdkMessage);
+        const transformed = transformSDKMessage(sdkMessage, modelId);
 
         if (transformed) {
           // Track stats for logging
@@ -288,6 +361,12 @@ export function createNativeClaudeQuery(
           yield transformed;
         }
 
+        if (sdkMessage.type === 'assistant' && sdkMessage.message.usage && !usageByMessage.has(sdkMessage.message.id)) {
+          usageByMessage.set(sdkMessage.message.id, sdkMessage.message.usage);
+          const usage = sumUsage(usageByMessage.values());
+          yield { type: 'usage', usage, total_cost_usd: estimateClaudeCostUsd(modelId, usage), model: modelId };
+        }
+
         // Log result messages
         if (sdkMessage.type === 'result') {
           if (sdkMessage.subtype === 'success') {
@@ -297,6 +376,29 @@ export function createNativeClaudeQuery(
           }
         }
       }
+    };
+
+    try {
+      try {
+        yield* streamQuery(finalPrompt, options);
+      } catch (error) {
+        // An expired or unknown session makes the CLI exit before it emits anything -
+        // start over in a new session with the prompt-based conversation context
+        if (!options.resume || messageCount > 0) {
+          throw error;
+        }
+        console.warn(`[native-sdk] ⚠️  Could not resume session ${options.resume} - starting a new session`);
+        sessionId = undefined;
+        yield* streamQuery(await buildPromptWithImages(prompt, messageParts), {
+          ...options,
+          resume: undefined,
+          systemPrompt: {
+            type: 'preset',
+            preset: 'claude_code',
+            append: buildAppendedSystemPrompt(session.fallbackSystemPrompt ?? systemPrompt),
+          },
+        });
+      }
 
       debugLog(`[runner] [native-sdk] 📊 Stream complete - ${messageCount} messages, ${toolCallCount} tool calls, ${textBlockCount} text blocks\n`);
     } catch (error) {
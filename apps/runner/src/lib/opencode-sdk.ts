@@ -21,6 +21,7 @@ import {
   parseModelId,
 } from '@openbuilder/agent-core';
 import { ensureProjectSkills } from './skills.js';
+import { describeRejectedImages, prepareImageAttachments, toDataUrl } from './image-attachments.js';
 
 // Debug logging helper
 const debugLog = (message: string) => {
@@ -40,7 +41,7 @@ interface MessagePart {
 
 // Internal message format that matches our transformer expectations
 interface TransformedMessage {
-  type: 'assistant' | 'user' | 'result' | 'system';
+  type: 'assistant' | 'user' | 'result' | 'system' | 'usage';
   message?: {
     id: string;
     content: Array<{
@@ -56,10 +57,21 @@ interface TransformedMessage {
   };
   result?: string;
   usage?: unknown;
+  total_cost_usd?: number;
+  num_turns?: number;
+  model?: string;
   subtype?: string;
   session_id?: string;
 }
 
+interface AssistantMessageUsage {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+  cost: number;
+}
+
 /**
  * Get OpenCode service URL
  */
@@ -213,6 +225,54 @@ function transformOpenCodeEvent(event: any, sessionId: string): TransformedMessa
   }
 }
 
+/**
+ * Tokens and cost of an assistant message update - OpenCode re-sends the running
+ * totals on every message.updated, so callers keep the latest value per message
+ */
+function readAssistantUsage(event: any): [string, AssistantMessageUsage] | null {
+  if (event.type !== 'message.created' && event.type !== 'message.updated') return null;
+  const message = event.properties?.message;
+  if (!message?.id || message.role !== 'assistant' || !message.tokens) return null;
+
+  const tokens = message.tokens;
+  return [message.id, {
+    input: tokens.input ?? 0,
+    output: (tokens.output ?? 0) + (tokens.reasoning ?? 0),
+    cacheRead: tokens.cache?.read ?? 0,
+    cacheWrite: tokens.cache?.write ?? 0,
+    cost: typeof message.cost === 'number' ? message.cost : 0,
+  }];
+}
+
+/**
+ * Usage fields for the result message, in the Claude SDK shape the runner expects
+ */
+function summarizeUsage(
+  usageByMessage: Map<string, AssistantMessageUsage>,
+  model: string
+): Pick<TransformedMessage, 'usage' | 'total_cost_usd' | 'num_turns' | 'model'> {
+  const totals = { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0 };
+  for (const usage of usageByMessage.values()) {
+    totals.input += usage.input;
+    totals.output += usage.output;
+    totals.cacheRead += usage.cacheRead;
+    totals.cacheWrite += usage.cacheWrite;
+    totals.cost += usage.cost;
+  }
+
+  return {
+    usage: {
+      input_tokens: totals.input,
+      output_tokens: totals.output,
+      cache_read_input_tokens: totals.cacheRead,
+      cache_creation_input_tokens: totals.cacheWrite,
+    },
+    total_cost_usd: totals.cost,
+    num_turns: usageByMessage.size,
+    model,
+  };
+}
+
 /**
  * Parse SSE data from event stream
  */
@@ -277,6 +337,7 @@ export function createOpenCodeQuery(
     const { provider: providerID, model: modelID } = parseModelId(normalizeModelId(modelId));
     
     let sessionId: string | null = null;
+    const usageByMessage = new Map<string, AssistantMessageUsage>();
     
     // Start Sentry AI agent span for the entire OpenCode query
     // This provides visibility into AI operations in Sentry's trace view
@@ -331,27 +392,28 @@ export function createOpenCodeQuery(
         throw new Error(`Failed to subscribe to events: ${eventResponse.status}`);
       }
 
-      // Step 3: Build message parts
-      const parts: Array<{ type: string; text?: string; image?: string; mimeType?: string }> = [];
-      
+      // Step 3: Build message parts - OpenCode takes images as file parts with data URLs
+      const parts: Array<{ type: 'text'; text: string } | { type: 'file'; mime: string; filename?: string; url: string }> = [];
+      const { images, rejected } = await prepareImageAttachments(messageParts);
+      for (const reason of rejected) {
+        console.warn(`[opencode-sdk] ⚠️  Skipping image attachment ${reason}`);
+      }
+
       // Add images first if present
-      if (messageParts) {
-        for (const part of messageParts) {
-          if (part.type === 'image' && part.image) {
-            parts.push({
-              type: 'image',
-              image: part.image,
-              mimeType: part.mimeType || 'image/png',
-            });
-            debugLog('[runner] [opencode-sdk] Added image part');
-          }
-        }
+      for (const image of images) {
+        parts.push({
+          type: 'file',
+          mime: image.mimeType,
+          filename: image.fileName,
+          url: toDataUrl(image),
+        });
+        debugLog('[runner] [opencode-sdk] Added image part');
       }
-      
+
       // Add text prompt
       parts.push({
         type: 'text',
-        text: prompt,
+        text: prompt + describeRejectedImages(rejected),
       });
 
       // Step 4: Send the prompt (don't await - we'll stream the response)
@@ -416,6 +478,13 @@ export function createOpenCodeQuery(
                 }
               }
 
+              const assistantUsage = readAssistantUsage(event);
+              if (assistantUsage) {
+                usageByMessage.set(...assistantUsage);
+                // Running totals for live budget checks
+                yield { type: 'usage', ...summarizeUsage(usageByMessage, modelId) };
+              }
+
               const transformed = transformOpenCodeEvent(event, sessionId!);
               if (transformed) {
                 // Track tool calls and messages for span metrics
@@ -428,7 +497,9 @@ export function createOpenCodeQuery(
                   }
                 }
                 
-                yield transformed;
+                yield transformed.type === 'result'
+                  ? { ...transformed, ...summarizeUsage(usageByMessage, modelId) }
+                  : transformed;
                 
                 // Check for completion
                 if (transformed.type === 'result') {
@@ -457,6 +528,7 @@ export function createOpenCodeQuery(
           result: 'completed',
           session_id: sessionId ?? undefined,
           subtype: 'success',
+          ...summarizeUsage(usageByMessage, modelId),
         };
       }
 
@@ -480,6 +552,7 @@ export function createOpenCodeQuery(
         result: error instanceof Error ? error.message : String(error),
         session_id: sessionId || undefined,
         subtype: 'error',
+        ...summarizeUsage(usageByMessage, modelId),
       };
       
       throw error;
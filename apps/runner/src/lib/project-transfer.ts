@@ -0,0 +1,364 @@
+import { spawn } from 'node:child_process';
+import { existsSync, mkdirSync } from 'node:fs';
+import { appendFile, mkdir, rename, rm } from 'node:fs/promises';
+import { dirname, join, relative } from 'node:path';
+import { getSnapshotGitDir } from './snapshots.js';
+
+/**
+ * Project workspace transfer between runners.
+ *
+ * The source runner packs the project directory (and its snapshot repository,
+ * so rollback keeps working) into a gzipped tarball and streams it in 64KB
+ * chunks. The target runner appends chunks to a temporary archive under
+ * <workspace>/.openbuilder/imports, extracts it into a staging directory and
+ * swaps it into place once the final chunk arrives. Dependencies are
+ * reinstalled on the target instead of being copied.
+ */
+
+const CHUNK_SIZE = 64 * 1024; // Matches the HTTP proxy chunking
+const TAR_TIMEOUT_MS = 5 * 60 * 1000;
+const INSTALL_TIMEOUT_MS = 10 * 60 * 1000;
+const STALE_IMPORT_MS = 10 * 60 * 1000;
+
+// Reinstalled or regenerated on the target runner
+const TRANSFER_EXCLUDES = [
+  'node_modules',
+  '.next',
+  '.nuxt',
+  '.svelte-kit',
+  '.astro',
+  '.turbo',
+  '.vercel',
+  '.cache',
+];
+
+export interface ImportProjectResult {
+  path: string;
+  bytes: number;
+  dependenciesInstalled: boolean;
+}
+
+interface PendingImport {
+  slug: string;
+  archivePath: string;
+  chunks: Map<number, Buffer>; // Chunks that arrived ahead of nextIndex
+  nextIndex: number;
+  finalIndex: number | null;
+  bytes: number;
+  writes: Promise<void>;
+  error?: Error;
+  updatedAt: number;
+  done: Promise<ImportProjectResult>;
+  resolveDone: (result: Promise<ImportProjectResult>) => void;
+}
+
+const pendingImports = new Map<string, PendingImport>();
+
+export function assertValidSlug(slug: string) {
+  if (!/^[A-Za-z0-9._-]+$/.test(slug) || slug === '.' || slug === '..') {
+    throw new Error(`Invalid project slug: ${slug}`);
+  }
+}
+
+function getImportsDir(workspaceRoot: string): string {
+  return join(workspaceRoot, '.openbuilder', 'imports');
+}
+
+function runTar(args: string[], cwd: string, onData?: (data: Buffer) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn('tar', args, {
+      cwd,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      // Keep macOS tar from adding AppleDouble (._*) entries
+      env: { ...process.env, COPYFILE_DISABLE: '1' },
+    });
+
+    let stderr = '';
+    const timeoutId = setTimeout(() => {
+      proc.kill('SIGKILL');
+      reject(new Error('tar timed out'));
+    }, TAR_TIMEOUT_MS);
+
+    proc.stdout.on('data', (data: Buffer) => onData?.(data));
+    proc.stderr.on('data', (data: Buffer) => {
+      stderr += data.toString();
+    });
+
+    proc.on('error', (error) => {
+      clearTimeout(timeoutId);
+      reject(error);
+    });
+
+    proc.on('close', (code) => {
+      clearTimeout(timeoutId);
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`tar exited with code ${code}: ${stderr.trim()}`));
+      }
+    });
+  });
+}
+
+/**
+ * Run tar with `args` and re-chunk its stdout into chunks of at most 64KB.
+ * The last call to `onChunk` has isFinal set. Returns the total size in bytes.
+ */
+export async function streamTarball(
+  args: string[],
+  cwd: string,
+  onChunk: (chunk: Buffer, isFinal: boolean) => void
+): Promise<number> {
+  let pending = Buffer.alloc(0);
+  let bytes = 0;
+
+  await runTar(args, cwd, (data) => {
+    bytes += data.length;
+    pending = Buffer.concat([pending, data]);
+    while (pending.length >= CHUNK_SIZE) {
+      onChunk(pending.subarray(0, CHUNK_SIZE), false);
+      pending = pending.subarray(CHUNK_SIZE);
+    }
+  });
+
+  onChunk(pending, true);
+  return bytes;
+}
+
+/**
+ * Stream a gzipped tarball of a project's workspace.
+ * `onChunk` receives chunks of at most 64KB in order; the last call has isFinal set.
+ * Returns the total archive size in bytes.
+ */
+export async function exportProject(
+  workspaceRoot: string,
+  slug: string,
+  onChunk: (chunk: Buffer, isFinal: boolean) => void
+): Promise<number> {
+  assertValidSlug(slug);
+
+  const projectPath = join(workspaceRoot, slug);
+  if (!existsSync(projectPath)) {
+    throw new Error(`Project directory not found: ${projectPath}`);
+  }
+
+  const paths = [slug];
+  const snapshotGitDir = getSnapshotGitDir(workspaceRoot, slug);
+  if (existsSync(snapshotGitDir)) {
+    paths.push(relative(workspaceRoot, snapshotGitDir));
+  }
+
+  return streamTarball(
+    ['-czf', '-', ...TRANSFER_EXCLUDES.map((pattern) => `--exclude=${pattern}`), ...paths],
+    workspaceRoot,
+    onChunk
+  );
+}
+
+/**
+ * Drop imports whose source stopped sending (runner disconnected, export failed)
+ */
+function sweepStaleImports() {
+  const now = Date.now();
+  for (const [transferId, transfer] of pendingImports) {
+    if (now - transfer.updatedAt > STALE_IMPORT_MS) {
+      pendingImports.delete(transferId);
+      void rm(transfer.archivePath, { force: true }).catch(() => {});
+    }
+  }
+}
+
+/**
+ * Move `source` to `target`, replacing whatever is there.
+ * The previous directory is kept aside until the swap succeeds.
+ */
+async function replaceDirectory(source: string, target: string): Promise<void> {
+  await mkdir(dirname(target), { recursive: true });
+
+  if (!existsSync(target)) {
+    await rename(source, target);
+    return;
+  }
+
+  const backupPath = `${target}.import-backup-${Date.now()}`;
+  await rename(target, backupPath);
+  try {
+    await rename(source, target);
+  } catch (error) {
+    await rename(backupPath, target);
+    throw error;
+  }
+  await rm(backupPath, { recursive: true, force: true });
+}
+
+function detectInstallCommand(projectPath: string): [string, string[]] {
+  if (existsSync(join(projectPath, 'pnpm-lock.yaml'))) return ['pnpm', ['install']];
+  if (existsSync(join(projectPath, 'yarn.lock'))) return ['yarn', ['install']];
+  if (existsSync(join(projectPath, 'bun.lockb')) || existsSync(join(projectPath, 'bun.lock'))) {
+    return ['bun', ['install']];
+  }
+  return ['npm', ['install']];
+}
+
+/**
+ * Reinstall dependencies excluded from the transfer.
+ * Returns false when the install failed - the next build or dev server start will surface it.
+ * `ignoreScripts` skips lifecycle scripts (postinstall etc.) for code that isn't trusted.
+ */
+export async function installDependencies(
+  projectPath: string,
+  options: { ignoreScripts?: boolean } = {}
+): Promise<boolean> {
+  if (!existsSync(join(projectPath, 'package.json'))) {
+    return true;
+  }
+
+  const [command, args] = detectInstallCommand(projectPath);
+  const env = { ...process.env };
+  if (options.ignoreScripts) {
+    // Yarn 2+ (.yarnrc.yml) has no --ignore-scripts flag and reads the setting from the environment
+    if (command === 'yarn' && existsSync(join(projectPath, '.yarnrc.yml'))) {
+      env.YARN_ENABLE_SCRIPTS = 'false';
+    } else {
+      args.push('--ignore-scripts');
+    }
+  }
+  console.log(`[transfer] 📦 Installing dependencies with ${command}${options.ignoreScripts ? ' (scripts disabled)' : ''}...`);
+
+  return new Promise((resolve) => {
+    const proc = spawn(command, args, {
+      cwd: projectPath,
+      env,
+      stdio: 'ignore',
+      shell: process.platform === 'win32',
+    });
+
+    const timeoutId = setTimeout(() => {
+      console.warn(`[transfer] ⚠️  ${command} install timed out`);
+      proc.kill('SIGKILL');
+    }, INSTALL_TIMEOUT_MS);
+
+    proc.on('error', (error) => {
+      clearTimeout(timeoutId);
+      console.warn(`[transfer] ⚠️  ${command} install failed:`, error.message);
+      resolve(false);
+    });
+
+    proc.on('close', (code) => {
+      clearTimeout(timeoutId);
+      if (code !== 0) {
+        console.warn(`[transfer] ⚠️  ${command} install exited with code ${code}`);
+      }
+      resolve(code === 0);
+    });
+  });
+}
+
+async function finishImport(workspaceRoot: string, transferId: string, transfer: PendingImport): Promise<ImportProjectResult> {
+  await transfer.writes;
+
+  const stagingPath = join(getImportsDir(workspaceRoot), transferId);
+  try {
+    if (transfer.error) {
+      throw transfer.error;
+    }
+
+    await mkdir(stagingPath, { recursive: true });
+    await runTar(['-xzf', transfer.archivePath, '-C', stagingPath], workspaceRoot);
+
+    const stagedProject = join(stagingPath, transfer.slug);
+    if (!existsSync(stagedProject)) {
+      throw new Error(`Archive does not contain project ${transfer.slug}`);
+    }
+
+    const projectPath = join(workspaceRoot, transfer.slug);
+    await replaceDirectory(stagedProject, projectPath);
+
+    const snapshotGitDir = getSnapshotGitDir(workspaceRoot, transfer.slug);
+    const stagedSnapshots = join(stagingPath, relative(workspaceRoot, snapshotGitDir));
+    if (existsSync(stagedSnapshots)) {
+      await replaceDirectory(stagedSnapshots, snapshotGitDir);
+    }
+
+    const dependenciesInstalled = await installDependencies(projectPath);
+
+    return { path: projectPath, bytes: transfer.bytes, dependenciesInstalled };
+  } finally {
+    await rm(transfer.archivePath, { force: true });
+    await rm(stagingPath, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Accept one chunk of an incoming project transfer.
+ * Chunks are written in index order even if they arrive out of order. Resolves
+ * with the import result for the final chunk (once the archive is extracted),
+ * and null for every other chunk.
+ */
+export async function receiveImportChunk(
+  workspaceRoot: string,
+  transferId: string,
+  payload: { slug: string; index: number; chunk: string; isFinal: boolean }
+): Promise<ImportProjectResult | null> {
+  assertValidSlug(payload.slug);
+
+  let transfer = pendingImports.get(transferId);
+  if (!transfer) {
+    sweepStaleImports();
+
+    const importsDir = getImportsDir(workspaceRoot);
+    mkdirSync(importsDir, { recursive: true });
+
+    let resolveDone: PendingImport['resolveDone'] = () => {};
+    const done = new Promise<ImportProjectResult>((resolve) => {
+      resolveDone = resolve;
+    });
+
+    transfer = {
+      slug: payload.slug,
+      archivePath: join(importsDir, `${transferId}.tar.gz`),
+      chunks: new Map(),
+      nextIndex: 0,
+      finalIndex: null,
+      bytes: 0,
+      writes: Promise.resolve(),
+      updatedAt: Date.now(),
+      done,
+      resolveDone,
+    };
+    pendingImports.set(transferId, transfer);
+  } else if (transfer.slug !== payload.slug) {
+    throw new Error(`Transfer ${transferId} belongs to project ${transfer.slug}`);
+  }
+
+  const current = transfer;
+  current.updatedAt = Date.now();
+  current.chunks.set(payload.index, Buffer.from(payload.chunk, 'base64'));
+  if (payload.isFinal) {
+    current.finalIndex = payload.index;
+  }
+
+  while (current.chunks.has(current.nextIndex)) {
+    const data = current.chunks.get(current.nextIndex)!;
+    current.chunks.delete(current.nextIndex);
+    current.nextIndex += 1;
+    current.bytes += data.length;
+    // Never reject - a failed write is recorded and reported when the transfer finishes
+    current.writes = current.writes.then(async () => {
+      if (current.error) return;
+      try {
+        await appendFile(current.archivePath, data);
+      } catch (error) {
+        current.error = error instanceof Error ? error : new Error(String(error));
+      }
+    });
+  }
+
+  // Whichever chunk completes the sequence kicks off extraction
+  if (current.finalIndex !== null && current.nextIndex > current.finalIndex && pendingImports.get(transferId) === current) {
+    pendingImports.delete(transferId);
+    current.resolveDone(finishImport(workspaceRoot, transferId, current));
+  }
+
+  return payload.isFinal ? current.done : null;
+}
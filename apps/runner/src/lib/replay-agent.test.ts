@@ -0,0 +1,133 @@
+import assert from 'node:assert/strict';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, test } from 'node:test';
+import { buildWebSocketServer } from '@openbuilder/agent-core';
+import { getAgentBackend, registerAgentBackend, type BuildQueryFn } from './agent-registry.js';
+import { createBuildStream } from './build/engine.js';
+import { resetTransformerState, transformAgentMessageToSSE } from './message-transformer.js';
+import { createReplayAgent, getTranscriptPath, recordQuery, REPLAY_AGENT_ID } from './replay-agent.js';
+
+const root = mkdtempSync(path.join(tmpdir(), 'openbuilder-replay-test-'));
+after(() => rmSync(root, { recursive: true, force: true }));
+// Importing agent-core starts the command queue's cleanup timer
+after(() => buildWebSocketServer.shutdown());
+
+const PAGE = 'export default function Page() {\n  return <h1>Hello</h1>;\n}\n';
+
+// Stands in for a model: one tool call that edits the project, then a summary
+const scriptedAgent: BuildQueryFn = async function* (_prompt, workingDirectory) {
+  yield {
+    type: 'assistant',
+    message: {
+      id: 'msg-1',
+      content: [
+        { type: 'text', text: 'Creating the home page.' },
+        { type: 'tool_use', id: 'tool-1', name: 'Write', input: { file_path: 'src/page.tsx', content: PAGE } },
+      ],
+    },
+  };
+
+  mkdirSync(path.join(workingDirectory, 'src'), { recursive: true });
+  writeFileSync(path.join(workingDirectory, 'src/page.tsx'), PAGE);
+  rmSync(path.join(workingDirectory, 'README.md'));
+
+  yield {
+    type: 'user',
+    message: { content: [{ type: 'tool_result', tool_use_id: 'tool-1', content: 'File written' }] },
+  };
+  yield { type: 'assistant', message: { id: 'msg-2', content: [{ type: 'text', text: 'Implementation complete.' }] } };
+  yield { type: 'result', usage: { input_tokens: 120, output_tokens: 40 }, num_turns: 1 };
+};
+
+function createProject(name: string): string {
+  const projectDirectory = path.join(root, 'workspace', name);
+  mkdirSync(projectDirectory, { recursive: true });
+  writeFileSync(path.join(projectDirectory, 'README.md'), '# Demo\n');
+  return projectDirectory;
+}
+
+function readProject(projectDirectory: string, dir = ''): Record<string, string> {
+  const files: Record<string, string> = {};
+  for (const entry of readdirSync(path.join(projectDirectory, dir), { withFileTypes: true })) {
+    const relativePath = dir ? `${dir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      Object.assign(files, readProject(projectDirectory, relativePath));
+    } else {
+      files[relativePath] = readFileSync(path.join(projectDirectory, relativePath), 'utf-8');
+    }
+  }
+  return files;
+}
+
+/**
+ * Run a query through the build engine and message transformer, as the runner does for a build
+ */
+async function runBuild(query: BuildQueryFn, agent: string, projectDirectory: string) {
+  resetTransformerState();
+  const stream = await createBuildStream({
+    projectId: 'project-1',
+    projectName: 'Demo',
+    prompt: 'Build a home page',
+    operationType: 'enhancement',
+    query,
+    workingDirectory: projectDirectory,
+    systemPrompt: '',
+    agent,
+  });
+
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  const events: Array<{ type: string; [key: string]: unknown }> = [];
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    events.push(...transformAgentMessageToSSE(JSON.parse(decoder.decode(value))));
+  }
+
+  // Text block IDs are random per run
+  return events.map((event) => (event.type.startsWith('text-') ? { ...event, id: undefined } : event));
+}
+
+test('a recorded build replays the same events and workspace writes', async () => {
+  const transcriptDir = path.join(root, 'transcripts');
+  const transcriptPath = getTranscriptPath(transcriptDir, 'demo', 'command-1');
+
+  const recordedDirectory = createProject('recorded');
+  const recordedEvents = await runBuild(recordQuery(scriptedAgent, transcriptPath), 'claude-code', recordedDirectory);
+
+  await registerAgentBackend(createReplayAgent(transcriptDir));
+  const replayAgent = getAgentBackend(REPLAY_AGENT_ID);
+  assert.deepEqual(replayAgent?.models?.map((model) => model.id), ['demo-command-1']);
+
+  const replayedDirectory = createProject('replayed');
+  const replayQuery = replayAgent!.createQuery({ model: 'demo-command-1' });
+  const replayedEvents = await runBuild(replayQuery, REPLAY_AGENT_ID, replayedDirectory);
+
+  assert.deepEqual(replayedEvents, recordedEvents);
+  assert.deepEqual(
+    replayedEvents.filter((event) => event.type === 'tool-output-available').map((event) => event.toolName),
+    ['Write']
+  );
+  assert.deepEqual(readProject(replayedDirectory), { 'src/page.tsx': PAGE });
+  assert.deepEqual(readProject(replayedDirectory), readProject(recordedDirectory));
+});
+
+test('replay refuses writes outside the working directory', async () => {
+  const transcriptDir = path.join(root, 'unsafe-transcripts');
+  mkdirSync(transcriptDir, { recursive: true });
+  writeFileSync(
+    path.join(transcriptDir, 'escape.jsonl'),
+    `${JSON.stringify({ turn: 0, writes: [{ path: '../outside.txt', content: 'nope' }] })}\n`
+  );
+
+  const query = createReplayAgent(transcriptDir).createQuery({ model: 'escape' });
+  const projectDirectory = createProject('unsafe');
+  await assert.rejects(async () => {
+    for await (const _message of query('', projectDirectory, '')) {
+      // Drain
+    }
+  }, /outside the working directory/);
+  assert.equal(existsSync(path.join(path.dirname(projectDirectory), 'outside.txt')), false);
+});
@@ -0,0 +1,204 @@
+/**
+ * Replay Agent - deterministic builds from recorded transcripts
+ *
+ * Record mode (RUNNER_RECORD_DIR) writes every message the agent yields during a
+ * build to a JSONL transcript, one `{ turn, message }` object per line. The turn
+ * counts calls of the query function, so verification repair turns are kept apart.
+ * Files the agent changed in its working directory are recorded too, as
+ * `{ turn, writes }` lines ahead of the message that followed the edit.
+ *
+ * The replay agent (RUNNER_REPLAY_DIR) is registered like any third-party agent;
+ * each transcript in the directory is one of its models. Replaying feeds the
+ * recorded messages through the normal build path - message transformer, todo
+ * tracking, usage, persistence - and applies the recorded writes in order,
+ * without calling a model.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readdirSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import type { AgentBackend, BuildQueryFn } from './agent-registry.js';
+
+export const REPLAY_AGENT_ID = 'replay';
+
+const TRANSCRIPT_EXTENSION = '.jsonl';
+
+// Dependencies and build output aren't the agent's edits - never recorded
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git', '.next', '.nuxt', '.svelte-kit', '.astro', '.turbo', '.vercel', '.cache']);
+
+interface WorkspaceWrite {
+  path: string; // Relative to the working directory, '/'-separated
+  content?: string; // Missing when the file was deleted
+  encoding?: 'base64'; // Binary content
+}
+
+type TranscriptLine =
+  | { turn: number; message: unknown }
+  | { turn: number; writes: WorkspaceWrite[] };
+
+// Relative path -> mtime and size, enough to tell which files changed
+type WorkspaceSnapshot = Map<string, string>;
+
+function snapshotWorkspace(root: string, dir = '', snapshot: WorkspaceSnapshot = new Map()): WorkspaceSnapshot {
+  let entries;
+  try {
+    entries = readdirSync(path.join(root, dir), { withFileTypes: true });
+  } catch {
+    return snapshot;
+  }
+
+  for (const entry of entries) {
+    const relativePath = dir ? `${dir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      if (!IGNORED_DIRECTORIES.has(entry.name)) {
+        snapshotWorkspace(root, relativePath, snapshot);
+      }
+    } else if (entry.isFile()) {
+      const stats = statSync(path.join(root, relativePath));
+      snapshot.set(relativePath, `${stats.mtimeMs}:${stats.size}`);
+    }
+  }
+  return snapshot;
+}
+
+function diffWorkspace(root: string, before: WorkspaceSnapshot, after: WorkspaceSnapshot): WorkspaceWrite[] {
+  const writes: WorkspaceWrite[] = [];
+
+  for (const [relativePath, stamp] of after) {
+    if (before.get(relativePath) === stamp) continue;
+    const data = readFileSync(path.join(root, relativePath));
+    const text = data.toString('utf-8');
+    writes.push(
+      Buffer.from(text, 'utf-8').equals(data)
+        ? { path: relativePath, content: text }
+        : { path: relativePath, content: data.toString('base64'), encoding: 'base64' }
+    );
+  }
+  for (const relativePath of before.keys()) {
+    if (!after.has(relativePath)) {
+      writes.push({ path: relativePath });
+    }
+  }
+  return writes;
+}
+
+function applyWrites(root: string, writes: WorkspaceWrite[]) {
+  for (const write of writes) {
+    // Transcripts are files on disk - never let one write outside the project
+    const target = path.resolve(root, write.path);
+    if (!target.startsWith(root + path.sep)) {
+      throw new Error(`Transcript writes outside the working directory: ${write.path}`);
+    }
+
+    if (write.content === undefined) {
+      rmSync(target, { force: true });
+    } else {
+      mkdirSync(path.dirname(target), { recursive: true });
+      writeFileSync(target, Buffer.from(write.content, write.encoding ?? 'utf-8'));
+    }
+  }
+}
+
+/**
+ * Wrap a query function so the messages and file changes of every turn are appended to a transcript
+ */
+export function recordQuery(query: BuildQueryFn, transcriptPath: string): BuildQueryFn {
+  mkdirSync(path.dirname(transcriptPath), { recursive: true });
+  let turn = 0;
+
+  const append = (line: TranscriptLine) => appendFileSync(transcriptPath, `${JSON.stringify(line)}\n`);
+
+  return async function* (...args) {
+    const currentTurn = turn++;
+    const workingDirectory = path.resolve(args[1]);
+    let snapshot = snapshotWorkspace(workingDirectory);
+
+    const recordWrites = () => {
+      const next = snapshotWorkspace(workingDirectory);
+      const writes = diffWorkspace(workingDirectory, snapshot, next);
+      snapshot = next;
+      if (writes.length > 0) {
+        append({ turn: currentTurn, writes });
+      }
+    };
+
+    try {
+      for await (const message of query(...args)) {
+        recordWrites();
+        append({ turn: currentTurn, message });
+        yield message;
+      }
+    } finally {
+      // Edits made after the last message
+      recordWrites();
+    }
+  };
+}
+
+/**
+ * Transcript file for a build in record mode
+ */
+export function getTranscriptPath(recordDir: string, projectSlug: string, commandId: string): string {
+  return path.resolve(recordDir, `${projectSlug}-${commandId}${TRANSCRIPT_EXTENSION}`);
+}
+
+function listTranscripts(replayDir: string): string[] {
+  if (!existsSync(replayDir)) return [];
+  return readdirSync(replayDir)
+    .filter((file) => file.endsWith(TRANSCRIPT_EXTENSION))
+    .map((file) => file.slice(0, -TRANSCRIPT_EXTENSION.length))
+    .sort();
+}
+
+function readTranscript(transcriptPath: string): TranscriptLine[] {
+  return readFileSync(transcriptPath, 'utf-8')
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line, index) => {
+      try {
+        return JSON.parse(line) as TranscriptLine;
+      } catch {
+        throw new Error(`Invalid transcript line ${index + 1} in ${path.basename(transcriptPath)}`);
+      }
+    });
+}
+
+/**
+ * The replay agent backend. Transcripts are listed on every heartbeat, so new
+ * recordings show up without restarting the runner.
+ */
+export function createReplayAgent(replayDir: string): AgentBackend {
+  const resolvedDir = path.resolve(replayDir);
+
+  return {
+    id: REPLAY_AGENT_ID,
+    label: 'Replay',
+    description: 'Replays a recorded build transcript - no model calls',
+    get models() {
+      return listTranscripts(resolvedDir).map((name) => ({ id: name, label: `Replay: ${name}` }));
+    },
+    createQuery({ model, abortController }) {
+      // Only transcripts that are listed can be replayed - the name comes from the build request
+      const name = model && listTranscripts(resolvedDir).includes(model) ? model : undefined;
+      let turn = 0;
+
+      return async function* (_prompt, workingDirectory) {
+        if (!name) {
+          throw new Error(`Unknown replay transcript: ${model ?? '(none)'}`);
+        }
+
+        const currentTurn = turn++;
+        const lines = readTranscript(path.join(resolvedDir, `${name}${TRANSCRIPT_EXTENSION}`));
+        for (const line of lines) {
+          if (abortController?.signal.aborted) return;
+          if (line.turn !== currentTurn) continue;
+
+          if ('writes' in line) {
+            applyWrites(path.resolve(workingDirectory), line.writes);
+          } else {
+            yield line.message;
+          }
+        }
+      };
+    },
+  };
+}
@@ -0,0 +1,468 @@
+import { execFile, spawn } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import { delimiter, join } from 'node:path';
+import sharp from 'sharp';
+import WebSocket from 'ws';
+import type { BuildScreenshotsEvent, CapturedScreenshot } from '@openbuilder/agent-core';
+import type { FocusedEditElement, MessagePart } from '@openbuilder/agent-core/types/build';
+import type { ScreenshotViewport } from '@openbuilder/agent-core/types/generation';
+
+/**
+ * Visual checks after a build.
+ *
+ * Opt-in with RUNNER_SCREENSHOTS=1. Once the dev server is healthy, headless
+ * Chromium (driven through its command line, no extra dependency) captures the
+ * configured routes at a few viewport sizes. A capture is flagged when the page
+ * is blank or shows a dev server error overlay; overlays are looked up in the
+ * live page over the DevTools protocol, as some render inside a shadow root.
+ *
+ * The last capture of every route and viewport is kept as a baseline under
+ * <workspace>/.openbuilder/screenshots/<slug>/ so the next build can be diffed
+ * against it.
+ */
+
+const CAPTURE_TIMEOUT_MS = 30000;
+const RENDER_BUDGET_MS = 5000; // Virtual time Chromium gives the page before capturing
+const OVERLAY_SETTLE_MS = 2000; // Time after load for client-side errors to open an overlay
+const MAX_ROUTES = 5;
+const MAX_IMAGE_WIDTH = 1280;
+const DIFF_WIDTH = 480;
+const DIFF_PIXEL_THRESHOLD = 32; // Max channel difference below which a pixel counts as unchanged
+const BLANK_STDEV_THRESHOLD = 2;
+const CROP_PADDING = 16; // Context around a pinned element
+const MAX_CROP_WIDTH = 800;
+const MAX_PAGE_HEIGHT = 4000; // Tallest page capture used for element crops
+
+const VIEWPORTS: Record<ScreenshotViewport, { width: number; height: number }> = {
+  mobile: { width: 390, height: 844 },
+  tablet: { width: 820, height: 1180 },
+  desktop: { width: 1440, height: 900 },
+};
+
+// Evaluated in the page - the dev server error overlay showing, if any.
+// Next.js mounts <nextjs-portal> on every dev page for its dev tools, so only
+// the error dialog inside its shadow root counts.
+const OVERLAY_PROBE = `(() => {
+  const portal = document.querySelector('nextjs-portal');
+  if (portal?.shadowRoot?.querySelector('[data-nextjs-dialog], [data-nextjs-dialog-overlay]')) return 'next';
+  if (document.querySelector('vite-error-overlay')) return 'vite';
+  if (document.getElementById('webpack-dev-server-client-overlay')) return 'webpack';
+  return null;
+})()`;
+
+const CHROMIUM_CANDIDATES = [
+  'chromium',
+  'chromium-browser',
+  'google-chrome',
+  'google-chrome-stable',
+  'microsoft-edge',
+];
+
+const CHROMIUM_APP_PATHS = [
+  '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+  '/Applications/Chromium.app/Contents/MacOS/Chromium',
+];
+
+export interface ScreenshotConfig {
+  chromiumPath: string;
+  routes: string[];
+  viewports: ScreenshotViewport[];
+}
+
+export type ScreenshotResult = BuildScreenshotsEvent['payload'];
+
+/**
+ * Screenshot settings from the environment, or null when disabled or no browser is available
+ */
+export function getScreenshotConfig(): ScreenshotConfig | null {
+  if (process.env.RUNNER_SCREENSHOTS !== '1') return null;
+
+  const chromiumPath = getChromiumPath();
+  if (!chromiumPath) return null;
+
+  const routes = (process.env.RUNNER_SCREENSHOT_ROUTES ?? '/')
+    .split(',')
+    .map((route) => route.trim())
+    .filter(Boolean)
+    .map((route) => (route.startsWith('/') ? route : `/${route}`))
+    .slice(0, MAX_ROUTES);
+
+  const viewports = (process.env.RUNNER_SCREENSHOT_VIEWPORTS ?? 'mobile,tablet,desktop')
+    .split(',')
+    .map((viewport) => viewport.trim())
+    .filter((viewport): viewport is ScreenshotViewport => viewport in VIEWPORTS);
+
+  return {
+    chromiumPath,
+    routes: routes.length > 0 ? routes : ['/'],
+    viewports: viewports.length > 0 ? viewports : ['desktop'],
+  };
+}
+
+/**
+ * Browser used for captures - RUNNER_CHROMIUM_PATH or the first one found on the machine
+ */
+export function getChromiumPath(): string | null {
+  return process.env.RUNNER_CHROMIUM_PATH || findChromium();
+}
+
+function findChromium(): string | null {
+  const pathDirs = (process.env.PATH ?? '').split(delimiter).filter(Boolean);
+  for (const candidate of CHROMIUM_CANDIDATES) {
+    for (const dir of pathDirs) {
+      const fullPath = join(dir, candidate);
+      if (existsSync(fullPath)) return fullPath;
+    }
+  }
+  return CHROMIUM_APP_PATHS.find((appPath) => existsSync(appPath)) ?? null;
+}
+
+export function getScreenshotBaselineDir(workspaceRoot: string, slug: string): string {
+  return join(workspaceRoot, '.openbuilder', 'screenshots', slug);
+}
+
+function baselineFileName(route: string, viewport: ScreenshotViewport): string {
+  const routeKey = route.replace(/[^A-Za-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'index';
+  return `${routeKey}.${viewport}.png`;
+}
+
+function runChromium(chromiumPath: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      chromiumPath,
+      args,
+      { timeout: CAPTURE_TIMEOUT_MS, maxBuffer: 20 * 1024 * 1024 },
+      (error, stdout, stderr) => {
+        if (error) {
+          const detail = stderr.trim().split('\n').pop() || error.message;
+          reject(new Error(`Chromium failed: ${detail}`));
+          return;
+        }
+        resolve(stdout);
+      }
+    );
+  });
+}
+
+function baseChromiumArgs(userDataDir: string): string[] {
+  const args = [
+    '--headless=new',
+    '--disable-gpu',
+    '--hide-scrollbars',
+    '--mute-audio',
+    '--no-first-run',
+    '--no-default-browser-check',
+    `--user-data-dir=${userDataDir}`,
+    `--virtual-time-budget=${RENDER_BUDGET_MS}`,
+  ];
+  // Chromium refuses to start its sandbox as root (containers, CI)
+  if (process.getuid?.() === 0) args.push('--no-sandbox');
+  return args;
+}
+
+async function isBlank(image: Buffer): Promise<boolean> {
+  const { channels } = await sharp(image).stats();
+  return channels.slice(0, 3).every((channel) => channel.stdev < BLANK_STDEV_THRESHOLD);
+}
+
+/**
+ * Share of pixels that changed against the baseline, plus the current capture
+ * dimmed with the changed pixels painted red
+ */
+async function diffAgainstBaseline(
+  image: Buffer,
+  baseline: Buffer
+): Promise<{ ratio: number; diffImage: Buffer }> {
+  const { width = DIFF_WIDTH, height = DIFF_WIDTH } = await sharp(image).metadata();
+  const diffHeight = Math.max(1, Math.round((height / width) * DIFF_WIDTH));
+
+  const [current, previous] = await Promise.all(
+    [image, baseline].map((input) =>
+      sharp(input)
+        .resize(DIFF_WIDTH, diffHeight, { fit: 'fill' })
+        .removeAlpha()
+        .raw()
+        .toBuffer()
+    )
+  );
+
+  const output = Buffer.alloc(current.length);
+  let changed = 0;
+  for (let i = 0; i < current.length; i += 3) {
+    const delta = Math.max(
+      Math.abs(current[i] - previous[i]),
+      Math.abs(current[i + 1] - previous[i + 1]),
+      Math.abs(current[i + 2] - previous[i + 2])
+    );
+    if (delta > DIFF_PIXEL_THRESHOLD) {
+      changed++;
+      output[i] = 255;
+      output[i + 1] = 0;
+      output[i + 2] = 0;
+    } else {
+      // Dim unchanged pixels so the changes stand out
+      output[i] = 128 + (current[i] >> 2);
+      output[i + 1] = 128 + (current[i + 1] >> 2);
+      output[i + 2] = 128 + (current[i + 2] >> 2);
+    }
+  }
+
+  const diffImage = await sharp(output, { raw: { width: DIFF_WIDTH, height: diffHeight, channels: 3 } })
+    .jpeg({ quality: 70 })
+    .toBuffer();
+
+  return { ratio: changed / (DIFF_WIDTH * diffHeight), diffImage };
+}
+
+/**
+ * Open `url` in headless Chromium and evaluate `expression` in it over the
+ * DevTools protocol, once the page has loaded and had OVERLAY_SETTLE_MS to settle
+ */
+async function evaluateInPage(chromiumPath: string, userDataDir: string, url: string, expression: string): Promise<unknown> {
+  // Virtual time would stall a page driven over the protocol
+  const args = baseChromiumArgs(userDataDir).filter((arg) => !arg.startsWith('--virtual-time-budget'));
+  const browser = spawn(chromiumPath, [...args, '--remote-debugging-port=0', 'about:blank'], {
+    stdio: ['ignore', 'ignore', 'pipe'],
+  });
+  let socket: WebSocket | null = null;
+  let timer: NodeJS.Timeout | undefined;
+
+  try {
+    return await new Promise<unknown>((resolve, reject) => {
+      timer = setTimeout(() => reject(new Error('Chromium failed: timed out')), CAPTURE_TIMEOUT_MS);
+      browser.on('error', (error) => reject(new Error(`Chromium failed: ${error.message}`)));
+      browser.on('exit', (code) => reject(new Error(`Chromium failed: exited with code ${code}`)));
+
+      let stderr = '';
+      browser.stderr.on('data', (chunk: Buffer) => {
+        stderr += chunk.toString();
+        const endpoint = stderr.match(/DevTools listening on (ws:\/\/\S+)/)?.[1];
+        if (!endpoint || socket) return;
+
+        const ws = new WebSocket(endpoint);
+        socket = ws;
+        const pending = new Map<number, { resolve: (result: any) => void; reject: (error: Error) => void }>();
+        let nextId = 0;
+        let onLoad: (() => void) | null = null;
+
+        const send = (method: string, params: Record<string, unknown> = {}, sessionId?: string) =>
+          new Promise<any>((resolveCall, rejectCall) => {
+            const id = ++nextId;
+            pending.set(id, { resolve: resolveCall, reject: rejectCall });
+            ws.send(JSON.stringify({ id, method, params, sessionId }));
+          });
+
+        ws.on('message', (data) => {
+          const message = JSON.parse(data.toString());
+          const call = message.id !== undefined ? pending.get(message.id) : undefined;
+          if (call) {
+            pending.delete(message.id);
+            if (message.error) call.reject(new Error(`Chromium failed: ${message.error.message}`));
+            else call.resolve(message.result);
+          } else if (message.method === 'Page.loadEventFired') {
+            onLoad?.();
+          }
+        });
+        ws.on('error', (error) => reject(new Error(`Chromium failed: ${error.message}`)));
+
+        ws.on('open', async () => {
+          try {
+            const { targetId } = await send('Target.createTarget', { url: 'about:blank' });
+            const { sessionId } = await send('Target.attachToTarget', { targetId, flatten: true });
+            await send('Page.enable', {}, sessionId);
+            const loaded = new Promise<void>((resolveLoad) => { onLoad = resolveLoad; });
+            await send('Page.navigate', { url }, sessionId);
+            await loaded;
+            await new Promise((resolveSettle) => setTimeout(resolveSettle, OVERLAY_SETTLE_MS));
+
+            const { result } = await send('Runtime.evaluate', { expression, returnByValue: true }, sessionId);
+            resolve(result?.value);
+          } catch (error) {
+            reject(error);
+          }
+        });
+      });
+    });
+  } finally {
+    clearTimeout(timer);
+    (socket as WebSocket | null)?.close();
+    // The next capture reuses the profile directory - wait for this browser to let go of it
+    if (browser.exitCode === null && browser.signalCode === null) {
+      const exited = new Promise((resolveExit) => browser.once('exit', resolveExit));
+      browser.kill();
+      await exited;
+    }
+  }
+}
+
+async function detectOverlay(chromiumPath: string, userDataDir: string, url: string): Promise<string | null> {
+  const overlay = await evaluateInPage(chromiumPath, userDataDir, url, OVERLAY_PROBE);
+  return typeof overlay === 'string' ? overlay : null;
+}
+
+/**
+ * Capture every configured route and viewport of the dev server on `port`.
+ * Captures run one at a time; a failed capture is reported on its shot and
+ * doesn't stop the others.
+ */
+export async function captureScreenshots({
+  workspaceRoot,
+  slug,
+  port,
+  config,
+}: {
+  workspaceRoot: string;
+  slug: string;
+  port: number;
+  config: ScreenshotConfig;
+}): Promise<ScreenshotResult> {
+  const baselineDir = getScreenshotBaselineDir(workspaceRoot, slug);
+  await mkdir(baselineDir, { recursive: true });
+
+  const userDataDir = await mkdtemp(join(os.tmpdir(), 'openbuilder-chromium-'));
+  const shots: CapturedScreenshot[] = [];
+
+  try {
+    for (const route of config.routes) {
+      const url = `http://localhost:${port}${route}`;
+
+      // Error overlays are DOM elements - look for them once per route
+      let overlay: string | null = null;
+      let domError: string | undefined;
+      try {
+        overlay = await detectOverlay(config.chromiumPath, userDataDir, url);
+      } catch (error) {
+        domError = error instanceof Error ? error.message : String(error);
+      }
+
+      for (const viewport of config.viewports) {
+        const { width, height } = VIEWPORTS[viewport];
+        const shot: CapturedScreenshot = { route, viewport, width, height, blank: false, overlay, diffRatio: null };
+        const screenshotPath = join(userDataDir, `${randomUUID()}.png`);
+
+        try {
+          await runChromium(config.chromiumPath, [
+            ...baseChromiumArgs(userDataDir),
+            `--window-size=${width},${height}`,
+            `--screenshot=${screenshotPath}`,
+            url,
+          ]);
+          const image = await readFile(screenshotPath);
+
+          shot.blank = await isBlank(image);
+          shot.image = (
+            await sharp(image).resize({ width: MAX_IMAGE_WIDTH, withoutEnlargement: true }).jpeg({ quality: 70 }).toBuffer()
+          ).toString('base64');
+
+          const baselinePath = join(baselineDir, baselineFileName(route, viewport));
+          if (existsSync(baselinePath)) {
+            const diff = await diffAgainstBaseline(image, await readFile(baselinePath));
+            shot.diffRatio = diff.ratio;
+            shot.diffImage = diff.diffImage.toString('base64');
+          }
+          await writeFile(baselinePath, image);
+        } catch (error) {
+          shot.error = error instanceof Error ? error.message : String(error);
+        }
+
+        if (!shot.error && domError) shot.error = domError;
+        shots.push(shot);
+      }
+    }
+  } finally {
+    await rm(userDataDir, { recursive: true, force: true });
+  }
+
+  return {
+    status: shots.some((shot) => shot.blank || shot.overlay) ? 'failed' : 'passed',
+    capturedAt: new Date().toISOString(),
+    shots,
+  };
+}
+
+/**
+ * Crop every element pinned for a batched focused edit out of a capture of
+ * its page, as image parts for the agent prompt (element-1.png, ...).
+ *
+ * Each page is captured once at the width of the preview the elements were
+ * selected in, tall enough to reach the lowest element so the recorded
+ * scroll offsets line up. Elements that can't be cropped are left out.
+ */
+export async function captureElementCrops({
+  chromiumPath,
+  port,
+  elements,
+}: {
+  chromiumPath: string;
+  port: number;
+  elements: FocusedEditElement[];
+}): Promise<MessagePart[]> {
+  const pages = new Map<string, number[]>();
+  elements.forEach((element, index) => {
+    const key = `${element.pagePath || '/'}@${element.viewport?.width ?? VIEWPORTS.desktop.width}`;
+    pages.set(key, [...(pages.get(key) ?? []), index]);
+  });
+
+  const userDataDir = await mkdtemp(join(os.tmpdir(), 'openbuilder-chromium-'));
+  const crops: Array<{ index: number; part: MessagePart }> = [];
+
+  try {
+    for (const indexes of pages.values()) {
+      const first = elements[indexes[0]];
+      const width = first.viewport?.width ?? VIEWPORTS.desktop.width;
+      const bottom = Math.max(
+        ...indexes.map((index) => {
+          const { boundingRect, viewport } = elements[index];
+          return (viewport?.scrollY ?? 0) + boundingRect.top + boundingRect.height + CROP_PADDING;
+        })
+      );
+      const height = Math.min(MAX_PAGE_HEIGHT, Math.ceil(Math.max(first.viewport?.height ?? VIEWPORTS.desktop.height, bottom)));
+      const screenshotPath = join(userDataDir, `${randomUUID()}.png`);
+
+      let page: Buffer;
+      try {
+        await runChromium(chromiumPath, [
+          ...baseChromiumArgs(userDataDir),
+          `--window-size=${Math.round(width)},${height}`,
+          `--screenshot=${screenshotPath}`,
+          `http://localhost:${port}${first.pagePath || '/'}`,
+        ]);
+        page = await readFile(screenshotPath);
+      } catch {
+        continue;
+      }
+
+      const { width: pageWidth = 0, height: pageHeight = 0 } = await sharp(page).metadata();
+      for (const index of indexes) {
+        const { boundingRect, viewport } = elements[index];
+        const left = Math.max(0, Math.floor((viewport?.scrollX ?? 0) + boundingRect.left - CROP_PADDING));
+        const top = Math.max(0, Math.floor((viewport?.scrollY ?? 0) + boundingRect.top - CROP_PADDING));
+        const cropWidth = Math.min(pageWidth - left, Math.ceil(boundingRect.width + CROP_PADDING * 2));
+        const cropHeight = Math.min(pageHeight - top, Math.ceil(boundingRect.height + CROP_PADDING * 2));
+        if (cropWidth <= 0 || cropHeight <= 0) continue;
+
+        const crop = await sharp(page)
+          .extract({ left, top, width: cropWidth, height: cropHeight })
+          .resize({ width: MAX_CROP_WIDTH, withoutEnlargement: true })
+          .png()
+          .toBuffer();
+        crops.push({
+          index,
+          part: {
+            type: 'image',
+            image: `data:image/png;base64,${crop.toString('base64')}`,
+            mimeType: 'image/png',
+            fileName: `element-${index + 1}.png`,
+          },
+        });
+      }
+    }
+  } finally {
+    await rm(userDataDir, { recursive: true, force: true });
+  }
+
+  return crops.sort((a, b) => a.index - b.index).map(({ part }) => part);
+}
@@ -0,0 +1,321 @@
+import { execFile } from 'node:child_process';
+import { existsSync } from 'node:fs';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { ProjectSnapshot, SnapshotDiffFile } from '@openbuilder/agent-core';
+
+/**
+ * Workspace snapshots for rollback.
+ *
+ * Each project gets a private git directory outside the project
+ * (<workspace>/.openbuilder/snapshots/<slug>.git) whose work tree is the
+ * project directory. Snapshots are commits stored under hidden refs
+ * (refs/openbuilder/snapshots/<buildId>), so they never touch the project's
+ * own .git history, branches or the GitHub integration.
+ */
+
+const COMMAND_TIMEOUT_MS = 60000;
+const SNAPSHOT_REF_PREFIX = 'refs/openbuilder/snapshots/';
+const SNAPSHOT_AUTHOR_NAME = 'OpenBuilder';
+const SNAPSHOT_AUTHOR_EMAIL = 'snapshots@openbuilder.local';
+const MAX_PATCH_BYTES = 256 * 1024;
+
+// Build output and dependencies are reproducible, so keep them out of snapshots
+const SNAPSHOT_EXCLUDES = [
+  'node_modules/',
+  '.next/',
+  '.nuxt/',
+  '.svelte-kit/',
+  '.astro/',
+  '.turbo/',
+  '.vercel/',
+  '.cache/',
+  'dist/',
+  'build/',
+  'coverage/',
+  '*.log',
+];
+
+export interface SnapshotDiff {
+  files: SnapshotDiffFile[];
+  patch?: string;
+  patchTruncated?: boolean;
+}
+
+export interface RestoreSnapshotResult {
+  backupBuildId: string;
+  filesChanged: number;
+}
+
+export function getSnapshotGitDir(workspaceRoot: string, slug: string): string {
+  return join(workspaceRoot, '.openbuilder', 'snapshots', `${slug}.git`);
+}
+
+function toRefName(buildId: string): string {
+  return `${SNAPSHOT_REF_PREFIX}${buildId.replace(/[^A-Za-z0-9._-]/g, '-')}`;
+}
+
+function git(gitDir: string, workTree: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      'git',
+      [`--git-dir=${gitDir}`, `--work-tree=${workTree}`, ...args],
+      {
+        cwd: workTree,
+        timeout: COMMAND_TIMEOUT_MS,
+        maxBuffer: 20 * 1024 * 1024,
+        env: {
+          ...process.env,
+          GIT_AUTHOR_NAME: SNAPSHOT_AUTHOR_NAME,
+          GIT_AUTHOR_EMAIL: SNAPSHOT_AUTHOR_EMAIL,
+          GIT_COMMITTER_NAME: SNAPSHOT_AUTHOR_NAME,
+          GIT_COMMITTER_EMAIL: SNAPSHOT_AUTHOR_EMAIL,
+        },
+      },
+      (error, stdout, stderr) => {
+        if (error) {
+          const details = (stderr || '').toString().trim();
+          reject(new Error(details ? `git ${args[0]} failed: ${details}` : error.message));
+          return;
+        }
+        resolve(stdout.toString());
+      }
+    );
+  });
+}
+
+/**
+ * Create the snapshot repository for a project on first use
+ */
+async function ensureSnapshotRepo(gitDir: string, projectPath: string): Promise<void> {
+  if (existsSync(join(gitDir, 'HEAD'))) {
+    return;
+  }
+
+  await mkdir(gitDir, { recursive: true });
+  await git(gitDir, projectPath, ['init', '--quiet']);
+  await git(gitDir, projectPath, ['config', 'gc.auto', '256']);
+  await mkdir(join(gitDir, 'info'), { recursive: true });
+  await writeFile(join(gitDir, 'info', 'exclude'), `${SNAPSHOT_EXCLUDES.join('\n')}\n`);
+}
+
+/**
+ * Stage the whole work tree and write it as a tree object
+ */
+async function writeWorkTree(gitDir: string, projectPath: string): Promise<string> {
+  await git(gitDir, projectPath, ['add', '-A']);
+  return (await git(gitDir, projectPath, ['write-tree'])).trim();
+}
+
+async function resolveSnapshot(gitDir: string, projectPath: string, buildId: string): Promise<string> {
+  try {
+    return (await git(gitDir, projectPath, ['rev-parse', '--verify', '--quiet', `${toRefName(buildId)}^{commit}`])).trim();
+  } catch {
+    throw new Error(`Snapshot not found for build ${buildId}`);
+  }
+}
+
+/**
+ * Snapshot the current state of a project's workspace under the given build ID.
+ * Returns null when the project directory doesn't exist yet (first build of a new project).
+ */
+export async function createSnapshot(
+  workspaceRoot: string,
+  slug: string,
+  buildId: string,
+  label = `Before build ${buildId}`
+): Promise<ProjectSnapshot | null> {
+  const projectPath = join(workspaceRoot, slug);
+  if (!existsSync(projectPath)) {
+    return null;
+  }
+
+  const gitDir = getSnapshotGitDir(workspaceRoot, slug);
+  await ensureSnapshotRepo(gitDir, projectPath);
+
+  const tree = await writeWorkTree(gitDir, projectPath);
+  const commitSha = (await git(gitDir, projectPath, ['commit-tree', tree, '-m', label])).trim();
+  await git(gitDir, projectPath, ['update-ref', toRefName(buildId), commitSha]);
+
+  return {
+    buildId,
+    commitSha,
+    createdAt: new Date().toISOString(),
+    label,
+  };
+}
+
+/**
+ * List a project's snapshots, newest first
+ */
+export async function listSnapshots(workspaceRoot: string, slug: string): Promise<ProjectSnapshot[]> {
+  const projectPath = join(workspaceRoot, slug);
+  const gitDir = getSnapshotGitDir(workspaceRoot, slug);
+  if (!existsSync(projectPath) || !existsSync(join(gitDir, 'HEAD'))) {
+    return [];
+  }
+
+  const output = await git(gitDir, projectPath, [
+    'for-each-ref',
+    '--sort=-creatordate',
+    '--format=%(refname)%09%(objectname)%09%(creatordate:iso-strict)%09%(subject)',
+    SNAPSHOT_REF_PREFIX,
+  ]);
+
+  return output
+    .split('\n')
+    .filter((line) => line.trim().length > 0)
+    .map((line) => {
+      const [refName, commitSha, createdAt, ...subject] = line.split('\t');
+      return {
+        buildId: refName.slice(SNAPSHOT_REF_PREFIX.length),
+        commitSha,
+        createdAt,
+        label: subject.join('\t'),
+      };
+    });
+}
+
+/**
+ * Restore a project's workspace to a snapshot.
+ * The current state is snapshotted first so the restore itself can be undone.
+ * Ignored paths (node_modules, build output) are left untouched.
+ */
+export async function restoreSnapshot(
+  workspaceRoot: string,
+  slug: string,
+  buildId: string
+): Promise<RestoreSnapshotResult> {
+  const projectPath = join(workspaceRoot, slug);
+  if (!existsSync(projectPath)) {
+    throw new Error(`Project directory not found: ${projectPath}`);
+  }
+
+  const gitDir = getSnapshotGitDir(workspaceRoot, slug);
+  if (!existsSync(join(gitDir, 'HEAD'))) {
+    throw new Error(`No snapshots found for project ${slug}`);
+  }
+
+  const target = await resolveSnapshot(gitDir, projectPath, buildId);
+
+  const backupBuildId = `restore-${Date.now()}`;
+  const backup = await createSnapshot(workspaceRoot, slug, backupBuildId, `Before restoring build ${buildId}`);
+
+  const changed = await git(gitDir, projectPath, ['diff', '--name-only', backup!.commitSha, target]);
+  const filesChanged = changed.split('\n').filter((line) => line.trim().length > 0).length;
+
+  // The index matches the work tree after the backup snapshot, so a reset read-tree
+  // updates changed files and removes files that didn't exist in the target snapshot
+  await git(gitDir, projectPath, ['read-tree', '-u', '--reset', target]);
+
+  return { backupBuildId, filesChanged };
+}
+
+/**
+ * Diff two snapshots, or a snapshot against the current workspace when `to` is omitted
+ */
+export async function diffSnapshots(
+  workspaceRoot: string,
+  slug: string,
+  from: string,
+  to?: string,
+  options: { includePatch?: boolean } = {}
+): Promise<SnapshotDiff> {
+  const projectPath = join(workspaceRoot, slug);
+  const gitDir = getSnapshotGitDir(workspaceRoot, slug);
+  if (!existsSync(projectPath) || !existsSync(join(gitDir, 'HEAD'))) {
+    throw new Error(`No snapshots found for project ${slug}`);
+  }
+
+  const base = await resolveSnapshot(gitDir, projectPath, from);
+  const target = to ? await resolveSnapshot(gitDir, projectPath, to) : await writeWorkTree(gitDir, projectPath);
+
+  const [nameStatus, numstat] = await Promise.all([
+    git(gitDir, projectPath, ['diff', '--name-status', '-M', '-z', base, target]),
+    git(gitDir, projectPath, ['diff', '--numstat', '-M', '-z', base, target]),
+  ]);
+
+  const stats = parseNumstat(numstat);
+  const files: SnapshotDiffFile[] = [];
+  const fields = nameStatus.split('\0');
+  // -z output is "<status>\0<path>\0", or "<status>\0<old>\0<new>\0" for renames
+  for (let i = 0; i < fields.length - 1; ) {
+    const code = fields[i];
+    const isRename = code.startsWith('R') || code.startsWith('C');
+    const previousPath = isRename ? fields[i + 1] : undefined;
+    const path = isRename ? fields[i + 2] : fields[i + 1];
+    i += isRename ? 3 : 2;
+
+    const stat = stats.get(path);
+    files.push({
+      path,
+      status: toDiffStatus(code),
+      previousPath,
+      additions: stat ? stat.additions : null,
+      deletions: stat ? stat.deletions : null,
+    });
+  }
+
+  if (!options.includePatch) {
+    return { files };
+  }
+
+  const patch = await git(gitDir, projectPath, ['diff', '-M', base, target]);
+  const patchTruncated = Buffer.byteLength(patch) > MAX_PATCH_BYTES;
+
+  return {
+    files,
+    patch: patchTruncated ? patch.slice(0, MAX_PATCH_BYTES) : patch,
+    patchTruncated,
+  };
+}
+
+/**
+ * Remove a project's snapshot repository (used when the project's files are deleted)
+ */
+export async function deleteSnapshots(workspaceRoot: string, slug: string): Promise<void> {
+  await rm(getSnapshotGitDir(workspaceRoot, slug), { recursive: true, force: true });
+}
+
+function toDiffStatus(code: string): SnapshotDiffFile['status'] {
+  switch (code[0]) {
+    case 'A':
+      return 'added';
+    case 'D':
+      return 'deleted';
+    case 'R':
+      return 'renamed';
+    default:
+      return 'modified';
+  }
+}
+
+/**
+ * Parse `git diff --numstat -z` output into per-path line counts.
+ * Renames are emitted as "<added>\t<deleted>\t\0<old>\0<new>\0".
+ */
+function parseNumstat(output: string): Map<string, { additions: number | null; deletions: number | null }> {
+  const stats = new Map<string, { additions: number | null; deletions: number | null }>();
+  const parts = output.split('\0');
+
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+    if (!part) continue;
+
+    const [added, deleted, path] = part.split('\t');
+    const entry = {
+      additions: added === '-' ? null : Number(added),
+      deletions: deleted === '-' ? null : Number(deleted),
+    };
+
+    if (path) {
+      stats.set(path, entry);
+    } else {
+      // Rename: the next two fields are the old and new paths
+      stats.set(parts[i + 2], entry);
+      i += 2;
+    }
+  }
+
+  return stats;
+}
@@ -0,0 +1,178 @@
+import { spawn } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import { cp, mkdir, readFile, rename, rm, stat } from 'node:fs/promises';
+import { basename, isAbsolute, join, resolve } from 'node:path';
+import type { ImportSource, SourceImportedEvent } from '@openbuilder/agent-core';
+import { assertValidSlug, installDependencies } from './project-transfer.js';
+
+/**
+ * Import code that wasn't generated by OpenBuilder.
+ *
+ * A git repository is cloned into a staging directory under
+ * <workspace>/.openbuilder/imports and moved into <workspace>/<slug> once the
+ * clone completes. A local directory is copied the same way, leaving the
+ * original untouched - unless it already is a top-level folder of the
+ * workspace, in which case it is adopted in place under its own name.
+ *
+ * Dependencies are installed fresh - without lifecycle scripts for git
+ * repositories, which are someone else's code running on the runner - then the
+ * framework and run command are detected exactly like they are after a build.
+ */
+
+const CLONE_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Reinstalled or regenerated after the copy
+const COPY_EXCLUDES = new Set([
+  'node_modules',
+  '.next',
+  '.nuxt',
+  '.svelte-kit',
+  '.astro',
+  '.turbo',
+  '.vercel',
+  '.cache',
+]);
+
+// https://, ssh://, git:// and scp-style git@host:owner/repo
+const GIT_URL_PATTERN = /^(https:\/\/|ssh:\/\/|git:\/\/|[\w.-]+@[\w.-]+:)[^\s]+$/;
+
+export type ImportSourceResult = Omit<SourceImportedEvent['payload'], 'success' | 'error'>;
+
+function cloneRepository(url: string, branch: string | undefined, target: string): Promise<void> {
+  const args = ['clone', '--quiet'];
+  if (branch) args.push('--branch', branch);
+  args.push('--', url, target);
+
+  return new Promise((resolvePromise, reject) => {
+    const proc = spawn('git', args, {
+      stdio: ['ignore', 'ignore', 'pipe'],
+      // Never block on a credential prompt - private repos need credentials set up on the runner
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0' },
+    });
+
+    let stderr = '';
+    proc.stderr?.on('data', (data: Buffer) => {
+      stderr += data.toString();
+    });
+
+    const timeoutId = setTimeout(() => {
+      proc.kill('SIGKILL');
+      reject(new Error('git clone timed out'));
+    }, CLONE_TIMEOUT_MS);
+
+    proc.on('error', (error) => {
+      clearTimeout(timeoutId);
+      reject(error);
+    });
+
+    proc.on('close', (code) => {
+      clearTimeout(timeoutId);
+      if (code === 0) {
+        resolvePromise();
+      } else {
+        const detail = stderr.trim().split('\n').pop() || `exit code ${code}`;
+        reject(new Error(`git clone failed: ${detail}`));
+      }
+    });
+  });
+}
+
+async function readPackageInfo(projectPath: string): Promise<{ name?: string; description?: string }> {
+  try {
+    const pkg = JSON.parse(await readFile(join(projectPath, 'package.json'), 'utf-8'));
+    return {
+      name: typeof pkg.name === 'string' ? pkg.name : undefined,
+      description: typeof pkg.description === 'string' ? pkg.description : undefined,
+    };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Put the source into the workspace and describe what was found.
+ * Throws when the source can't be used; nothing is left behind in that case.
+ */
+export async function importSource(
+  workspaceRoot: string,
+  requestedSlug: string,
+  source: ImportSource
+): Promise<ImportSourceResult> {
+  assertValidSlug(requestedSlug);
+
+  let slug = requestedSlug;
+  let projectPath = join(workspaceRoot, slug);
+
+  if (source.type === 'git') {
+    if (!GIT_URL_PATTERN.test(source.url)) {
+      throw new Error('Unsupported git URL - use an https, ssh or git@ URL');
+    }
+    if (existsSync(projectPath)) {
+      throw new Error(`A project named ${slug} already exists in the workspace`);
+    }
+
+    const stagingPath = join(workspaceRoot, '.openbuilder', 'imports', `${slug}-${randomUUID()}`);
+    await mkdir(join(workspaceRoot, '.openbuilder', 'imports'), { recursive: true });
+    try {
+      console.log(`[import] 📥 Cloning ${source.url}${source.branch ? ` (${source.branch})` : ''}`);
+      await cloneRepository(source.url, source.branch, stagingPath);
+      await rename(stagingPath, projectPath);
+    } finally {
+      await rm(stagingPath, { recursive: true, force: true });
+    }
+  } else {
+    if (!isAbsolute(source.path)) {
+      throw new Error('Directory path must be absolute');
+    }
+    const sourcePath = resolve(source.path);
+    const info = await stat(sourcePath).catch(() => null);
+    if (!info?.isDirectory()) {
+      throw new Error(`Directory not found: ${sourcePath}`);
+    }
+
+    if (resolve(sourcePath, '..') === resolve(workspaceRoot)) {
+      // Already in the workspace - adopt it where it is
+      slug = basename(sourcePath);
+      assertValidSlug(slug);
+      projectPath = sourcePath;
+      console.log(`[import] 📂 Adopting ${sourcePath} in place`);
+    } else {
+      if (existsSync(projectPath)) {
+        throw new Error(`A project named ${slug} already exists in the workspace`);
+      }
+      console.log(`[import] 📂 Copying ${sourcePath} into the workspace`);
+      try {
+        await cp(sourcePath, projectPath, {
+          recursive: true,
+          filter: (path) => !COPY_EXCLUDES.has(basename(path)),
+        });
+      } catch (error) {
+        await rm(projectPath, { recursive: true, force: true });
+        throw error;
+      }
+    }
+  }
+
+  const dependenciesInstalled = await installDependencies(projectPath, { ignoreScripts: source.type === 'git' });
+
+  const { detectRuntimeMetadata } = await import('@openbuilder/agent-core/lib/build/engine');
+  const { detectFrameworkFromFilesystem } = await import('@openbuilder/agent-core/lib/port-allocator');
+  const [runtime, framework, pkg] = await Promise.all([
+    detectRuntimeMetadata(projectPath),
+    detectFrameworkFromFilesystem(projectPath),
+    readPackageInfo(projectPath),
+  ]);
+
+  return {
+    slug,
+    path: projectPath,
+    runCommand: runtime?.runCommand,
+    projectType: runtime?.projectType,
+    port: runtime?.port,
+    detectedFramework: framework ?? runtime?.detectedFramework ?? null,
+    name: pkg.name,
+    description: pkg.description,
+    dependenciesInstalled,
+  };
+}
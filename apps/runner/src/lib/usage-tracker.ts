@@ -0,0 +1,174 @@
+import type { AgentId, BuildBudget } from '@openbuilder/agent-core';
+import type { BuildUsage } from '@openbuilder/agent-core/types/generation';
+
+/**
+ * Token and cost accounting for a build.
+ *
+ * Every agent adapter ends its stream with a `result` message carrying usage in
+ * the Claude SDK shape (`usage.input_tokens`, `usage.cache_read_input_tokens`,
+ * `total_cost_usd`, `num_turns`, `model`). Codex and OpenCode normalize their
+ * own counters into that shape, so the tracker only has to sum result messages -
+ * one per agent run, several when verification starts repair turns.
+ *
+ * While an agent runs, adapters also yield `usage` messages with the running
+ * totals of the current run so per-build budgets can be enforced before the
+ * final result arrives. They are replaced by the exact figures of the result.
+ */
+
+export interface ResultUsage {
+  input_tokens?: number | null;
+  output_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
+  cache_creation_input_tokens?: number | null;
+}
+
+interface LiveUsage {
+  usage: ReturnType<typeof sumUsage>;
+  costUsd: number | null;
+}
+
+// USD per million tokens - used to estimate cost while a Claude run is in progress
+const CLAUDE_PRICING: Record<string, { input: number; output: number; cacheRead: number; cacheWrite: number }> = {
+  'claude-haiku-4-5': { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+  'claude-sonnet-4-5': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-opus-4-5': { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 },
+};
+
+function toCount(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+/**
+ * Estimated cost of Claude usage from list prices, undefined for unknown models.
+ * Only used for live budget checks - the SDK's total_cost_usd is what gets recorded.
+ */
+export function estimateClaudeCostUsd(model: string, usage: ResultUsage): number | undefined {
+  const pricing = CLAUDE_PRICING[model];
+  if (!pricing) return undefined;
+
+  return (
+    toCount(usage.input_tokens) * pricing.input +
+    toCount(usage.output_tokens) * pricing.output +
+    toCount(usage.cache_read_input_tokens) * pricing.cacheRead +
+    toCount(usage.cache_creation_input_tokens) * pricing.cacheWrite
+  ) / 1_000_000;
+}
+
+/**
+ * Sum Claude-shaped usage objects
+ */
+export function sumUsage(usages: Iterable<ResultUsage>): Required<{ [K in keyof ResultUsage]: number }> {
+  const total = { input_tokens: 0, output_tokens: 0, cache_read_input_tokens: 0, cache_creation_input_tokens: 0 };
+  for (const usage of usages) {
+    total.input_tokens += toCount(usage.input_tokens);
+    total.output_tokens += toCount(usage.output_tokens);
+    total.cache_read_input_tokens += toCount(usage.cache_read_input_tokens);
+    total.cache_creation_input_tokens += toCount(usage.cache_creation_input_tokens);
+  }
+  return total;
+}
+
+export class BuildUsageTracker {
+  private usage: BuildUsage;
+  private recorded = false;
+  private live: LiveUsage | null = null; // Running totals of the agent run in progress
+
+  constructor(agent: AgentId, model: string | null) {
+    this.usage = {
+      agent,
+      model,
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheReadTokens: 0,
+      cacheWriteTokens: 0,
+      costUsd: null,
+      turns: 0,
+    };
+  }
+
+  /**
+   * Add the usage of an agent message - only `usage` and `result` messages count
+   */
+  record(message: unknown): void {
+    if (typeof message !== 'object' || message === null) return;
+    const msg = message as Record<string, unknown>;
+
+    if (msg.type === 'usage') {
+      const usage = (typeof msg.usage === 'object' && msg.usage !== null ? msg.usage : {}) as ResultUsage;
+      this.live = {
+        usage: sumUsage([usage]),
+        costUsd: typeof msg.total_cost_usd === 'number' ? toCount(msg.total_cost_usd) : null,
+      };
+      return;
+    }
+    if (msg.type !== 'result') return;
+    this.live = null;
+
+    const usage = (typeof msg.usage === 'object' && msg.usage !== null ? msg.usage : {}) as ResultUsage;
+    const hasCost = typeof msg.total_cost_usd === 'number' && Number.isFinite(msg.total_cost_usd);
+    if (!msg.usage && !hasCost) return;
+
+    this.recorded = true;
+    this.usage.inputTokens += toCount(usage.input_tokens);
+    this.usage.outputTokens += toCount(usage.output_tokens);
+    this.usage.cacheReadTokens += toCount(usage.cache_read_input_tokens);
+    this.usage.cacheWriteTokens += toCount(usage.cache_creation_input_tokens);
+    this.usage.turns += toCount(msg.num_turns);
+    if (hasCost) {
+      this.usage.costUsd = (this.usage.costUsd ?? 0) + (msg.total_cost_usd as number);
+    }
+    if (typeof msg.model === 'string' && msg.model) {
+      this.usage.model = msg.model;
+    }
+  }
+
+  hasUsage(): boolean {
+    return this.recorded || this.live !== null;
+  }
+
+  get totalTokens(): number {
+    const { inputTokens, outputTokens, cacheReadTokens, cacheWriteTokens } = this.snapshot();
+    return inputTokens + outputTokens + cacheReadTokens + cacheWriteTokens;
+  }
+
+  /**
+   * Why the build has to stop, or null while it is within the budget.
+   * Tokens count input + output - cache reads and writes only count towards cost.
+   */
+  checkBudget(budget: BuildBudget | undefined): string | null {
+    if (!budget) return null;
+
+    const usage = this.snapshot();
+    const costUsd = usage.costUsd ?? 0;
+    if (budget.maxCostUsd !== null && costUsd >= budget.maxCostUsd) {
+      return `Build stopped after spending $${costUsd.toFixed(2)} - the per-build budget is $${budget.maxCostUsd.toFixed(2)}`;
+    }
+
+    const tokens = usage.inputTokens + usage.outputTokens;
+    if (budget.maxTokens !== null && tokens >= budget.maxTokens) {
+      return `Build stopped after using ${tokens.toLocaleString()} tokens - the per-build budget is ${budget.maxTokens.toLocaleString()}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Usage so far - includes the running totals of an agent run that hasn't
+   * reported its result yet (e.g. one that was aborted)
+   */
+  snapshot(): BuildUsage {
+    if (!this.live) {
+      return { ...this.usage };
+    }
+
+    const { usage, costUsd } = this.live;
+    return {
+      ...this.usage,
+      inputTokens: this.usage.inputTokens + usage.input_tokens,
+      outputTokens: this.usage.outputTokens + usage.output_tokens,
+      cacheReadTokens: this.usage.cacheReadTokens + usage.cache_read_input_tokens,
+      cacheWriteTokens: this.usage.cacheWriteTokens + usage.cache_creation_input_tokens,
+      costUsd: costUsd === null ? this.usage.costUsd : (this.usage.costUsd ?? 0) + costUsd,
+    };
+  }
+}
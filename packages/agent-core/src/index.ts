@@ -9,7 +9,10 @@ export {
   normalizeModelId,
   parseModelId,
   getModelLabel,
+  isBuiltInAgentId,
+  BUILT_IN_AGENT_IDS,
   type AgentId, 
+  type BuiltInAgentId,
   type ClaudeModelId,
   type OpenCodeModelId,
   type ModelMetadata,
@@ -60,7 +60,7 @@ interface ProjectMetadata {
   template: string;
 }
 
-interface RuntimeMetadata {
+export interface RuntimeMetadata {
   runCommand: string;
   projectType: string;
   port: number;
@@ -128,7 +128,10 @@ function buildScriptCommand(runner: 'npm' | 'pnpm' | 'yarn' | 'bun', script: str
   }
 }
 
-async function detectRuntimeMetadata(projectPath: string): Promise<RuntimeMetadata | null> {
+/**
+ * Run command, project type and dev port from the project's package.json
+ */
+export async function detectRuntimeMetadata(projectPath: string): Promise<RuntimeMetadata | null> {
   try {
     const packageJsonPath = join(projectPath, 'package.json');
     const raw = await readFile(packageJsonPath, 'utf-8');
@@ -729,6 +732,8 @@ Selector: ${context.elementSelector}
 Tag: <${context.elementInfo?.tagName || 'unknown'}>
 ${context.elementInfo?.className ? `Classes: ${context.elementInfo.className}` : ''}
 ${context.elementInfo?.textContent ? `Text: "${context.elementInfo.textContent.substring(0, 100)}"` : ''}` : ''}
+${context?.elements?.length ? `**Target Elements:**
+${context.elements.map((element, index) => `${index + 1}. <${element.tagName}> ${element.selector} (path: ${element.fullPath}): "${element.prompt}"`).join('\n')}` : ''}
 
 **Change Request:**
 "${prompt}"
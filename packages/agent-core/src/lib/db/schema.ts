@@ -1,4 +1,4 @@
-import { pgTable, text, integer, timestamp, uuid, jsonb, index, uniqueIndex, boolean } from 'drizzle-orm/pg-core';
+import { pgTable, text, integer, timestamp, uuid, jsonb, index, uniqueIndex, boolean, doublePrecision } from 'drizzle-orm/pg-core';
 import { sql } from 'drizzle-orm';
 
 // ============================================================================
@@ -79,6 +79,23 @@ export const runnerKeys = pgTable('runner_keys', {
   keyHashIdx: uniqueIndex('runner_keys_key_hash_idx').on(table.keyHash),
 }));
 
+// Personal API tokens - let scripts and internal tools call the REST API as a user
+export const apiTokens = pgTable('api_tokens', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(), // User-friendly name like "CI pipeline"
+  tokenHash: text('token_hash').notNull(), // SHA-256 hash of the full token
+  tokenPrefix: text('token_prefix').notNull(), // First chars for display: "ob_abc12345..."
+  scopes: jsonb('scopes').$type<string[]>().notNull(), // e.g. ['projects:read', 'builds:write']
+  lastUsedAt: timestamp('last_used_at'),
+  expiresAt: timestamp('expires_at'), // null means no expiry
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  revokedAt: timestamp('revoked_at'), // Soft delete - null means active
+}, (table) => ({
+  userIdIdx: index('api_tokens_user_id_idx').on(table.userId),
+  tokenHashIdx: uniqueIndex('api_tokens_token_hash_idx').on(table.tokenHash),
+}));
+
 // CLI authentication sessions - temporary tokens for OAuth flow
 export const cliAuthSessions = pgTable('cli_auth_sessions', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -124,6 +141,8 @@ export const projects = pgTable('projects', {
   devServerStatusUpdatedAt: timestamp('dev_server_status_updated_at').defaultNow(),
   tunnelUrl: text('tunnel_url'),
   runnerId: text('runner_id'), // Runner that created/manages this project
+  claudeSessionId: text('claude_session_id'), // Claude SDK session follow-up builds resume (lives on the runner)
+  bakeOffId: uuid('bake_off_id').references(() => bakeOffs.id, { onDelete: 'set null' }), // Bake-off this project competes in
   generationState: text('generation_state'),
   designPreferences: jsonb('design_preferences'), // User-specified design constraints (deprecated - use tags)
   tags: jsonb('tags'), // Tag-based configuration system
@@ -197,6 +216,15 @@ export const generationSessions = pgTable('generation_sessions', {
   rawState: jsonb('raw_state'),
   isAutoFix: boolean('is_auto_fix').default(false), // Flag for auto-fix sessions triggered by startup errors
   autoFixError: text('auto_fix_error'), // The error message that triggered the auto-fix
+  // Token and cost usage reported by the agent (null until the runner sends build-usage)
+  agentId: text('agent_id'),
+  model: text('model'),
+  inputTokens: integer('input_tokens'),
+  outputTokens: integer('output_tokens'),
+  cacheReadTokens: integer('cache_read_tokens'),
+  cacheWriteTokens: integer('cache_write_tokens'),
+  costUsd: doublePrecision('cost_usd'), // Null when the agent doesn't report a cost (Codex)
+  numTurns: integer('num_turns'),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 }, (table) => ({
@@ -252,6 +280,26 @@ export const generationNotes = pgTable('generation_notes', {
     .where(sql`${table.textId} is not null`),
 }));
 
+export const buildScreenshots = pgTable('build_screenshots', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  sessionId: uuid('session_id').notNull().references(() => generationSessions.id, { onDelete: 'cascade' }),
+  projectId: uuid('project_id').notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  route: text('route').notNull(),
+  viewport: text('viewport').notNull(), // mobile | tablet | desktop
+  width: integer('width').notNull(),
+  height: integer('height').notNull(),
+  image: text('image'), // Base64 JPEG, null when the capture failed
+  diffImage: text('diff_image'), // Base64 JPEG with pixels changed since the previous build highlighted
+  blank: boolean('blank').notNull().default(false),
+  overlay: text('overlay'), // Dev server error overlay found on the page
+  diffRatio: doublePrecision('diff_ratio'), // Null without a previous capture to compare against
+  error: text('error'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  sessionIdIdx: index('build_screenshots_session_id_idx').on(table.sessionId),
+  projectIdIdx: index('build_screenshots_project_id_idx').on(table.projectId),
+}));
+
 // Server operations tracking table for reliable status management
 export const serverOperations = pgTable('server_operations', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -275,6 +323,127 @@ export const serverOperations = pgTable('server_operations', {
   createdAtIdx: index('server_operations_created_at_idx').on(table.createdAt),
 }));
 
+// Durable runner command queue - optional Postgres backend for RunnerCommandQueue
+// Survives web-app restarts so queued commands are replayed when the runner reconnects
+export const runnerCommandQueue = pgTable('runner_command_queue', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  commandId: text('command_id').notNull().unique(), // RunnerCommand.id
+  runnerId: text('runner_id').notNull(),
+  projectId: uuid('project_id').references(() => projects.id, { onDelete: 'cascade' }),
+  commandType: text('command_type').notNull(),
+  command: jsonb('command').notNull(), // Full RunnerCommand payload for replay
+  status: text('status').notNull().default('queued'), // 'queued', 'sent', 'expired', 'failed', 'dropped', 'cleared'
+  attempts: integer('attempts').notNull().default(0),
+  maxAttempts: integer('max_attempts').notNull(),
+  lastError: text('last_error'),
+  claimedBy: text('claimed_by'), // Web-app instance holding the command in memory
+  claimedAt: timestamp('claimed_at'), // Renewed while held - a stale claim can be taken over
+  expiresAt: timestamp('expires_at').notNull(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  sentAt: timestamp('sent_at'),
+}, (table) => ({
+  runnerStatusIdx: index('runner_command_queue_runner_status_idx').on(table.runnerId, table.status),
+  projectIdIdx: index('runner_command_queue_project_id_idx').on(table.projectId),
+  createdAtIdx: index('runner_command_queue_created_at_idx').on(table.createdAt),
+}));
+
+// Delivery attempt history for queued runner commands
+export const runnerCommandAttempts = pgTable('runner_command_attempts', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  queueEntryId: uuid('queue_entry_id').notNull().references(() => runnerCommandQueue.id, { onDelete: 'cascade' }),
+  runnerId: text('runner_id').notNull(),
+  attempt: integer('attempt').notNull(),
+  outcome: text('outcome').notNull(), // 'sent', 'runner-offline'
+  error: text('error'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  queueEntryIdIdx: index('runner_command_attempts_queue_entry_id_idx').on(table.queueEntryId),
+  createdAtIdx: index('runner_command_attempts_created_at_idx').on(table.createdAt),
+}));
+
+// Per-project environment variables injected into the dev server
+// Values are encrypted at rest (AES-256-GCM); only names are ever shown to the agent
+export const projectEnvVars = pgTable('project_env_vars', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  projectId: uuid('project_id').notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  key: text('key').notNull(),
+  encryptedValue: text('encrypted_value').notNull(), // v1:<iv>:<auth tag>:<ciphertext>, base64 parts
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  projectKeyUnique: uniqueIndex('project_env_vars_project_key_unique').on(table.projectId, table.key),
+}));
+
+// Monthly and per-build spending limits, managed by admins.
+// scope_id is a user or project id, or '*' for the default that applies to every user/project.
+export const spendingLimits = pgTable('spending_limits', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  scope: text('scope').notNull(), // 'user' | 'project'
+  scopeId: text('scope_id').notNull(),
+  monthlyCostUsd: doublePrecision('monthly_cost_usd'), // Null = no limit
+  monthlyTokens: integer('monthly_tokens'), // Input + output tokens
+  perBuildCostUsd: doublePrecision('per_build_cost_usd'),
+  perBuildTokens: integer('per_build_tokens'),
+  enforcement: text('enforcement').notNull().default('block'), // 'block' | 'warn' when a monthly budget is used up
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  scopeUnique: uniqueIndex('spending_limits_scope_unique').on(table.scope, table.scopeId),
+}));
+
+// Bake-offs: one prompt built in parallel by several models, each in a sibling project.
+// Keeping a winner deletes the other siblings.
+export const bakeOffs = pgTable('bake_offs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'set null' }),
+  name: text('name').notNull(),
+  prompt: text('prompt').notNull(),
+  status: text('status').notNull().default('building'), // 'building' | 'decided'
+  winnerProjectId: uuid('winner_project_id'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  userIdIdx: index('bake_offs_user_id_idx').on(table.userId),
+}));
+
+// Outbound webhooks for project and build lifecycle events.
+// project_id null means the webhook fires for every project the user owns.
+export const webhooks = pgTable('webhooks', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }), // Null in local mode
+  projectId: uuid('project_id').references(() => projects.id, { onDelete: 'cascade' }),
+  url: text('url').notNull(),
+  secret: text('secret').notNull(), // HMAC signing secret - kept in plaintext since every delivery needs it
+  events: jsonb('events').$type<string[]>().notNull(), // e.g. ['build-completed', 'build-failed']
+  active: boolean('active').notNull().default(true),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  userIdIdx: index('webhooks_user_id_idx').on(table.userId),
+  projectIdIdx: index('webhooks_project_id_idx').on(table.projectId),
+}));
+
+// One row per event sent to a webhook; retries update the same row.
+export const webhookDeliveries = pgTable('webhook_deliveries', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  webhookId: uuid('webhook_id').notNull().references(() => webhooks.id, { onDelete: 'cascade' }),
+  projectId: uuid('project_id').references(() => projects.id, { onDelete: 'set null' }),
+  event: text('event').notNull(),
+  payload: jsonb('payload').notNull(),
+  status: text('status').notNull().default('pending'), // 'pending' | 'succeeded' | 'failed'
+  attempts: integer('attempts').notNull().default(0),
+  responseStatus: integer('response_status'), // From the latest attempt
+  error: text('error'), // Network error or timeout from the latest attempt
+  durationMs: integer('duration_ms'),
+  nextAttemptAt: timestamp('next_attempt_at'), // Set while a retry is scheduled
+  redeliveryOf: uuid('redelivery_of'), // Delivery this one was copied from
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  deliveredAt: timestamp('delivered_at'), // When a 2xx response was received
+}, (table) => ({
+  webhookCreatedIdx: index('webhook_deliveries_webhook_created_idx').on(table.webhookId, table.createdAt),
+}));
+
 // Auth types
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
@@ -286,6 +455,8 @@ export type Verification = typeof verifications.$inferSelect;
 export type NewVerification = typeof verifications.$inferInsert;
 export type RunnerKey = typeof runnerKeys.$inferSelect;
 export type NewRunnerKey = typeof runnerKeys.$inferInsert;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type NewApiToken = typeof apiTokens.$inferInsert;
 
 // Application types
 export type Project = typeof projects.$inferSelect;
@@ -295,7 +466,20 @@ export type NewMessage = typeof messages.$inferInsert;
 export type PortAllocation = typeof portAllocations.$inferSelect;
 export type ServerOperation = typeof serverOperations.$inferSelect;
 export type NewServerOperation = typeof serverOperations.$inferInsert;
+export type RunnerCommandQueueEntry = typeof runnerCommandQueue.$inferSelect;
+export type NewRunnerCommandQueueEntry = typeof runnerCommandQueue.$inferInsert;
+export type RunnerCommandAttempt = typeof runnerCommandAttempts.$inferSelect;
+export type ProjectEnvVar = typeof projectEnvVars.$inferSelect;
+export type NewProjectEnvVar = typeof projectEnvVars.$inferInsert;
+export type SpendingLimit = typeof spendingLimits.$inferSelect;
+export type NewSpendingLimit = typeof spendingLimits.$inferInsert;
+export type BakeOff = typeof bakeOffs.$inferSelect;
+export type NewBakeOff = typeof bakeOffs.$inferInsert;
+export type Webhook = typeof webhooks.$inferSelect;
+export type NewWebhook = typeof webhooks.$inferInsert;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
 export type GenerationSession = typeof generationSessions.$inferSelect;
 export type GenerationTodo = typeof generationTodos.$inferSelect;
 export type GenerationToolCall = typeof generationToolCalls.$inferSelect;
 export type GenerationNote = typeof generationNotes.$inferSelect;
+export type BuildScreenshotRow = typeof buildScreenshots.$inferSelect;
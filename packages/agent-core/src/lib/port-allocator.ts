@@ -20,7 +20,7 @@ interface ReservedPortInfo {
   framework: FrameworkKey;
 }
 
-type FrameworkKey = 'next' | 'astro' | 'vite' | 'tanstack' | 'node' | 'default';
+export type FrameworkKey = 'next' | 'astro' | 'vite' | 'tanstack' | 'node' | 'default';
 
 const FRAMEWORK_RANGES: Record<FrameworkKey, { start: number; end: number }> = {
   next: { start: 3101, end: 3200 },
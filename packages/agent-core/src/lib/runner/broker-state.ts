@@ -11,10 +11,17 @@
 
 import type { RunnerCommand } from '../../shared/runner/messages';
 import { buildWebSocketServer } from '../websocket/server';
+import { pickRunner, recordRunnerAssignment, type SelectRunnerOptions } from './scheduler';
 
 /**
  * Send a command to a specific runner via WebSocket
  * 
+ * Use this for commands whose caller is waiting on the answer (file reads and
+ * writes, project analysis, tunnels, GitHub sync) - failing fast with "not
+ * connected" beats holding the request open for a runner that may not return.
+ * Lifecycle commands the user expects to happen eventually (builds, dev server
+ * starts, cancels) go through queueCommandToRunner instead.
+ * 
  * @param runnerId - The ID of the runner to send the command to
  * @param command - The command to send
  * @throws Error if runner is not connected or command fails to send
@@ -27,6 +34,25 @@ export async function sendCommandToRunner(runnerId: string, command: RunnerComma
   }
 }
 
+/**
+ * Queue a command for reliable delivery to a runner
+ * Sends immediately when the runner is connected, otherwise holds the command
+ * until the runner reconnects (or the TTL / max attempts run out).
+ * With RUNNER_COMMAND_QUEUE_BACKEND=postgres the queue also survives web-app restarts.
+ * 
+ * @param runnerId - The ID of the runner to send the command to
+ * @param command - The command to send
+ * @param options - TTL, max delivery attempts and in-process success/failure callbacks
+ * @returns Whether the command was sent immediately or queued
+ */
+export function queueCommandToRunner(
+  runnerId: string,
+  command: RunnerCommand,
+  options?: Parameters<typeof buildWebSocketServer.queueCommandToRunner>[2]
+) {
+  return buildWebSocketServer.queueCommandToRunner(runnerId, command, options);
+}
+
 /**
  * List all connected runners with their status
  * 
@@ -37,6 +63,21 @@ export async function listRunnerConnections(userId?: string) {
   return buildWebSocketServer.listRunnerConnections(userId);
 }
 
+/**
+ * Pick a runner for a build using load from runner-status heartbeats and project affinity
+ * The pick is recorded as a pending build on that runner until its next heartbeat
+ * 
+ * @param options - Project affinity, manual preference and user filtering
+ * @returns The selected runner and why it was chosen, or null if no suitable runner is connected
+ */
+export async function selectRunner(options: SelectRunnerOptions = {}) {
+  const selection = pickRunner(buildWebSocketServer.listRunnerConnections(), options);
+  if (selection) {
+    recordRunnerAssignment(selection.runnerId);
+  }
+  return selection;
+}
+
 /**
  * Check if a specific runner is connected
  * 
@@ -0,0 +1,257 @@
+/**
+ * Postgres backend for the runner command queue
+ *
+ * Mirrors RunnerCommandQueue state into runner_command_queue so queued commands
+ * survive web-app restarts, and records every delivery attempt in
+ * runner_command_attempts for later inspection.
+ *
+ * Several web-app instances can share the table: each claims the rows it holds
+ * in memory and renews the claim while it does, and on startup an instance only
+ * takes over rows whose claim has gone stale (the holder exited), so a command
+ * is never replayed by two instances.
+ *
+ * Dev server start commands are stored without their env - it holds decrypted
+ * project variables - and the caller rebuilds it when a command is replayed.
+ * Finished rows are deleted once they fall out of the retention window.
+ *
+ * Enabled by setting RUNNER_COMMAND_QUEUE_BACKEND=postgres.
+ */
+
+import { randomUUID } from 'crypto';
+import { and, desc, eq, inArray, isNull, lt, ne, or, type SQL } from 'drizzle-orm';
+import { db } from '../db/client';
+import { runnerCommandQueue, runnerCommandAttempts } from '../db/schema';
+import type { RunnerCommand } from '../../shared/runner/messages';
+import type { CommandQueueStore, QueuedCommand, QueuedCommandStatus } from './command-queue';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Claims are renewed on every queue cleanup pass (30s), so this leaves room for a few missed renewals
+const CLAIM_LEASE_MS = 2 * 60 * 1000;
+
+// Delivered, expired and failed commands are kept this long for inspection
+const HISTORY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface PostgresCommandQueueStoreOptions {
+  // Rebuild what was stripped before persisting (the dev server env) when a command is replayed
+  restoreCommand?: (command: RunnerCommand) => Promise<RunnerCommand>;
+}
+
+/**
+ * Whether the durable queue backend is configured
+ */
+export function isPersistentCommandQueueEnabled(): boolean {
+  return process.env.RUNNER_COMMAND_QUEUE_BACKEND === 'postgres';
+}
+
+function getProjectId(command: RunnerCommand): string | null {
+  const projectId = (command as { projectId?: string }).projectId;
+  return projectId && UUID_PATTERN.test(projectId) ? projectId : null;
+}
+
+/**
+ * The command as written to the database - never the dev server env values
+ */
+function toPersistedCommand(command: RunnerCommand): RunnerCommand {
+  if (command.type === 'start-dev-server' && command.payload.env) {
+    const { env: _env, ...payload } = command.payload;
+    return { ...command, payload };
+  }
+  return command;
+}
+
+export function createPostgresCommandQueueStore(options: PostgresCommandQueueStoreOptions = {}): CommandQueueStore {
+  const instanceId = randomUUID();
+
+  return {
+    async recordEnqueued(queuedCommand: QueuedCommand) {
+      await db.insert(runnerCommandQueue)
+        .values({
+          commandId: queuedCommand.command.id,
+          runnerId: queuedCommand.runnerId,
+          projectId: getProjectId(queuedCommand.command),
+          commandType: queuedCommand.command.type,
+          command: toPersistedCommand(queuedCommand.command),
+          status: 'queued',
+          attempts: queuedCommand.attempts,
+          maxAttempts: queuedCommand.maxAttempts,
+          expiresAt: new Date(queuedCommand.queuedAt + queuedCommand.ttlMs),
+          createdAt: new Date(queuedCommand.queuedAt),
+          claimedBy: instanceId,
+          claimedAt: new Date(),
+        })
+        .onConflictDoNothing({ target: runnerCommandQueue.commandId });
+    },
+
+    async recordAttempt(commandId, runnerId, attempt, outcome) {
+      const now = new Date();
+      const [entry] = await db.update(runnerCommandQueue)
+        .set({
+          attempts: attempt,
+          updatedAt: now,
+          ...(outcome === 'sent' ? { status: 'sent', sentAt: now } : {}),
+        })
+        .where(eq(runnerCommandQueue.commandId, commandId))
+        .returning({ id: runnerCommandQueue.id });
+
+      if (!entry) return;
+
+      await db.insert(runnerCommandAttempts).values({
+        queueEntryId: entry.id,
+        runnerId,
+        attempt,
+        outcome,
+      });
+    },
+
+    async updateStatus(commandId: string, status: QueuedCommandStatus, error?: string) {
+      await db.update(runnerCommandQueue)
+        .set({
+          status,
+          lastError: error ?? null,
+          updatedAt: new Date(),
+        })
+        .where(eq(runnerCommandQueue.commandId, commandId));
+    },
+
+    async reassign(commandId: string, runnerId: string) {
+      await db.update(runnerCommandQueue)
+        .set({ runnerId, updatedAt: new Date() })
+        .where(eq(runnerCommandQueue.commandId, commandId));
+    },
+
+    async renewClaims(commandIds: string[]) {
+      if (commandIds.length === 0) return;
+      await db.update(runnerCommandQueue)
+        .set({ claimedAt: new Date() })
+        .where(
+          and(
+            inArray(runnerCommandQueue.commandId, commandIds),
+            eq(runnerCommandQueue.claimedBy, instanceId)
+          )
+        );
+    },
+
+    async loadQueued() {
+      // Claim in a single UPDATE: concurrent instances block on the same rows and
+      // re-check the WHERE clause, so only one of them gets each row back
+      const now = new Date();
+      const rows = await db.update(runnerCommandQueue)
+        .set({ claimedBy: instanceId, claimedAt: now })
+        .where(
+          and(
+            eq(runnerCommandQueue.status, 'queued'),
+            or(
+              isNull(runnerCommandQueue.claimedAt),
+              lt(runnerCommandQueue.claimedAt, new Date(now.getTime() - CLAIM_LEASE_MS))
+            )
+          )
+        )
+        .returning();
+
+      rows.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+      const restored: QueuedCommand[] = [];
+      for (const row of rows) {
+        let command = row.command as RunnerCommand;
+        if (options.restoreCommand) {
+          try {
+            command = await options.restoreCommand(command);
+          } catch (error) {
+            await db.update(runnerCommandQueue)
+              .set({
+                status: 'failed',
+                lastError: `Failed to restore command: ${error instanceof Error ? error.message : String(error)}`,
+                updatedAt: new Date(),
+              })
+              .where(eq(runnerCommandQueue.id, row.id));
+            continue;
+          }
+        }
+
+        restored.push({
+          command,
+          runnerId: row.runnerId,
+          queuedAt: row.createdAt.getTime(),
+          attempts: row.attempts,
+          maxAttempts: row.maxAttempts,
+          ttlMs: row.expiresAt.getTime() - row.createdAt.getTime(),
+        });
+      }
+
+      return restored;
+    },
+
+    async pruneHistory() {
+      // Queued rows nobody replayed are dropped too once they are long expired
+      const cutoff = new Date(Date.now() - HISTORY_RETENTION_MS);
+      await db.delete(runnerCommandQueue)
+        .where(
+          and(
+            lt(runnerCommandQueue.updatedAt, cutoff),
+            or(
+              ne(runnerCommandQueue.status, 'queued'),
+              lt(runnerCommandQueue.expiresAt, cutoff)
+            )
+          )
+        );
+    },
+  };
+}
+
+/**
+ * Query queued command history with their delivery attempts (newest first).
+ * Command bodies are left out - they can carry attachments and other user data.
+ */
+export async function getRunnerCommandHistory(filters: {
+  projectId?: string;
+  runnerId?: string;
+  status?: QueuedCommandStatus;
+  limit?: number;
+} = {}) {
+  const conditions: SQL[] = [];
+  if (filters.projectId) conditions.push(eq(runnerCommandQueue.projectId, filters.projectId));
+  if (filters.runnerId) conditions.push(eq(runnerCommandQueue.runnerId, filters.runnerId));
+  if (filters.status) conditions.push(eq(runnerCommandQueue.status, filters.status));
+
+  const entries = await db.select({
+    id: runnerCommandQueue.id,
+    commandId: runnerCommandQueue.commandId,
+    runnerId: runnerCommandQueue.runnerId,
+    projectId: runnerCommandQueue.projectId,
+    commandType: runnerCommandQueue.commandType,
+    status: runnerCommandQueue.status,
+    attempts: runnerCommandQueue.attempts,
+    maxAttempts: runnerCommandQueue.maxAttempts,
+    lastError: runnerCommandQueue.lastError,
+    expiresAt: runnerCommandQueue.expiresAt,
+    createdAt: runnerCommandQueue.createdAt,
+    updatedAt: runnerCommandQueue.updatedAt,
+    sentAt: runnerCommandQueue.sentAt,
+  })
+    .from(runnerCommandQueue)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(runnerCommandQueue.createdAt))
+    .limit(Math.min(filters.limit ?? 50, 500));
+
+  if (entries.length === 0) {
+    return [];
+  }
+
+  const attempts = await db.select()
+    .from(runnerCommandAttempts)
+    .where(inArray(runnerCommandAttempts.queueEntryId, entries.map((entry) => entry.id)))
+    .orderBy(runnerCommandAttempts.createdAt);
+
+  const attemptsByEntry = new Map<string, typeof attempts>();
+  for (const attempt of attempts) {
+    const list = attemptsByEntry.get(attempt.queueEntryId) ?? [];
+    list.push(attempt);
+    attemptsByEntry.set(attempt.queueEntryId, list);
+  }
+
+  return entries.map((entry) => ({
+    ...entry,
+    deliveryAttempts: attemptsByEntry.get(entry.id) ?? [],
+  }));
+}
@@ -1,11 +1,13 @@
 /**
- * In-Memory Command Queue for Runner Commands
+ * Command Queue for Runner Commands
  * 
  * Provides reliable command delivery to runners with:
  * - Automatic queuing when runner is disconnected
  * - Retry logic with configurable attempts
  * - Command expiration (TTL)
  * - Per-runner queuing
+ * - Optional durable backend (see command-queue-store.ts) so queued commands
+ *   survive web-app restarts and every delivery attempt is recorded
  */
 
 import type { RunnerCommand } from '../../shared/runner/messages';
@@ -18,8 +20,27 @@ interface QueuedCommand {
   attempts: number;
   maxAttempts: number;
   ttlMs: number; // Time to live in milliseconds
+  failover?: boolean; // May be moved to another runner if this one disconnects (in-memory only)
+  userId?: string; // Owner, so failover only considers the same user's runners
   onSuccess?: () => void;
   onFailure?: (error: string) => void;
+  onReassigned?: (runnerId: string) => void;
+}
+
+type QueuedCommandStatus = 'queued' | 'sent' | 'expired' | 'failed' | 'dropped' | 'cleared';
+
+/**
+ * Persistence backend for the queue. The in-memory queue remains the working set;
+ * the store mirrors every transition and rehydrates queued commands on startup.
+ */
+interface CommandQueueStore {
+  recordEnqueued(queuedCommand: QueuedCommand): Promise<void>;
+  recordAttempt(commandId: string, runnerId: string, attempt: number, outcome: 'sent' | 'runner-offline'): Promise<void>;
+  updateStatus(commandId: string, status: QueuedCommandStatus, error?: string): Promise<void>;
+  reassign(commandId: string, runnerId: string): Promise<void>;
+  renewClaims(commandIds: string[]): Promise<void>; // Keep other instances from taking over held commands
+  loadQueued(): Promise<QueuedCommand[]>; // Claims the returned commands for this instance
+  pruneHistory(): Promise<void>; // Delete finished commands past the retention window
 }
 
 interface CommandQueueOptions {
@@ -36,11 +57,18 @@ const DEFAULT_OPTIONS: Required<CommandQueueOptions> = {
   cleanupIntervalMs: 30 * 1000, // 30 seconds
 };
 
+// Finished command history is pruned from the durable backend at most this often
+const HISTORY_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
 class RunnerCommandQueue {
   private queues: Map<string, QueuedCommand[]> = new Map();
   private options: Required<CommandQueueOptions>;
   private cleanupInterval: NodeJS.Timeout | null = null;
   private sendFunction: ((runnerId: string, command: RunnerCommand) => boolean) | null = null;
+  private store: CommandQueueStore | null = null;
+  // Store writes are serialized so row inserts always land before their updates
+  private storeWrites: Promise<void> = Promise.resolve();
+  private lastHistoryPruneAt = 0;
 
   constructor(options: CommandQueueOptions = {}) {
     this.options = { ...DEFAULT_OPTIONS, ...options };
@@ -55,6 +83,58 @@ class RunnerCommandQueue {
     this.sendFunction = fn;
   }
 
+  /**
+   * Enable the durable backend and load commands that were still queued when the
+   * previous process exited. Returns the runner IDs that have replayable commands.
+   */
+  async enablePersistence(store: CommandQueueStore): Promise<string[]> {
+    this.store = store;
+
+    const persisted = await store.loadQueued();
+    const runnerIds = new Set<string>();
+    let expired = 0;
+
+    for (const queuedCommand of persisted) {
+      if (this.isExpired(queuedCommand)) {
+        this.persist((s) => s.updateStatus(queuedCommand.command.id, 'expired'));
+        expired++;
+        continue;
+      }
+
+      const queue = this.queues.get(queuedCommand.runnerId) ?? [];
+      if (queue.some((cmd) => cmd.command.id === queuedCommand.command.id)) {
+        continue;
+      }
+      queue.push(queuedCommand);
+      this.queues.set(queuedCommand.runnerId, queue);
+      runnerIds.add(queuedCommand.runnerId);
+    }
+
+    buildLogger.log('info', 'websocket', `[command-queue] Persistence enabled, restored ${persisted.length - expired} queued commands`, {
+      restored: persisted.length - expired,
+      expired,
+      runners: Array.from(runnerIds),
+    });
+
+    return Array.from(runnerIds);
+  }
+
+  /**
+   * Run a store write in order, logging (not throwing) on failure
+   */
+  private persist(write: (store: CommandQueueStore) => Promise<void>) {
+    const store = this.store;
+    if (!store) return;
+
+    this.storeWrites = this.storeWrites
+      .then(() => write(store))
+      .catch((error) => {
+        buildLogger.log('error', 'websocket', '[command-queue] Failed to persist queue state', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+  }
+
   /**
    * Queue a command for delivery to a runner
    * Returns true if command was sent immediately, false if queued
@@ -65,8 +145,11 @@ class RunnerCommandQueue {
     options: {
       ttlMs?: number;
       maxAttempts?: number;
+      failover?: boolean;
+      userId?: string;
       onSuccess?: () => void;
       onFailure?: (error: string) => void;
+      onReassigned?: (runnerId: string) => void;
     } = {}
   ): { sent: boolean; queued: boolean } {
     const queuedCommand: QueuedCommand = {
@@ -76,10 +159,15 @@ class RunnerCommandQueue {
       attempts: 0,
       maxAttempts: options.maxAttempts ?? this.options.defaultMaxAttempts,
       ttlMs: options.ttlMs ?? this.options.defaultTtlMs,
+      failover: options.failover,
+      userId: options.userId,
       onSuccess: options.onSuccess,
       onFailure: options.onFailure,
+      onReassigned: options.onReassigned,
     };
 
+    this.persist((store) => store.recordEnqueued(queuedCommand));
+
     // Try to send immediately
     if (this.sendFunction) {
       const sent = this.trySend(queuedCommand);
@@ -102,6 +190,10 @@ class RunnerCommandQueue {
 
     queuedCommand.attempts++;
     const sent = this.sendFunction(queuedCommand.runnerId, queuedCommand.command);
+    const attempt = queuedCommand.attempts;
+    this.persist((store) =>
+      store.recordAttempt(queuedCommand.command.id, queuedCommand.runnerId, attempt, sent ? 'sent' : 'runner-offline')
+    );
 
     if (sent) {
       buildLogger.log('debug', 'websocket', `[command-queue] Command sent: ${queuedCommand.command.type}`, {
@@ -131,6 +223,9 @@ class RunnerCommandQueue {
     if (queue.length >= this.options.maxQueueSize) {
       buildLogger.log('warn', 'websocket', `Queue full for runner ${runnerId}, dropping oldest command`);
       const dropped = queue.shift();
+      if (dropped) {
+        this.persist((store) => store.updateStatus(dropped.command.id, 'dropped', 'Queue full - command dropped'));
+      }
       dropped?.onFailure?.('Queue full - command dropped');
     }
 
@@ -165,6 +260,7 @@ class RunnerCommandQueue {
           runnerId,
           commandId: queuedCommand.command.id,
         });
+        this.persist((store) => store.updateStatus(queuedCommand.command.id, 'expired', 'Command expired'));
         queuedCommand.onFailure?.('Command expired');
         failed++;
         continue;
@@ -177,6 +273,7 @@ class RunnerCommandQueue {
           commandId: queuedCommand.command.id,
           attempts: queuedCommand.attempts,
         });
+        this.persist((store) => store.updateStatus(queuedCommand.command.id, 'failed', 'Max retry attempts reached'));
         queuedCommand.onFailure?.('Max retry attempts reached');
         failed++;
         continue;
@@ -207,6 +304,61 @@ class RunnerCommandQueue {
     return { sent, failed, remaining: remaining.length };
   }
 
+  /**
+   * Move failover-enabled commands queued for a runner to another runner
+   * (call when a runner disconnects). Commands without a replacement stay queued.
+   * @param pickRunner - Returns the runner to move a command to, or null to leave it
+   */
+  reassign(
+    fromRunnerId: string,
+    pickRunner: (queuedCommand: QueuedCommand) => string | null
+  ): { reassigned: number; sent: number } {
+    const queue = this.queues.get(fromRunnerId);
+    if (!queue || queue.length === 0) {
+      return { reassigned: 0, sent: 0 };
+    }
+
+    let reassigned = 0;
+    let sent = 0;
+    const remaining: QueuedCommand[] = [];
+
+    for (const queuedCommand of queue) {
+      const targetRunnerId = queuedCommand.failover && !this.isExpired(queuedCommand)
+        ? pickRunner(queuedCommand)
+        : null;
+
+      if (!targetRunnerId || targetRunnerId === fromRunnerId) {
+        remaining.push(queuedCommand);
+        continue;
+      }
+
+      queuedCommand.runnerId = targetRunnerId;
+      this.persist((store) => store.reassign(queuedCommand.command.id, targetRunnerId));
+      queuedCommand.onReassigned?.(targetRunnerId);
+      reassigned++;
+
+      buildLogger.log('info', 'websocket', `Command failed over: ${queuedCommand.command.type}`, {
+        fromRunnerId,
+        toRunnerId: targetRunnerId,
+        commandId: queuedCommand.command.id,
+      });
+
+      if (this.trySend(queuedCommand)) {
+        sent++;
+      } else {
+        this.addToQueue(targetRunnerId, queuedCommand);
+      }
+    }
+
+    if (remaining.length > 0) {
+      this.queues.set(fromRunnerId, remaining);
+    } else {
+      this.queues.delete(fromRunnerId);
+    }
+
+    return { reassigned, sent };
+  }
+
   /**
    * Check if a command has expired
    */
@@ -224,12 +376,14 @@ class RunnerCommandQueue {
   }
 
   /**
-   * Clean up expired commands from all queues
+   * Clean up expired commands from all queues, renew the claims on the rest
+   * and periodically prune the persisted history
    */
   private cleanup() {
     for (const [runnerId, queue] of this.queues.entries()) {
       const validCommands = queue.filter(cmd => {
         if (this.isExpired(cmd)) {
+          this.persist((store) => store.updateStatus(cmd.command.id, 'expired', 'Command expired'));
           cmd.onFailure?.('Command expired');
           return false;
         }
@@ -246,6 +400,16 @@ class RunnerCommandQueue {
         this.queues.set(runnerId, validCommands);
       }
     }
+
+    const heldCommandIds = Array.from(this.queues.values()).flatMap((queue) => queue.map((cmd) => cmd.command.id));
+    if (heldCommandIds.length > 0) {
+      this.persist((store) => store.renewClaims(heldCommandIds));
+    }
+
+    if (this.store && Date.now() - this.lastHistoryPruneAt >= HISTORY_PRUNE_INTERVAL_MS) {
+      this.lastHistoryPruneAt = Date.now();
+      this.persist((store) => store.pruneHistory());
+    }
   }
 
   /**
@@ -272,6 +436,7 @@ class RunnerCommandQueue {
     
     if (queue) {
       for (const cmd of queue) {
+        this.persist((store) => store.updateStatus(cmd.command.id, 'cleared', 'Queue cleared'));
         cmd.onFailure?.('Queue cleared');
       }
     }
@@ -294,4 +459,4 @@ class RunnerCommandQueue {
 // Singleton instance
 export const commandQueue = new RunnerCommandQueue();
 
-export type { QueuedCommand, CommandQueueOptions };
+export type { QueuedCommand, QueuedCommandStatus, CommandQueueStore, CommandQueueOptions };
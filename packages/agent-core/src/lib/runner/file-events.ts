@@ -0,0 +1,58 @@
+import type { FileChangedEvent, FileDeletedEvent } from '../../shared/runner/messages';
+
+export type FileWatchEvent =
+  | { type: 'file-changed'; path: string; isDirectory: boolean; timestamp: string }
+  | { type: 'file-deleted'; path: string; timestamp: string };
+
+type FileWatchListener = (event: FileWatchEvent) => void;
+
+// Kept on global so the WebSocket server bundle and the files route share listeners
+declare global {
+  // eslint-disable-next-line no-var
+  var __fileWatchListeners: Map<string, Set<FileWatchListener>> | undefined;
+}
+
+const listeners = global.__fileWatchListeners ?? new Map<string, Set<FileWatchListener>>();
+
+global.__fileWatchListeners = listeners;
+
+/**
+ * Fan out a runner file watch event to the project's editor streams
+ */
+export function publishFileWatchEvent(event: FileChangedEvent | FileDeletedEvent) {
+  if (!event.projectId) return;
+
+  const projectListeners = listeners.get(event.projectId);
+  if (!projectListeners) return;
+
+  const { timestamp } = event;
+  const payload: FileWatchEvent =
+    event.type === 'file-changed'
+      ? { type: 'file-changed', path: event.path, isDirectory: event.isDirectory, timestamp }
+      : { type: 'file-deleted', path: event.path, timestamp };
+
+  for (const listener of projectListeners) {
+    listener(payload);
+  }
+}
+
+export function subscribeToFileWatchEvents(
+  projectId: string,
+  listener: FileWatchListener
+) {
+  const set = listeners.get(projectId);
+  if (set) {
+    set.add(listener);
+  } else {
+    listeners.set(projectId, new Set([listener]));
+  }
+
+  return () => {
+    const current = listeners.get(projectId);
+    if (!current) return;
+    current.delete(listener);
+    if (current.size === 0) {
+      listeners.delete(projectId);
+    }
+  };
+}
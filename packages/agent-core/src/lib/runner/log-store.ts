@@ -8,10 +8,24 @@ export interface LogEntry {
   type: 'stdout' | 'stderr';
   data: string;
   timestamp: Date;
+  cursor?: string; // Runner log buffer cursor, used to de-duplicate against fetch-logs backfill
 }
 
-const logBuffers = new Map<string, LogEntry[]>();
-const listeners = new Map<string, Set<(event: LogStreamEvent) => void>>();
+type LogStreamListener = (event: LogStreamEvent) => void;
+
+// Kept on global so every bundle (WebSocket server, API routes) shares one store
+declare global {
+  // eslint-disable-next-line no-var
+  var __runnerLogBuffers: Map<string, LogEntry[]> | undefined;
+  // eslint-disable-next-line no-var
+  var __runnerLogListeners: Map<string, Set<LogStreamListener>> | undefined;
+}
+
+const logBuffers = global.__runnerLogBuffers ?? new Map<string, LogEntry[]>();
+const listeners = global.__runnerLogListeners ?? new Map<string, Set<LogStreamListener>>();
+
+global.__runnerLogBuffers = logBuffers;
+global.__runnerLogListeners = listeners;
 
 function getBuffer(projectId: string) {
   if (!logBuffers.has(projectId)) {
@@ -51,7 +65,7 @@ export function markRunnerLogExit(
 
 export function subscribeToRunnerLogs(
   projectId: string,
-  listener: (event: LogStreamEvent) => void
+  listener: LogStreamListener
 ) {
   const set = listeners.get(projectId);
   if (set) {
@@ -0,0 +1,152 @@
+/**
+ * Runner Scheduler
+ *
+ * Picks a runner for a project automatically instead of relying on a manual
+ * runner tag. Only runners that can build with the requested agent are
+ * considered - registered (third-party) agents are advertised per runner in
+ * heartbeats. Selection rules, in order:
+ * 1. Affinity - a project whose files already exist stays on the runner that holds them
+ * 2. Preferred - an explicit pick (runner tag / selector) is honoured while it's online
+ * 3. Least loaded - otherwise the healthiest runner with the fewest active builds
+ *    and the lowest normalized load wins
+ *
+ * Load comes from the runner-status heartbeat payload. Assignments made since a
+ * runner's last heartbeat are counted as pending builds so a burst of requests
+ * doesn't pile onto the same runner before it reports in.
+ */
+
+import type { RunnerStatusEvent } from '../../shared/runner/messages';
+import { isBuiltInAgentId } from '../../types/agent';
+
+/** Runner ID sent by clients that want the scheduler to choose */
+export const AUTO_RUNNER_ID = 'auto';
+
+const STALE_HEARTBEAT_MS = 45 * 1000; // Runners heartbeat every 15s
+const PENDING_ASSIGNMENT_TTL_MS = 2 * 60 * 1000;
+
+export type RunnerStatusPayload = RunnerStatusEvent['payload'];
+
+export interface RunnerCandidate {
+  runnerId: string;
+  lastHeartbeatAge: number;
+  userId?: string;
+  status?: RunnerStatusPayload;
+  statusUpdatedAt?: number;
+}
+
+export interface SelectRunnerOptions {
+  userId?: string; // Only consider runners owned by this user (multi-tenant mode)
+  projectRunnerId?: string | null; // Runner that created / manages the project
+  hasWorkspace?: boolean; // Project files already exist on projectRunnerId - affinity is strict
+  preferredRunnerId?: string | null; // Manual pick, ignored when 'auto'
+  excludeRunnerIds?: string[];
+  agentId?: string; // Only consider runners that can build with this agent
+}
+
+export type RunnerSelectionReason = 'affinity' | 'preferred' | 'least-loaded' | 'failover';
+
+export interface RunnerSelection {
+  runnerId: string;
+  reason: RunnerSelectionReason;
+}
+
+// runnerId -> timestamps of assignments not yet reflected in a heartbeat
+const pendingAssignments = new Map<string, number[]>();
+
+function getPendingAssignments(candidate: RunnerCandidate, now: number): number {
+  const assignments = pendingAssignments.get(candidate.runnerId);
+  if (!assignments) return 0;
+
+  const since = Math.max(candidate.statusUpdatedAt ?? 0, now - PENDING_ASSIGNMENT_TTL_MS);
+  return assignments.filter((assignedAt) => assignedAt > since).length;
+}
+
+/**
+ * Record that a build was just routed to a runner
+ */
+export function recordRunnerAssignment(runnerId: string) {
+  const now = Date.now();
+  const assignments = (pendingAssignments.get(runnerId) ?? []).filter(
+    (assignedAt) => now - assignedAt < PENDING_ASSIGNMENT_TTL_MS
+  );
+  assignments.push(now);
+  pendingAssignments.set(runnerId, assignments);
+}
+
+/**
+ * Built-in agents run on every runner; registered agents only where the runner advertises them
+ */
+export function supportsAgent(candidate: RunnerCandidate, agentId?: string): boolean {
+  if (!agentId || isBuiltInAgentId(agentId)) return true;
+  return candidate.status?.agents?.some((agent) => agent.id === agentId) ?? false;
+}
+
+/**
+ * Lower is better. Active builds dominate; load breaks ties between equally busy runners.
+ */
+export function scoreRunner(candidate: RunnerCandidate, now = Date.now()): number {
+  const activeBuilds = (candidate.status?.activeBuilds ?? 0) + getPendingAssignments(candidate, now);
+  const cpuCount = candidate.status?.cpuCount && candidate.status.cpuCount > 0 ? candidate.status.cpuCount : 1;
+  const normalizedLoad = (candidate.status?.load ?? 0) / cpuCount;
+  const degradedPenalty = candidate.status?.status === 'degraded' ? 5 : 0;
+
+  return activeBuilds + normalizedLoad + degradedPenalty;
+}
+
+/**
+ * Order candidates best-first. Runners with a stale heartbeat sort after healthy ones.
+ */
+export function rankRunners(candidates: RunnerCandidate[], now = Date.now()): RunnerCandidate[] {
+  return [...candidates].sort((a, b) => {
+    const aStale = a.lastHeartbeatAge > STALE_HEARTBEAT_MS ? 1 : 0;
+    const bStale = b.lastHeartbeatAge > STALE_HEARTBEAT_MS ? 1 : 0;
+    if (aStale !== bStale) return aStale - bStale;
+
+    const scoreDiff = scoreRunner(a, now) - scoreRunner(b, now);
+    if (scoreDiff !== 0) return scoreDiff;
+
+    return a.lastHeartbeatAge - b.lastHeartbeatAge;
+  });
+}
+
+/**
+ * Pick a runner from a list of connected candidates.
+ * Returns null when no suitable runner is connected (including when the runner
+ * holding an existing project's files is offline - there is nothing to fail over to).
+ */
+export function pickRunner(candidates: RunnerCandidate[], options: SelectRunnerOptions = {}): RunnerSelection | null {
+  const excluded = new Set(options.excludeRunnerIds ?? []);
+  const available = candidates.filter(
+    (candidate) =>
+      !excluded.has(candidate.runnerId) &&
+      (!options.userId || candidate.userId === options.userId) &&
+      supportsAgent(candidate, options.agentId)
+  );
+  const isAvailable = (runnerId?: string | null) =>
+    !!runnerId && available.some((candidate) => candidate.runnerId === runnerId);
+
+  // Files live on the runner that built the project
+  if (options.projectRunnerId && options.hasWorkspace) {
+    return isAvailable(options.projectRunnerId)
+      ? { runnerId: options.projectRunnerId, reason: 'affinity' }
+      : null;
+  }
+
+  const preferred = options.preferredRunnerId !== AUTO_RUNNER_ID ? options.preferredRunnerId : null;
+  if (isAvailable(preferred)) {
+    return { runnerId: preferred!, reason: 'preferred' };
+  }
+
+  // New project - stay on the runner that analyzed it when possible
+  if (isAvailable(options.projectRunnerId)) {
+    return { runnerId: options.projectRunnerId!, reason: 'affinity' };
+  }
+
+  const [best] = rankRunners(available);
+  if (!best) {
+    return null;
+  }
+
+  const wantedOther = !!preferred || !!options.projectRunnerId;
+  return { runnerId: best.runnerId, reason: wantedOther ? 'failover' : 'least-loaded' };
+}
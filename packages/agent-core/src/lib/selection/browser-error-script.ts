@@ -0,0 +1,148 @@
+/**
+ * Browser Error Script - Injected into preview iframe
+ *
+ * Reports what goes wrong inside the previewed app to the parent frame, which
+ * shows it in the Browser Console tab and can hand runtime errors to auto-fix.
+ *
+ * Captures:
+ * - Uncaught errors (window 'error') and unhandled promise rejections
+ * - console.error calls
+ * - Failed network requests: fetch/XHR errors and 4xx/5xx responses, plus
+ *   scripts, stylesheets and images that fail to load
+ *
+ * Every report is a postMessage { type: 'openbuilder:browser-error', data: BrowserError }.
+ * The script is injected at the start of <head> when possible so it sees errors
+ * thrown while the page boots.
+ */
+
+export type BrowserErrorKind = 'error' | 'unhandledrejection' | 'console' | 'network';
+
+export interface BrowserError {
+  kind: BrowserErrorKind;
+  message: string;
+  url: string; // Page the error happened on
+  timestamp: number;
+  source?: string; // Script of an uncaught error
+  line?: number;
+  column?: number;
+  status?: number; // HTTP status of a failed request
+}
+
+export const BROWSER_ERROR_SCRIPT = `
+(function() {
+  // Only run in iframe context, once per page
+  if (window === window.parent || window.__openbuilderBrowserErrorsInit) {
+    return;
+  }
+  window.__openbuilderBrowserErrorsInit = true;
+
+  var MAX_MESSAGE_LENGTH = 4000;
+  var MAX_REPORTS = 200; // Per page load - a render loop shouldn't flood the parent
+  var reports = 0;
+
+  function stringify(value) {
+    if (value instanceof Error) {
+      return value.stack || (value.name + ': ' + value.message);
+    }
+    if (typeof value === 'string') {
+      return value;
+    }
+    try {
+      return JSON.stringify(value);
+    } catch (e) {
+      return String(value);
+    }
+  }
+
+  function report(kind, message, extra) {
+    if (reports >= MAX_REPORTS) return;
+    reports++;
+
+    var data = {
+      kind: kind,
+      message: String(message).slice(0, MAX_MESSAGE_LENGTH),
+      url: window.location.href,
+      timestamp: Date.now(),
+    };
+    if (extra) {
+      for (var key in extra) {
+        if (extra[key] !== undefined) data[key] = extra[key];
+      }
+    }
+
+    try {
+      window.parent.postMessage({ type: 'openbuilder:browser-error', data: data }, '*');
+    } catch (e) {
+      // Parent is gone - nothing to report to
+    }
+  }
+
+  // Uncaught errors - and, in the capture phase, resources that fail to load
+  window.addEventListener('error', function(event) {
+    var target = event.target;
+    if (target && target !== window && target.tagName) {
+      var resource = target.src || target.href;
+      if (resource) {
+        report('network', 'Failed to load ' + target.tagName.toLowerCase() + ': ' + resource);
+      }
+      return;
+    }
+
+    report('error', event.error ? stringify(event.error) : event.message, {
+      source: event.filename || undefined,
+      line: event.lineno || undefined,
+      column: event.colno || undefined,
+    });
+  }, true);
+
+  window.addEventListener('unhandledrejection', function(event) {
+    report('unhandledrejection', 'Unhandled promise rejection: ' + stringify(event.reason));
+  });
+
+  var originalConsoleError = console.error;
+  console.error = function() {
+    var args = Array.prototype.slice.call(arguments);
+    report('console', args.map(stringify).join(' '));
+    return originalConsoleError.apply(console, args);
+  };
+
+  if (window.fetch) {
+    var originalFetch = window.fetch;
+    window.fetch = function(input, init) {
+      var url = typeof input === 'string' ? input : (input && input.url) || String(input);
+      var method = ((init && init.method) || (input && input.method) || 'GET').toUpperCase();
+
+      return originalFetch.apply(this, arguments).then(function(response) {
+        if (response.status >= 400) {
+          report('network', method + ' ' + url + ' returned ' + response.status, { status: response.status });
+        }
+        return response;
+      }, function(error) {
+        // Aborted requests are intentional
+        if (!error || error.name !== 'AbortError') {
+          report('network', method + ' ' + url + ' failed: ' + stringify(error));
+        }
+        throw error;
+      });
+    };
+  }
+
+  var originalOpen = XMLHttpRequest.prototype.open;
+  var originalSend = XMLHttpRequest.prototype.send;
+  XMLHttpRequest.prototype.open = function(method, url) {
+    this.__openbuilderRequest = String(method).toUpperCase() + ' ' + url;
+    return originalOpen.apply(this, arguments);
+  };
+  XMLHttpRequest.prototype.send = function() {
+    var xhr = this;
+    xhr.addEventListener('loadend', function() {
+      if (xhr.status >= 400) {
+        report('network', xhr.__openbuilderRequest + ' returned ' + xhr.status, { status: xhr.status });
+      } else if (xhr.status === 0 && xhr.readyState === 4) {
+        report('network', xhr.__openbuilderRequest + ' failed');
+      }
+    });
+    return originalSend.apply(this, arguments);
+  };
+})();
+`;
@@ -312,12 +312,23 @@ export const SELECTION_SCRIPT = `
     return path.join(' > ');
   }
 
+  // Route of the previewed page - behind the proxy it lives in the path param
+  function getPagePath() {
+    if (proxyPrefix) {
+      return new URLSearchParams(window.location.search).get('path') || '/';
+    }
+    return window.location.pathname + window.location.search;
+  }
+
   // Capture element data and click position
   function captureElementData(element, clickEvent) {
     const rect = element.getBoundingClientRect();
+    const styles = window.getComputedStyle(element);
 
     return {
       selector: generateSelector(element),
+      fullPath: getFullPath(element),
+      pagePath: getPagePath(),
       tagName: element.tagName.toLowerCase(),
       className: element.className,
       id: element.id,
@@ -337,11 +348,26 @@ export const SELECTION_SCRIPT = `
         x: clickEvent.clientX,
         y: clickEvent.clientY,
       },
+      viewport: {
+        width: window.innerWidth,
+        height: window.innerHeight,
+        scrollX: window.scrollX,
+        scrollY: window.scrollY,
+      },
       computedStyles: {
-        backgroundColor: window.getComputedStyle(element).backgroundColor,
-        color: window.getComputedStyle(element).color,
-        fontSize: window.getComputedStyle(element).fontSize,
-        fontFamily: window.getComputedStyle(element).fontFamily,
+        backgroundColor: styles.backgroundColor,
+        color: styles.color,
+        fontSize: styles.fontSize,
+        fontFamily: styles.fontFamily,
+        fontWeight: styles.fontWeight,
+        lineHeight: styles.lineHeight,
+        display: styles.display,
+        width: styles.width,
+        height: styles.height,
+        padding: styles.padding,
+        margin: styles.margin,
+        border: styles.border,
+        borderRadius: styles.borderRadius,
       }
     };
   }
@@ -519,6 +545,11 @@ export function injectSelectionScript(
  */
 export { HMR_PROXY_SCRIPT } from './hmr-proxy-script';
 
+/**
+ * Re-export the browser error capture script for the preview proxies
+ */
+export { BROWSER_ERROR_SCRIPT, type BrowserError, type BrowserErrorKind } from './browser-error-script';
+
 /**
  * Toggle selection mode in iframe
  */
@@ -3,23 +3,56 @@
  *
  * Resolves model tags to provider and model using explicit mapping.
  * No parsing - just direct lookup from tag configuration.
+ *
+ * Third-party agents registered on runners add their own model options at
+ * runtime (see getAgentModelOptions); pass those as extraOptions.
  */
 
 import type { AgentId } from '../../types/agent';
-import type { ClaudeModelId } from '../../shared/runner/messages';
-import { findTagDefinition } from '../../config/tags';
+import type { ClaudeModelId, RunnerAgentInfo } from '../../shared/runner/messages';
+import { findTagDefinition, type TagOption } from '../../config/tags';
 
 export interface ParsedModel {
   agent: AgentId;
   claudeModel?: ClaudeModelId;
+  model?: string; // Model of a third-party agent
+}
+
+/**
+ * Model tag options for third-party agents advertised by runners.
+ * Agents that several runners advertise are listed once.
+ */
+export function getAgentModelOptions(agents: RunnerAgentInfo[]): TagOption[] {
+  const options = new Map<string, TagOption>();
+
+  for (const agent of agents) {
+    const models = agent.models.length > 0
+      ? agent.models
+      : [{ id: agent.id, label: agent.label, description: agent.description }];
+
+    for (const model of models) {
+      const value = `${agent.id}:${model.id}`;
+      if (options.has(value)) continue;
+      options.set(value, {
+        value,
+        label: model.label,
+        description: model.description ?? agent.description ?? `${agent.label} (runner agent)`,
+        provider: agent.id,
+        model: model.id,
+      });
+    }
+  }
+
+  return [...options.values()];
 }
 
 /**
  * Resolve a model tag value to agent and model using config mapping
  */
-export function parseModelTag(modelTagValue: string): ParsedModel {
+export function parseModelTag(modelTagValue: string, extraOptions: TagOption[] = []): ParsedModel {
   const modelDef = findTagDefinition('model');
-  const modelOption = modelDef?.options?.find(o => o.value === modelTagValue);
+  const builtInOption = modelDef?.options?.find(o => o.value === modelTagValue);
+  const modelOption = builtInOption ?? extraOptions.find(o => o.value === modelTagValue);
 
   if (!modelOption) {
     // Fallback to default
@@ -29,6 +62,13 @@ export function parseModelTag(modelTagValue: string): ParsedModel {
     };
   }
 
+  if (!builtInOption) {
+    return {
+      agent: modelOption.provider as AgentId,
+      model: modelOption.model,
+    };
+  }
+
   // Use explicit mapping from config
   return {
     agent: (modelOption.provider || 'claude-code') as AgentId,
@@ -18,10 +18,12 @@
 
 import { WebSocketServer, WebSocket } from 'ws';
 import type { Server } from 'http';
-import type { GenerationState } from '../../types/generation';
-import type { RunnerCommand, RunnerEvent, RunnerMessage } from '../../shared/runner/messages';
+import type { BuildScreenshots, BuildUsage, BuildVerification, GenerationState } from '../../types/generation';
+import type { RunnerCommand, RunnerEvent, RunnerMessage, RunnerStatusEvent } from '../../shared/runner/messages';
 import { isRunnerEvent } from '../../shared/runner/messages';
 import { publishRunnerEvent } from '../runner/event-stream';
+import { appendRunnerLog } from '../runner/log-store';
+import { publishFileWatchEvent } from '../runner/file-events';
 // NOTE: processGlobalRunnerEvent removed - DB writes now happen via HTTP from runner
 import * as Sentry from '@sentry/node';
 import { buildLogger } from '../logging/build-logger';
@@ -32,6 +34,8 @@ import { createHash } from 'node:crypto';
 import { httpProxyManager } from './http-proxy-manager';
 import { hmrProxyManager } from './hmr-proxy-manager';
 import { commandQueue } from '../runner/command-queue';
+import { createPostgresCommandQueueStore, isPersistentCommandQueueEnabled } from '../runner/command-queue-store';
+import { pickRunner } from '../runner/scheduler';
 
 interface ClientSubscription {
   ws: WebSocket;
@@ -47,6 +51,8 @@ interface RunnerConnection {
   lastHeartbeat: number;
   pingInterval: NodeJS.Timeout;
   userId?: string; // User who owns the runner key (undefined for shared secret auth)
+  status?: RunnerStatusEvent['payload']; // Latest runner-status heartbeat (load, active builds)
+  statusUpdatedAt?: number;
 }
 
 interface StateUpdateMessage {
@@ -147,7 +153,14 @@ class BuildWebSocketServer {
   /**
    * Initialize WebSocket server for both frontend clients and runners
    */
-  initialize(server: Server, path: string = '/ws') {
+  initialize(
+    server: Server,
+    path: string = '/ws',
+    options: {
+      // Rebuilds commands replayed from the durable queue (see command-queue-store.ts)
+      restoreQueuedCommand?: (command: RunnerCommand) => Promise<RunnerCommand>;
+    } = {}
+  ) {
     // Prevent multiple initializations (e.g., during HMR in dev mode)
     if (this.initialized) {
       buildLogger.log('debug', 'websocket', `Server already initialized (instance: ${this.instanceId}), skipping...`, { instanceId: this.instanceId });
@@ -221,6 +234,22 @@ class BuildWebSocketServer {
       return this.sendCommandToRunner(runnerId, command);
     });
 
+    // Restore commands queued before the last restart (durable backend only)
+    if (isPersistentCommandQueueEnabled()) {
+      commandQueue.enablePersistence(createPostgresCommandQueueStore({ restoreCommand: options.restoreQueuedCommand }))
+        .then((runnerIds) => {
+          // Runners that reconnected while we were loading won't trigger processQueue again
+          for (const runnerId of runnerIds) {
+            if (this.runnerConnections.has(runnerId)) {
+              commandQueue.processQueue(runnerId);
+            }
+          }
+        })
+        .catch((error) => {
+          buildLogger.websocket.error('Failed to restore persisted command queue', error);
+        });
+    }
+
     buildLogger.websocket.serverInitialized(path, '/ws/runner');
   }
 
@@ -392,10 +421,14 @@ class BuildWebSocketServer {
         if (isRunnerEvent(message)) {
           const event = message as RunnerEvent;
 
-          // Update heartbeat on runner-status events
+          // Update heartbeat and load info on runner-status events
           if (event.type === 'runner-status') {
             const conn = this.runnerConnections.get(runnerId);
-            if (conn) conn.lastHeartbeat = Date.now();
+            if (conn) {
+              conn.lastHeartbeat = Date.now();
+              conn.status = event.payload;
+              conn.statusUpdatedAt = conn.lastHeartbeat;
+            }
           }
 
           this.runnerTotalEvents++;
@@ -429,6 +462,9 @@ class BuildWebSocketServer {
       // Clean up running processes for this runner and update project statuses
       this.cleanupRunnerProcesses(runnerId);
 
+      // Move queued commands for new projects to another runner
+      this.failoverQueuedCommands(runnerId);
+
       Sentry.addBreadcrumb({
         category: 'websocket',
         message: `Runner disconnected: ${runnerId}`,
@@ -472,6 +508,23 @@ class BuildWebSocketServer {
       return;
     }
     
+    // Feed dev server output into the web-side log store for terminal streaming
+    // (log-chunk events are high volume and only travel over the WebSocket)
+    if (event.type === 'log-chunk' && event.projectId) {
+      appendRunnerLog(event.projectId, {
+        type: event.stream === 'stderr' ? 'stderr' : 'stdout',
+        data: event.data,
+        timestamp: new Date(event.timestamp ?? Date.now()),
+        cursor: event.cursor,
+      });
+    }
+
+    // File watch events only feed open editors
+    if (event.type === 'file-changed' || event.type === 'file-deleted') {
+      publishFileWatchEvent(event);
+      return;
+    }
+
     // Publish event to internal event stream
     // This triggers persistent-event-processor for WebSocket broadcasts
     // DB writes are handled by HTTP endpoints called directly from runner
@@ -488,13 +541,47 @@ class BuildWebSocketServer {
     options?: {
       ttlMs?: number;
       maxAttempts?: number;
+      failover?: boolean; // Allow routing to another runner if this one is (or goes) offline
+      userId?: string; // Restrict failover to this user's runners
       onSuccess?: () => void;
       onFailure?: (error: string) => void;
+      onReassigned?: (runnerId: string) => void;
     }
   ): { sent: boolean; queued: boolean } {
+    if (options?.failover && !this.isRunnerConnected(runnerId)) {
+      const selection = pickRunner(this.listRunnerConnections(), {
+        userId: options.userId,
+        excludeRunnerIds: [runnerId],
+        agentId: command.type === 'start-build' ? command.payload.agent : undefined,
+      });
+      if (selection) {
+        buildLogger.log('info', 'websocket', `Runner ${runnerId} offline - routing ${command.type} to ${selection.runnerId}`);
+        options.onReassigned?.(selection.runnerId);
+        return commandQueue.enqueue(selection.runnerId, command, options);
+      }
+    }
+
     return commandQueue.enqueue(runnerId, command, options);
   }
 
+  /**
+   * Fail over queued commands from a disconnected runner to the best remaining runner.
+   * Only commands queued with failover enabled move; the rest wait for the runner to return.
+   */
+  private failoverQueuedCommands(runnerId: string) {
+    const result = commandQueue.reassign(runnerId, (queued) =>
+      pickRunner(this.listRunnerConnections(), {
+        userId: queued.userId,
+        excludeRunnerIds: [runnerId],
+        agentId: queued.command.type === 'start-build' ? queued.command.payload.agent : undefined,
+      })?.runnerId ?? null
+    );
+
+    if (result.reassigned > 0) {
+      buildLogger.log('info', 'websocket', `Failed over queued commands from runner ${runnerId}`, result);
+    }
+  }
+
   /**
    * Send a command to a specific runner (immediate, no queueing)
    */
@@ -544,7 +631,14 @@ class BuildWebSocketServer {
    * List all connected runners with their status
    * @param userId - Optional user ID to filter runners (only show runners owned by this user)
    */
-  listRunnerConnections(userId?: string): Array<{ runnerId: string; lastHeartbeat: number; lastHeartbeatAge: number; userId?: string }> {
+  listRunnerConnections(userId?: string): Array<{
+    runnerId: string;
+    lastHeartbeat: number;
+    lastHeartbeatAge: number;
+    userId?: string;
+    status?: RunnerStatusEvent['payload'];
+    statusUpdatedAt?: number;
+  }> {
     const now = Date.now();
     let connections = Array.from(this.runnerConnections.values());
     
@@ -553,11 +647,13 @@ class BuildWebSocketServer {
       connections = connections.filter(conn => conn.userId === userId);
     }
     
-    return connections.map(({ id, lastHeartbeat, userId: connUserId }) => ({
+    return connections.map(({ id, lastHeartbeat, userId: connUserId, status, statusUpdatedAt }) => ({
       runnerId: id,
       lastHeartbeat,
       lastHeartbeatAge: now - lastHeartbeat,
       userId: connUserId,
+      status,
+      statusUpdatedAt,
     }));
   }
 
@@ -1108,6 +1204,81 @@ class BuildWebSocketServer {
     this.flushBatch(key);
   }
 
+  broadcastBuildVerification(
+    projectId: string,
+    sessionId: string,
+    verification: BuildVerification
+  ) {
+    const key = `${projectId}-${sessionId}`;
+
+    if (!this.pendingUpdates.has(key)) {
+      this.pendingUpdates.set(key, {
+        projectId,
+        sessionId,
+        updates: [],
+      });
+    }
+
+    const batch = this.pendingUpdates.get(key)!;
+    batch.updates.push({
+      type: 'build-verification',
+      data: verification,
+      timestamp: Date.now(),
+    });
+
+    this.flushBatch(key);
+  }
+
+  broadcastBuildScreenshots(
+    projectId: string,
+    sessionId: string,
+    screenshots: BuildScreenshots
+  ) {
+    const key = `${projectId}-${sessionId}`;
+
+    if (!this.pendingUpdates.has(key)) {
+      this.pendingUpdates.set(key, {
+        projectId,
+        sessionId,
+        updates: [],
+      });
+    }
+
+    const batch = this.pendingUpdates.get(key)!;
+    batch.updates.push({
+      type: 'build-screenshots',
+      data: screenshots,
+      timestamp: Date.now(),
+    });
+
+    this.flushBatch(key);
+  }
+
+  broadcastBuildUsage(
+    projectId: string,
+    sessionId: string,
+    usage: BuildUsage
+  ) {
+    const key = `${projectId}-${sessionId}`;
+
+    if (!this.pendingUpdates.has(key)) {
+      this.pendingUpdates.set(key, {
+        projectId,
+        sessionId,
+        updates: [],
+      });
+    }
+
+    const batch = this.pendingUpdates.get(key)!;
+    batch.updates.push({
+      type: 'build-usage',
+      data: usage,
+      timestamp: Date.now(),
+    });
+
+    this.flushBatch(key);
+  }
+
   /**
    * Process and send batched updates
    */
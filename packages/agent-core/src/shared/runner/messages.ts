@@ -1,6 +1,8 @@
 import type { AgentId as CoreAgentId, ClaudeModelId as CoreClaudeModelId } from '../../types/agent';
 import type { DesignPreferences } from '../../types/design';
 import type { AppliedTag } from '../../types/tags';
+import type { GitHubMeta } from '../../types/github';
+import type { BuildScreenshot, BuildScreenshots, BuildUsage, BuildVerification } from '../../types/generation';
 
 export type AgentId = CoreAgentId;
 export type ClaudeModelId = CoreClaudeModelId;
@@ -24,11 +26,19 @@ export type RunnerCommandType =
   | 'hmr-message'
   | 'hmr-disconnect'
   | 'github-sync'
-  | 'github-push';
+  | 'github-push'
+  | 'list-snapshots'
+  | 'restore-snapshot'
+  | 'diff-snapshots'
+  | 'export-project'
+  | 'import-project'
+  | 'export-build'
+  | 'import-source';
 
 export type RunnerEventType =
   | 'ack'
   | 'log-chunk'
+  | 'log-page'
   | 'port-detected'
   | 'port-conflict'
   | 'port-reallocated'
@@ -38,6 +48,10 @@ export type RunnerEventType =
   | 'build-progress'
   | 'build-completed'
   | 'build-summary'
+  | 'build-verification'
+  | 'build-screenshots'
+  | 'build-usage'
+  | 'claude-session'
   | 'build-failed'
   | 'build-cancelled'
   | 'runner-status'
@@ -49,6 +63,8 @@ export type RunnerEventType =
   | 'file-content'
   | 'file-written'
   | 'file-list'
+  | 'file-changed'
+  | 'file-deleted'
   | 'dev-server-error'
   | 'autofix-started'
   | 'http-proxy-response'
@@ -58,6 +74,15 @@ export type RunnerEventType =
   | 'hmr-message'
   | 'hmr-disconnected'
   | 'hmr-error'
+  | 'github-pushed'
+  | 'github-synced'
+  | 'snapshot-list'
+  | 'snapshot-restored'
+  | 'snapshot-diff'
+  | 'project-export-chunk'
+  | 'project-imported'
+  | 'build-export-chunk'
+  | 'source-imported'
   | 'error';
 
 export interface BaseCommand {
@@ -93,10 +118,20 @@ export interface AnalyzeProjectCommand {
   };
 }
 
+/**
+ * Per-build spending cap. The runner aborts the build once the agent's usage
+ * crosses either limit; null means no limit. Tokens are input + output tokens.
+ */
+export interface BuildBudget {
+  maxCostUsd: number | null;
+  maxTokens: number | null;
+}
+
 export interface StartBuildCommand extends BaseCommand {
   type: 'start-build';
   payload: {
     sessionId?: string; // Session ID for correlating events
+    buildId?: string; // generationSessions.buildId - the workspace is snapshotted under this ID before the build runs
     prompt: string;
     operationType: string;
     projectSlug: string;
@@ -106,7 +141,9 @@ export interface StartBuildCommand extends BaseCommand {
     regenerate?: boolean;
     agent?: AgentId;
     claudeModel?: ClaudeModelId;
+    agentModel?: string; // Model of a third-party agent from the runner's agent registry
     codexThreadId?: string; // For resuming Codex threads
+    claudeSessionId?: string; // Claude SDK session to resume - the runner falls back to conversationHistory when it has expired
     messageParts?: Array<{
       type: string;
       text?: string;
@@ -132,6 +169,9 @@ export interface StartBuildCommand extends BaseCommand {
     }>; // Recent conversation messages for context in enhancements
     isAutoFix?: boolean; // Flag for auto-fix sessions triggered by startup/runtime errors
     autoFixError?: string; // The error message that triggered the auto-fix
+    verifyBuild?: boolean; // Run the template's build + type-check after generation (runner default when omitted)
+    budget?: BuildBudget; // Spending cap for this build - no cap when omitted
+    envVarNames?: string[]; // Names of the project's configured env vars - values are never sent to the agent
   };
 }
 
@@ -176,7 +216,7 @@ export interface StopTunnelCommand extends BaseCommand {
 export interface FetchLogsCommand extends BaseCommand {
   type: 'fetch-logs';
   payload: {
-    cursor?: string;
+    cursor?: string; // Return entries older than this cursor; omit for the most recent page
     limit?: number;
   };
 }
@@ -270,6 +310,81 @@ export interface GithubPushCommand extends BaseCommand {
     repo: string; // owner/repo format
     commitMessage: string;
     branch?: string; // defaults to 'main'
+    visibility?: 'public' | 'private'; // used only when the repository has to be created, defaults to 'private'
+  };
+}
+
+// Snapshot Commands - workspace snapshots taken before each build, keyed by buildId
+export interface ListSnapshotsCommand extends BaseCommand {
+  type: 'list-snapshots';
+  payload: {
+    slug: string;
+  };
+}
+
+export interface RestoreSnapshotCommand extends BaseCommand {
+  type: 'restore-snapshot';
+  payload: {
+    slug: string;
+    buildId: string; // Restore the workspace to its state before this build
+  };
+}
+
+export interface DiffSnapshotsCommand extends BaseCommand {
+  type: 'diff-snapshots';
+  payload: {
+    slug: string;
+    from: string; // buildId of the base snapshot
+    to?: string; // buildId of the target snapshot, omit to diff against the current workspace
+    includePatch?: boolean;
+  };
+}
+
+// Project Transfer Commands - move a project's workspace between runners.
+// The source runner streams a tarball as project-export-chunk events and the
+// broker relays each chunk to the target runner as an import-project command.
+export interface ExportProjectCommand extends BaseCommand {
+  type: 'export-project';
+  payload: {
+    slug: string;
+    transferId: string;
+  };
+}
+
+export interface ImportProjectCommand extends BaseCommand {
+  type: 'import-project';
+  payload: {
+    slug: string;
+    transferId: string;
+    index: number; // Chunk sequence number, starting at 0
+    chunk: string; // Base64 encoded gzipped tar data
+    isFinal: boolean; // Extract and reply with project-imported after this chunk
+  };
+}
+
+// Production Export Command - build the project and stream a deployable
+// tarball (build output + generated Dockerfile) as build-export-chunk events
+export interface ExportBuildCommand extends BaseCommand {
+  type: 'export-build';
+  payload: {
+    slug: string;
+    exportId: string;
+    framework?: string | null; // Detected framework from the database, re-detected on the runner when missing
+  };
+}
+
+// Source Import Command - bring code that wasn't generated here into the
+// workspace, either by cloning a git repository or by adopting a directory
+// already on the runner's machine
+export type ImportSource =
+  | { type: 'git'; url: string; branch?: string }
+  | { type: 'directory'; path: string };
+
+export interface ImportSourceCommand extends BaseCommand {
+  type: 'import-source';
+  payload: {
+    slug: string;
+    source: ImportSource;
   };
 }
 
@@ -292,7 +407,14 @@ export type RunnerCommand =
   | HmrMessageCommand
   | HmrDisconnectCommand
   | GithubSyncCommand
-  | GithubPushCommand;
+  | GithubPushCommand
+  | ListSnapshotsCommand
+  | RestoreSnapshotCommand
+  | DiffSnapshotsCommand
+  | ExportProjectCommand
+  | ImportProjectCommand
+  | ExportBuildCommand
+  | ImportSourceCommand;
 
 export interface BaseEvent {
   type: RunnerEventType;
@@ -318,6 +440,19 @@ export interface LogChunkEvent extends BaseEvent {
   cursor: string;
 }
 
+export interface LogPageEntry {
+  cursor: string;
+  stream: 'stdout' | 'stderr';
+  data: string;
+  timestamp: string;
+}
+
+export interface LogPageEvent extends BaseEvent {
+  type: 'log-page';
+  entries: LogPageEntry[]; // Oldest first
+  nextCursor: string | null; // Cursor for the next (older) page, null when history is exhausted
+}
+
 export interface PortDetectedEvent extends BaseEvent {
   type: 'port-detected';
   port: number;
@@ -389,10 +524,53 @@ export interface BuildSummaryEvent extends BaseEvent {
   };
 }
 
+/**
+ * Result of running the project's build and type-check after the agent finished.
+ * Sent after the initial check and after every repair turn; the last one is final.
+ */
+export interface BuildVerificationEvent extends BaseEvent {
+  type: 'build-verification';
+  payload: BuildVerification;
+}
+
+export interface CapturedScreenshot extends BuildScreenshot {
+  image?: string; // Base64 JPEG
+  diffImage?: string; // Base64 JPEG with the pixels changed since the previous build highlighted
+}
+
+/**
+ * Screenshots of the running app, captured once the dev server passed its health check
+ */
+export interface BuildScreenshotsEvent extends BaseEvent {
+  type: 'build-screenshots';
+  payload: Omit<BuildScreenshots, 'shots'> & {
+    shots: CapturedScreenshot[];
+  };
+}
+
+/**
+ * Tokens and cost used by the agent, sent once before build-completed or build-failed
+ */
+export interface BuildUsageEvent extends BaseEvent {
+  type: 'build-usage';
+  payload: BuildUsage;
+}
+
+/**
+ * Claude SDK session of the build, so follow-up builds can resume it
+ */
+export interface ClaudeSessionEvent extends BaseEvent {
+  type: 'claude-session';
+  payload: {
+    claudeSessionId: string;
+  };
+}
+
 export interface BuildFailedEvent extends BaseEvent {
   type: 'build-failed';
   error: string;
   stack?: string;
+  failureReason?: 'budget-exceeded' | 'verification-failed'; // Set when the runner stopped the build itself
 }
 
 export interface BuildCancelledEvent extends BaseEvent {
@@ -404,6 +582,21 @@ export interface BuildCancelledEvent extends BaseEvent {
   };
 }
 
+/**
+ * A third-party agent loaded into a runner's agent registry, advertised in
+ * runner-status so the web app can offer its models in the model tag
+ */
+export interface RunnerAgentInfo {
+  id: string;
+  label: string;
+  description?: string;
+  models: Array<{
+    id: string;
+    label: string;
+    description?: string;
+  }>;
+}
+
 export interface RunnerStatusEvent extends BaseEvent {
   type: 'runner-status';
   payload: {
@@ -412,7 +605,10 @@ export interface RunnerStatusEvent extends BaseEvent {
     hostname: string;
     platform: string;
     uptimeSeconds: number;
-    load?: number;
+    load?: number; // 1-minute load average
+    cpuCount?: number; // Used to normalize load across machines
+    activeBuilds?: number; // Builds currently running on this runner
+    agents?: RunnerAgentInfo[]; // Third-party agents this runner can build with
   };
 }
 
@@ -484,6 +680,18 @@ export interface FileListEvent extends BaseEvent {
   }>;
 }
 
+// File watch events - emitted (debounced) while a project's directory is watched
+export interface FileChangedEvent extends BaseEvent {
+  type: 'file-changed';
+  path: string; // Relative to the project root, '/' separated
+  isDirectory: boolean;
+}
+
+export interface FileDeletedEvent extends BaseEvent {
+  type: 'file-deleted';
+  path: string;
+}
+
 export interface ErrorEvent extends BaseEvent {
   type: 'error';
   error: string;
@@ -552,9 +760,138 @@ export interface HmrErrorEvent extends BaseEvent {
   error: string;
 }
 
+// GitHub Integration Events - results of github-push / github-sync commands
+export interface GithubPushedEvent extends BaseEvent {
+  type: 'github-pushed';
+  payload: {
+    success: boolean;
+    repo: string; // owner/repo format
+    branch: string;
+    url?: string;
+    commitSha?: string;
+    filesChanged?: number;
+    repoCreated?: boolean; // true if the repository did not exist and was created
+    error?: string;
+    meta: GitHubMeta;
+  };
+}
+
+export interface GithubSyncedEvent extends BaseEvent {
+  type: 'github-synced';
+  payload: {
+    success: boolean;
+    repo: string; // owner/repo format
+    error?: string;
+    meta: GitHubMeta;
+  };
+}
+
+// Snapshot Events - results of list-snapshots / restore-snapshot / diff-snapshots
+export interface ProjectSnapshot {
+  buildId: string;
+  commitSha: string;
+  createdAt: string;
+  label: string;
+}
+
+export interface SnapshotDiffFile {
+  path: string;
+  status: 'added' | 'modified' | 'deleted' | 'renamed';
+  previousPath?: string; // Set for renames
+  additions: number | null; // null for binary files
+  deletions: number | null;
+}
+
+export interface SnapshotListEvent extends BaseEvent {
+  type: 'snapshot-list';
+  snapshots: ProjectSnapshot[]; // Newest first
+  error?: string;
+}
+
+export interface SnapshotRestoredEvent extends BaseEvent {
+  type: 'snapshot-restored';
+  payload: {
+    success: boolean;
+    buildId: string;
+    backupBuildId?: string; // Snapshot of the workspace taken right before restoring, so the restore can be undone
+    filesChanged?: number;
+    error?: string;
+  };
+}
+
+export interface SnapshotDiffEvent extends BaseEvent {
+  type: 'snapshot-diff';
+  from: string;
+  to: string | null; // null when diffed against the current workspace
+  files: SnapshotDiffFile[];
+  patch?: string;
+  patchTruncated?: boolean;
+  error?: string;
+}
+
+// Project Transfer Events
+export interface ProjectExportChunkEvent extends BaseEvent {
+  type: 'project-export-chunk';
+  transferId: string;
+  index: number;
+  chunk: string; // Base64 encoded chunk, same framing as HttpProxyChunkEvent
+  isFinal: boolean;
+  error?: string; // Set (with isFinal) when the export failed
+}
+
+export interface ProjectImportedEvent extends BaseEvent {
+  type: 'project-imported';
+  payload: {
+    success: boolean;
+    slug: string;
+    transferId: string;
+    path?: string; // Absolute project path on the target runner
+    bytes?: number;
+    dependenciesInstalled?: boolean;
+    error?: string;
+  };
+}
+
+// Production Export Events
+export interface BuildExportArtifact {
+  framework: string;
+  buildCommand: string | null;
+  outputDir: string | null; // null when the whole project is packaged (plain Node apps)
+  runtime: 'static' | 'node';
+}
+
+export interface BuildExportChunkEvent extends BaseEvent {
+  type: 'build-export-chunk';
+  exportId: string;
+  index: number;
+  chunk: string; // Base64 encoded chunk, same framing as ProjectExportChunkEvent
+  isFinal: boolean;
+  artifact?: BuildExportArtifact; // Set on the first chunk
+  error?: string; // Set (with isFinal) when the build or packaging failed
+  buildErrors?: string[]; // Errors extracted from the build output
+}
+
+export interface SourceImportedEvent extends BaseEvent {
+  type: 'source-imported';
+  payload: {
+    success: boolean;
+    slug: string;
+    path?: string; // Absolute project path on the runner
+    runCommand?: string;
+    projectType?: string;
+    port?: number;
+    detectedFramework?: string | null;
+    name?: string; // From package.json, when it has one
+    description?: string;
+    dependenciesInstalled?: boolean;
+    error?: string;
+  };
+}
+
 export type RunnerEvent =
   | AckEvent
   | LogChunkEvent
+  | LogPageEvent
   | PortDetectedEvent
   | PortConflictEvent
   | PortReallocatedEvent
@@ -564,6 +901,10 @@ export type RunnerEvent =
   | BuildProgressEvent
   | BuildCompletedEvent
   | BuildSummaryEvent
+  | BuildVerificationEvent
+  | BuildScreenshotsEvent
+  | BuildUsageEvent
+  | ClaudeSessionEvent
   | BuildFailedEvent
   | BuildCancelledEvent
   | RunnerStatusEvent
@@ -575,6 +916,8 @@ export type RunnerEvent =
   | FileContentEvent
   | FileWrittenEvent
   | FileListEvent
+  | FileChangedEvent
+  | FileDeletedEvent
   | DevServerErrorEvent
   | AutoFixStartedEvent
   | HttpProxyResponseEvent
@@ -584,6 +927,15 @@ export type RunnerEvent =
   | HmrMessageEvent
   | HmrDisconnectedEvent
   | HmrErrorEvent
+  | GithubPushedEvent
+  | GithubSyncedEvent
+  | SnapshotListEvent
+  | SnapshotRestoredEvent
+  | SnapshotDiffEvent
+  | ProjectExportChunkEvent
+  | ProjectImportedEvent
+  | BuildExportChunkEvent
+  | SourceImportedEvent
   | ErrorEvent;
 
 export type RunnerMessage = RunnerCommand | RunnerEvent;
@@ -608,6 +960,13 @@ const COMMAND_TYPES: RunnerCommandType[] = [
   'hmr-disconnect',
   'github-sync',
   'github-push',
+  'list-snapshots',
+  'restore-snapshot',
+  'diff-snapshots',
+  'export-project',
+  'import-project',
+  'export-build',
+  'import-source',
 ];
 
 export const isRunnerCommand = (message: RunnerMessage): message is RunnerCommand =>
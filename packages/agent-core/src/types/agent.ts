@@ -5,7 +5,16 @@
  */
 
 // Agent types - 'claude-code' is the default, 'opencode' enabled via OPENCODE_URL env var
-export type AgentId = 'claude-code' | 'opencode' | 'openai-codex';
+export type BuiltInAgentId = 'claude-code' | 'opencode' | 'openai-codex';
+
+// Third-party agents loaded into a runner's agent registry bring their own IDs
+export type AgentId = BuiltInAgentId | (string & {});
+
+export const BUILT_IN_AGENT_IDS: readonly BuiltInAgentId[] = ['claude-code', 'opencode', 'openai-codex'];
+
+export function isBuiltInAgentId(agentId: string): agentId is BuiltInAgentId {
+  return (BUILT_IN_AGENT_IDS as readonly string[]).includes(agentId);
+}
 
 export const DEFAULT_AGENT_ID: AgentId = 'claude-code';
 
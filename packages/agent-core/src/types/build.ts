@@ -43,6 +43,19 @@ export interface MessagePart {
   state?: string;
 }
 
+/**
+ * Element pinned in the preview for a batched focused edit
+ */
+export interface FocusedEditElement {
+  selector: string;
+  fullPath: string; // Tag path from <body>, e.g. "main > section:nth-of-type(2) > h2"
+  tagName: string;
+  prompt: string; // What to change on this element
+  boundingRect: { top: number; left: number; width: number; height: number }; // Relative to the viewport
+  viewport?: { width: number; height: number; scrollX: number; scrollY: number };
+  pagePath?: string; // Route the element was selected on
+}
+
 /**
  * Build request payload
  */
@@ -60,6 +73,7 @@ export interface BuildRequest {
   codexThreadId?: string; // For Codex thread resumption
   isAutoFix?: boolean; // Flag for auto-fix sessions triggered by startup/runtime errors
   autoFixError?: string; // The error message that triggered the auto-fix
+  verifyBuild?: boolean; // Run the build + type-check after generation and let the agent repair failures
   context?: {
     elementSelector?: string;
     elementInfo?: {
@@ -69,6 +83,7 @@ export interface BuildRequest {
       [key: string]: unknown;
     };
     previousBuildId?: string;
+    elements?: FocusedEditElement[]; // Batched focused edit - one change per element
   };
 }
 
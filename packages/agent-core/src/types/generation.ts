@@ -93,6 +93,61 @@ export interface CodexSessionState {
   lastUpdatedAt?: Date;
 }
 
+export interface BuildVerificationStep {
+  name: 'build' | 'typecheck';
+  command: string;
+  success: boolean;
+  errors: string[]; // Most relevant error lines from the command output
+  durationMs: number;
+  timedOut?: boolean;
+}
+
+export interface BuildVerification {
+  status: 'passed' | 'failed' | 'skipped';
+  attempt: number; // 0 = initial check, 1..maxRepairAttempts = after each repair turn
+  maxRepairAttempts: number;
+  steps: BuildVerificationStep[];
+  reason?: string; // Why verification was skipped
+}
+
+export type ScreenshotViewport = 'mobile' | 'tablet' | 'desktop';
+
+export interface BuildScreenshot {
+  route: string;
+  viewport: ScreenshotViewport;
+  width: number;
+  height: number;
+  blank: boolean; // Nothing rendered but a uniform background
+  overlay: string | null; // Dev server error overlay on the page ('next', 'vite' or 'webpack')
+  diffRatio: number | null; // Share of pixels changed since the previous build, null without a baseline
+  error?: string; // Why the capture failed
+}
+
+/**
+ * Screenshots of the running app taken after a build. Images are stored per
+ * session and fetched separately - this summary is what travels with the build state.
+ */
+export interface BuildScreenshots {
+  status: 'passed' | 'failed'; // failed = at least one blank page or error overlay
+  capturedAt: string;
+  shots: BuildScreenshot[];
+}
+
+/**
+ * Token and cost usage reported by the agent for one build, summed across
+ * repair turns. costUsd is null when the agent doesn't report a cost (Codex).
+ */
+export interface BuildUsage {
+  agent: AgentId;
+  model: string | null;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  costUsd: number | null;
+  turns: number;
+}
+
 export interface GenerationState {
   id: string; // Unique ID for this generation session
   projectId: string;
@@ -122,6 +177,9 @@ export interface GenerationState {
   currentPhase?: BuildPhase; // Current active phase
   templateTodos?: TodoItem[]; // Phase 1: Template configuration tasks
   activeTemplateTodoIndex?: number; // Active todo index for template phase
+  verification?: BuildVerification; // Latest build/type-check verification result
+  usage?: BuildUsage; // Tokens and cost used by the agent for this build
+  screenshots?: BuildScreenshots; // Screenshots of the running app after the build
 }
 
 export type GenerationEvent =